@@ -0,0 +1,249 @@
+/**
+ * ヘッドレス・シミュレーションランナー
+ * Next.js を起動せずに SimulationEngine を動かし、N日分のワールド時間を高速に進めてレポートを出力する。
+ * decayRates や actions の perMinute 値のバランス調整用。
+ *
+ * - 時間: 実時間の経過ではなく、手動のワールド時計を --step ずつ進めてティックを回す。
+ *   各ステップでそのティックが始めたLLM呼び出しの完了を待ってから次へ進む（LLMの応答速度で結果が変わらない）
+ * - 再現: --record-transcript でLLM応答を記録し、同じ --seed / --start-time / --step で
+ *   --replay-transcript を指定するとLLMを呼ばずに同じ行動履歴を再現できる
+ * - 永続化: MemoryStore（デフォルト）または一時 SqliteStore（data/state.db には触れない）
+ * - レポート: アクション回数・所持金推移・ステータス最小値・割り込み回数・会話
+ *
+ * Usage:
+ *   npx tsx scripts/simulate.ts [options]
+ *
+ * Options:
+ *   --days <n>              シミュレーションする日数（デフォルト: 1）
+ *   --step <seconds>        1ティックで進めるワールド時間（秒、デフォルト: 1）
+ *   --store <memory|sqlite> 永続化ストア（デフォルト: memory）
+ *   --world-config <path>   world-config.json のパス
+ *   --maps <path>           maps.json のパス
+ *   --characters <path>     characters.json のパス
+ *   --seed <n>              乱数シード（省略時はランダム。レポートに記録される）
+ *   --start-time <iso>      ワールド時計の開始時刻（省略時は現在時刻。レポートに記録される）
+ *   --record-transcript <path>  LLM応答をJSONLに記録する
+ *   --replay-transcript <path>  記録したJSONLからLLM応答を再生する（LLM_MODEL 不要）
+ *   --out <path>            レポートJSONの出力先（デフォルト: data/reports/simulation-<timestamp>.json）
+ *   --log-level <level>     エンジン・LLMのログレベル（debug|info|warn|error|silent、デフォルト: warn）
+ */
+import { config } from 'dotenv'
+config({ path: '.env.local' })
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { parseArgs } from 'util'
+import {
+  SimulationEngine,
+  SimulationReportCollector,
+  configureEngine,
+  formatSimulationReport,
+  loadWorldDataServer,
+} from '../src/server/simulation'
+import { MemoryStore, SqliteStore, type StateStore } from '../src/server/persistence'
+import {
+  initializeLLMClient,
+  initializeLLMErrorHandler,
+  initializeLLMScheduler,
+  initializeLLMTranscript,
+  isLLMAvailable,
+  waitForLLMIdle,
+} from '../src/server/llm'
+import { isLogLevel, setLogLevel, type LogLevel } from '../src/lib/logger'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const DEFAULT_STEP_SECONDS = 1
+
+interface RunnerOptions {
+  days: number
+  stepSeconds: number
+  store: 'memory' | 'sqlite'
+  worldConfig?: string
+  maps?: string
+  characters?: string
+  seed?: number
+  startTime?: number
+  recordTranscript?: string
+  replayTranscript?: string
+  out: string
+  logLevel: LogLevel
+}
+
+function parseOptions(): RunnerOptions {
+  const { values } = parseArgs({
+    options: {
+      days: { type: 'string', default: '1' },
+      step: { type: 'string', default: String(DEFAULT_STEP_SECONDS) },
+      store: { type: 'string', default: 'memory' },
+      'world-config': { type: 'string' },
+      maps: { type: 'string' },
+      characters: { type: 'string' },
+      seed: { type: 'string' },
+      'start-time': { type: 'string' },
+      'record-transcript': { type: 'string' },
+      'replay-transcript': { type: 'string' },
+      out: { type: 'string' },
+      'log-level': { type: 'string', default: 'warn' },
+    },
+  })
+
+  const days = Number(values.days)
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new Error(`Invalid --days: ${values.days}`)
+  }
+  const stepSeconds = Number(values.step)
+  if (!Number.isFinite(stepSeconds) || stepSeconds <= 0) {
+    throw new Error(`Invalid --step: ${values.step}`)
+  }
+  if (values.store !== 'memory' && values.store !== 'sqlite') {
+    throw new Error(`Invalid --store: ${values.store} (must be memory or sqlite)`)
+  }
+
+  const logLevel = values['log-level']
+  if (!isLogLevel(logLevel)) {
+    throw new Error(`Invalid --log-level: ${logLevel} (must be debug, info, warn, error or silent)`)
+  }
+
+  const seed = values.seed !== undefined ? Number(values.seed) : undefined
+  if (seed !== undefined && !Number.isFinite(seed)) {
+    throw new Error(`Invalid --seed: ${values.seed}`)
+  }
+
+  const startTime = values['start-time'] !== undefined ? Date.parse(values['start-time']) : undefined
+  if (startTime !== undefined && !Number.isFinite(startTime)) {
+    throw new Error(`Invalid --start-time: ${values['start-time']}`)
+  }
+  if (values['record-transcript'] && values['replay-transcript']) {
+    throw new Error('--record-transcript and --replay-transcript cannot be used together')
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+  return {
+    days,
+    stepSeconds,
+    store: values.store,
+    worldConfig: values['world-config'],
+    maps: values.maps,
+    characters: values.characters,
+    seed,
+    startTime,
+    recordTranscript: values['record-transcript'],
+    replayTranscript: values['replay-transcript'],
+    out: values.out ?? path.join('data', 'reports', `simulation-${timestamp}.json`),
+    logLevel,
+  }
+}
+
+async function createStore(kind: RunnerOptions['store']): Promise<{ store: StateStore; cleanup: () => Promise<void> }> {
+  if (kind === 'memory') {
+    return { store: new MemoryStore(), cleanup: async () => {} }
+  }
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-world-sim-'))
+  const store = new SqliteStore(path.join(dir, 'state.db'))
+  return {
+    store,
+    cleanup: () => fs.rm(dir, { recursive: true, force: true }),
+  }
+}
+
+// Runner output (always shown; engine and LLM logs follow --log-level)
+const log = console.log.bind(console)
+
+async function main() {
+  const options = parseOptions()
+  setLogLevel(options.logLevel)
+
+  const { maps, characters, config: worldConfig, npcBlockedNodes, npcs, defaultSchedules } = await loadWorldDataServer({
+    worldConfig: options.worldConfig,
+    maps: options.maps,
+    characters: options.characters,
+  })
+
+  initializeLLMClient()
+  initializeLLMTranscript({ record: options.recordTranscript, replay: options.replayTranscript })
+  initializeLLMErrorHandler(worldConfig.error)
+  initializeLLMScheduler(worldConfig.llmScheduler)
+  if (!isLLMAvailable()) {
+    console.error('LLM not available. Check LLM_MODEL and API key in .env.local.')
+    process.exit(1)
+  }
+
+  const { store, cleanup } = await createStore(options.store)
+  const engine = new SimulationEngine({ seed: options.seed, manualClock: true }, store)
+  const clock = engine.getWorldClock()
+  // The start time decides the starting hour, so a replay must use the recorded one
+  if (options.startTime !== undefined) {
+    clock.setNow(options.startTime)
+  }
+  const clockStart = new Date(clock.now()).toISOString()
+
+  await engine.initialize(
+    maps,
+    characters,
+    worldConfig.initialState.mapId,
+    npcBlockedNodes,
+    npcs,
+    worldConfig.time,
+    defaultSchedules
+  )
+  // Same config wiring and cache loading as the server (ensureEngineInitialized)
+  await configureEngine(engine, worldConfig)
+  await engine.recordCheckpoint('init')
+
+  const collector = new SimulationReportCollector({
+    days: options.days,
+    stepSeconds: options.stepSeconds,
+    store: options.store,
+    seed: engine.getRandomSeed(),
+    clockStart,
+  })
+  engine.subscribeToLogs(entry => collector.recordLog(entry))
+  engine.subscribeToInterrupts((characterId, statusType) => collector.recordInterrupt(characterId, statusType))
+
+  const endClockTime = clock.now() + options.days * MS_PER_DAY
+  const stepMs = options.stepSeconds * 1000
+  const realStart = Date.now()
+
+  log(`[Simulate] Running ${options.days} day(s) in ${options.stepSeconds}s steps (store=${options.store}, seed=${engine.getRandomSeed()}, start=${clockStart})`)
+
+  let lastLoggedDay = 0
+  engine.subscribe(state => {
+    collector.recordState(state)
+    if (state.time.day !== lastLoggedDay) {
+      lastLoggedDay = state.time.day
+      log(`[Simulate] Day ${state.time.day}`)
+    }
+  })
+  // Ctrl+C で途中までのレポートを出力して終了
+  let interrupted = false
+  process.once('SIGINT', () => {
+    log('[Simulate] Interrupted, writing partial report')
+    interrupted = true
+  })
+
+  engine.triggerInitialBehaviorDecisions()
+  await waitForLLMIdle()
+  // Each step fires due timers and runs one tick, then waits for the LLM calls they started
+  while (clock.now() < endClockTime && !interrupted) {
+    engine.advance(Math.min(stepMs, endClockTime - clock.now()))
+    await waitForLLMIdle()
+  }
+
+  const report = collector.build(Date.now() - realStart)
+
+  await fs.mkdir(path.dirname(options.out), { recursive: true })
+  await fs.writeFile(options.out, JSON.stringify(report, null, 2), 'utf-8')
+  log(formatSimulationReport(report))
+  log(`[Simulate] Report written to ${options.out}`)
+
+  await store.close()
+  await cleanup()
+  // Ctrl+C で中断した場合も進行中のLLM呼び出しを待たずに終了
+  process.exit(0)
+}
+
+main().catch(error => {
+  console.error('[Simulate] Failed:', error)
+  process.exit(1)
+})
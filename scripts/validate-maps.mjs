@@ -6,6 +6,7 @@
  * - spawnNodeIdの存在チェック
  * - 障害物タイプ（building/zone）のバリデーション
  * - ゾーン交差チェック（辺の共有はOK、内部の重なりはNG）
+ * - 施設タグのチェック（world-config.json の facilityTags に登録済みか、public タグの施設に owner がないか）
  *
  * Usage: node scripts/validate-maps.mjs
  */
@@ -17,8 +18,19 @@ import { dirname, join } from 'path'
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 const mapsPath = join(__dirname, '../public/data/maps.json')
+const worldConfigPath = join(__dirname, '../public/data/world-config.json')
+const builtinFacilityTagsPath = join(__dirname, '../src/data/facilityTags.json')
 
 const maps = JSON.parse(readFileSync(mapsPath, 'utf8')).maps
+const worldConfig = JSON.parse(readFileSync(worldConfigPath, 'utf8'))
+// Built-in facility tags (shared with src/lib/facilityMapping.ts DEFAULT_FACILITY_TAGS)
+const builtinFacilityTags = JSON.parse(readFileSync(builtinFacilityTagsPath, 'utf8'))
+
+// Facility tag registry: built-in tags merged with world-config.json facilityTags
+const facilityTagAccess = {}
+for (const [tag, config] of Object.entries({ ...builtinFacilityTags, ...worldConfig.facilityTags })) {
+  facilityTagAccess[tag] = config.access
+}
 
 let hasErrors = false
 
@@ -29,6 +41,13 @@ const MIN_ZONE_SIZE = 4
 // Valid wall sides
 const VALID_WALL_SIDES = ['top', 'bottom', 'left', 'right']
 
+// Weekdays for facility open hours (src/lib/calendarUtils.ts WEEKDAYS)
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// Stats for facility action effect overrides (src/lib/facilityModifiers.ts EFFECT_STATS)
+const EFFECT_STATS = ['satiety', 'energy', 'hygiene', 'mood', 'bladder']
+
 function tileToPixelObstacle(obs, cols, rows, width, height) {
   const spacingX = width / (cols + 1)
   const spacingY = height / (rows + 1)
@@ -261,6 +280,78 @@ for (const map of maps) {
     }
   }
 
+  // 7. Check facility tags against the facility tag registry
+  for (const obs of map.obstacles || []) {
+    if (!obs.facility) continue
+    for (const tag of obs.facility.tags || []) {
+      if (!(tag in facilityTagAccess)) {
+        errors.push(`❌ 障害物 "${obs.label}" の施設タグ "${tag}" は facilityTags に登録されていません`)
+      } else if (obs.facility.owner && facilityTagAccess[tag] === 'public') {
+        errors.push(`❌ 障害物 "${obs.label}" は owner "${obs.facility.owner}" を持つため public タグ "${tag}" は使えません`)
+      }
+    }
+  }
+
+  // 8. Check facility catalogs (unique entry IDs, items registered in world-config.json)
+  for (const obs of map.obstacles || []) {
+    const entryIds = new Set()
+    for (const entry of obs.facility?.catalog || []) {
+      if (entryIds.has(entry.id)) {
+        errors.push(`❌ 障害物 "${obs.label}" のカタログ項目ID "${entry.id}" が重複しています`)
+      }
+      entryIds.add(entry.id)
+      if (typeof entry.price !== 'number' || entry.price < 0) {
+        errors.push(`❌ 障害物 "${obs.label}" のカタログ項目 "${entry.id}" の価格が不正です`)
+      }
+      if (entry.itemId && !worldConfig.items?.[entry.itemId]) {
+        errors.push(`❌ 障害物 "${obs.label}" の商品 "${entry.itemId}" は items に登録されていません`)
+      }
+    }
+  }
+
+  // 9. Check facility capacity (positive integer)
+  for (const obs of map.obstacles || []) {
+    const capacity = obs.facility?.capacity
+    if (capacity !== undefined && (!Number.isInteger(capacity) || capacity < 1)) {
+      errors.push(`❌ 障害物 "${obs.label}" の定員 ${capacity} は1以上の整数である必要があります`)
+    }
+  }
+
+  // 10. Check facility open hours (HH:MM format, valid weekdays)
+  for (const obs of map.obstacles || []) {
+    const openHours = obs.facility?.openHours
+    if (!openHours) continue
+    const ranges = [['default', openHours], ...Object.entries(openHours.days || {})]
+    for (const [day, range] of ranges) {
+      if (day !== 'default' && !WEEKDAYS.includes(day)) {
+        errors.push(`❌ 障害物 "${obs.label}" の営業時間の曜日 "${day}" は不正です`)
+      }
+      if (range === null) continue
+      if (!TIME_PATTERN.test(range.start) || !TIME_PATTERN.test(range.end)) {
+        errors.push(`❌ 障害物 "${obs.label}" の営業時間 ${range.start}-${range.end} (${day}) は HH:MM 形式である必要があります`)
+      }
+    }
+  }
+
+  // 11. Check facility action effect overrides (perMinute / effects with known stats)
+  for (const obs of map.obstacles || []) {
+    const actionEffects = obs.facility?.actionEffects
+    if (!actionEffects) continue
+    for (const [actionId, override] of Object.entries(actionEffects)) {
+      for (const [kind, effects] of Object.entries(override)) {
+        if (kind !== 'perMinute' && kind !== 'effects') {
+          errors.push(`❌ 障害物 "${obs.label}" の ${actionId} の効果種別 "${kind}" は不正です（perMinute / effects）`)
+          continue
+        }
+        for (const [stat, value] of Object.entries(effects || {})) {
+          if (!EFFECT_STATS.includes(stat) || typeof value !== 'number') {
+            errors.push(`❌ 障害物 "${obs.label}" の ${actionId} の効果 "${stat}" は不正です`)
+          }
+        }
+      }
+    }
+  }
+
   // Print results
   if (errors.length > 0 || warnings.length > 0) {
     console.log(`=== ${map.id} (${map.name}) ===`)
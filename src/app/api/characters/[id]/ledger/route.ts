@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { ensureEngineInitialized } from '@/server/simulation'
+
+export const dynamic = 'force-dynamic'
+
+// GET - Character transaction ledger and recurring expenses (?day=N to filter by day, ?limit=N for the latest N entries)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const searchParams = new URL(request.url).searchParams
+    const day = searchParams.has('day') ? Number(searchParams.get('day')) : undefined
+    const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : undefined
+
+    if ((day !== undefined && (!Number.isInteger(day) || day < 1)) ||
+        (limit !== undefined && (!Number.isInteger(limit) || limit < 1))) {
+      return NextResponse.json(
+        { success: false, error: 'day and limit must be positive integers' },
+        { status: 400 }
+      )
+    }
+
+    const engine = await ensureEngineInitialized('[API]')
+    const ledger = await engine.getCharacterLedger(id, { day, limit })
+
+    if (!ledger) {
+      return NextResponse.json(
+        { success: false, error: 'Character not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      characterId: id,
+      ...ledger,
+    })
+  } catch (error) {
+    console.error('[API] Error loading ledger:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load ledger' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { ensureEngineInitialized } from '@/server/simulation'
+
+export const dynamic = 'force-dynamic'
+
+// GET - Character pending wages and attendance (?fromDay=N for attendance from day N)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const searchParams = new URL(request.url).searchParams
+    const fromDay = searchParams.has('fromDay') ? Number(searchParams.get('fromDay')) : undefined
+
+    if (fromDay !== undefined && (!Number.isInteger(fromDay) || fromDay < 1)) {
+      return NextResponse.json(
+        { success: false, error: 'fromDay must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    const engine = await ensureEngineInitialized('[API]')
+    const payroll = await engine.getCharacterPayroll(id, fromDay)
+
+    if (!payroll) {
+      return NextResponse.json(
+        { success: false, error: 'Character not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      characterId: id,
+      ...payroll,
+    })
+  } catch (error) {
+    console.error('[API] Error loading payroll:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load payroll' },
+      { status: 500 }
+    )
+  }
+}
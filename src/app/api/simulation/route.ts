@@ -4,13 +4,20 @@ import {
   ensureEngineInitialized,
   type SerializedWorldState,
 } from '@/server/simulation'
+import { getLLMScheduler } from '@/server/llm'
 
 // Request validation schema
-const ALLOWED_ACTIONS = ['pause', 'unpause', 'toggle', 'start', 'stop'] as const
+const ALLOWED_ACTIONS = ['pause', 'unpause', 'toggle', 'start', 'stop', 'setTimeScale', 'cancelAction'] as const
 const SimulationActionSchema = z.object({
   action: z.enum(ALLOWED_ACTIONS, {
-    message: 'Invalid action. Must be one of: pause, unpause, toggle, start, stop',
+    message: 'Invalid action. Must be one of: pause, unpause, toggle, start, stop, setTimeScale, cancelAction',
   }),
+  timeScale: z.number().positive().max(3600).optional(),
+  characterId: z.string().min(1).optional(),
+}).refine(data => data.action !== 'setTimeScale' || data.timeScale !== undefined, {
+  message: 'timeScale is required for setTimeScale',
+}).refine(data => data.action !== 'cancelAction' || data.characterId !== undefined, {
+  message: 'characterId is required for cancelAction',
 })
 
 // GET - Get current simulation state
@@ -24,9 +31,11 @@ export async function GET() {
       state,
       meta: {
         tickRate: engine.getTickRate(),
+        timeScale: engine.getTimeScale(),
         isPaused: engine.isPaused(),
         isRunning: engine.isSimulationRunning(),
         subscriberCount: engine.getSubscriberCount(),
+        llmQueue: getLLMScheduler().getMetrics(),
       },
     })
   } catch (error) {
@@ -63,7 +72,7 @@ export async function POST(request: Request) {
       )
     }
 
-    const { action } = validation.data
+    const { action, timeScale, characterId } = validation.data
     const engine = await ensureEngineInitialized('[API]')
 
     switch (action) {
@@ -82,12 +91,24 @@ export async function POST(request: Request) {
       case 'stop':
         engine.stop()
         break
+      case 'setTimeScale':
+        engine.setTimeScale(timeScale!)
+        break
+      case 'cancelAction':
+        if (!engine.cancelCharacterAction(characterId!, 'user')) {
+          return NextResponse.json(
+            { success: false, error: 'No cancellable action for character' },
+            { status: 409 }
+          )
+        }
+        break
     }
 
     return NextResponse.json({
       success: true,
       isPaused: engine.isPaused(),
       isRunning: engine.isSimulationRunning(),
+      timeScale: engine.getTimeScale(),
     })
   } catch (error) {
     console.error('[API] Error controlling simulation:', error)
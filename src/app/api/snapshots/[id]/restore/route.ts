@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { ensureEngineInitialized } from '@/server/simulation'
+
+// POST - Restore a snapshot (replaces the current world without server restart)
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const engine = await ensureEngineInitialized('[API]')
+    const restored = await engine.restoreSnapshot(id)
+
+    if (!restored) {
+      return NextResponse.json(
+        { success: false, error: 'Snapshot not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      state: engine.getState(),
+    })
+  } catch (error) {
+    console.error('[API] Error restoring snapshot:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore snapshot' },
+      { status: 500 }
+    )
+  }
+}
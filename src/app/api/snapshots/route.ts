@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ensureEngineInitialized } from '@/server/simulation'
+
+// Request validation schema
+const CreateSnapshotSchema = z.object({
+  name: z.string().trim().min(1, { message: 'name is required' }).max(100),
+})
+
+// GET - List saved snapshots
+export async function GET() {
+  try {
+    const engine = await ensureEngineInitialized('[API]')
+    const snapshots = await engine.listSnapshots()
+
+    return NextResponse.json({ success: true, snapshots })
+  } catch (error) {
+    console.error('[API] Error listing snapshots:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list snapshots' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Save a named snapshot of the current world
+export async function POST(request: Request) {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const validation = CreateSnapshotSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error.issues[0]?.message ?? 'Invalid request',
+        },
+        { status: 400 }
+      )
+    }
+
+    const engine = await ensureEngineInitialized('[API]')
+    const snapshot = await engine.createSnapshot(validation.data.name)
+
+    return NextResponse.json({ success: true, snapshot })
+  } catch (error) {
+    console.error('[API] Error creating snapshot:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create snapshot' },
+      { status: 500 }
+    )
+  }
+}
@@ -20,6 +20,7 @@ type CharacterState = {
   current_node_id: string | null;
   sprite: string | null;
   employment: string | null;
+  payroll: string | null;
 };
 
 type WorldTime = {
@@ -363,6 +364,11 @@ export default function LogViewer() {
                 <div className="grid grid-cols-[repeat(auto-fit,minmax(300px,1fr))] gap-5">
                   {characters.map((c) => {
                     const employment = parseJson(c.employment);
+                    // 旧形式は単一の雇用オブジェクト
+                    const employments: { jobId: string; workplaces: { workplaceLabel: string }[] }[] =
+                      employment ? [employment].flat() : [];
+                    const payroll: Record<string, { pendingWage: number }> = parseJson(c.payroll) ?? {};
+                    const pendingWage = Object.values(payroll).reduce((sum, p) => sum + p.pendingWage, 0);
                     return (
                       <div
                         key={c.id}
@@ -376,8 +382,8 @@ export default function LogViewer() {
                             <h3 className="text-[#6dd5ed] mb-1">{c.name}</h3>
                             <p className="text-gray-500 text-xs">ID: {c.id}</p>
                             <p className="text-gray-500 text-xs">
-                              {employment?.job || '無職'} @{' '}
-                              {employment?.workplace || '-'}
+                              {employments.map((e) => e.jobId).join(', ') || '無職'} @{' '}
+                              {employments.flatMap((e) => e.workplaces.map((w) => w.workplaceLabel)).join(', ') || '-'}
                             </p>
                           </div>
                         </div>
@@ -391,6 +397,10 @@ export default function LogViewer() {
                             <span className="text-gray-500 text-sm">所持金</span>
                             <span className="font-medium">¥{c.money ?? 0}</span>
                           </div>
+                          <div className="flex justify-between items-center">
+                            <span className="text-gray-500 text-sm">未払い給与</span>
+                            <span className="font-medium">¥{pendingWage}</span>
+                          </div>
                           <div className="flex justify-between items-center">
                             <span className="text-gray-500 text-sm">現在地</span>
                             <span className="font-medium">
@@ -407,6 +417,10 @@ export default function LogViewer() {
                           title="雇用情報"
                           data={c.employment}
                         />
+                        <JsonSection
+                          title="給与・勤怠"
+                          data={c.payroll}
+                        />
                       </div>
                     );
                   })}
@@ -2,7 +2,8 @@
 
 import { useEffect, useRef } from 'react'
 import { useActivityLogStore } from '@/stores'
-import type { ActivityLogEntry, ActionLogEntry, ConversationLogEntry, ConversationMessageLogEntry, MiniEpisodeLogEntry } from '@/types'
+import { getCustomActionDisplay } from '@/lib/worldConfigLoader'
+import type { ActivityLogEntry, ActionLogEntry, ActionCancelReason, ConversationLogEntry, ConversationMessageLogEntry, MiniEpisodeLogEntry, Receipt } from '@/types'
 
 const ACTION_LABELS: Record<string, string> = {
   eat: '食事',
@@ -12,13 +13,26 @@ const ACTION_LABELS: Record<string, string> = {
   work: '仕事',
   toilet: 'トイレ',
   talk: '会話',
+  buy: '買い物',
   thinking: '思考中',
   move: '移動',
   idle: '待機',
 }
 
+const CANCEL_REASON_LABELS: Record<ActionCancelReason, string> = {
+  interrupt: '割り込み',
+  closing: '閉店',
+  user: 'ユーザー操作',
+  conversation: '会話',
+}
+
 function getActionLabel(actionId: string): string {
-  return ACTION_LABELS[actionId] ?? actionId
+  return ACTION_LABELS[actionId] ?? getCustomActionDisplay(actionId)?.label ?? actionId
+}
+
+// レシート表示: 🧾 日替わり定食 800円
+function ReceiptNote({ receipt }: { receipt: Receipt }) {
+  return <span className="text-amber-300"> 🧾 {receipt.label} {receipt.price}円</span>
 }
 
 function ActionLogLine({ entry }: { entry: ActionLogEntry }) {
@@ -38,6 +52,26 @@ function ActionLogLine({ entry }: { entry: ActionLogEntry }) {
           <span className="text-slate-500"> (予定{entry.durationMinutes}分)</span>
         )}
         {entry.reason && <span className="text-slate-500">: {entry.reason}</span>}
+        {entry.receipt && <ReceiptNote receipt={entry.receipt} />}
+      </div>
+    )
+  }
+
+  if (entry.status === 'cancelled') {
+    // 中断表示: [10:20] 花子 - ■ 食事中断（閉店） @ レストラン (20分)
+    return (
+      <div className="text-sm text-slate-300 py-0.5">
+        <span className="text-slate-500">[{entry.time}]</span>{' '}
+        <span className="text-blue-300 font-medium">{entry.characterName}</span>{' '}
+        <span className="text-orange-400">■</span>{' '}
+        <span className="text-slate-400">{actionLabel}中断</span>
+        {entry.cancelReason && (
+          <span className="text-orange-300">（{CANCEL_REASON_LABELS[entry.cancelReason]}）</span>
+        )}
+        {entry.target && <span className="text-slate-500"> @ {entry.target}</span>}
+        {entry.durationMinutes !== undefined && (
+          <span className="text-slate-500"> ({entry.durationMinutes}分)</span>
+        )}
       </div>
     )
   }
@@ -53,6 +87,7 @@ function ActionLogLine({ entry }: { entry: ActionLogEntry }) {
       {entry.durationMinutes !== undefined && (
         <span className="text-slate-500"> ({entry.durationMinutes}分)</span>
       )}
+      {entry.receipt && <ReceiptNote receipt={entry.receipt} />}
     </div>
   )
 }
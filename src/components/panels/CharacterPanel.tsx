@@ -1,10 +1,15 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { useWorldStore, useCharacterStore } from '@/stores'
 import { getMaps } from '@/data/maps'
-import type { ActionId } from '@/types/action'
+import { getCustomActionDisplay, getItemDisplay, getSkillsConfig } from '@/lib/worldConfigLoader'
+import { getSkillSummaries } from '@/lib/skillUtils'
+import type { BuiltinActionId } from '@/types/action'
+import type { PlanStep, PlanStepType } from '@/types/behavior'
+import type { PaydaySchedule, PayrollSummary } from '@/types/job'
 
-const ACTION_LABELS: Record<ActionId, string> = {
+const ACTION_LABELS: Record<BuiltinActionId, string> = {
   eat: '🍽️ 食事中',
   sleep: '💤 睡眠中',
   toilet: '🚻 トイレ中',
@@ -12,9 +17,53 @@ const ACTION_LABELS: Record<ActionId, string> = {
   rest: '☕ 休憩中',
   talk: '💬 会話中',
   work: '💼 仕事中',
+  buy: '🛍️ 買い物中',
   thinking: '🤔 考え中',
 }
 
+function getActionLabel(actionId: string): string {
+  const label = ACTION_LABELS[actionId as BuiltinActionId]
+  if (label) return label
+  // カスタムアクション（world-config.json の actions セクション）
+  const custom = getCustomActionDisplay(actionId)
+  if (custom) return custom.emoji ? `${custom.emoji} ${custom.label}中` : `${custom.label}中`
+  return actionId
+}
+
+function getItemLabel(itemId: string): string {
+  const item = getItemDisplay(itemId)
+  if (!item) return itemId
+  return item.emoji ? `${item.emoji} ${item.name}` : item.name
+}
+
+const PLAN_STEP_ICONS: Record<PlanStepType, string> = {
+  move: '🚶',
+  action: '▶️',
+  talk: '💬',
+}
+
+function formatPlanStep(step: PlanStep): string {
+  if (step.type === 'move') {
+    const mapName = step.targetMapId ? getMaps()[step.targetMapId]?.name ?? step.targetMapId : ''
+    return `${mapName}へ移動`
+  }
+  const target = step.targetFacilityId ?? step.targetNpcId
+  const action = step.actionId ?? step.type
+  return target ? `${action} @ ${target}` : action
+}
+
+const PAYDAY_LABELS: Record<PaydaySchedule, string> = {
+  shift: '勤務終了時',
+  daily: '毎日',
+  weekly: '毎週',
+}
+
+function formatNextPayday(payroll: PayrollSummary, currentDay: number): string {
+  if (payroll.nextPayday === null) return PAYDAY_LABELS[payroll.payday]
+  const days = payroll.nextPayday - currentDay
+  return `${PAYDAY_LABELS[payroll.payday]}（${days === 1 ? '明日' : `${days}日後`}）`
+}
+
 const STAT_LABELS: Record<string, { label: string; color: string }> = {
   satiety: { label: '満腹', color: 'bg-orange-500' },
   energy: { label: '体力', color: 'bg-green-500' },
@@ -54,11 +103,37 @@ export function CharacterPanel(): React.ReactNode {
   const currentMapId = useWorldStore((s) => s.currentMapId)
   const mapsLoaded = useWorldStore((s) => s.mapsLoaded)
   const serverCharacters = useWorldStore((s) => s.serverCharacters)
+  const currentDay = useWorldStore((s) => s.time.day)
   const activeCharacter = useCharacterStore((s) => s.getActiveCharacter())
+  const [payroll, setPayroll] = useState<PayrollSummary[]>([])
 
   const currentMap = mapsLoaded ? getMaps()[currentMapId] : null
   const serverChar = activeCharacter ? serverCharacters[activeCharacter.id] : null
+  const characterId = activeCharacter?.id
+  const serverPayroll = serverChar?.payroll
+  const employments = serverChar?.employments
+
+  // Refetch when wages, attendance or employment change (job details live on the server)
+  useEffect(() => {
+    if (!characterId) return
+    let cancelled = false
+    fetch(`/api/characters/${characterId}/payroll`)
+      .then((res) => res.json())
+      .then((data: { success: boolean; payroll?: PayrollSummary[] }) => {
+        if (!cancelled && data.success) setPayroll(data.payroll ?? [])
+      })
+      .catch((err) => {
+        console.error('[CharacterPanel] Failed to fetch payroll:', err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [characterId, serverPayroll, employments, currentDay])
   const currentAction = serverChar?.currentAction
+  const inventory = serverChar?.inventory ?? []
+  const plan = serverChar?.plan
+  const skillsConfig = getSkillsConfig()
+  const skills = skillsConfig ? getSkillSummaries(serverChar?.skills, skillsConfig) : []
 
   if (!activeCharacter) {
     return (
@@ -90,12 +165,72 @@ export function CharacterPanel(): React.ReactNode {
         ))}
       </div>
 
+      {/* 所持金・仕事 */}
+      <div className="p-3 border-b border-slate-700">
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-400 text-xs">所持金</span>
+          <span className="text-slate-300">¥{(serverChar?.money ?? activeCharacter.money).toLocaleString()}</span>
+        </div>
+        {payroll.length > 0 ? (
+          <ul className="text-slate-300 text-sm space-y-1 mt-1">
+            {payroll.map((job) => (
+              <li key={job.jobId}>
+                <p>💼 {job.title}</p>
+                <p className="text-slate-400 text-xs">
+                  未払い給与 ¥{job.pendingWage.toLocaleString()} ・ 給料日 {formatNextPayday(job, currentDay)}
+                </p>
+                <p className="text-slate-400 text-xs">
+                  今日の勤務 {job.hoursWorkedToday.toFixed(1)}{job.expectedHours !== null ? `/${job.expectedHours}` : ''}時間
+                  {job.consecutiveAbsences > 0 && ` ・ 連続欠勤 ${job.consecutiveAbsences}日`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-slate-500 text-sm mt-1">無職</p>
+        )}
+      </div>
+
+      {/* 所持品 */}
+      <div className="p-3 border-b border-slate-700">
+        <p className="text-slate-400 text-xs mb-1">所持品</p>
+        {inventory.length > 0 ? (
+          <ul className="text-slate-300 text-sm space-y-0.5">
+            {inventory.map((item) => (
+              <li key={item.itemId} className="flex justify-between">
+                <span>{getItemLabel(item.itemId)}</span>
+                <span className="text-slate-400">×{item.quantity}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-slate-500 text-sm">なし</p>
+        )}
+      </div>
+
+      {/* スキル */}
+      {skills.length > 0 && (
+        <div className="p-3 border-b border-slate-700">
+          <p className="text-slate-400 text-xs mb-1">スキル</p>
+          <ul className="text-slate-300 text-sm space-y-0.5">
+            {skills.map((skill) => (
+              <li key={skill.id} className="flex justify-between">
+                <span>{skill.label}</span>
+                <span className="text-slate-400" title={`経験値 ${Math.floor(skill.experience)}${skill.nextLevelExperience !== null ? `/${skill.nextLevelExperience}` : ''}`}>
+                  Lv{skill.level}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* 現在の行動 */}
       <div className="p-3">
         {currentAction ? (
           <div>
             <p className="text-slate-100 font-medium">
-              {ACTION_LABELS[currentAction.actionId] || currentAction.actionId}
+              {getActionLabel(currentAction.actionId)}
             </p>
             {currentAction.actionId !== 'talk' && (
               <p className="text-slate-400 text-sm">
@@ -107,6 +242,20 @@ export function CharacterPanel(): React.ReactNode {
           <p className="text-slate-500 text-sm">待機中</p>
         )}
       </div>
+
+      {/* 行動計画（残りのステップ） */}
+      {plan && plan.steps.length > 0 && (
+        <div className="p-3 border-t border-slate-700">
+          <p className="text-slate-400 text-xs mb-1">予定: {plan.goal}</p>
+          <ol className="text-slate-300 text-sm space-y-0.5">
+            {plan.steps.map((step, index) => (
+              <li key={index} title={step.reason}>
+                {PLAN_STEP_ICONS[step.type]} {formatPlanStep(step)}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
     </div>
   )
 }
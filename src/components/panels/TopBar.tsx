@@ -1,6 +1,7 @@
 'use client'
 
 import { useWorldStore, useCharacterStore } from '@/stores'
+import { SEASON_LABELS, WEATHER_LABELS, WEATHER_EMOJI } from '@/lib/weatherUtils'
 
 function formatTime(hour: number, minute: number): string {
   const hh = hour.toString().padStart(2, '0')
@@ -10,6 +11,7 @@ function formatTime(hour: number, minute: number): string {
 
 export function TopBar(): React.ReactNode {
   const time = useWorldStore((s) => s.time)
+  const weather = useWorldStore((s) => s.weather)
   const activeCharacter = useCharacterStore((s) => s.getActiveCharacter())
 
   return (
@@ -18,6 +20,11 @@ export function TopBar(): React.ReactNode {
         <span className="text-slate-400">📅</span>
         <span className="font-medium">{time.day}日目</span>
         <span className="font-mono text-lg">{formatTime(time.hour, time.minute)}</span>
+        {weather && (
+          <span className="ml-2 text-sm text-slate-300" title={WEATHER_LABELS[weather.weather]}>
+            {WEATHER_EMOJI[weather.weather]} {SEASON_LABELS[weather.season]} {weather.temperature}℃
+          </span>
+        )}
       </div>
       <div className="flex items-center gap-2">
         <span className="text-slate-400">💰</span>
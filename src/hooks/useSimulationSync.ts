@@ -74,6 +74,7 @@ export function useSimulationSync(options: UseSimulationSyncOptions = {}) {
 
   const setCurrentMap = useWorldStore((s) => s.setCurrentMap)
   const setTime = useWorldStore((s) => s.setTime)
+  const setWeather = useWorldStore((s) => s.setWeather)
   const setServerCharacters = useWorldStore((s) => s.setServerCharacters)
 
   const updateNPC = useNPCStore((s) => s.updateNPC)
@@ -84,6 +85,7 @@ export function useSimulationSync(options: UseSimulationSyncOptions = {}) {
     // Update world state
     setCurrentMap(worldState.currentMapId)
     setTime(worldState.time)
+    setWeather(worldState.weather ?? null)
 
     // Check for day change and clear activity logs if needed
     useActivityLogStore.getState().clearIfDayChanged(worldState.time.day)
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { formatCalendarDay, formatTownEvent } from './calendarUtils'
+import type { TownEventInfo } from '@/types'
+
+const event: TownEventInfo = {
+  id: 'festival',
+  name: '夏祭り',
+  day: 3,
+  mapId: 'park',
+  startTime: '14:00',
+  endTime: '18:00',
+  status: 'upcoming',
+}
+
+describe('calendarUtils', () => {
+  describe('formatCalendarDay', () => {
+    it('should format weekdays', () => {
+      expect(formatCalendarDay({ day: 1, weekday: 'mon', isHoliday: false })).toBe('1日目（月）')
+    })
+
+    it('should mark rest days and named holidays', () => {
+      expect(formatCalendarDay({ day: 7, weekday: 'sun', isHoliday: true })).toBe('7日目（日・休日）')
+      expect(formatCalendarDay({ day: 6, weekday: 'sat', isHoliday: true, holidayName: '桜木町の日' }))
+        .toBe('6日目（土・祝日: 桜木町の日）')
+    })
+  })
+
+  describe('formatTownEvent', () => {
+    it('should label events by status and day', () => {
+      expect(formatTownEvent({ ...event, status: 'active' }, 3)).toBe('- [開催中] 夏祭り 14:00-18:00 @park')
+      expect(formatTownEvent(event, 3)).toBe('- [今日] 夏祭り 14:00-18:00 @park')
+      expect(formatTownEvent(event, 1)).toBe('- [3日目] 夏祭り 14:00-18:00 @park')
+    })
+
+    it('should include facility and description', () => {
+      expect(formatTownEvent({ ...event, facilityId: 'stage', description: '屋台が並ぶ' }, 1))
+        .toBe('- [3日目] 夏祭り 14:00-18:00 @park / stage（屋台が並ぶ）')
+    })
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * カレンダー関連のユーティリティ関数（クライアント・サーバー共通）
+ */
+
+import type { CalendarDay, TownEventInfo, Weekday } from '@/types'
+
+export const WEEKDAYS: readonly Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: '月',
+  tue: '火',
+  wed: '水',
+  thu: '木',
+  fri: '金',
+  sat: '土',
+  sun: '日',
+}
+
+/**
+ * カレンダー情報を "3日目（土・休日）" 形式の文字列にフォーマット
+ */
+export function formatCalendarDay(calendarDay: CalendarDay): string {
+  const labels = [WEEKDAY_LABELS[calendarDay.weekday]]
+  if (calendarDay.holidayName) {
+    labels.push(`祝日: ${calendarDay.holidayName}`)
+  } else if (calendarDay.isHoliday) {
+    labels.push('休日')
+  }
+  return `${calendarDay.day}日目（${labels.join('・')}）`
+}
+
+/**
+ * イベントを "[開催中] 公園フェスティバル 14:00-18:00 @park" 形式の文字列にフォーマット
+ */
+export function formatTownEvent(event: TownEventInfo, today: number): string {
+  const status = event.status === 'active'
+    ? '開催中'
+    : event.day === today ? '今日' : `${event.day}日目`
+  const place = event.facilityId ? `${event.mapId} / ${event.facilityId}` : event.mapId
+  let line = `- [${status}] ${event.name} ${event.startTime}-${event.endTime} @${place}`
+  if (event.description) line += `（${event.description}）`
+  return line
+}
@@ -218,6 +218,38 @@ describe('characterLoader', () => {
     })
 
     it('should include employment if provided', () => {
+      const config: CharacterConfig = {
+        id: 'test-char',
+        name: 'Worker',
+        sprite: { sheetUrl: 'test.png', frameWidth: 96, frameHeight: 96, cols: 3, rows: 4, rowMapping: { down: 0, left: 1, right: 2, up: 3 } },
+        defaultStats: {
+          money: 500,
+          satiety: 50,
+          energy: 50,
+          hygiene: 50,
+          mood: 50,
+          bladder: 50,
+        },
+        employments: [{
+          jobId: 'barista',
+          workplaces: [{ workplaceLabel: 'カフェカウンター', mapId: 'cafe' }],
+        }],
+      }
+
+      const character = createCharacterFromConfig(
+        config,
+        'home',
+        'node',
+        { x: 0, y: 0 }
+      )
+
+      expect(character.employments).toBeDefined()
+      expect(character.employments?.[0].jobId).toBe('barista')
+      expect(character.employments?.[0].workplaces[0].workplaceLabel).toBe('カフェカウンター')
+      expect(character.employments?.[0].workplaces[0].mapId).toBe('cafe')
+    })
+
+    it('should wrap a legacy single employment into employments', () => {
       const config: CharacterConfig = {
         id: 'test-char',
         name: 'Worker',
@@ -243,10 +275,9 @@ describe('characterLoader', () => {
         { x: 0, y: 0 }
       )
 
-      expect(character.employment).toBeDefined()
-      expect(character.employment?.jobId).toBe('barista')
-      expect(character.employment?.workplaces[0].workplaceLabel).toBe('カフェカウンター')
-      expect(character.employment?.workplaces[0].mapId).toBe('cafe')
+      expect(character.employments).toEqual([
+        { jobId: 'barista', workplaces: [{ workplaceLabel: 'カフェカウンター', mapId: 'cafe' }] },
+      ])
     })
 
     it('should handle config without employment', () => {
@@ -271,7 +302,7 @@ describe('characterLoader', () => {
         { x: 0, y: 0 }
       )
 
-      expect(character.employment).toBeUndefined()
+      expect(character.employments).toBeUndefined()
     })
 
     // =====================
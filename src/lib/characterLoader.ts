@@ -1,4 +1,4 @@
-import type { CharacterConfig, CharactersData, Character, Position } from '@/types'
+import type { CharacterConfig, CharactersData, Character, Employment, Position } from '@/types'
 import { isConfigLoaded, getConfig } from './worldConfigLoader'
 
 const DEFAULT_CHARACTERS_PATH = '/data/characters.json'
@@ -28,6 +28,15 @@ export async function loadCharacterConfigs(): Promise<CharacterConfig[]> {
   return cachedConfigs
 }
 
+/**
+ * 設定の初期の雇用を取得
+ * 旧形式の employment（単一の雇用）は1件の配列として扱う
+ */
+export function getConfigEmployments(config: CharacterConfig): Employment[] | undefined {
+  if (config.employments) return config.employments
+  return config.employment ? [config.employment] : undefined
+}
+
 export function createCharacterFromConfig(
   config: CharacterConfig,
   mapId: string,
@@ -48,7 +57,10 @@ export function createCharacterFromConfig(
     currentNodeId: nodeId,
     position,
     direction: 'down',
-    employment: config.employment,
+    employments: getConfigEmployments(config),
+    inventory: config.inventory,
+    skills: config.skills,
+    recurringExpenses: config.recurringExpenses,
     // LLM行動決定用のプロファイル情報 (docs/llm-behavior-system.md:144-150)
     personality: config.personality,
     tendencies: config.tendencies,
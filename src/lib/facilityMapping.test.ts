@@ -1,9 +1,29 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, afterEach } from 'vitest'
 import {
   FACILITY_TAG_TO_ACTION_ID,
   ACTION_TO_FACILITY_TAGS,
   getActionsForTags,
+  getCustomActionIds,
+  getFacilityTagsForAction,
+  getFacilityTagLabel,
+  getFacilityTagRegistry,
+  setFacilityTagRegistry,
+  resetFacilityTagRegistry,
+  DEFAULT_FACILITY_TAGS,
 } from './facilityMapping'
+import type { ActionConfig } from '@/types'
+
+const customConfigs: Record<string, ActionConfig> = {
+  eat: { durationRange: { min: 15, max: 60, default: 30 }, perMinute: { satiety: 1.67 } },
+  read: {
+    label: '読書',
+    requirements: { facilityTags: ['public'] },
+    durationRange: { min: 15, max: 120, default: 30 },
+    perMinute: { mood: 0.25 },
+  },
+  stretch: { label: 'ストレッチ', fixed: true, duration: 5, effects: { mood: 5 } },
+  idle: { label: '待機' },
+}
 
 describe('facilityMapping', () => {
   describe('FACILITY_TAG_TO_ACTION_ID', () => {
@@ -67,4 +87,63 @@ describe('facilityMapping', () => {
       expect(result).toEqual(['sleep'])
     })
   })
+
+  describe('custom actions', () => {
+    it('should list custom action IDs excluding builtin and reserved IDs', () => {
+      expect(getCustomActionIds(customConfigs)).toEqual(['read', 'stretch'])
+    })
+
+    it('should resolve facility tags for builtin and custom actions', () => {
+      expect(getFacilityTagsForAction('eat', customConfigs)).toEqual(['kitchen', 'restaurant'])
+      expect(getFacilityTagsForAction('read', customConfigs)).toEqual(['public'])
+      expect(getFacilityTagsForAction('stretch', customConfigs)).toBeUndefined()
+      expect(getFacilityTagsForAction('read')).toBeUndefined()
+    })
+
+    it('should include custom actions whose facility tags match', () => {
+      expect(getActionsForTags(['public'], customConfigs)).toEqual(['rest', 'read'])
+      expect(getActionsForTags(['bedroom'], customConfigs)).toEqual(['sleep'])
+    })
+  })
+
+  describe('facility tag registry', () => {
+    afterEach(() => {
+      resetFacilityTagRegistry()
+    })
+
+    it('should use built-in tags by default', () => {
+      expect(getFacilityTagRegistry()).toEqual(DEFAULT_FACILITY_TAGS)
+      expect(getFacilityTagLabel('kitchen')).toBe('キッチン')
+      expect(getFacilityTagLabel('unknown')).toBe('unknown')
+    })
+
+    it('should merge registered tags with built-in tags', () => {
+      setFacilityTagRegistry({
+        gym: { label: 'ジム', actions: ['exercise'], access: 'public' },
+        bar: { label: 'バー', actions: ['eat', 'rest'], access: 'public' },
+      })
+
+      expect(getFacilityTagRegistry().kitchen).toEqual(DEFAULT_FACILITY_TAGS.kitchen)
+      expect(getFacilityTagLabel('gym')).toBe('ジム')
+    })
+
+    it('should resolve actions enabled by registered tags', () => {
+      setFacilityTagRegistry({
+        bar: { label: 'バー', actions: ['eat', 'rest'], access: 'public' },
+      })
+
+      expect(getActionsForTags(['bar'])).toEqual(['eat', 'rest'])
+      expect(getFacilityTagsForAction('eat')).toEqual(['kitchen', 'restaurant', 'bar'])
+      expect(getFacilityTagsForAction('rest')).toEqual(['public', 'bar'])
+    })
+
+    it('should resolve custom actions enabled only by the registry', () => {
+      setFacilityTagRegistry({
+        gym: { label: 'ジム', actions: ['exercise'], access: 'public' },
+      })
+
+      expect(getFacilityTagsForAction('exercise')).toEqual(['gym'])
+      expect(getActionsForTags(['gym'])).toEqual(['exercise'])
+    })
+  })
 })
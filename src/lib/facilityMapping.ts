@@ -1,28 +1,77 @@
 /**
- * 施設タグとアクションのマッピング
- * SimulationEngine と LLMBehaviorDecider で使用される共通定義
+ * 施設タグレジストリと、施設タグとアクションのマッピング
+ * SimulationEngine・ActionExecutor・LLMBehaviorDecider で使用される共通定義
  */
 
-import type { FacilityTag } from '@/types'
-import type { ActionId } from '@/types/action'
+import type { FacilityTag, BuiltinFacilityTag, ActionConfig, FacilityTagConfig } from '@/types'
+import type { ActionId, BuiltinActionId } from '@/types/action'
+import builtinFacilityTags from '@/data/facilityTags.json'
 
 /**
- * 施設タグ → アクションID
- * 施設タグから実行するアクションIDを決定
+ * 組み込みアクションID一覧
+ */
+export const BUILTIN_ACTION_IDS: readonly BuiltinActionId[] = [
+  'eat', 'sleep', 'toilet', 'bathe', 'rest', 'talk', 'work', 'thinking', 'buy',
+]
+
+// LLMの行動種別として予約されているID（カスタムアクションには使えない）
+const RESERVED_ACTION_IDS = ['move', 'idle']
+
+/**
+ * 組み込み施設タグの定義（src/data/facilityTags.json、scripts/validate-maps.mjs と共有）
+ * world-config.json の facilityTags セクションで上書き・追加できる
+ */
+export const DEFAULT_FACILITY_TAGS = builtinFacilityTags as Record<BuiltinFacilityTag, FacilityTagConfig>
+
+// 現在有効な施設タグレジストリ（setFacilityTagRegistry で設定）
+let facilityTagRegistry: Record<string, FacilityTagConfig> = DEFAULT_FACILITY_TAGS
+
+/**
+ * 施設タグレジストリを作成（組み込み定義に world-config.json の定義をマージ）
+ */
+export function createFacilityTagRegistry(
+  tags?: Record<string, FacilityTagConfig>
+): Record<string, FacilityTagConfig> {
+  return { ...DEFAULT_FACILITY_TAGS, ...tags }
+}
+
+/**
+ * 施設タグレジストリを設定（world-config.json の facilityTags セクション）
+ */
+export function setFacilityTagRegistry(tags?: Record<string, FacilityTagConfig>): void {
+  facilityTagRegistry = createFacilityTagRegistry(tags)
+}
+
+export function getFacilityTagRegistry(): Record<string, FacilityTagConfig> {
+  return facilityTagRegistry
+}
+
+/**
+ * 施設タグレジストリを組み込み定義に戻す（テスト用）
+ */
+export function resetFacilityTagRegistry(): void {
+  facilityTagRegistry = DEFAULT_FACILITY_TAGS
+}
+
+/**
+ * 施設タグの表示名を取得（未登録のタグはそのまま返す）
  */
-export const FACILITY_TAG_TO_ACTION_ID: Record<string, ActionId> = {
-  kitchen: 'eat',
-  restaurant: 'eat',
-  bathroom: 'bathe',
-  hotspring: 'bathe',
-  bedroom: 'sleep',
-  toilet: 'toilet',
-  workspace: 'work',
-  public: 'rest',
+export function getFacilityTagLabel(tag: string): string {
+  return facilityTagRegistry[tag]?.label ?? tag
 }
 
 /**
- * アクション → 要求施設タグ（逆引き）
+ * 施設タグ → アクションID（組み込み定義）
+ * 施設タグから実行するアクションIDを決定
+ */
+export const FACILITY_TAG_TO_ACTION_ID: Record<string, ActionId> = Object.fromEntries(
+  Object.entries(DEFAULT_FACILITY_TAGS)
+    .filter(([, config]) => config.actions.length > 0)
+    .map(([tag, config]) => [tag, config.actions[0]])
+)
+
+/**
+ * アクション → 要求施設タグ（組み込み定義の逆引き）
  */
 export const ACTION_TO_FACILITY_TAGS: Record<string, FacilityTag[]> = Object.entries(
   FACILITY_TAG_TO_ACTION_ID
@@ -36,13 +85,54 @@ export const ACTION_TO_FACILITY_TAGS: Record<string, FacilityTag[]> = Object.ent
 )
 
 /**
- * 施設タグリストからアクションIDリストを取得（重複なし）
+ * world-config.json の actions セクションからカスタムアクションIDを取得
+ * 組み込みアクション・予約ID（move, idle）以外のキーがカスタムアクション
+ */
+export function getCustomActionIds(actionConfigs: Record<string, ActionConfig>): string[] {
+  return Object.keys(actionConfigs).filter(id =>
+    !(BUILTIN_ACTION_IDS as readonly string[]).includes(id) && !RESERVED_ACTION_IDS.includes(id)
+  )
+}
+
+/**
+ * アクションの要求施設タグを取得
+ * 施設タグレジストリでそのアクションを有効にするタグと、カスタムアクションの requirements.facilityTags を合わせたもの
  */
-export function getActionsForTags(tags: string[]): string[] {
+export function getFacilityTagsForAction(
+  action: string,
+  actionConfigs: Record<string, ActionConfig> = {}
+): FacilityTag[] | undefined {
+  const tags: FacilityTag[] = Object.entries(facilityTagRegistry)
+    .filter(([, config]) => config.actions.includes(action))
+    .map(([tag]) => tag)
+
+  if (getCustomActionIds(actionConfigs).includes(action)) {
+    for (const tag of actionConfigs[action].requirements?.facilityTags ?? []) {
+      if (!tags.includes(tag)) tags.push(tag)
+    }
+  }
+
+  return tags.length > 0 ? tags : undefined
+}
+
+/**
+ * 施設タグリストからアクションIDリストを取得（重複なし、カスタムアクションを含む）
+ */
+export function getActionsForTags(
+  tags: string[],
+  actionConfigs: Record<string, ActionConfig> = {}
+): string[] {
   const actions: string[] = []
   for (const tag of tags) {
-    const action = FACILITY_TAG_TO_ACTION_ID[tag]
-    if (action && !actions.includes(action)) {
+    for (const action of facilityTagRegistry[tag]?.actions ?? []) {
+      if (!actions.includes(action)) {
+        actions.push(action)
+      }
+    }
+  }
+  for (const action of getCustomActionIds(actionConfigs)) {
+    const requiredTags = actionConfigs[action].requirements?.facilityTags
+    if (requiredTags?.some(tag => tags.includes(tag)) && !actions.includes(action)) {
       actions.push(action)
     }
   }
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { applyFacilityEffects, getFacilityEffectMultiplier, getModifierMultiplier, validateFacilityActionEffects } from './facilityModifiers'
+import type { FacilityActionEffects, FacilityModifiersConfig } from '@/types'
+
+const config: FacilityModifiersConfig = {
+  quality: { baseline: 50, perUnit: 0.01, min: 0.5, max: 1.5 },
+  price: { baseline: 1000, perUnit: 0.0001, min: 0.9, max: 1.2 },
+}
+
+describe('facilityModifiers', () => {
+  describe('getModifierMultiplier', () => {
+    it('should scale linearly around the baseline', () => {
+      expect(getModifierMultiplier(50, config.quality)).toBe(1)
+      expect(getModifierMultiplier(80, config.quality)).toBeCloseTo(1.3)
+      expect(getModifierMultiplier(30, config.quality)).toBeCloseTo(0.8)
+    })
+
+    it('should clamp to min and max', () => {
+      expect(getModifierMultiplier(0, { baseline: 50, perUnit: 0.02, min: 0.5 })).toBe(0.5)
+      expect(getModifierMultiplier(5000, config.price)).toBe(1.2)
+    })
+
+    it('should be neutral without a value or config', () => {
+      expect(getModifierMultiplier(undefined, config.quality)).toBe(1)
+      expect(getModifierMultiplier(80, undefined)).toBe(1)
+    })
+  })
+
+  describe('getFacilityEffectMultiplier', () => {
+    it('should combine quality and price', () => {
+      expect(getFacilityEffectMultiplier(config, 80, 2000)).toBeCloseTo(1.3 * 1.1)
+      expect(getFacilityEffectMultiplier({}, 80, 2000)).toBe(1)
+    })
+  })
+
+  describe('applyFacilityEffects', () => {
+    it('should override per stat and scale only positive effects', () => {
+      expect(applyFacilityEffects({ energy: 0.5, mood: -0.2 }, { mood: 0.1 }, 2)).toEqual({ energy: 1, mood: 0.2 })
+      expect(applyFacilityEffects({ energy: -0.3, mood: 0.1 }, undefined, 1.5)).toEqual({ energy: -0.3, mood: 0.15 })
+    })
+
+    it('should return null without base or override effects', () => {
+      expect(applyFacilityEffects(undefined, undefined, 1.2)).toBeNull()
+      expect(applyFacilityEffects(undefined, { hygiene: 2 }, 1)).toEqual({ hygiene: 2 })
+    })
+  })
+
+  describe('validateFacilityActionEffects', () => {
+    it('should accept valid overrides', () => {
+      expect(validateFacilityActionEffects({ sleep: { perMinute: { energy: 0.25 } }, rest: { effects: { mood: 8 } } })).toEqual([])
+    })
+
+    it('should report unknown kinds and stats', () => {
+      const errors = validateFacilityActionEffects({
+        sleep: { perHour: { energy: 1 } } as unknown as FacilityActionEffects,
+        rest: { effects: { money: 100 } as unknown as FacilityActionEffects['effects'] },
+      })
+      expect(errors).toEqual([
+        'unknown effect kind for sleep: perHour',
+        'invalid effects effect for rest: money',
+      ])
+    })
+  })
+})
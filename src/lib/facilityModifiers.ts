@@ -0,0 +1,71 @@
+/**
+ * 施設による効果補正ユーティリティ（クライアント・サーバー共通）
+ *
+ * 施設の actionEffects でアクション設定の効果をステータス単位で上書きし、
+ * 品質と支払額に応じた倍率を回復（正の値）の効果にだけ掛ける。消耗（負の値）は変えない。
+ */
+
+import type { EffectPerMinute, FacilityActionEffects, FacilityModifierConfig, FacilityModifiersConfig } from '@/types'
+
+const EFFECT_STATS: ReadonlyArray<keyof EffectPerMinute> = ['satiety', 'energy', 'hygiene', 'mood', 'bladder']
+
+/**
+ * 補正の倍率を計算（値や設定がなければ 1）
+ */
+export function getModifierMultiplier(value: number | undefined, config: FacilityModifierConfig | undefined): number {
+  if (value === undefined || !config) return 1
+  const multiplier = 1 + (value - config.baseline) * config.perUnit
+  return Math.min(config.max ?? Infinity, Math.max(config.min ?? 0, multiplier))
+}
+
+/**
+ * 品質と支払額による効果の倍率を計算
+ */
+export function getFacilityEffectMultiplier(
+  config: FacilityModifiersConfig,
+  quality: number | undefined,
+  price: number | undefined
+): number {
+  return getModifierMultiplier(quality, config.quality) * getModifierMultiplier(price, config.price)
+}
+
+/**
+ * 施設の上書きと倍率を反映した効果を計算
+ * @returns 効果、基本の効果も上書きもなければ null
+ */
+export function applyFacilityEffects(
+  base: EffectPerMinute | undefined,
+  override: EffectPerMinute | undefined,
+  multiplier: number
+): EffectPerMinute | null {
+  if (!base && !override) return null
+  const merged: EffectPerMinute = { ...base, ...override }
+  if (multiplier === 1) return merged
+
+  const result: EffectPerMinute = {}
+  for (const [stat, value] of Object.entries(merged) as Array<[keyof EffectPerMinute, number]>) {
+    result[stat] = value > 0 ? Math.round(value * multiplier * 100) / 100 : value
+  }
+  return result
+}
+
+/**
+ * 施設の actionEffects の形式を検証（エラーメッセージの配列を返す）
+ */
+export function validateFacilityActionEffects(actionEffects: Record<string, FacilityActionEffects>): string[] {
+  const errors: string[] = []
+  for (const [actionId, override] of Object.entries(actionEffects)) {
+    for (const [kind, effects] of Object.entries(override) as Array<[string, EffectPerMinute | undefined]>) {
+      if (kind !== 'perMinute' && kind !== 'effects') {
+        errors.push(`unknown effect kind for ${actionId}: ${kind}`)
+        continue
+      }
+      for (const [stat, value] of Object.entries(effects ?? {})) {
+        if (!EFFECT_STATS.includes(stat as keyof EffectPerMinute) || typeof value !== 'number') {
+          errors.push(`invalid ${kind} effect for ${actionId}: ${stat}`)
+        }
+      }
+    }
+  }
+  return errors
+}
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest'
 import {
   getFacilityForNode,
   findZoneFacilityForNode,
+  findZoneObstacleForNode,
   findBuildingFacilityNearNode,
   hasFacilityTag,
   findObstaclesWithFacilityTag,
@@ -10,7 +11,11 @@ import {
   findObstacleById,
   isNodeAtFacility,
   getFacilityTargetNode,
+  validateFacilityTags,
+  getCatalogEntries,
+  findCatalogEntry,
 } from './facilityUtils'
+import { createFacilityTagRegistry } from './facilityMapping'
 import type { PathNode, Obstacle, FacilityInfo } from '@/types'
 
 // Helper to create a zone obstacle
@@ -142,6 +147,13 @@ describe('facilityUtils', () => {
 
       expect(result).toBeNull()
     })
+
+    it('should return the zone obstacle with findZoneObstacleForNode', () => {
+      const zones = [createZone('kitchen', 0, 0, 4, 4, { tags: ['kitchen'] })]
+
+      expect(findZoneObstacleForNode(2, 2, zones)?.id).toBe('kitchen')
+      expect(findZoneObstacleForNode(10, 10, zones)).toBeNull()
+    })
   })
 
   describe('findBuildingFacilityNearNode', () => {
@@ -207,6 +219,59 @@ describe('facilityUtils', () => {
     })
   })
 
+  describe('validateFacilityTags', () => {
+    it('should accept registered tags', () => {
+      expect(validateFacilityTags({ tags: ['bathroom', 'toilet'], owner: 'kanon' })).toEqual([])
+      expect(validateFacilityTags({ tags: ['restaurant'], cost: 800 })).toEqual([])
+    })
+
+    it('should report unknown tags', () => {
+      const errors = validateFacilityTags({ tags: ['kitchen', 'gym'] })
+      expect(errors).toHaveLength(1)
+      expect(errors[0]).toContain('unknown facility tag "gym"')
+    })
+
+    it('should report public tags on an owned facility', () => {
+      const errors = validateFacilityTags({ tags: ['restaurant'], owner: 'kanon' })
+      expect(errors[0]).toContain('public facility tag "restaurant"')
+    })
+
+    it('should validate against a given registry', () => {
+      const registry = createFacilityTagRegistry({
+        gym: { label: 'ジム', actions: ['exercise'], access: 'public' },
+      })
+      expect(validateFacilityTags({ tags: ['gym'] }, registry)).toEqual([])
+    })
+  })
+
+  describe('getCatalogEntries', () => {
+    const facility: FacilityInfo = {
+      tags: ['restaurant', 'shop'],
+      catalog: [
+        { id: 'lunch', name: '日替わり定食', price: 800, quality: 60 },
+        { id: 'onigiri', name: 'おにぎり', price: 150, itemId: 'onigiri' },
+      ],
+    }
+
+    it('should return goods for buy', () => {
+      expect(getCatalogEntries(facility, 'buy').map((e) => e.id)).toEqual(['onigiri'])
+    })
+
+    it('should return menu entries for other actions', () => {
+      expect(getCatalogEntries(facility, 'eat').map((e) => e.id)).toEqual(['lunch'])
+    })
+
+    it('should return an empty list without a catalog', () => {
+      expect(getCatalogEntries({ tags: ['restaurant'] } as FacilityInfo, 'eat')).toEqual([])
+      expect(getCatalogEntries(null, 'eat')).toEqual([])
+    })
+
+    it('should find an entry only for the matching action', () => {
+      expect(findCatalogEntry(facility, 'eat', 'lunch')?.name).toBe('日替わり定食')
+      expect(findCatalogEntry(facility, 'eat', 'onigiri')).toBeNull()
+    })
+  })
+
   describe('findObstaclesWithFacilityTag', () => {
     it('should return obstacles with the specified tag', () => {
       const obstacles = [
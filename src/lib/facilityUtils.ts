@@ -1,6 +1,7 @@
-import type { PathNode, Obstacle, FacilityInfo, FacilityTag } from '@/types'
+import type { PathNode, Obstacle, FacilityInfo, FacilityTag, FacilityTagConfig, CatalogEntry } from '@/types'
 import { isNodeInsideZone } from '@/data/maps/grid'
 import { parseNodeIdToGridCoord } from '@/lib/gridUtils'
+import { getFacilityTagRegistry } from '@/lib/facilityMapping'
 
 /**
  * Get facility info for a node if it's inside a zone with facility info.
@@ -26,11 +27,22 @@ export function findZoneFacilityForNode(
   col: number,
   obstacles: Obstacle[]
 ): FacilityInfo | null {
+  return findZoneObstacleForNode(row, col, obstacles)?.facility ?? null
+}
+
+/**
+ * Find the zone obstacle with facility info that contains the given grid coordinates.
+ */
+export function findZoneObstacleForNode(
+  row: number,
+  col: number,
+  obstacles: Obstacle[]
+): Obstacle | null {
   const zones = obstacles.filter((obs) => obs.type === 'zone')
 
   for (const zone of zones) {
     if (zone.facility && isNodeInsideZone(row, col, zone)) {
-      return zone.facility
+      return zone
     }
   }
 
@@ -48,6 +60,18 @@ export function findBuildingFacilityNearNode(
   obstacles: Obstacle[],
   proximity: number = 1
 ): FacilityInfo | null {
+  return findBuildingObstacleNearNode(row, col, obstacles, proximity)?.facility ?? null
+}
+
+/**
+ * Find the building obstacle with facility info near the given grid coordinates.
+ */
+export function findBuildingObstacleNearNode(
+  row: number,
+  col: number,
+  obstacles: Obstacle[],
+  proximity: number = 1
+): Obstacle | null {
   const buildings = obstacles.filter((obs) => obs.type === 'building')
 
   for (const building of buildings) {
@@ -61,7 +85,7 @@ export function findBuildingFacilityNearNode(
     const maxCol = building.tileCol + building.tileWidth - 1 + proximity
 
     if (row >= minRow && row <= maxRow && col >= minCol && col <= maxCol) {
-      return building.facility
+      return building
     }
   }
 
@@ -79,6 +103,54 @@ export function hasFacilityTag(
   return facility.tags.includes(tag)
 }
 
+/**
+ * Validate facility tags against the facility tag registry.
+ * Returns error messages for unknown tags and for public tags on an owned facility.
+ */
+export function validateFacilityTags(
+  facility: FacilityInfo,
+  registry: Record<string, FacilityTagConfig> = getFacilityTagRegistry()
+): string[] {
+  const errors: string[] = []
+
+  for (const tag of facility.tags) {
+    const tagConfig = registry[tag]
+    if (!tagConfig) {
+      errors.push(`unknown facility tag "${tag}"`)
+    } else if (facility.owner && tagConfig.access === 'public') {
+      errors.push(`public facility tag "${tag}" cannot be used on a facility owned by "${facility.owner}"`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Get the catalog entries a facility offers for an action.
+ * buy uses entries with an itemId (goods); other actions use menu entries without one.
+ */
+export function getCatalogEntries(
+  facility: Pick<FacilityInfo, 'catalog'> | null | undefined,
+  actionId: string
+): CatalogEntry[] {
+  const catalog = facility?.catalog ?? []
+  return actionId === 'buy'
+    ? catalog.filter((entry) => entry.itemId !== undefined)
+    : catalog.filter((entry) => entry.itemId === undefined)
+}
+
+/**
+ * Find a catalog entry for an action by its ID.
+ * Returns null if the facility does not offer it for that action.
+ */
+export function findCatalogEntry(
+  facility: Pick<FacilityInfo, 'catalog'> | null | undefined,
+  actionId: string,
+  entryId: string
+): CatalogEntry | null {
+  return getCatalogEntries(facility, actionId).find((entry) => entry.id === entryId) ?? null
+}
+
 /**
  * Find all obstacles with a specific facility tag.
  */
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import type { InventoryItem, ItemConfig } from '@/types'
+import {
+  getItemCount,
+  addItem,
+  removeItem,
+  canAddItem,
+  isConsumable,
+  findConsumableItem,
+} from './inventoryUtils'
+
+const ITEMS: Record<string, ItemConfig> = {
+  onigiri: { name: 'おにぎり', category: 'food', price: 150, effects: { satiety: 30 } },
+  bento: { name: '弁当', category: 'food', price: 500, effects: { satiety: 60 } },
+  tea: { name: 'お茶', category: 'drink', price: 120, effects: { mood: 5 } },
+  flower: { name: '花束', category: 'gift', price: 800, maxStack: 2 },
+}
+
+describe('inventoryUtils', () => {
+  describe('getItemCount', () => {
+    it('should return quantity of held item', () => {
+      expect(getItemCount([{ itemId: 'onigiri', quantity: 3 }], 'onigiri')).toBe(3)
+    })
+
+    it('should return 0 for missing item or undefined inventory', () => {
+      expect(getItemCount([{ itemId: 'onigiri', quantity: 3 }], 'tea')).toBe(0)
+      expect(getItemCount(undefined, 'tea')).toBe(0)
+    })
+  })
+
+  describe('addItem', () => {
+    it('should stack existing items without mutating input', () => {
+      const inventory: InventoryItem[] = [{ itemId: 'onigiri', quantity: 1 }]
+      const result = addItem(inventory, 'onigiri', 2)
+
+      expect(result).toEqual([{ itemId: 'onigiri', quantity: 3 }])
+      expect(inventory[0].quantity).toBe(1)
+    })
+
+    it('should append new items', () => {
+      expect(addItem(undefined, 'tea')).toEqual([{ itemId: 'tea', quantity: 1 }])
+    })
+  })
+
+  describe('removeItem', () => {
+    it('should decrement quantity', () => {
+      expect(removeItem([{ itemId: 'onigiri', quantity: 2 }], 'onigiri')).toEqual([
+        { itemId: 'onigiri', quantity: 1 },
+      ])
+    })
+
+    it('should drop empty stacks', () => {
+      expect(removeItem([{ itemId: 'onigiri', quantity: 1 }], 'onigiri')).toEqual([])
+    })
+
+    it('should return null when quantity is insufficient', () => {
+      expect(removeItem([{ itemId: 'onigiri', quantity: 1 }], 'onigiri', 2)).toBeNull()
+      expect(removeItem(undefined, 'onigiri')).toBeNull()
+    })
+  })
+
+  describe('canAddItem', () => {
+    it('should respect maxStack', () => {
+      const inventory: InventoryItem[] = [{ itemId: 'flower', quantity: 2 }]
+      expect(canAddItem(inventory, 'flower', ITEMS.flower)).toBe(false)
+      expect(canAddItem([], 'flower', ITEMS.flower)).toBe(true)
+    })
+  })
+
+  describe('isConsumable', () => {
+    it('should treat food and drink as consumable', () => {
+      expect(isConsumable(ITEMS.onigiri)).toBe(true)
+      expect(isConsumable(ITEMS.tea)).toBe(true)
+      expect(isConsumable(ITEMS.flower)).toBe(false)
+      expect(isConsumable(undefined)).toBe(false)
+    })
+  })
+
+  describe('findConsumableItem', () => {
+    it('should prefer the item with the largest satiety effect', () => {
+      const inventory: InventoryItem[] = [
+        { itemId: 'tea', quantity: 1 },
+        { itemId: 'onigiri', quantity: 1 },
+        { itemId: 'bento', quantity: 1 },
+      ]
+      expect(findConsumableItem(inventory, ITEMS)).toBe('bento')
+    })
+
+    it('should ignore gifts and unknown items', () => {
+      const inventory: InventoryItem[] = [
+        { itemId: 'flower', quantity: 1 },
+        { itemId: 'unknown', quantity: 1 },
+      ]
+      expect(findConsumableItem(inventory, ITEMS)).toBeNull()
+    })
+  })
+})
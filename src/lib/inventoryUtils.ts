@@ -0,0 +1,87 @@
+/**
+ * 所持品ユーティリティ
+ *
+ * キャラクターの所持品（アイテムIDごとのスタック）を操作する純粋関数を提供する。
+ * 引数の配列は変更せず、新しい配列を返す。
+ */
+
+import type { InventoryItem, ItemConfig } from '@/types'
+
+export const DEFAULT_CONSUME_MINUTES = 10
+export const DEFAULT_MAX_STACK = 99
+
+/**
+ * アイテムの所持数を取得
+ */
+export function getItemCount(inventory: InventoryItem[] | undefined, itemId: string): number {
+  return inventory?.find(item => item.itemId === itemId)?.quantity ?? 0
+}
+
+/**
+ * アイテムを追加（同じアイテムはスタックにまとめる）
+ */
+export function addItem(
+  inventory: InventoryItem[] | undefined,
+  itemId: string,
+  quantity: number = 1
+): InventoryItem[] {
+  const items = inventory ?? []
+  if (!items.some(item => item.itemId === itemId)) {
+    return [...items, { itemId, quantity }]
+  }
+  return items.map(item =>
+    item.itemId === itemId ? { ...item, quantity: item.quantity + quantity } : item
+  )
+}
+
+/**
+ * アイテムを取り除く（所持数が足りない場合は null、0個になったスタックは削除）
+ */
+export function removeItem(
+  inventory: InventoryItem[] | undefined,
+  itemId: string,
+  quantity: number = 1
+): InventoryItem[] | null {
+  const items = inventory ?? []
+  if (getItemCount(items, itemId) < quantity) return null
+
+  return items
+    .map(item => item.itemId === itemId ? { ...item, quantity: item.quantity - quantity } : item)
+    .filter(item => item.quantity > 0)
+}
+
+/**
+ * アイテムをこれ以上持てるか（maxStack まで）
+ */
+export function canAddItem(
+  inventory: InventoryItem[] | undefined,
+  itemId: string,
+  config: ItemConfig,
+  quantity: number = 1
+): boolean {
+  return getItemCount(inventory, itemId) + quantity <= (config.maxStack ?? DEFAULT_MAX_STACK)
+}
+
+/**
+ * 食べ物・飲み物として消費できるアイテムか
+ */
+export function isConsumable(config: ItemConfig | undefined): boolean {
+  return config?.category === 'food' || config?.category === 'drink'
+}
+
+/**
+ * 所持品から消費できるアイテムを探す（満腹度の回復が大きいものを優先）
+ */
+export function findConsumableItem(
+  inventory: InventoryItem[] | undefined,
+  itemConfigs: Record<string, ItemConfig>
+): string | null {
+  const candidates = (inventory ?? []).filter(item =>
+    item.quantity > 0 && isConsumable(itemConfigs[item.itemId])
+  )
+  if (candidates.length === 0) return null
+
+  const satiety = (itemId: string) => itemConfigs[itemId].effects?.satiety ?? 0
+  // Array.prototype.sort is stable, so equal values keep inventory order
+  return [...candidates].sort((a, b) => satiety(b.itemId) - satiety(a.itemId))[0].itemId
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { logger, setLogLevel, getLogLevel, isLogLevel } from './logger'
+
+describe('logger', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    setLogLevel('info')
+    vi.restoreAllMocks()
+  })
+
+  it('should default to info level', () => {
+    expect(getLogLevel()).toBe('info')
+    logger.debug('[Test] debug')
+    logger.info('[Test] info', 1)
+    expect(console.debug).not.toHaveBeenCalled()
+    expect(console.log).toHaveBeenCalledWith('[Test] info', 1)
+  })
+
+  it('should drop messages below the configured level', () => {
+    setLogLevel('warn')
+    logger.info('[Test] info')
+    logger.warn('[Test] warn')
+    logger.error('[Test] error')
+    expect(console.log).not.toHaveBeenCalled()
+    expect(console.warn).toHaveBeenCalledWith('[Test] warn')
+    expect(console.error).toHaveBeenCalledWith('[Test] error')
+  })
+
+  it('should print nothing when silent', () => {
+    setLogLevel('silent')
+    logger.error('[Test] error')
+    expect(console.error).not.toHaveBeenCalled()
+  })
+
+  it('should print debug messages at debug level', () => {
+    setLogLevel('debug')
+    logger.debug('[Test] debug')
+    expect(console.debug).toHaveBeenCalledWith('[Test] debug')
+  })
+
+  it('should validate level names', () => {
+    expect(isLogLevel('warn')).toBe(true)
+    expect(isLogLevel('verbose')).toBe(false)
+  })
+})
@@ -0,0 +1,50 @@
+/**
+ * ログ出力（サーバー側モジュール共通）
+ *
+ * エンジン・LLMクライアントなどは console を直接呼ばずにこのロガーを使う。
+ * ログレベルで出力を絞れるので、ヘッドレスランナーなどは console を差し替えずに静かにできる。
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+}
+
+let currentLevel: LogLevel = 'info'
+
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level
+}
+
+export function getLogLevel(): LogLevel {
+  return currentLevel
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return value in LOG_LEVEL_ORDER
+}
+
+function isEnabled(level: LogLevel): boolean {
+  return LOG_LEVEL_ORDER[level] >= LOG_LEVEL_ORDER[currentLevel]
+}
+
+// console is looked up on each call so that test spies on console still apply
+export const logger = {
+  debug(...args: unknown[]): void {
+    if (isEnabled('debug')) console.debug(...args)
+  },
+  info(...args: unknown[]): void {
+    if (isEnabled('info')) console.log(...args)
+  },
+  warn(...args: unknown[]): void {
+    if (isEnabled('warn')) console.warn(...args)
+  },
+  error(...args: unknown[]): void {
+    if (isEnabled('error')) console.error(...args)
+  },
+}
@@ -236,6 +236,51 @@ describe('mapLoader', () => {
       expect(() => buildMapFromConfig(config)).toThrow('undersized')
     })
 
+    it('should throw for unregistered facility tag', () => {
+      const config: MapConfigJson = {
+        id: 'test-map',
+        name: 'Test Map',
+        width: 800,
+        height: 600,
+        backgroundColor: '#336633',
+        spawnNodeId: 'test-0-0',
+        grid: { prefix: 'test' },
+        labels: [],
+        entrances: [],
+        obstacles: [
+          { row: 2, col: 3, tileWidth: 2, tileHeight: 2, label: 'ベンチプレス', facility: { tags: ['gym'] } },
+        ],
+      }
+
+      expect(() => buildMapFromConfig(config)).toThrow('unknown facility tag "gym"')
+    })
+
+    it('should accept facility tags registered in world config', () => {
+      vi.spyOn(worldConfigLoader, 'isConfigLoaded').mockReturnValue(true)
+      vi.spyOn(worldConfigLoader, 'getConfig').mockReturnValue({
+        grid: { defaultCols: 12, defaultRows: 9, defaultWidth: 800, defaultHeight: 600 },
+        facilityTags: { gym: { label: 'ジム', actions: ['exercise'], access: 'public' } },
+      } as unknown as ReturnType<typeof worldConfigLoader.getConfig>)
+      const config: MapConfigJson = {
+        id: 'test-map',
+        name: 'Test Map',
+        width: 800,
+        height: 600,
+        backgroundColor: '#336633',
+        spawnNodeId: 'test-0-0',
+        grid: { prefix: 'test', cols: 12, rows: 9 },
+        labels: [],
+        entrances: [],
+        obstacles: [
+          { row: 2, col: 3, tileWidth: 2, tileHeight: 2, label: 'ベンチプレス', facility: { tags: ['gym'] } },
+        ],
+      }
+
+      const map = buildMapFromConfig(config)
+
+      expect(map.obstacles[0].facility?.tags).toEqual(['gym'])
+    })
+
     it('should throw for label inside building', () => {
       const config: MapConfigJson = {
         id: 'test-map',
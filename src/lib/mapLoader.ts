@@ -3,6 +3,10 @@ import type { NodeLabel, TileToPixelConfig } from '@/data/maps/grid'
 import { generateGridNodes, isPointInsideObstacle, tileToPixelObstacle, getGridDefaults } from '@/data/maps/grid'
 import { isConfigLoaded, getConfig, parseColor } from './worldConfigLoader'
 import { parseNodeIdToGridCoord, type GridCoordinate } from '@/lib/gridUtils'
+import { createFacilityTagRegistry } from '@/lib/facilityMapping'
+import { validateFacilityTags } from '@/lib/facilityUtils'
+import { validateOpenHours } from '@/lib/openHoursUtils'
+import { validateFacilityActionEffects } from '@/lib/facilityModifiers'
 
 const DEFAULT_MAPS_PATH = '/data/maps.json'
 
@@ -57,6 +61,36 @@ function validateObstacleMinSize(mapId: string, obstacles: ObstacleConfigJson[])
   }
 }
 
+/**
+ * Validate obstacle facility tags against the facility tag registry
+ * (defaults to the built-in tags merged with the loaded world config's facilityTags)
+ * and facility open hours.
+ */
+export function validateObstacleFacilities(
+  mapId: string,
+  obstacles: ObstacleConfigJson[],
+  registry = createFacilityTagRegistry(isConfigLoaded() ? getConfig().facilityTags : undefined)
+): void {
+  const invalid: string[] = []
+
+  obstacles.forEach((obs, i) => {
+    if (!obs.facility) return
+    const name = obs.label ?? `obstacle[${i}]`
+    const errors = [
+      ...validateFacilityTags(obs.facility, registry),
+      ...(obs.facility.openHours ? validateOpenHours(obs.facility.openHours) : []),
+      ...(obs.facility.actionEffects ? validateFacilityActionEffects(obs.facility.actionEffects) : []),
+    ]
+    for (const error of errors) {
+      invalid.push(`  - "${name}": ${error}`)
+    }
+  })
+
+  if (invalid.length > 0) {
+    throw new Error(`Map "${mapId}" has obstacles with invalid facilities:\n${invalid.join('\n')}`)
+  }
+}
+
 function gridCoordToPixel(
   coord: GridCoordinate,
   width: number,
@@ -137,6 +171,9 @@ export function buildMapFromConfig(config: MapConfigJson): WorldMap {
   // Validate minimum obstacle size
   validateObstacleMinSize(config.id, config.obstacles ?? [])
 
+  // Validate facility tags against the facility tag registry
+  validateObstacleFacilities(config.id, config.obstacles ?? [])
+
   // Convert obstacle configs from tile coordinates to pixel coordinates
   const gridConfigForConversion: TileToPixelConfig = {
     cols,
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { findOpenRange, getClosingTime, getOpenHoursForDay, isFacilityOpen, previousWeekday, validateOpenHours } from './openHoursUtils'
+import type { OpenHours } from '@/types'
+
+const cafe: OpenHours = { start: '08:00', end: '21:00', days: { wed: null, sun: { start: '10:00', end: '18:00' } } }
+const bar: OpenHours = { start: '18:00', end: '02:00', days: { mon: null } }
+
+const at = (hour: number, minute = 0) => hour * 60 + minute
+
+describe('openHoursUtils', () => {
+  describe('getOpenHoursForDay', () => {
+    it('should prefer day overrides over the default hours', () => {
+      expect(getOpenHoursForDay(cafe, 'mon')).toEqual({ start: '08:00', end: '21:00' })
+      expect(getOpenHoursForDay(cafe, 'sun')).toEqual({ start: '10:00', end: '18:00' })
+      expect(getOpenHoursForDay(cafe, 'wed')).toBeNull()
+    })
+  })
+
+  describe('previousWeekday', () => {
+    it('should wrap around the week', () => {
+      expect(previousWeekday('tue')).toBe('mon')
+      expect(previousWeekday('mon')).toBe('sun')
+    })
+  })
+
+  describe('findOpenRange', () => {
+    it('should treat the end time as exclusive', () => {
+      expect(findOpenRange(cafe, 'mon', at(8))).not.toBeNull()
+      expect(findOpenRange(cafe, 'mon', at(20, 59))).not.toBeNull()
+      expect(findOpenRange(cafe, 'mon', at(21))).toBeNull()
+      expect(findOpenRange(cafe, 'mon', at(7, 59))).toBeNull()
+    })
+
+    it('should be closed all day on closed days', () => {
+      expect(findOpenRange(cafe, 'wed', at(12))).toBeNull()
+    })
+
+    it('should handle overnight hours from the previous day', () => {
+      expect(findOpenRange(bar, 'tue', at(23))).toEqual({ start: '18:00', end: '02:00' })
+      expect(findOpenRange(bar, 'wed', at(1, 30))).toEqual({ start: '18:00', end: '02:00' })
+      expect(findOpenRange(bar, 'wed', at(2))).toBeNull()
+    })
+
+    it('should not carry over from a closed previous day', () => {
+      expect(findOpenRange(bar, 'tue', at(1))).toBeNull()
+    })
+
+    it('should treat equal start and end as open all day', () => {
+      expect(findOpenRange({ start: '00:00', end: '00:00' }, 'mon', at(3))).not.toBeNull()
+    })
+  })
+
+  describe('isFacilityOpen', () => {
+    it('should always be open without open hours', () => {
+      expect(isFacilityOpen({}, 'wed', at(3))).toBe(true)
+      expect(isFacilityOpen({ openHours: cafe }, 'wed', at(12))).toBe(false)
+    })
+  })
+
+  describe('getClosingTime', () => {
+    it('should return the closing time of the current range', () => {
+      expect(getClosingTime({ openHours: cafe }, 'sun', at(12))).toBe('18:00')
+      expect(getClosingTime({ openHours: bar }, 'wed', at(1))).toBe('02:00')
+    })
+
+    it('should return null when closed or open all day', () => {
+      expect(getClosingTime({ openHours: cafe }, 'mon', at(22))).toBeNull()
+      expect(getClosingTime({ openHours: { start: '00:00', end: '00:00' } }, 'mon', at(12))).toBeNull()
+      expect(getClosingTime({}, 'mon', at(12))).toBeNull()
+    })
+  })
+
+  describe('validateOpenHours', () => {
+    it('should accept valid open hours', () => {
+      expect(validateOpenHours(cafe)).toEqual([])
+    })
+
+    it('should report invalid times and unknown weekdays', () => {
+      const errors = validateOpenHours({
+        start: '8am',
+        end: '21:00',
+        days: { holiday: null } as OpenHours['days'],
+      })
+      expect(errors).toEqual([
+        'invalid open hours for default: 8am-21:00',
+        'unknown weekday in open hours: holiday',
+      ])
+    })
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * 施設の営業時間ユーティリティ（クライアント・サーバー共通）
+ *
+ * 営業時間は "HH:MM" 形式。end < start の場合は日付をまたぐ深夜営業（例: 18:00-02:00）、
+ * start と end が同じ場合は終日営業。曜日ごとの設定（days）があれば基本の営業時間より優先し、null は定休日。
+ */
+
+import type { FacilityInfo, OpenHours, TimeRange, Weekday } from '@/types'
+import { WEEKDAYS } from '@/lib/calendarUtils'
+import { parseTimeString } from '@/lib/timeUtils'
+
+/**
+ * 曜日の営業時間を取得（定休日は null）
+ */
+export function getOpenHoursForDay(openHours: OpenHours, weekday: Weekday): TimeRange | null {
+  const override = openHours.days?.[weekday]
+  if (override !== undefined) return override
+  return { start: openHours.start, end: openHours.end }
+}
+
+/**
+ * 前日の曜日を取得
+ */
+export function previousWeekday(weekday: Weekday): Weekday {
+  return WEEKDAYS[(WEEKDAYS.indexOf(weekday) + 6) % 7]
+}
+
+/**
+ * 現在営業中の時間帯を取得（前日からの深夜営業を含む）
+ * @param minutes 現在時刻（0:00 からの分）
+ * @returns 営業中の時間帯、営業時間外は null
+ */
+export function findOpenRange(openHours: OpenHours, weekday: Weekday, minutes: number): TimeRange | null {
+  const today = getOpenHoursForDay(openHours, weekday)
+  if (today) {
+    const start = toMinutes(today.start)
+    const end = toMinutes(today.end)
+    if (start === end) return today
+    if (start < end && minutes >= start && minutes < end) return today
+    if (start > end && minutes >= start) return today
+  }
+
+  // 前日から日付をまたいで営業している場合
+  const yesterday = getOpenHoursForDay(openHours, previousWeekday(weekday))
+  if (yesterday) {
+    const start = toMinutes(yesterday.start)
+    const end = toMinutes(yesterday.end)
+    if (start > end && minutes < end) return yesterday
+  }
+
+  return null
+}
+
+/**
+ * 施設が営業中かどうか（営業時間の指定がない施設は常に営業中）
+ */
+export function isFacilityOpen(
+  facility: Pick<FacilityInfo, 'openHours'>,
+  weekday: Weekday,
+  minutes: number
+): boolean {
+  if (!facility.openHours) return true
+  return findOpenRange(facility.openHours, weekday, minutes) !== null
+}
+
+/**
+ * 営業中の施設の閉店時刻を取得（営業時間の指定がない・終日営業・営業時間外は null）
+ */
+export function getClosingTime(
+  facility: Pick<FacilityInfo, 'openHours'>,
+  weekday: Weekday,
+  minutes: number
+): string | null {
+  if (!facility.openHours) return null
+  const range = findOpenRange(facility.openHours, weekday, minutes)
+  if (!range || range.start === range.end) return null
+  return range.end
+}
+
+/**
+ * 営業時間の形式を検証（エラーメッセージの配列を返す）
+ */
+export function validateOpenHours(openHours: OpenHours): string[] {
+  const errors: string[] = []
+  const ranges: Array<[string, TimeRange | null]> = [
+    ['default', { start: openHours.start, end: openHours.end }],
+    ...Object.entries(openHours.days ?? {}) as Array<[string, TimeRange | null]>,
+  ]
+
+  for (const [label, range] of ranges) {
+    if (range === null) continue
+    if (!parseTimeString(range.start) || !parseTimeString(range.end)) {
+      errors.push(`invalid open hours for ${label}: ${range.start}-${range.end}`)
+    }
+  }
+  for (const day of Object.keys(openHours.days ?? {})) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      errors.push(`unknown weekday in open hours: ${day}`)
+    }
+  }
+
+  return errors
+}
+
+function toMinutes(time: string): number {
+  const parsed = parseTimeString(time)
+  return parsed ? parsed.hour * 60 + parsed.minute : 0
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addSkillExperience,
+  formatSkillRequirement,
+  getActionSkills,
+  getCharacterSkillLevel,
+  getSkillLevel,
+  getSkillMultiplier,
+  getSkillSummaries,
+  meetsSkillRequirement,
+} from './skillUtils'
+import type { SkillsConfig } from '@/types'
+
+const config: SkillsConfig = {
+  experiencePerLevel: 600,
+  maxLevel: 3,
+  wageBonusPerLevel: 0.05,
+  effectBonusPerLevel: 0.03,
+  definitions: {
+    writing: { label: '文章', actions: ['read'] },
+    cooking: { label: '料理', actions: ['eat'], facilityTags: ['kitchen'] },
+    fitness: { label: '体力', actions: ['exercise'] },
+  },
+}
+
+describe('skillUtils', () => {
+  describe('getSkillLevel', () => {
+    it('should level up every experiencePerLevel up to maxLevel', () => {
+      expect(getSkillLevel(0, config)).toBe(0)
+      expect(getSkillLevel(599, config)).toBe(0)
+      expect(getSkillLevel(1200, config)).toBe(2)
+      expect(getSkillLevel(9999, config)).toBe(3)
+    })
+
+    it('should treat missing skills as level 0', () => {
+      expect(getCharacterSkillLevel(undefined, 'writing', config)).toBe(0)
+      expect(getCharacterSkillLevel({ writing: 700 }, 'writing', config)).toBe(1)
+    })
+  })
+
+  describe('getActionSkills', () => {
+    it('should match actions and facility tags', () => {
+      expect(getActionSkills(config, 'read')).toEqual(['writing'])
+      expect(getActionSkills(config, 'eat', ['kitchen'])).toEqual(['cooking'])
+      expect(getActionSkills(config, 'eat', ['restaurant'])).toEqual([])
+      expect(getActionSkills(config, 'sleep')).toEqual([])
+    })
+  })
+
+  describe('addSkillExperience', () => {
+    it('should add minutes without mutating the original', () => {
+      const skills = { writing: 100 }
+      expect(addSkillExperience(skills, ['writing', 'fitness'], 30)).toEqual({ writing: 130, fitness: 30 })
+      expect(skills).toEqual({ writing: 100 })
+    })
+  })
+
+  describe('getSkillMultiplier', () => {
+    it('should grow linearly with level', () => {
+      expect(getSkillMultiplier(0, 0.05)).toBe(1)
+      expect(getSkillMultiplier(2, 0.05)).toBeCloseTo(1.1)
+    })
+  })
+
+  describe('meetsSkillRequirement', () => {
+    it('should compare the skill level with the requirement', () => {
+      expect(meetsSkillRequirement({ cooking: 1200 }, { skill: 'cooking', level: 2 }, config)).toBe(true)
+      expect(meetsSkillRequirement({ cooking: 1199 }, { skill: 'cooking', level: 2 }, config)).toBe(false)
+      expect(meetsSkillRequirement(undefined, undefined, null)).toBe(true)
+    })
+
+    it('should fail requirements without a skills config', () => {
+      expect(meetsSkillRequirement({ cooking: 1200 }, { skill: 'cooking', level: 1 }, null)).toBe(false)
+    })
+  })
+
+  describe('getSkillSummaries', () => {
+    it('should list skills with experience in definition order', () => {
+      expect(getSkillSummaries({ fitness: 2000, writing: 650, cooking: 0 }, config)).toEqual([
+        { id: 'writing', label: '文章', level: 1, experience: 650, nextLevelExperience: 1200 },
+        { id: 'fitness', label: '体力', level: 3, experience: 2000, nextLevelExperience: null },
+      ])
+    })
+  })
+
+  describe('formatSkillRequirement', () => {
+    it('should use the skill label', () => {
+      expect(formatSkillRequirement({ skill: 'cooking', level: 2 }, config)).toBe('料理 Lv2')
+      expect(formatSkillRequirement({ skill: 'unknown', level: 1 }, config)).toBe('unknown Lv1')
+    })
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * スキル・経験値のユーティリティ（クライアント・サーバー共通）
+ *
+ * 経験値はスキルに対応するアクションの実行時間（分）で増え、experiencePerLevel ごとに1レベル上がる。
+ */
+
+import type { CharacterSkills, FacilityTag, SkillRequirement, SkillsConfig, SkillSummary } from '@/types'
+
+/**
+ * 経験値からレベルを計算（maxLevel が上限）
+ */
+export function getSkillLevel(experience: number, config: SkillsConfig): number {
+  return Math.min(config.maxLevel, Math.floor(experience / config.experiencePerLevel))
+}
+
+/**
+ * キャラクターのスキルのレベルを取得（経験値がなければ 0）
+ */
+export function getCharacterSkillLevel(skills: CharacterSkills | undefined, skillId: string, config: SkillsConfig): number {
+  return getSkillLevel(skills?.[skillId] ?? 0, config)
+}
+
+/**
+ * アクションの実行で経験値が入るスキルを取得
+ * @param facilityTags 実行した施設のタグ（施設を使わない場合は空）
+ */
+export function getActionSkills(config: SkillsConfig, actionId: string, facilityTags: FacilityTag[] = []): string[] {
+  return Object.entries(config.definitions)
+    .filter(([, def]) => def.actions?.includes(actionId))
+    .filter(([, def]) => !def.facilityTags || def.facilityTags.some(tag => facilityTags.includes(tag)))
+    .map(([id]) => id)
+}
+
+/**
+ * 経験値を加算したスキルを返す（元のオブジェクトは変更しない）
+ */
+export function addSkillExperience(skills: CharacterSkills | undefined, skillIds: string[], minutes: number): CharacterSkills {
+  const result: CharacterSkills = { ...skills }
+  for (const skillId of skillIds) {
+    result[skillId] = Math.round(((result[skillId] ?? 0) + minutes) * 100) / 100
+  }
+  return result
+}
+
+/**
+ * スキルレベルによる倍率（1 + レベル × perLevel）
+ */
+export function getSkillMultiplier(level: number, perLevel: number): number {
+  return 1 + level * perLevel
+}
+
+/**
+ * 必要なスキルレベルを満たしているか
+ */
+export function meetsSkillRequirement(
+  skills: CharacterSkills | undefined,
+  requirement: SkillRequirement | undefined,
+  config: SkillsConfig | null
+): boolean {
+  if (!requirement) return true
+  if (!config) return false
+  return getCharacterSkillLevel(skills, requirement.skill, config) >= requirement.level
+}
+
+/**
+ * スキルの状態一覧を取得（定義順、経験値のないスキルは除く）
+ */
+export function getSkillSummaries(skills: CharacterSkills | undefined, config: SkillsConfig): SkillSummary[] {
+  const summaries: SkillSummary[] = []
+  for (const [id, def] of Object.entries(config.definitions)) {
+    const experience = skills?.[id] ?? 0
+    if (experience <= 0) continue
+    const level = getSkillLevel(experience, config)
+    summaries.push({
+      id,
+      label: def.label,
+      level,
+      experience,
+      nextLevelExperience: level < config.maxLevel ? (level + 1) * config.experiencePerLevel : null,
+    })
+  }
+  return summaries
+}
+
+/**
+ * スキルレベルをフォーマット（例: 料理 Lv2、スキル名が不明な場合はID）
+ */
+export function formatSkillRequirement(requirement: SkillRequirement, config: SkillsConfig | null): string {
+  const label = config?.definitions[requirement.skill]?.label ?? requirement.skill
+  return `${label} Lv${requirement.level}`
+}
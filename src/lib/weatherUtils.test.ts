@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest'
+import { formatWeather } from './weatherUtils'
+
+describe('weatherUtils', () => {
+  describe('formatWeather', () => {
+    it('should format season, weather and temperature', () => {
+      expect(formatWeather({ day: 3, season: 'autumn', weather: 'cloudy', temperature: 15 })).toBe('秋・くもり・15℃')
+    })
+
+    it('should format negative temperatures', () => {
+      expect(formatWeather({ day: 1, season: 'winter', weather: 'snowy', temperature: -2 })).toBe('冬・雪・-2℃')
+    })
+  })
+})
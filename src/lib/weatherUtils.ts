@@ -0,0 +1,33 @@
+/**
+ * 天候関連のユーティリティ関数（クライアント・サーバー共通）
+ */
+
+import type { Season, WeatherType, WorldWeather } from '@/types'
+
+export const SEASON_LABELS: Record<Season, string> = {
+  spring: '春',
+  summer: '夏',
+  autumn: '秋',
+  winter: '冬',
+}
+
+export const WEATHER_LABELS: Record<WeatherType, string> = {
+  sunny: '晴れ',
+  cloudy: 'くもり',
+  rainy: '雨',
+  snowy: '雪',
+}
+
+export const WEATHER_EMOJI: Record<WeatherType, string> = {
+  sunny: '☀️',
+  cloudy: '☁️',
+  rainy: '🌧️',
+  snowy: '❄️',
+}
+
+/**
+ * 天候を "夏・雨・18℃" 形式の文字列にフォーマット
+ */
+export function formatWeather(weather: WorldWeather): string {
+  return `${SEASON_LABELS[weather.season]}・${WEATHER_LABELS[weather.weather]}・${weather.temperature}℃`
+}
@@ -1,4 +1,4 @@
-import type { WorldConfig, ObstacleTheme, ObstacleType } from '@/types'
+import type { WorldConfig, ObstacleTheme, ObstacleType, SkillsConfig } from '@/types'
 
 let cachedConfig: WorldConfig | null = null
 
@@ -56,3 +56,33 @@ export function isConfigLoaded(): boolean {
 export function clearConfigCache(): void {
   cachedConfig = null
 }
+
+/**
+ * Get label and emoji of a custom action declared in world-config.json (actions section).
+ * Returns null when the config is not loaded or the action has no label.
+ */
+export function getCustomActionDisplay(actionId: string): { label: string; emoji?: string } | null {
+  if (!cachedConfig) return null
+  const action = cachedConfig.actions?.[actionId]
+  if (!action?.label) return null
+  return { label: action.label, emoji: action.emoji }
+}
+
+/**
+ * Get name and emoji of an item declared in world-config.json (items section).
+ * Returns null when the config is not loaded or the item is unknown.
+ */
+export function getItemDisplay(itemId: string): { name: string; emoji?: string } | null {
+  if (!cachedConfig) return null
+  const item = cachedConfig.items?.[itemId]
+  if (!item) return null
+  return { name: item.name, emoji: item.emoji }
+}
+
+/**
+ * Get the skills section of world-config.json.
+ * Returns null when the config is not loaded or has no skills.
+ */
+export function getSkillsConfig(): SkillsConfig | null {
+  return cachedConfig?.skills ?? null
+}
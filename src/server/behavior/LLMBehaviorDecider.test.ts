@@ -78,6 +78,22 @@ describe('LLMBehaviorDecider', () => {
       expect(decision.reason).toBe('nothing to do')
     })
 
+    it('should return job decision with the job ID from target', async () => {
+      const { llmGenerateObject } = await import('@/server/llm')
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        action: 'apply_job',
+        target: 'cafe-staff',
+        reason: '収入を増やしたい',
+        durationMinutes: null,
+        scheduleUpdate: null,
+        nextSteps: [{ action: 'accept_job', target: 'cafe-staff', reason: '入社', durationMinutes: null, orderId: null, notAfter: null, minMoney: null }],
+      })
+
+      const decision = await decider.decide(createTestContext())
+      expect(decision).toMatchObject({ type: 'apply_job', jobId: 'cafe-staff', reason: '収入を増やしたい' })
+      expect(decision.plan).toBeUndefined()
+    })
+
     it('should return move decision when action is move', async () => {
       const { llmGenerateObject } = await import('@/server/llm')
       vi.mocked(llmGenerateObject).mockResolvedValueOnce({
@@ -94,6 +110,47 @@ describe('LLMBehaviorDecider', () => {
       expect(decision.targetMapId).toBe('cafe')
     })
 
+    it('should attach follow-up steps as a plan', async () => {
+      const { llmGenerateObject } = await import('@/server/llm')
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        action: 'move',
+        target: 'cafe',
+        reason: 'カフェで食べてから出勤',
+        durationMinutes: null,
+        scheduleUpdate: null,
+        nextSteps: [
+          { action: 'eat', target: 'cafe-counter', reason: '朝食', durationMinutes: 30, orderId: 'toast', notAfter: '09:00', minMoney: 500 },
+          { action: 'idle', target: null, reason: '休む', durationMinutes: null, orderId: null, notAfter: null, minMoney: null },
+          { action: 'move', target: 'office', reason: '出勤', durationMinutes: null, orderId: null, notAfter: 'later', minMoney: null },
+          { action: 'talk', target: null, reason: '挨拶', durationMinutes: null, orderId: null, notAfter: null, minMoney: null },
+        ],
+      })
+
+      const decision = await decider.decide(createTestContext())
+      expect(decision.plan).toEqual([
+        {
+          type: 'action', actionId: 'eat', targetFacilityId: 'cafe-counter', durationMinutes: 30, orderId: 'toast',
+          reason: '朝食', precondition: { notAfter: '09:00', minMoney: 500 },
+        },
+        { type: 'move', targetMapId: 'office', reason: '出勤', precondition: undefined },
+      ])
+    })
+
+    it('should not plan after an idle decision', async () => {
+      const { llmGenerateObject } = await import('@/server/llm')
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        action: 'idle',
+        target: null,
+        reason: 'nothing to do',
+        durationMinutes: null,
+        scheduleUpdate: null,
+        nextSteps: [{ action: 'move', target: 'office', reason: '出勤', durationMinutes: null, orderId: null, notAfter: null, minMoney: null }],
+      })
+
+      const decision = await decider.decide(createTestContext())
+      expect(decision.plan).toBeUndefined()
+    })
+
     it('should return action decision for talk with NPC', async () => {
       const { llmGenerateObject } = await import('@/server/llm')
       vi.mocked(llmGenerateObject).mockResolvedValueOnce({
@@ -265,6 +322,242 @@ describe('LLMBehaviorDecider', () => {
     })
   })
 
+  describe('custom actions', () => {
+    beforeEach(() => {
+      decider.setActionConfigs({
+        read: {
+          label: '読書',
+          description: '本を読んで気分転換',
+          requirements: { facilityTags: ['public'] },
+          durationRange: { min: 15, max: 120, default: 30 },
+          perMinute: { mood: 0.25 },
+        },
+      })
+    })
+
+    it('should accept custom action in the decision schema', () => {
+      const schema = (decider as any).actionDecisionSchema
+      const decision = { action: 'read', target: null, reason: 'r', durationMinutes: 30, scheduleUpdate: null, conversationGoal: null, itemId: null, orderId: null, nextSteps: null }
+      expect(schema.safeParse(decision).success).toBe(true)
+      expect(schema.safeParse({ ...decision, action: 'dance' }).success).toBe(false)
+    })
+
+    it('should describe custom action with label and description', () => {
+      const desc = decider.buildActionDescription('read')
+      expect(desc).toContain('読書：本を読んで気分転換')
+      expect(desc).toContain('15〜120分')
+    })
+
+    it('should list custom variable-duration action in durationMinutes guideline', () => {
+      const prompt = (decider as any).buildActionDecisionPrompt(createTestContext({ availableActions: ['rest', 'read'] }))
+      expect(prompt).toContain('- read: 読書：本を読んで気分転換')
+      expect(prompt).toContain('work, read の場合は durationMinutes')
+    })
+
+    it('should resolve custom action from facility with matching tag', async () => {
+      const { llmGenerateObject } = await import('@/server/llm')
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        action: 'read',
+        target: null,
+        reason: '本を読みたい',
+        durationMinutes: 45,
+        scheduleUpdate: null,
+      })
+
+      const result = await decider.decide(createTestContext({
+        currentMapFacilities: [
+          { id: 'park-bench', label: 'ベンチ', tags: ['public'] as FacilityTag[], availableActions: ['rest', 'read'] },
+        ],
+      }))
+
+      expect(result.type).toBe('action')
+      expect(result.actionId).toBe('read')
+      expect(result.targetFacilityId).toBe('park-bench')
+      expect(result.durationMinutes).toBe(45)
+    })
+  })
+
+  describe('items', () => {
+    beforeEach(() => {
+      decider.setItemConfigs({
+        onigiri: { name: 'おにぎり', category: 'food', price: 150, effects: { satiety: 25 } },
+        tea: { name: 'お茶', category: 'drink', price: 130, effects: { mood: 5 } },
+      })
+    })
+
+    const withInventory = (overrides: Partial<BehaviorContext> = {}) => {
+      const context = createTestContext(overrides)
+      context.character.inventory = [{ itemId: 'onigiri', quantity: 2 }]
+      return context
+    }
+
+    it('should summarize inventory in the prompt', () => {
+      const prompt = (decider as any).buildActionDecisionPrompt(withInventory())
+      expect(prompt).toContain('【所持品】\n- おにぎり[onigiri] ×2（食べ物、満腹度+25）')
+    })
+
+    it('should show なし for an empty inventory', () => {
+      const prompt = (decider as any).buildActionDecisionPrompt(createTestContext())
+      expect(prompt).toContain('【所持品】\nなし')
+    })
+
+    it('should list goods with prices for shop facilities', () => {
+      const prompt = (decider as any).buildActionDecisionPrompt(createTestContext({
+        availableActions: ['buy'],
+        currentMapFacilities: [
+          {
+            id: 'store', label: 'コンビニ', tags: ['shop'] as FacilityTag[], availableActions: ['buy'],
+            catalog: [
+              { id: 'onigiri', name: 'おにぎり', price: 150, itemId: 'onigiri' },
+              { id: 'tea', name: 'お茶', price: 130, itemId: 'tea' },
+            ],
+          },
+        ],
+      }))
+      expect(prompt).toContain('- buy: 買い物（コンビニ[store] 商品: おにぎり[onigiri] 150円、お茶[tea] 130円）')
+    })
+
+    it('should eat carried food without selecting a facility', async () => {
+      const { llmGenerateObject } = await import('@/server/llm')
+      vi.mocked(llmGenerateObject).mockClear()
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        action: 'eat',
+        target: null,
+        reason: 'おにぎりを食べる',
+        durationMinutes: null,
+        itemId: 'onigiri',
+        scheduleUpdate: null,
+      })
+
+      const result = await decider.decide(withInventory({
+        nearbyFacilities: [
+          { id: 'cafe', label: 'カフェ', tags: ['restaurant'] as FacilityTag[], distance: 1, mapId: 'cafe' },
+          { id: 'diner', label: '食堂', tags: ['restaurant'] as FacilityTag[], distance: 1, mapId: 'diner' },
+        ],
+      }))
+
+      expect(result).toMatchObject({ type: 'action', actionId: 'eat', itemId: 'onigiri' })
+      expect(result.targetFacilityId).toBeUndefined()
+      expect(llmGenerateObject).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fall back to carried food when no eat facility exists', async () => {
+      const { llmGenerateObject } = await import('@/server/llm')
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        action: 'eat',
+        target: null,
+        reason: 'お腹が空いた',
+        durationMinutes: 30,
+        itemId: null,
+        scheduleUpdate: null,
+      })
+
+      const result = await decider.decide(withInventory())
+
+      expect(result).toMatchObject({ type: 'action', actionId: 'eat', itemId: 'onigiri' })
+    })
+
+    it('should eat carried food on a hunger interrupt', async () => {
+      const decision = await decider.decideInterruptFacility('eat', withInventory({
+        currentMapFacilities: [
+          { id: 'kitchen', label: 'キッチン', tags: ['kitchen'] as FacilityTag[], availableActions: ['eat'] },
+        ],
+      }))
+
+      expect(decision).toMatchObject({ type: 'action', actionId: 'eat', itemId: 'onigiri' })
+      expect(decision.reason).toContain('おにぎり')
+    })
+
+    it('should pass orderId through for buy at a facility', async () => {
+      const { llmGenerateObject } = await import('@/server/llm')
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        action: 'buy',
+        target: 'store',
+        reason: 'おやつを買う',
+        durationMinutes: null,
+        itemId: null,
+        orderId: 'tea',
+        scheduleUpdate: null,
+      })
+
+      const result = await decider.decide(createTestContext({
+        availableActions: ['buy'],
+        currentMapFacilities: [
+          {
+            id: 'store', label: 'コンビニ', tags: ['shop'] as FacilityTag[], availableActions: ['buy'],
+            catalog: [{ id: 'tea', name: 'お茶', price: 130, itemId: 'tea' }],
+          },
+        ],
+      }))
+
+      expect(result).toMatchObject({ type: 'action', actionId: 'buy', targetFacilityId: 'store', orderId: 'tea' })
+    })
+  })
+
+  describe('catalog', () => {
+    const restaurants = [
+      {
+        id: 'cafe', label: 'カフェ', tags: ['restaurant'] as FacilityTag[], distance: 1, mapId: 'cafe',
+        catalog: [{ id: 'pancake', name: 'パンケーキ', price: 900, quality: 80, effects: { mood: 15 } }],
+      },
+      {
+        id: 'diner', label: '食堂', tags: ['restaurant'] as FacilityTag[], distance: 1, mapId: 'diner',
+        catalog: [{ id: 'teishoku', name: '定食', price: 700 }],
+      },
+    ]
+
+    it('should list menu entries with price, quality and effects in the facility selection prompt', () => {
+      const prompt = (decider as any).buildFacilitySelectionPrompt('Kanon', 'eat', restaurants, 1000)
+      expect(prompt).toContain('- cafe: カフェ （メニュー: パンケーキ[pancake] 900円（品質: 80、気分+15））')
+      expect(prompt).toContain('orderId')
+    })
+
+    it('should pick the order together with the facility', async () => {
+      const { llmGenerateObject } = await import('@/server/llm')
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        action: 'eat',
+        target: null,
+        reason: 'お腹が空いた',
+        durationMinutes: null,
+        itemId: null,
+        orderId: null,
+        scheduleUpdate: null,
+      })
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        facilityId: 'cafe',
+        orderId: 'pancake',
+        reason: '甘いものが食べたい',
+      })
+
+      const result = await decider.decide(createTestContext({ nearbyFacilities: restaurants }))
+
+      expect(result).toMatchObject({ type: 'action', actionId: 'eat', targetFacilityId: 'cafe', orderId: 'pancake' })
+    })
+
+    it('should ignore an order that is not on the selected facility catalog', async () => {
+      const { llmGenerateObject } = await import('@/server/llm')
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        action: 'eat',
+        target: null,
+        reason: 'お腹が空いた',
+        durationMinutes: null,
+        itemId: null,
+        orderId: null,
+        scheduleUpdate: null,
+      })
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        facilityId: 'diner',
+        orderId: 'pancake',
+        reason: '安い',
+      })
+
+      const result = await decider.decide(createTestContext({ nearbyFacilities: restaurants }))
+
+      expect(result).toMatchObject({ type: 'action', targetFacilityId: 'diner' })
+      expect(result.orderId).toBeUndefined()
+    })
+  })
+
   describe('two-stage facility selection', () => {
     it('should trigger facility selection when multiple facilities available', async () => {
       const { llmGenerateObject } = await import('@/server/llm')
@@ -474,6 +767,169 @@ describe('LLMBehaviorDecider', () => {
       expect(decision.type).toBe('idle')
     })
 
+    it('should include weather and facility weather modifiers in prompt', async () => {
+      const context = createTestContext({
+        availableActions: ['rest'],
+        currentMapFacilities: [
+          { id: 'bench-1', label: 'ベンチ', tags: ['public'], availableActions: ['rest'], weatherModifier: -40 },
+        ],
+        nearbyFacilities: [
+          { id: 'hotspring-1', label: '大浴場', tags: ['hotspring'], distance: 1, mapId: 'hotspring', weatherModifier: 20 },
+        ],
+        weather: { day: 1, season: 'winter', weather: 'rainy', temperature: 5 },
+      })
+      const prompt = (decider as any).buildActionDecisionPrompt(context) as string
+      expect(prompt).toContain('- 天気: 冬・雨・5℃')
+      expect(prompt).toContain('ベンチ[bench-1] 天候補正: -40')
+      expect(prompt).toContain('天候補正: +20')
+    })
+
+    it('should include need urgencies in prompt', () => {
+      const context = createTestContext({
+        needs: [
+          { stat: 'bladder', value: 18, urgency: 85, actions: ['toilet'] },
+          { stat: 'energy', value: 30, urgency: 33, actions: ['sleep', 'rest'] },
+        ],
+      })
+      const prompt = (decider as any).buildActionDecisionPrompt(context) as string
+      expect(prompt).toContain('【欲求の緊急度】')
+      expect(prompt).toContain('- トイレ: 85（18%、候補: toilet）')
+      expect(prompt).toContain('- エネルギー: 33（30%、候補: sleep, rest）')
+    })
+
+    it('should omit need urgencies section when no needs are urgent', () => {
+      const prompt = (decider as any).buildActionDecisionPrompt(createTestContext({ needs: [] })) as string
+      expect(prompt).not.toContain('【欲求の緊急度】')
+    })
+
+    it('should include habituation multipliers in prompt', () => {
+      const context = createTestContext({
+        nearbyNPCs: [
+          { id: 'npc-1', name: 'Shopkeeper', mapId: 'town', currentNodeId: 'town-2-2', position: { x: 200, y: 200 }, direction: 'down', isInConversation: false },
+        ],
+        currentMapFacilities: [
+          { id: 'bench-1', label: 'ベンチ', tags: ['public'], availableActions: ['rest'] },
+        ],
+        habituations: [
+          { kind: 'npc', id: 'npc-1', multiplier: 0.4 },
+          { kind: 'action', id: 'rest', multiplier: 0.7 },
+          { kind: 'facility', id: 'bench-1', multiplier: 0.7 },
+          { kind: 'facility', id: 'cafe-1', multiplier: 0.85 },
+        ],
+      })
+      const prompt = (decider as any).buildActionDecisionPrompt(context) as string
+      expect(prompt).toContain('【慣れ】')
+      expect(prompt).toContain('- 会話 Shopkeeper[npc-1]: 気分の回復 ×0.4')
+      expect(prompt).toContain('- アクション rest: 気分の回復 ×0.7')
+      expect(prompt).toContain('- 施設 ベンチ[bench-1]: 気分の回復 ×0.7')
+      expect(prompt).toContain('- 施設 cafe-1: 気分の回復 ×0.85')
+    })
+
+    it('should include skill levels in prompt', () => {
+      const context = createTestContext({
+        skills: [
+          { id: 'writing', label: '文章', level: 2, experience: 1310.5, nextLevelExperience: 1800 },
+          { id: 'fitness', label: '体力', level: 10, experience: 6200, nextLevelExperience: null },
+        ],
+      })
+      const prompt = (decider as any).buildActionDecisionPrompt(context) as string
+      expect(prompt).toContain('【スキル】')
+      expect(prompt).toContain('- 文章: Lv2（経験値 1310/1800）')
+      expect(prompt).toContain('- 体力: Lv10（経験値 6200、最大）')
+      expect((decider as any).buildActionDecisionPrompt(createTestContext()) as string).not.toContain('【スキル】')
+    })
+
+    it('should include job board and job actions in prompt', () => {
+      const context = createTestContext({
+        jobBoard: [
+          {
+            jobId: 'freelance-writer', title: 'フリーライター', hourlyWage: 1500, workHours: { start: 9, end: 18 }, skipHolidays: true,
+            workplaces: [{ workplaceLabel: '作業エリア', mapId: 'office' }],
+            status: 'employed', remainingOpenings: null, meetsRequirement: true,
+          },
+          {
+            jobId: 'hotel-waiter', title: 'ホテルのウェイター', hourlyWage: 1300, workHours: { start: 8, end: 21 }, requiredSkill: { skill: 'cooking', level: 1 },
+            workplaces: [{ workplaceLabel: 'レストラン', mapId: 'hotel' }],
+            status: 'open', remainingOpenings: 2, requiredSkillLabel: '料理 Lv1', meetsRequirement: false,
+          },
+        ],
+      })
+      const prompt = (decider as any).buildActionDecisionPrompt(context) as string
+      expect(prompt).toContain('【求人】')
+      expect(prompt).toContain('- フリーライター[freelance-writer]: 時給 1500円、勤務時間 9:00-18:00（休日は休み）、勤務地: 作業エリア(office)、募集: 制限なし【雇用中】')
+      expect(prompt).toContain('- ホテルのウェイター[hotel-waiter]: 時給 1300円、勤務時間 8:00-21:00、勤務地: レストラン(hotel)、必要スキル: 料理 Lv1（不足）、募集: 残り2人【募集中】')
+      expect(prompt).toContain('- apply_job:')
+      const withoutJobs = (decider as any).buildActionDecisionPrompt(createTestContext()) as string
+      expect(withoutJobs).not.toContain('【求人】')
+      expect(withoutJobs).not.toContain('- apply_job:')
+    })
+
+    it('should include daily money summary in prompt', () => {
+      const context = createTestContext({
+        currentTime: { hour: 12, minute: 0, day: 3 },
+        moneySummary: [
+          { day: 3, income: 0, expense: 800 },
+          { day: 2, income: 1200, expense: 300 },
+          { day: 1, income: 0, expense: 0 },
+        ],
+      })
+      const prompt = (decider as any).buildActionDecisionPrompt(context) as string
+      expect(prompt).toContain('【収支】')
+      expect(prompt).toContain('- 今日: 収入 0円、支出 800円')
+      expect(prompt).toContain('- 昨日: 収入 1200円、支出 300円')
+      expect(prompt).toContain('- 2日前: 収入 0円、支出 0円')
+      expect((decider as any).buildActionDecisionPrompt(createTestContext()) as string).not.toContain('【収支】')
+    })
+
+    it('should include recurring expenses with arrears in prompt', () => {
+      const context = createTestContext({
+        currentTime: { hour: 12, minute: 0, day: 9 },
+        recurringExpenses: [
+          { id: 'rent', label: '家賃', amount: 60000, intervalDays: 30, nextDueDay: 30, overdueAmount: 60000, overdueDays: 2, mapId: 'home' },
+          { id: 'utilities', label: '光熱費', amount: 300, intervalDays: 1, nextDueDay: 10, overdueAmount: 0, overdueDays: 0 },
+        ],
+      })
+      const prompt = (decider as any).buildActionDecisionPrompt(context) as string
+      expect(prompt).toContain('【定期支出】')
+      expect(prompt).toContain('- 家賃: 60000円（30日ごと、次回 21日後）【滞納 60000円・2日目】')
+      expect(prompt).toContain('- 光熱費: 300円（毎日、次回 明日）')
+      expect((decider as any).buildActionDecisionPrompt(createTestContext()) as string).not.toContain('【定期支出】')
+    })
+
+    it('should include pending wages and attendance in prompt', () => {
+      const context = createTestContext({
+        currentTime: { hour: 12, minute: 0, day: 4 },
+        payroll: [
+          { jobId: 'hotel-waiter', title: 'ホテルウェイター', payday: 'weekly', nextPayday: 7, pendingWage: 8800, hoursWorkedToday: 2.5, expectedHours: 6, consecutiveAbsences: 1, fireAfterAbsences: 3 },
+          { jobId: 'writer', title: 'フリーライター', payday: 'shift', nextPayday: null, pendingWage: 0, hoursWorkedToday: 0, expectedHours: null, consecutiveAbsences: 0, fireAfterAbsences: null },
+        ],
+      })
+      const prompt = (decider as any).buildActionDecisionPrompt(context) as string
+      expect(prompt).toContain('【給与・勤怠】')
+      expect(prompt).toContain('- ホテルウェイター[hotel-waiter]: 給料日 毎週（次回 3日後）、未払い給与 8800円、今日の勤務 2.5/6時間、連続欠勤 1日（3日で解雇）')
+      expect(prompt).toContain('- フリーライター[writer]: 給料日 勤務終了時、今日の勤務 0.0時間')
+      expect((decider as any).buildActionDecisionPrompt(createTestContext()) as string).not.toContain('【給与・勤怠】')
+    })
+
+    it('should omit habituation section when nothing is habituated', () => {
+      const prompt = (decider as any).buildActionDecisionPrompt(createTestContext({ habituations: [] })) as string
+      expect(prompt).not.toContain('【慣れ】')
+    })
+
+    it('should include calendar day and town events in prompt', () => {
+      const context = createTestContext({
+        currentTime: { hour: 10, minute: 0, day: 6 },
+        calendar: { day: 6, weekday: 'sat', isHoliday: true, holidayName: '桜木町の日' },
+        townEvents: [
+          { id: 'festival', name: '公園フェスティバル', day: 6, mapId: 'park', startTime: '14:00', endTime: '18:00', status: 'upcoming' },
+        ],
+      })
+      const prompt = (decider as any).buildActionDecisionPrompt(context) as string
+      expect(prompt).toContain('- 日付: 6日目（土・祝日: 桜木町の日）')
+      expect(prompt).toContain('【町のイベント】')
+      expect(prompt).toContain('- [今日] 公園フェスティバル 14:00-18:00 @park')
+    })
+
     it('should include action descriptions when actionConfigs are set', async () => {
       const { llmGenerateObject } = await import('@/server/llm')
       vi.mocked(llmGenerateObject).mockResolvedValueOnce({
@@ -540,6 +996,20 @@ describe('LLMBehaviorDecider', () => {
       expect(result).toContain('距離: 3')
     })
 
+    it('should include weather modifier with sign', () => {
+      expect((decider as any).formatFacilityForSelection({ id: 'f1', label: '公園', weatherModifier: -40 })).toContain('天候補正: -40')
+      expect((decider as any).formatFacilityForSelection({ id: 'f2', label: '温泉', weatherModifier: 20 })).toContain('天候補正: +20')
+    })
+
+    it('should include occupancy for facilities with capacity', () => {
+      expect((decider as any).formatFacilityForSelection({ id: 'f1', label: 'トイレ', capacity: 2, occupancy: 1 })).toContain('利用中: 1/2人')
+      expect((decider as any).formatFacilityForSelection({ id: 'f2', label: 'トイレ', capacity: 1, occupancy: 1 })).toContain('満員: 1/1人')
+    })
+
+    it('should include closing time', () => {
+      expect((decider as any).formatFacilityForSelection({ id: 'f1', label: 'カフェ', closingTime: '21:00' })).toContain('（閉店: 21:00）')
+    })
+
     it('should include all optional fields', () => {
       const result = (decider as any).formatFacilityForSelection({ id: 'f1', label: '施設A', cost: 300, quality: 5, distance: 1 })
       expect(result).toContain('料金: 300円')
@@ -548,6 +1018,15 @@ describe('LLMBehaviorDecider', () => {
     })
   })
 
+  describe('private formatTodayActions', () => {
+    it('should mark cancelled actions with the reason', () => {
+      const result = (decider as any).formatTodayActions([
+        { time: '20:40', actionId: 'eat', target: 'カフェ', durationMinutes: 20, cancelReason: 'closing' },
+      ])
+      expect(result).toContain('※中断: 閉店')
+    })
+  })
+
   describe('private getNextScheduleInfo', () => {
     it('should return null for null schedule', () => {
       const result = (decider as any).getNextScheduleInfo(null, { hour: 10, minute: 0, day: 1 })
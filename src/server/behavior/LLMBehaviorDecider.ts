@@ -1,15 +1,23 @@
 import { z } from 'zod'
 import type { BehaviorDecider } from './BehaviorDecider'
-import type { BehaviorContext, BehaviorDecision, NearbyFacility, NearbyMap, ScheduleUpdate, CurrentMapFacility, ActionHistoryEntry } from '@/types/behavior'
+import type { BehaviorContext, BehaviorDecision, NearbyFacility, NearbyMap, ScheduleUpdate, CurrentMapFacility, ActionHistoryEntry, PlanStep, PlanPrecondition, HabituationInfo, HabituationKind, JobDecisionType } from '@/types/behavior'
 import type { ActionId } from '@/server/simulation/actions/definitions'
 import type { SimNPC } from '@/server/simulation/types'
-import type { ScheduleEntry, FacilityTag, ActionConfig, WorldTime } from '@/types'
-import type { EffectPerMinute } from '@/types/action'
+import type { ScheduleEntry, FacilityTag, ActionConfig, WorldTime, LLMPriority, NeedStat, ItemConfig, ItemCategory, InventoryItem, CatalogEntry, DailyMoneySummary, JobBoardEntry, JobStatus, RecurringExpenseStatus, PaydaySchedule, PayrollSummary } from '@/types'
+import type { EffectPerMinute, ActionCancelReason } from '@/types/action'
 import { llmGenerateObject } from '@/server/llm'
 import {
-  FACILITY_TAG_TO_ACTION_ID,
-  ACTION_TO_FACILITY_TAGS,
+  getActionsForTags,
+  getCustomActionIds,
+  getFacilityTagLabel,
+  getFacilityTagsForAction,
 } from '@/lib/facilityMapping'
+import { formatWeather } from '@/lib/weatherUtils'
+import { formatCalendarDay, formatTownEvent } from '@/lib/calendarUtils'
+import { findConsumableItem, getItemCount, isConsumable } from '@/lib/inventoryUtils'
+import { findCatalogEntry, getCatalogEntries } from '@/lib/facilityUtils'
+import { parseTimeString } from '@/lib/timeUtils'
+import { logger } from '@/lib/logger'
 
 // =============================================================================
 // Zod スキーマ
@@ -31,9 +39,24 @@ const ScheduleUpdateSchema = z.object({
 })
 
 /**
- * 許可されるアクション種別
+ * 許可されるアクション種別（組み込み）
+ * world-config.json のカスタムアクションは setActionConfigs で追加される
  */
-const ALLOWED_ACTIONS = ['eat', 'sleep', 'toilet', 'bathe', 'rest', 'talk', 'work', 'move', 'idle'] as const
+const ALLOWED_ACTIONS = ['eat', 'sleep', 'toilet', 'bathe', 'rest', 'talk', 'work', 'buy', 'move', 'idle', 'apply_job', 'accept_job', 'quit_job'] as const
+
+/**
+ * 求人に関する決定（targetに求人ID）。即時に処理されるため行動計画には含めない
+ */
+const JOB_DECISION_TYPES: readonly JobDecisionType[] = ['apply_job', 'accept_job', 'quit_job']
+
+function isJobDecisionType(action: string): action is JobDecisionType {
+  return (JOB_DECISION_TYPES as readonly string[]).includes(action)
+}
+
+/**
+ * 行動計画の後続ステップの上限
+ */
+const MAX_PLAN_STEPS = 3
 
 /**
  * LLMからのアクション決定出力スキーマ
@@ -44,25 +67,97 @@ const ConversationGoalSchema = z.object({
   successCriteria: z.string().describe('目的達成の具体的な判定基準（例: 「おすすめを1つ以上教えてもらえた」「街の近況を1つ以上聞けた」「体調について返答があった」）'),
 })
 
-const ActionDecisionSchema = z.object({
-  action: z.enum(ALLOWED_ACTIONS).describe('アクション種別'),
+const createPlanStepSchema = (actions: readonly string[]) => z.object({
+  action: z.enum(actions as [string, ...string[]]).describe('アクション種別'),
   target: z.string().nullable().describe('対象のID（施設ID、NPC ID、マップIDのいずれか。不要ならnull）'),
+  reason: z.string().describe('このステップの目的'),
+  durationMinutes: z.number().nullable().describe('実行時間（分）。可変時間アクションの場合に指定。それ以外はnull'),
+  orderId: z.string().nullable().describe('注文する商品・メニューのID（不要ならnull）'),
+  notAfter: z.string().nullable().describe('この時刻（HH:MM）までに始められなければ計画を見直す（不要ならnull）'),
+  minMoney: z.number().nullable().describe('このステップに必要な所持金（不要ならnull）'),
+})
+
+const createActionDecisionSchema = (actions: readonly string[]) => z.object({
+  action: z.enum(actions as [string, ...string[]]).describe('アクション種別'),
+  target: z.string().nullable().describe('対象のID（施設ID、NPC ID、マップID、求人IDのいずれか。不要ならnull）'),
   reason: z.string().describe('この行動を選んだ理由'),
   durationMinutes: z.number().nullable().describe('実行時間（分）。可変時間アクション（eat, sleep, toilet, bathe, rest, work）の場合に指定。talk, move, idle, thinkingはnull'),
   conversationGoal: ConversationGoalSchema.nullable().describe('会話の目的と達成条件（talkの場合に必須。それ以外はnull）'),
+  itemId: z.string().nullable().describe('アイテムID（eatで所持品を食べる場合はそのアイテム。それ以外はnull）'),
+  orderId: z.string().nullable().describe('注文する商品・メニューのID（buy、またはメニューのある施設を利用する場合。不要ならnull）'),
   scheduleUpdate: ScheduleUpdateSchema.nullable().describe('スケジュール変更（不要ならnull）'),
+  nextSteps: z.array(createPlanStepSchema(actions)).nullable().describe('この行動の後に続けて行う予定の行動（最大3つ、順番通り。不要ならnull）'),
 })
 
-type LLMActionDecision = z.infer<typeof ActionDecisionSchema>
+type LLMActionDecision = z.infer<ReturnType<typeof createActionDecisionSchema>>
 
 /**
  * 施設選択スキーマ（2段階目：eat, bathe等の場合）
  */
 const FacilitySelectionSchema = z.object({
   facilityId: z.string().describe('選択した施設のID'),
+  orderId: z.string().nullable().describe('注文する商品・メニューのID（施設に商品・メニューがない場合はnull）'),
   reason: z.string().describe('この施設を選んだ理由'),
 })
 
+/**
+ * 欲求（ステータス）の表示名
+ */
+const NEED_LABELS: Record<NeedStat, string> = {
+  satiety: '満腹度',
+  energy: 'エネルギー',
+  hygiene: '衛生',
+  mood: '気分',
+  bladder: 'トイレ',
+}
+
+/**
+ * 慣れの対象の表示名
+ */
+const HABITUATION_KIND_LABELS: Record<HabituationKind, string> = {
+  action: 'アクション',
+  facility: '施設',
+  npc: '会話',
+}
+
+/**
+ * アイテム種別の表示名
+ */
+const ITEM_CATEGORY_LABELS: Record<ItemCategory, string> = {
+  food: '食べ物',
+  drink: '飲み物',
+  gift: '贈り物',
+}
+
+/**
+ * 求人の状態の表示名
+ */
+const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  employed: '雇用中',
+  offered: '内定（今日中にaccept_jobで入社できます）',
+  open: '募集中',
+  full: '募集終了',
+}
+
+/**
+ * 給料日の表示名
+ */
+const PAYDAY_LABELS: Record<PaydaySchedule, string> = {
+  shift: '勤務終了時',
+  daily: '毎日',
+  weekly: '毎週',
+}
+
+/**
+ * アクションの中断理由の表示名
+ */
+const CANCEL_REASON_LABELS: Record<ActionCancelReason, string> = {
+  interrupt: '緊急の欲求',
+  closing: '閉店',
+  user: '指示',
+  conversation: '会話',
+}
+
 // =============================================================================
 // LLMBehaviorDecider
 // =============================================================================
@@ -72,13 +167,25 @@ const FacilitySelectionSchema = z.object({
  */
 export class LLMBehaviorDecider implements BehaviorDecider {
   private actionConfigs: Record<string, ActionConfig> = {}
+  private actionDecisionSchema = createActionDecisionSchema(ALLOWED_ACTIONS)
+  private itemConfigs: Record<string, ItemConfig> = {}
 
   /**
    * アクション設定を設定（world-config.json の actions セクション）
+   * カスタムアクションは行動決定スキーマの選択肢に追加される
    */
   setActionConfigs(configs: Record<string, ActionConfig>): void {
     this.actionConfigs = configs
-    console.log(`[LLMBehaviorDecider] Loaded action configs for: ${Object.keys(configs).join(', ')}`)
+    this.actionDecisionSchema = createActionDecisionSchema([...ALLOWED_ACTIONS, ...getCustomActionIds(configs)])
+    logger.info(`[LLMBehaviorDecider] Loaded action configs for: ${Object.keys(configs).join(', ')}`)
+  }
+
+  /**
+   * アイテム設定を設定（world-config.json の items セクション）
+   */
+  setItemConfigs(configs: Record<string, ItemConfig>): void {
+    this.itemConfigs = configs
+    logger.info(`[LLMBehaviorDecider] Loaded item configs for: ${Object.keys(configs).join(', ')}`)
   }
 
   /**
@@ -88,7 +195,17 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     // ステップ1: LLMにアクション種別を決定させる
     const llmDecision = await this.decideAction(context)
 
-    console.log(`[LLMBehaviorDecider] LLM decision: ${llmDecision.action} (${llmDecision.reason})`)
+    logger.info(`[LLMBehaviorDecider] LLM decision: ${llmDecision.action} (${llmDecision.reason})`)
+
+    // 求人の応募・入社・退職（targetの求人IDをそのまま渡す）
+    if (isJobDecisionType(llmDecision.action)) {
+      return {
+        type: llmDecision.action,
+        jobId: llmDecision.target ?? undefined,
+        reason: llmDecision.reason,
+        scheduleUpdate: this.convertScheduleUpdate(llmDecision.scheduleUpdate),
+      }
+    }
 
     // idle の場合はそのまま返す
     if (llmDecision.action === 'idle') {
@@ -110,11 +227,64 @@ export class LLMBehaviorDecider implements BehaviorDecider {
       if (llmDecision.durationMinutes != null && detailDecision.durationMinutes === undefined) {
         detailDecision.durationMinutes = llmDecision.durationMinutes
       }
-      return detailDecision
+      // itemId を引き継ぐ
+      if (llmDecision.itemId != null && detailDecision.itemId === undefined) {
+        detailDecision.itemId = llmDecision.itemId
+      }
+      return this.attachPlan(detailDecision, llmDecision)
     }
 
     // 内部形式に変換して返す
-    return this.convertToInternalFormat(llmDecision, context)
+    return this.attachPlan(this.convertToInternalFormat(llmDecision, context), llmDecision)
+  }
+
+  /**
+   * 後続のステップを行動計画として付与（idle の場合は計画しない）
+   */
+  private attachPlan(decision: BehaviorDecision, llmDecision: LLMActionDecision): BehaviorDecision {
+    if (decision.type === 'idle') return decision
+    const plan = this.convertPlanSteps(llmDecision.nextSteps)
+    if (plan.length > 0) {
+      decision.plan = plan
+    }
+    return decision
+  }
+
+  /**
+   * LLM形式の後続ステップ → 行動計画のステップに変換
+   * idle は計画に含めず、対象のない move / talk は捨てる。施設は実行時に解決する。
+   */
+  private convertPlanSteps(steps: LLMActionDecision['nextSteps'] | undefined): PlanStep[] {
+    const result: PlanStep[] = []
+    for (const step of steps ?? []) {
+      const target = step.target ?? undefined
+      const precondition: PlanPrecondition = {}
+      if (step.notAfter && parseTimeString(step.notAfter)) precondition.notAfter = step.notAfter
+      if (step.minMoney != null) precondition.minMoney = step.minMoney
+      const common = {
+        reason: step.reason,
+        precondition: Object.keys(precondition).length > 0 ? precondition : undefined,
+      }
+
+      if (step.action === 'idle' || isJobDecisionType(step.action)) continue
+      if (step.action === 'move') {
+        if (target) result.push({ type: 'move', targetMapId: target, ...common })
+        continue
+      }
+      if (step.action === 'talk') {
+        if (target) result.push({ type: 'talk', actionId: 'talk', targetNpcId: target, ...common })
+        continue
+      }
+      result.push({
+        type: 'action',
+        actionId: step.action as ActionId,
+        targetFacilityId: target,
+        durationMinutes: step.durationMinutes ?? undefined,
+        orderId: step.orderId ?? undefined,
+        ...common,
+      })
+    }
+    return result.slice(0, MAX_PLAN_STEPS)
   }
 
   /**
@@ -123,13 +293,14 @@ export class LLMBehaviorDecider implements BehaviorDecider {
   private async decideAction(context: BehaviorContext): Promise<LLMActionDecision> {
     const prompt = this.buildActionDecisionPrompt(context)
 
-    console.log('[LLMBehaviorDecider] Prompt:', prompt)
+    logger.info('[LLMBehaviorDecider] Prompt:', prompt)
 
     const decision = await llmGenerateObject(
       prompt,
-      ActionDecisionSchema,
+      this.actionDecisionSchema,
       {
         system: 'あなたはキャラクターとして、次の行動を決定してください。JSON形式で回答してください。',
+        priority: 'behavior',
       }
     )
 
@@ -140,8 +311,13 @@ export class LLMBehaviorDecider implements BehaviorDecider {
    * 詳細選択が必要かどうかを判定
    */
   private needsDetailSelection(decision: LLMActionDecision, context: BehaviorContext): boolean {
+    // 所持品を食べる場合は施設不要
+    if (decision.action === 'eat' && this.isCarriedFood(decision.itemId, context)) {
+      return false
+    }
+
     // 施設選択が必要なアクション（eat, bathe）で複数施設がある場合
-    if (ACTION_TO_FACILITY_TAGS[decision.action]) {
+    if (getFacilityTagsForAction(decision.action, this.actionConfigs)) {
       const relevantFacilities = this.getRelevantFacilities(decision.action, context)
 
       // LLMがtargetを指定していて、それが有効な施設IDの場合は2段階選択不要
@@ -171,7 +347,7 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     context: BehaviorContext
   ): Promise<BehaviorDecision> {
     // 施設選択が必要なアクション
-    if (ACTION_TO_FACILITY_TAGS[decision.action]) {
+    if (getFacilityTagsForAction(decision.action, this.actionConfigs)) {
       return this.selectFacility(decision, context)
     }
 
@@ -186,17 +362,34 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     facility: NearbyFacility,
     reason: string,
     includeMapId: boolean = false,
-    preferredAction?: string
+    preferredAction?: string,
+    orderId?: string | null
   ): BehaviorDecision {
+    const actionId = this.getActionIdFromFacility(facility, preferredAction)
     return {
       type: 'action',
-      actionId: this.getActionIdFromFacility(facility, preferredAction),
+      actionId,
       targetFacilityId: facility.id,
       targetMapId: includeMapId && facility.distance > 0 ? facility.mapId : undefined,
       reason,
+      orderId: this.resolveOrderId(facility, actionId, orderId),
     }
   }
 
+  /**
+   * 注文IDを検証（施設のカタログにない場合は undefined、実行時に最安の項目が選ばれる）
+   */
+  private resolveOrderId(
+    facility: NearbyFacility,
+    actionId: string,
+    orderId: string | null | undefined
+  ): string | undefined {
+    if (!orderId) return undefined
+    if (findCatalogEntry(facility, actionId, orderId)) return orderId
+    logger.info(`[LLMBehaviorDecider] Order ${orderId} not found at ${facility.id} for ${actionId}, ignoring`)
+    return undefined
+  }
+
   /**
    * LLMに施設選択をさせる（共通処理）
    */
@@ -204,20 +397,22 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     facilities: NearbyFacility[],
     prompt: string,
     systemMessage: string,
-    logContext: string
-  ): Promise<{ facility: NearbyFacility; reason: string }> {
-    console.log(`[LLMBehaviorDecider] ${logContext} prompt:`, prompt)
+    logContext: string,
+    priority: LLMPriority = 'behavior'
+  ): Promise<{ facility: NearbyFacility; reason: string; orderId: string | null }> {
+    logger.info(`[LLMBehaviorDecider] ${logContext} prompt:`, prompt)
 
     const selection = await llmGenerateObject(
       prompt,
       FacilitySelectionSchema,
-      { system: systemMessage }
+      { system: systemMessage, priority }
     )
 
-    console.log(`[LLMBehaviorDecider] ${logContext}: ${selection.facilityId} (${selection.reason})`)
+    const orderNote = selection.orderId ? ` order: ${selection.orderId}` : ''
+    logger.info(`[LLMBehaviorDecider] ${logContext}: ${selection.facilityId}${orderNote} (${selection.reason})`)
 
     const facility = facilities.find(f => f.id === selection.facilityId) ?? facilities[0]
-    return { facility, reason: selection.reason }
+    return { facility, reason: selection.reason, orderId: selection.orderId }
   }
 
   /**
@@ -247,21 +442,21 @@ export class LLMBehaviorDecider implements BehaviorDecider {
       context.character.money
     )
 
-    const { facility, reason } = await this.selectFacilityWithLLM(
+    const { facility, reason, orderId } = await this.selectFacilityWithLLM(
       relevantFacilities,
       prompt,
-      'キャラクターとして、利用する施設を選んでください。JSON形式で回答してください。',
+      'キャラクターとして、利用する施設と注文する商品・メニューを選んでください。JSON形式で回答してください。',
       'Facility selection'
     )
 
-    return this.buildFacilityDecision(facility, reason)
+    return this.buildFacilityDecision(facility, reason, false, decision.action, orderId)
   }
 
   /**
    * アクションに関連する施設を取得（現在マップ + 他マップ）
    */
   private getRelevantFacilities(action: string, context: BehaviorContext): NearbyFacility[] {
-    const relevantTags = ACTION_TO_FACILITY_TAGS[action]
+    const relevantTags = getFacilityTagsForAction(action, this.actionConfigs)
     if (!relevantTags) {
       return []
     }
@@ -280,6 +475,10 @@ export class LLMBehaviorDecider implements BehaviorDecider {
           distance: 0,
           mapId: context.character.currentMapId,
           availableActions: f.availableActions,
+          catalog: f.catalog,
+          capacity: f.capacity,
+          occupancy: f.occupancy,
+          closingTime: f.closingTime,
         })
       }
     }
@@ -300,7 +499,7 @@ export class LLMBehaviorDecider implements BehaviorDecider {
   private getActionIdFromFacility(facility: NearbyFacility, preferredAction?: string): ActionId {
     // preferredAction が指定されている場合、そのアクションに対応するタグを施設が持っていれば優先
     if (preferredAction) {
-      const preferredTags = ACTION_TO_FACILITY_TAGS[preferredAction]
+      const preferredTags = getFacilityTagsForAction(preferredAction, this.actionConfigs)
       if (preferredTags) {
         const hasMatchingTag = facility.tags.some(tag => preferredTags.includes(tag as FacilityTag))
         if (hasMatchingTag) {
@@ -309,14 +508,8 @@ export class LLMBehaviorDecider implements BehaviorDecider {
       }
     }
 
-    for (const tag of facility.tags) {
-      const actionId = FACILITY_TAG_TO_ACTION_ID[tag]
-      if (actionId) {
-        return actionId
-      }
-    }
-    // フォールバック（通常はここに来ない）
-    return 'rest'
+    // 施設タグの並び順で最初に有効になるアクション（フォールバックは通常来ない）
+    return getActionsForTags(facility.tags, this.actionConfigs)[0] ?? 'rest'
   }
 
   /**
@@ -329,6 +522,19 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     const { action, target, reason, scheduleUpdate, durationMinutes, conversationGoal } = llmDecision
     const convertedScheduleUpdate = this.convertScheduleUpdate(scheduleUpdate)
     const duration = durationMinutes ?? undefined
+    const itemId = llmDecision.itemId ?? undefined
+    const orderId = llmDecision.orderId ?? undefined
+
+    // 所持品を食べる（施設不要、時間はアイテムで決まる）
+    if (action === 'eat' && this.isCarriedFood(itemId, context)) {
+      return {
+        type: 'action',
+        actionId: 'eat',
+        reason,
+        scheduleUpdate: convertedScheduleUpdate,
+        itemId,
+      }
+    }
 
     // move アクション
     if (action === 'move') {
@@ -341,18 +547,23 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     }
 
     // 施設から BehaviorDecision を構築するヘルパー
-    const buildFacilityAction = (facility: NearbyFacility): BehaviorDecision => ({
-      type: 'action',
-      actionId: this.getActionIdFromFacility(facility, action),
-      targetFacilityId: facility.id,
-      targetMapId: facility.distance > 0 ? facility.mapId : undefined,
-      reason,
-      scheduleUpdate: convertedScheduleUpdate,
-      durationMinutes: duration,
-    })
+    const buildFacilityAction = (facility: NearbyFacility): BehaviorDecision => {
+      const actionId = this.getActionIdFromFacility(facility, action)
+      return {
+        type: 'action',
+        actionId,
+        targetFacilityId: facility.id,
+        targetMapId: facility.distance > 0 ? facility.mapId : undefined,
+        reason,
+        scheduleUpdate: convertedScheduleUpdate,
+        durationMinutes: duration,
+        itemId,
+        orderId: this.resolveOrderId(facility, actionId, orderId),
+      }
+    }
 
     // 施設選択が必要なアクション（eat, bathe）
-    if (ACTION_TO_FACILITY_TAGS[action]) {
+    if (getFacilityTagsForAction(action, this.actionConfigs)) {
       const relevantFacilities = this.getRelevantFacilities(action, context)
 
       // LLMがtargetを指定している場合、その施設を使用
@@ -362,15 +573,25 @@ export class LLMBehaviorDecider implements BehaviorDecider {
           return buildFacilityAction(targetFacility)
         }
         // targetが無効な場合はフォールバック（ログ出力）
-        console.log(`[LLMBehaviorDecider] Target facility ${target} not found for action ${action}, falling back to auto-selection`)
+        logger.info(`[LLMBehaviorDecider] Target facility ${target} not found for action ${action}, falling back to auto-selection`)
       }
 
       // 単一施設の場合は自動選択
       if (relevantFacilities.length === 1) {
         return buildFacilityAction(relevantFacilities[0])
       }
-      // 施設がない場合
+      // 施設がない場合（食べ物を持っていれば所持品を食べる）
       if (relevantFacilities.length === 0) {
+        const carriedFood = action === 'eat' ? findConsumableItem(context.character.inventory, this.itemConfigs) : null
+        if (carriedFood) {
+          return {
+            type: 'action',
+            actionId: 'eat',
+            reason,
+            scheduleUpdate: convertedScheduleUpdate,
+            itemId: carriedFood,
+          }
+        }
         return {
           type: 'idle',
           reason: `${action}できる施設がない`,
@@ -390,6 +611,8 @@ export class LLMBehaviorDecider implements BehaviorDecider {
         reason,
         scheduleUpdate: convertedScheduleUpdate,
         durationMinutes: duration,
+        itemId,
+        orderId,
       }
 
       // talk アクションの場合、targetがあればNPC IDとして設定
@@ -408,7 +631,7 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     // availableActionsにないが、nearbyFacilitiesに該当施設があれば移動+実行
     const facility = this.findFacilityForAction(action, context.nearbyFacilities)
     if (facility) {
-      console.log(`[LLMBehaviorDecider] Action ${action} not in availableActions, found facility: ${facility.label}`)
+      logger.info(`[LLMBehaviorDecider] Action ${action} not in availableActions, found facility: ${facility.label}`)
       return {
         type: 'action',
         actionId: action as ActionId,
@@ -416,11 +639,13 @@ export class LLMBehaviorDecider implements BehaviorDecider {
         reason,
         scheduleUpdate: convertedScheduleUpdate,
         durationMinutes: duration,
+        itemId,
+        orderId,
       }
     }
 
     // 施設も見つからない場合はidle
-    console.log(`[LLMBehaviorDecider] Action ${action} not available and no facility found, falling back to idle`)
+    logger.info(`[LLMBehaviorDecider] Action ${action} not available and no facility found, falling back to idle`)
     return {
       type: 'idle',
       reason: `${action} は現在利用できません: ${reason}`,
@@ -428,6 +653,14 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     }
   }
 
+  /**
+   * 所持している食べ物・飲み物のアイテムIDか
+   */
+  private isCarriedFood(itemId: string | null | undefined, context: BehaviorContext): boolean {
+    if (!itemId) return false
+    return getItemCount(context.character.inventory, itemId) > 0 && isConsumable(this.itemConfigs[itemId])
+  }
+
   /**
    * scheduleUpdate を内部形式に変換
    * Note: LLM出力では nullable なので null → undefined に変換
@@ -457,7 +690,7 @@ export class LLMBehaviorDecider implements BehaviorDecider {
   ): NearbyFacility | null {
     if (!nearbyFacilities || nearbyFacilities.length === 0) return null
 
-    const requiredTags = ACTION_TO_FACILITY_TAGS[action]
+    const requiredTags = getFacilityTagsForAction(action, this.actionConfigs)
     if (!requiredTags || requiredTags.length === 0) return null
 
     // 必要なタグをすべて持つ施設を探す
@@ -487,6 +720,16 @@ export class LLMBehaviorDecider implements BehaviorDecider {
       recentConversations,
       midTermMemories,
       todayActions,
+      weather,
+      calendar,
+      townEvents,
+      needs,
+      habituations,
+      skills,
+      moneySummary,
+      recurringExpenses,
+      payroll,
+      jobBoard,
     } = context
 
     const parts: string[] = []
@@ -539,9 +782,15 @@ export class LLMBehaviorDecider implements BehaviorDecider {
 
     // 現在の状況
     parts.push('【現在の状況】')
+    if (calendar) {
+      parts.push(`- 日付: ${formatCalendarDay(calendar)}`)
+    }
     parts.push(`- 時刻: ${currentTime.hour}:${String(currentTime.minute).padStart(2, '0')}`)
+    if (weather) {
+      parts.push(`- 天気: ${formatWeather(weather)}`)
+    }
     parts.push(`- 場所: ${character.currentMapId}`)
-    parts.push(`- 現在の施設: ${currentFacility ? currentFacility.tags.join(', ') : 'なし'}`)
+    parts.push(`- 現在の施設: ${currentFacility ? currentFacility.tags.map(getFacilityTagLabel).join(', ') : 'なし'}`)
     parts.push(`- ステータス説明:`)
     parts.push(`  - 全ステータスは0〜100%で、高いほど良い状態です`)
     parts.push(`  - 満腹度: 100%=満腹、0%=空腹（食事で回復）`)
@@ -558,11 +807,65 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     parts.push(`- 所持金: ${character.money}円`)
     parts.push('')
 
+    // 所持品
+    parts.push('【所持品】')
+    parts.push(this.formatInventory(character.inventory))
+    parts.push('')
+
+    // 収支（直近数日の収入・支出）
+    if (moneySummary && moneySummary.length > 0) {
+      parts.push('【収支】')
+      parts.push(this.formatMoneySummary(moneySummary, currentTime.day))
+      parts.push('')
+    }
+
+    // 定期支出（家賃・光熱費・会費など、日替わりに所持金から支払う）
+    if (recurringExpenses && recurringExpenses.length > 0) {
+      parts.push('【定期支出】（日替わりに所持金から支払います。払えないと滞納になり、気分が下がります）')
+      parts.push(this.formatRecurringExpenses(recurringExpenses, currentTime.day))
+      parts.push('')
+    }
+
+    // 給与・勤怠（給料日までの未払い給与、今日の勤務時間）
+    if (payroll && payroll.length > 0) {
+      parts.push('【給与・勤怠】')
+      parts.push(this.formatPayroll(payroll, currentTime.day))
+      parts.push('')
+    }
+
+    // スキル（対応する行動で上達し、回復効果・時給が上がる）
+    if (skills && skills.length > 0) {
+      parts.push('【スキル】（対応する行動を続けると上達し、回復効果や仕事の時給が上がります）')
+      parts.push(skills.map(s => `- ${s.label}: Lv${s.level}（経験値 ${Math.floor(s.experience)}${s.nextLevelExperience !== null ? `/${s.nextLevelExperience}` : '、最大'}）`).join('\n'))
+      parts.push('')
+    }
+
+    // 欲求の緊急度（緊急割り込み前に対処させる）
+    if (needs && needs.length > 0) {
+      parts.push('【欲求の緊急度】（0〜100、100になると強制的に対処させられます）')
+      parts.push(needs.map(n => `- ${NEED_LABELS[n.stat]}: ${n.urgency}（${n.value.toFixed(0)}%、候補: ${n.actions.join(', ')}）`).join('\n'))
+      parts.push('')
+    }
+
+    // 慣れ（繰り返しで気分の回復効果が下がっている対象）
+    if (habituations && habituations.length > 0) {
+      parts.push('【慣れ】（同じアクション・施設・相手を繰り返すと気分の回復が減り、時間が経つと戻ります）')
+      parts.push(this.formatHabituations(habituations, context))
+      parts.push('')
+    }
+
     // 今日のスケジュール
     parts.push('【今日のスケジュール】')
     parts.push(this.formatSchedule(schedule))
     parts.push('')
 
+    // 町のイベント（開催中・今後）
+    if (townEvents && townEvents.length > 0) {
+      parts.push('【町のイベント】')
+      parts.push(townEvents.map(e => formatTownEvent(e, currentTime.day)).join('\n'))
+      parts.push('')
+    }
+
     // 次のスケジュールまでの時間
     const nextScheduleInfo = this.getNextScheduleInfo(schedule, currentTime)
     if (nextScheduleInfo) {
@@ -586,10 +889,22 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     parts.push(this.formatNearbyMaps(nearbyMaps))
     parts.push('')
 
+    // 求人（応募・入社・退職）
+    if (jobBoard && jobBoard.length > 0) {
+      parts.push('【求人】')
+      parts.push(this.formatJobBoard(jobBoard))
+      parts.push('')
+    }
+
     // その他のアクション
     parts.push('【その他】')
     parts.push('- move: 任意の場所へ移動（上記マップIDをtargetに指定）')
     parts.push('- idle: その場で待機')
+    if (jobBoard && jobBoard.length > 0) {
+      parts.push('- apply_job: 求人に応募（求人IDをtargetに指定。募集中で必要スキルを満たしていれば内定）')
+      parts.push('- accept_job: 内定した求人に入社（求人IDをtargetに指定。入社すると勤務地でworkできます）')
+      parts.push('- quit_job: 雇用中の仕事を退職（求人IDをtargetに指定）')
+    }
     parts.push('')
 
     // 指示
@@ -598,18 +913,34 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     parts.push('')
     parts.push('【行動選択の指針】')
     parts.push('- ステータスが低い場合（20%以下）は優先的に対処してください')
+    parts.push('- 欲求の緊急度が高い場合は、強制的に対処させられる前に候補アクションで対処してください')
     parts.push('- スケジュールも考慮してください')
+    parts.push('- 天気も考慮してください（天候補正がマイナスの施設は天気のせいで魅力が下がっています）')
+    parts.push('- 満員の施設を選ぶと空くまで順番待ちになります。待ちたくない場合は別の施設を選んでください')
+    parts.push('- 閉店時刻のある施設は、閉店時刻になると利用中でも終了します。閉店までに済ませられる施設を選んでください')
+    parts.push('- 収支を考慮してください。支出が収入を上回り所持金が少ない場合は、仕事で稼いだり安い施設を選んだりして節約してください')
+    parts.push('- 所定労働時間のある仕事は、勤務日に所定の時間働かないと減給され、欠勤が続くと解雇されます')
+    parts.push('- 定期支出の支払日までに所持金を用意してください。家賃などの施設の支出を滞納し続けると退去になり、自宅の施設を使えなくなります')
+    parts.push('- 収入を増やしたい場合や今の仕事が合わない場合は、求人への応募・入社・退職を検討してください（複数の仕事を掛け持ちできます）')
+    parts.push('- 慣れている行動・施設・相手は気分があまり回復しません。気分を回復したい場合は、いつもと違う行動や施設、会話相手を選んでください')
+    parts.push('- 開催中の町のイベントに参加したい場合は、そのマップへ移動してください')
     parts.push('- 現在マップで実行可能なアクションを優先してください')
     parts.push('- 施設を利用する場合（eat, sleep, bathe, rest等）はアクションを選択し、targetに施設IDを指定')
+    parts.push('- 買い物をする場合は「buy」を選択し、targetに施設ID、orderIdに購入する商品IDを指定（1回で1個購入）')
+    parts.push('- メニューのある施設では、orderIdに注文するメニューIDを指定できます（料金はメニューの価格、指定がなければ最安のメニュー）')
+    parts.push('- 食べ物・飲み物を持っている場合は「eat」を選択し、itemIdに所持品のアイテムIDを指定すると施設なしで食事できます')
     parts.push('- NPCと話したい場合は「talk」を選択し、targetにNPC IDを指定。conversationGoalには1回の会話で達成可能な具体的目的を設定すること（例: 「おすすめの料理を聞く」「最近の出来事を聞く」）。「会話する」「話す」のような曖昧な目的は避けること')
     parts.push('- 別のマップに移動したい場合は「move」を選択し、targetにマップIDを指定')
     parts.push('- 特にすることがなければ「idle」を選択（targetはnull）')
+    parts.push('- 続けて行う予定がある場合（例: カフェで食事してから出勤する）は、nextSteps に後続の行動を順番に指定できます。計画は失敗するか緊急の欲求が生じるまで続けて実行されます')
     parts.push('')
     parts.push('【durationMinutesについて】')
-    parts.push('- eat, sleep, toilet, bathe, rest, work の場合は durationMinutes を分単位で指定してください')
+    const variableActions = ['eat', 'sleep', 'toilet', 'bathe', 'rest', 'work', ...getCustomActionIds(this.actionConfigs)
+      .filter(id => this.actionConfigs[id].durationRange)]
+    parts.push(`- ${variableActions.join(', ')} の場合は durationMinutes を分単位で指定してください`)
     parts.push('- 各アクションの最小〜最大時間の範囲内で指定してください')
     parts.push('- 次のスケジュールまでの時間を考慮して適切な時間を選んでください')
-    parts.push('- talk, move, idle は固定または即時なので durationMinutes は null にしてください')
+    parts.push('- talk, buy, move, idle は固定または即時なので durationMinutes は null にしてください')
     parts.push('')
     parts.push('スケジュールを変更したい場合は scheduleUpdate で指定できます。')
 
@@ -633,6 +964,9 @@ export class LLMBehaviorDecider implements BehaviorDecider {
         if (a.durationMinutes) {
           line += ` (${a.durationMinutes}分)`
         }
+        if (a.cancelReason) {
+          line += ` ※中断: ${CANCEL_REASON_LABELS[a.cancelReason]}`
+        }
         if (a.reason) {
           line += ` [${a.reason}]`
         }
@@ -684,7 +1018,12 @@ export class LLMBehaviorDecider implements BehaviorDecider {
       for (const facility of currentMapFacilities) {
         for (const action of facility.availableActions) {
           const existing = actionFacilityMap.get(action) || []
-          existing.push(`${facility.label}[${facility.id}]`)
+          const weatherNote = facility.weatherModifier !== undefined ? ` 天候補正: ${this.formatModifier(facility.weatherModifier)}` : ''
+          const catalogNote = this.formatCatalogNote(facility, action, ' ')
+          const occupancy = this.formatOccupancy(facility)
+          const occupancyNote = occupancy ? ` ${occupancy}` : ''
+          const closingNote = facility.closingTime ? ` 閉店: ${facility.closingTime}` : ''
+          existing.push(`${facility.label}[${facility.id}]${weatherNote}${occupancyNote}${closingNote}${catalogNote}`)
           actionFacilityMap.set(action, existing)
         }
       }
@@ -739,15 +1078,186 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     if (f.cost !== undefined) {
       parts.push(`料金: ${f.cost}円`)
     }
+    const goods = f.catalog?.filter(entry => entry.itemId !== undefined) ?? []
+    if (goods.length > 0) {
+      parts.push(`商品: ${this.formatCatalog(goods)}`)
+    }
+    const menu = f.catalog?.filter(entry => entry.itemId === undefined) ?? []
+    if (menu.length > 0) {
+      parts.push(`メニュー: ${this.formatCatalog(menu)}`)
+    }
     if (f.quality !== undefined) {
       parts.push(`品質: ${f.quality}`)
     }
+    const occupancy = this.formatOccupancy(f)
+    if (occupancy) {
+      parts.push(occupancy)
+    }
+    if (f.closingTime) {
+      parts.push(`閉店: ${f.closingTime}`)
+    }
+    if (f.weatherModifier !== undefined) {
+      parts.push(`天候補正: ${this.formatModifier(f.weatherModifier)}`)
+    }
     if (f.distance !== undefined) {
       parts.push(`距離: ${f.distance}`)
     }
     return parts.join(', ')
   }
 
+  /**
+   * 所持品をフォーマット（例: - おにぎり[onigiri] ×2（食べ物、満腹度+30））
+   */
+  private formatInventory(inventory: InventoryItem[] | undefined): string {
+    if (!inventory || inventory.length === 0) {
+      return 'なし'
+    }
+
+    return inventory
+      .map(({ itemId, quantity }) => {
+        const item = this.itemConfigs[itemId]
+        if (!item) return `- ${itemId} ×${quantity}`
+
+        const details = [ITEM_CATEGORY_LABELS[item.category]]
+        for (const [stat, value] of Object.entries(item.effects ?? {}) as Array<[NeedStat, number]>) {
+          details.push(`${NEED_LABELS[stat]}${this.formatModifier(value)}`)
+        }
+        return `- ${item.name}[${itemId}] ×${quantity}（${details.join('、')}）`
+      })
+      .join('\n')
+  }
+
+  /**
+   * カタログ項目をフォーマット（例: おにぎり[onigiri] 150円、日替わり定食[lunch] 800円（品質: 70、満腹度+10））
+   */
+  private formatCatalog(entries: CatalogEntry[]): string {
+    return entries
+      .map(entry => {
+        const details: string[] = []
+        if (entry.quality !== undefined) {
+          details.push(`品質: ${entry.quality}`)
+        }
+        for (const [stat, value] of Object.entries(entry.effects ?? {}) as Array<[NeedStat, number]>) {
+          details.push(`${NEED_LABELS[stat]}${this.formatModifier(value)}`)
+        }
+        const detailNote = details.length > 0 ? `（${details.join('、')}）` : ''
+        return `${entry.name}[${entry.id}] ${entry.price}円${detailNote}`
+      })
+      .join('、')
+  }
+
+  /**
+   * アクションに対応するカタログの注記（buy は「商品」、それ以外は「メニュー」）
+   */
+  private formatCatalogNote(facility: { catalog?: CatalogEntry[] }, action: string, prefix: string): string {
+    const entries = getCatalogEntries(facility, action)
+    if (entries.length === 0) return ''
+    return `${prefix}${action === 'buy' ? '商品' : 'メニュー'}: ${this.formatCatalog(entries)}`
+  }
+
+  /**
+   * 施設の利用状況をフォーマット（例: 利用中: 1/2人、満員: 2/2人）。定員がない施設は空文字
+   */
+  private formatOccupancy(facility: { capacity?: number; occupancy?: number }): string {
+    if (facility.capacity === undefined) return ''
+    const occupancy = facility.occupancy ?? 0
+    const label = occupancy >= facility.capacity ? '満員' : '利用中'
+    return `${label}: ${occupancy}/${facility.capacity}人`
+  }
+
+  /**
+   * 求人をフォーマット（例: - フリーライター[freelance-writer]: 時給 1500円、勤務時間 9:00-18:00、勤務地: 作業エリア(office)、募集: 制限なし【雇用中】）
+   */
+  private formatJobBoard(jobBoard: JobBoardEntry[]): string {
+    return jobBoard
+      .map(job => {
+        const { start, end } = job.workHours
+        let line = `- ${job.title}[${job.jobId}]: 時給 ${job.hourlyWage}円、勤務時間 ${start}:00-${end}:00`
+        if (job.skipHolidays) line += '（休日は休み）'
+        if (job.payday && job.payday !== 'shift') line += `、給料日: ${PAYDAY_LABELS[job.payday]}`
+        if (job.attendance) line += `、所定労働時間: 1日${job.attendance.expectedHours}時間`
+        line += `、勤務地: ${job.workplaces.map(w => `${w.workplaceLabel}(${w.mapId})`).join(', ')}`
+        if (job.requiredSkillLabel) {
+          line += `、必要スキル: ${job.requiredSkillLabel}${job.meetsRequirement ? '' : '（不足）'}`
+        }
+        line += `、募集: ${job.remainingOpenings === null ? '制限なし' : `残り${job.remainingOpenings}人`}`
+        return `${line}【${JOB_STATUS_LABELS[job.status]}】`
+      })
+      .join('\n')
+  }
+
+  /**
+   * 給与・勤怠をフォーマット（例: - カフェスタッフ[cafe-staff]: 給料日 毎週（次回 3日後）、未払い給与 8800円、今日の勤務 2.5/6時間、連続欠勤 1日（3日で解雇））
+   */
+  private formatPayroll(payroll: PayrollSummary[], currentDay: number): string {
+    return payroll
+      .map(p => {
+        let line = `- ${p.title}[${p.jobId}]: 給料日 ${PAYDAY_LABELS[p.payday]}`
+        if (p.nextPayday !== null) {
+          line += `（次回 ${p.nextPayday - currentDay === 1 ? '明日' : `${p.nextPayday - currentDay}日後`}）`
+          line += `、未払い給与 ${p.pendingWage}円`
+        }
+        line += `、今日の勤務 ${p.hoursWorkedToday.toFixed(1)}${p.expectedHours !== null ? `/${p.expectedHours}` : ''}時間`
+        if (p.consecutiveAbsences > 0) {
+          line += `、連続欠勤 ${p.consecutiveAbsences}日`
+          if (p.fireAfterAbsences !== null) line += `（${p.fireAfterAbsences}日で解雇）`
+        }
+        return line
+      })
+      .join('\n')
+  }
+
+  /**
+   * 定期支出をフォーマット（例: - 家賃: 60000円（30日ごと、次回 3日後）【滞納 60000円・2日目】）
+   */
+  private formatRecurringExpenses(expenses: RecurringExpenseStatus[], currentDay: number): string {
+    return expenses
+      .map(e => {
+        const interval = e.intervalDays === 1 ? '毎日' : `${e.intervalDays}日ごと`
+        const next = e.nextDueDay - currentDay === 1 ? '明日' : `${e.nextDueDay - currentDay}日後`
+        let line = `- ${e.label}: ${e.amount}円（${interval}、次回 ${next}）`
+        if (e.overdueAmount > 0) line += `【滞納 ${e.overdueAmount}円・${e.overdueDays}日目】`
+        return line
+      })
+      .join('\n')
+  }
+
+  /**
+   * 収支をフォーマット（例: - 今日: 収入 1200円、支出 800円）
+   */
+  private formatMoneySummary(summaries: DailyMoneySummary[], currentDay: number): string {
+    return summaries
+      .map(s => {
+        const offset = currentDay - s.day
+        const label = offset === 0 ? '今日' : offset === 1 ? '昨日' : `${offset}日前`
+        return `- ${label}: 収入 ${s.income}円、支出 ${s.expense}円`
+      })
+      .join('\n')
+  }
+
+  /**
+   * 慣れをフォーマット（例: - 施設 公園のベンチ[bench-1]: 気分の回復 ×0.7）
+   */
+  private formatHabituations(habituations: HabituationInfo[], context: BehaviorContext): string {
+    const facilities = [...(context.currentMapFacilities ?? []), ...(context.nearbyFacilities ?? [])]
+    return habituations
+      .map(h => {
+        const name = h.kind === 'npc'
+          ? context.nearbyNPCs.find(n => n.id === h.id)?.name
+          : h.kind === 'facility' ? facilities.find(f => f.id === h.id)?.label : undefined
+        const target = name ? `${name}[${h.id}]` : h.id
+        return `- ${HABITUATION_KIND_LABELS[h.kind]} ${target}: 気分の回復 ×${h.multiplier}`
+      })
+      .join('\n')
+  }
+
+  /**
+   * 補正値を符号付きでフォーマット（例: +20, -40）
+   */
+  private formatModifier(value: number): string {
+    return value > 0 ? `+${value}` : `${value}`
+  }
+
   /**
    * 移動可能なマップをフォーマット
    */
@@ -771,7 +1281,7 @@ export class LLMBehaviorDecider implements BehaviorDecider {
     money: number
   ): string {
     const facilityList = facilities
-      .map(f => this.formatFacilityForSelection(f))
+      .map(f => this.formatFacilityForSelection(f, action))
       .join('\n')
 
     return `あなたは${characterName}です。
@@ -782,20 +1292,34 @@ ${action}をすることにしました。
 【利用可能な施設】
 ${facilityList}
 
-どの施設を利用しますか？`
+品質が高い施設やメニュー、料金の高い施設ほど回復効果が大きくなります。
+どの施設を利用しますか？商品・メニューがある施設では、所持金で支払える項目からorderIdに注文する項目のIDを指定してください。`
   }
 
   /**
    * 施設選択用にフォーマット
    */
-  private formatFacilityForSelection(f: NearbyFacility): string {
+  private formatFacilityForSelection(f: NearbyFacility, action?: string): string {
     const parts: string[] = [`- ${f.id}: ${f.label}`]
-    if (f.cost !== undefined) {
+    const catalogNote = action ? this.formatCatalogNote(f, this.getActionIdFromFacility(f, action), '') : ''
+    if (catalogNote) {
+      parts.push(`（${catalogNote}）`)
+    } else if (f.cost !== undefined) {
       parts.push(`（料金: ${f.cost}円）`)
     }
     if (f.quality !== undefined) {
       parts.push(`（品質: ${f.quality}）`)
     }
+    const occupancy = this.formatOccupancy(f)
+    if (occupancy) {
+      parts.push(`（${occupancy}）`)
+    }
+    if (f.closingTime) {
+      parts.push(`（閉店: ${f.closingTime}）`)
+    }
+    if (f.weatherModifier !== undefined) {
+      parts.push(`（天候補正: ${this.formatModifier(f.weatherModifier)}）`)
+    }
     if (f.distance !== undefined) {
       parts.push(`（距離: ${f.distance}）`)
     }
@@ -845,12 +1369,17 @@ ${facilityList}
       rest: '休憩',
       talk: 'NPC会話',
       work: '仕事',
+      buy: '買い物',
       move: '別の場所へ移動',
       idle: '何もしない（待機）',
     }
 
-    const base = baseDescriptions[actionType] || actionType
     const config = this.actionConfigs[actionType]
+    // カスタムアクションは設定の label / description を使用
+    const customBase = config?.label
+      ? (config.description ? `${config.label}：${config.description}` : config.label)
+      : undefined
+    const base = baseDescriptions[actionType] || customBase || actionType
 
     // 設定がない場合は基本説明のみ
     if (!config) {
@@ -930,11 +1459,22 @@ ${facilityList}
     forcedAction: string,
     context: BehaviorContext
   ): Promise<BehaviorDecision> {
-    console.log(`[LLMBehaviorDecider] Interrupt facility selection for action: ${forcedAction}`)
+    logger.info(`[LLMBehaviorDecider] Interrupt facility selection for action: ${forcedAction}`)
 
     const relevantFacilities = this.getRelevantFacilities(forcedAction, context)
     const actionLabel = this.getActionLabel(forcedAction)
 
+    // 食べ物を持っていれば施設へ移動せずその場で食べる
+    const carriedFood = forcedAction === 'eat' ? findConsumableItem(context.character.inventory, this.itemConfigs) : null
+    if (carriedFood) {
+      return {
+        type: 'action',
+        actionId: 'eat',
+        reason: `緊急: ${actionLabel}が必要（所持品の${this.itemConfigs[carriedFood].name}を食べる）`,
+        itemId: carriedFood,
+      }
+    }
+
     // 施設がない場合のフォールバック
     if (relevantFacilities.length === 0) {
       return this.buildInterruptFallbackDecision(actionLabel, context)
@@ -956,17 +1496,19 @@ ${facilityList}
       context.character.name,
       actionLabel,
       relevantFacilities,
-      context.character.money
+      context.character.money,
+      forcedAction
     )
 
-    const { facility, reason } = await this.selectFacilityWithLLM(
+    const { facility, reason, orderId } = await this.selectFacilityWithLLM(
       relevantFacilities,
       prompt,
       '緊急状況です。施設を選んでください。JSON形式で回答してください。',
-      'Interrupt facility selection'
+      'Interrupt facility selection',
+      'interrupt'
     )
 
-    return this.buildFacilityDecision(facility, `緊急: ${reason}`, true, forcedAction)
+    return this.buildFacilityDecision(facility, `緊急: ${reason}`, true, forcedAction, orderId)
   }
 
   /**
@@ -1001,10 +1543,11 @@ ${facilityList}
     characterName: string,
     actionLabel: string,
     facilities: NearbyFacility[],
-    money: number
+    money: number,
+    action: string
   ): string {
     const facilityList = facilities
-      .map(f => this.formatFacilityForSelection(f))
+      .map(f => this.formatFacilityForSelection(f, action))
       .join('\n')
 
     return `あなたは${characterName}です。
@@ -1015,7 +1558,7 @@ ${facilityList}
 【利用可能な施設】
 ${facilityList}
 
-最も適切な施設を選んでください。距離、料金、所持金を考慮してください。`
+最も適切な施設を選んでください。距離、料金、品質（回復効果）、所持金を考慮してください。商品・メニューがある施設では、orderIdに注文する項目のIDを指定してください。`
   }
 
   /**
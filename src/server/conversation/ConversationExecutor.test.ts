@@ -5,6 +5,7 @@ import { WorldStateManager } from '../simulation/WorldState'
 import type { SimCharacter } from '../simulation/types'
 import type { WorldMap, NPC } from '@/types'
 import type { ConversationContext } from './ConversationExecutor'
+import type { ConversationPostProcessor } from './ConversationPostProcessor'
 
 // Mock LLM client
 vi.mock('@/server/llm', () => ({
@@ -212,6 +213,24 @@ describe('ConversationExecutor', () => {
       expect(completeSpy).toHaveBeenCalledWith('char-1', false)
     })
 
+    it('should pass the staleness check to the post processor and skip completion when stale', async () => {
+      vi.mocked(isLLMAvailable).mockReturnValue(false)
+      const process = vi.fn().mockResolvedValue(null)
+      executor.setPostProcessor({ process } as unknown as ConversationPostProcessor)
+
+      const goal = { goal: 'test', successCriteria: '' }
+      const session = conversationManager.startConversation('char-1', 'npc-1', goal)!
+
+      const completeSpy = vi.fn()
+      executor.setOnConversationComplete(completeSpy)
+
+      const isStale = () => true
+      await executor.executeConversation(character, npc, session, { ...createTestContext(), isStale })
+
+      expect(process).toHaveBeenCalledWith(expect.anything(), npc, character, expect.anything(), isStale)
+      expect(completeSpy).not.toHaveBeenCalled()
+    })
+
     it('should prevent duplicate loops for same character', async () => {
       // Use a long-running mock to simulate concurrent execution
       let resolveFirst: (() => void) | null = null
@@ -339,6 +358,48 @@ describe('ConversationExecutor', () => {
     })
   })
 
+  describe('calendar in prompts', () => {
+    it('should include date and town events in character prompt', async () => {
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        utterance: 'test',
+        goalAchieved: true,
+      })
+
+      const goal = { goal: 'test', successCriteria: '' }
+      const session = conversationManager.startConversation('char-1', 'npc-1', goal)!
+
+      const context: ConversationContext = {
+        ...createTestContext(),
+        calendar: { day: 1, weekday: 'sat', isHoliday: true },
+        townEvents: [
+          { id: 'festival', name: '夏祭り', day: 1, mapId: 'park', startTime: '14:00', endTime: '18:00', status: 'upcoming' },
+        ],
+      }
+
+      await executor.executeConversation(character, npc, session, context)
+
+      const promptArg = vi.mocked(llmGenerateObject).mock.calls[0][0] as string
+      expect(promptArg).toContain('- 日付: 1日目（土・休日）')
+      expect(promptArg).toContain('【町のイベント】')
+      expect(promptArg).toContain('- [今日] 夏祭り 14:00-18:00 @park')
+    })
+
+    it('should not include town events section when no events provided', async () => {
+      vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+        utterance: 'test',
+        goalAchieved: true,
+      })
+
+      const goal = { goal: 'test', successCriteria: '' }
+      const session = conversationManager.startConversation('char-1', 'npc-1', goal)!
+
+      await executor.executeConversation(character, npc, session, createTestContext())
+
+      const promptArg = vi.mocked(llmGenerateObject).mock.calls[0][0] as string
+      expect(promptArg).not.toContain('【町のイベント】')
+    })
+  })
+
   describe('nearby maps in prompts', () => {
     it('should include nearby maps with current location marked in character prompt', async () => {
       vi.mocked(llmGenerateObject).mockResolvedValueOnce({
@@ -1,10 +1,13 @@
 import { z } from 'zod'
 import type { SimCharacter } from '@/server/simulation/types'
-import type { NPC, ConversationSession, WorldTime, ScheduleEntry } from '@/types'
+import type { NPC, ConversationSession, WorldTime, ScheduleEntry, CalendarDay, TownEventInfo } from '@/types'
 import type { ActionHistoryEntry, RecentConversation, MidTermMemory, NearbyMap } from '@/types/behavior'
 import type { ConversationManager } from './ConversationManager'
 import type { ConversationPostProcessor } from './ConversationPostProcessor'
+import { WorldClock } from '@/server/simulation/WorldClock'
 import { llmGenerateObject, isLLMAvailable } from '@/server/llm'
+import { formatCalendarDay, formatTownEvent } from '@/lib/calendarUtils'
+import { logger } from '@/lib/logger'
 
 // =============================================================================
 // Zod スキーマ
@@ -30,6 +33,9 @@ export interface ConversationContext {
   schedule: ScheduleEntry[] | null
   currentTime: WorldTime
   nearbyMaps?: NearbyMap[]
+  calendar?: CalendarDay
+  townEvents?: TownEventInfo[]
+  isStale?: () => boolean  // 会話開始後にスナップショットが復元されたか（true なら結果を書き込まない）
 }
 
 export type ConversationCompleteCallback = (characterId: string, goalAchieved: boolean) => void
@@ -51,15 +57,17 @@ export type MessageEmitCallback = (
  */
 export class ConversationExecutor {
   private conversationManager: ConversationManager
+  private clock: WorldClock
   private postProcessor: ConversationPostProcessor | null = null
   private onConversationComplete: ConversationCompleteCallback | null = null
   private onMessageEmit: MessageEmitCallback | null = null
-  private turnIntervalMs: number = 60000 // デフォルト1分
+  private turnIntervalMs: number = 60000 // デフォルト1分（ワールド時間）
   // Track active conversation loops to prevent duplicates
   private activeLoops: Set<string> = new Set()
 
-  constructor(conversationManager: ConversationManager) {
+  constructor(conversationManager: ConversationManager, clock: WorldClock = new WorldClock()) {
     this.conversationManager = conversationManager
+    this.clock = clock
   }
 
   setPostProcessor(postProcessor: ConversationPostProcessor): void {
@@ -93,7 +101,7 @@ export class ConversationExecutor {
 
     // Prevent duplicate loops for same character
     if (this.activeLoops.has(characterId)) {
-      console.log(`[ConversationExecutor] Loop already active for ${character.name}, skipping`)
+      logger.info(`[ConversationExecutor] Loop already active for ${character.name}, skipping`)
       return
     }
 
@@ -102,7 +110,7 @@ export class ConversationExecutor {
     try {
       await this.runConversationLoop(character, npc, session, context)
     } catch (error) {
-      console.error(`[ConversationExecutor] Error in conversation loop for ${character.name}:`, error)
+      logger.error(`[ConversationExecutor] Error in conversation loop for ${character.name}:`, error)
     } finally {
       this.activeLoops.delete(characterId)
     }
@@ -120,7 +128,7 @@ export class ConversationExecutor {
       // Check if session is still active
       const currentSession = this.conversationManager.getActiveSession(character.id)
       if (!currentSession || currentSession.status !== 'active') {
-        console.log(`[ConversationExecutor] Session no longer active for ${character.name}`)
+        logger.info(`[ConversationExecutor] Session no longer active for ${character.name}`)
         break
       }
 
@@ -134,7 +142,7 @@ export class ConversationExecutor {
         speakerId: character.id,
         speakerName: character.name,
         utterance: characterResult.utterance,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       })
 
       // Emit message to log subscribers
@@ -142,17 +150,17 @@ export class ConversationExecutor {
         this.onMessageEmit(character.id, npc.id, 'character', character.name, characterResult.utterance)
       }
 
-      console.log(`[ConversationExecutor] ${character.name}: "${characterResult.utterance}"`)
+      logger.info(`[ConversationExecutor] ${character.name}: "${characterResult.utterance}"`)
 
       // 2. 終了判定（目的達成 or エラー）
       //    初回発話（NPC未応答）では goalAchieved を無視し、最低1往復は会話する
       if (messagesBeforeTurn > 0 && characterResult.goalAchieved) {
         goalAchieved = true
-        console.log(`[ConversationExecutor] Goal achieved for ${character.name}`)
+        logger.info(`[ConversationExecutor] Goal achieved for ${character.name}`)
         break
       }
       if (characterResult.error) {
-        console.log(`[ConversationExecutor] LLM error, ending conversation for ${character.name}`)
+        logger.info(`[ConversationExecutor] LLM error, ending conversation for ${character.name}`)
         break
       }
 
@@ -169,7 +177,7 @@ export class ConversationExecutor {
         speakerId: npc.id,
         speakerName: npc.name,
         utterance: npcUtterance,
-        timestamp: Date.now(),
+        timestamp: this.clock.now(),
       })
 
       // Emit message to log subscribers
@@ -177,11 +185,11 @@ export class ConversationExecutor {
         this.onMessageEmit(character.id, npc.id, 'npc', npc.name, npcUtterance)
       }
 
-      console.log(`[ConversationExecutor] ${npc.name}: "${npcUtterance}"`)
+      logger.info(`[ConversationExecutor] ${npc.name}: "${npcUtterance}"`)
 
       // 4. ターン上限チェック
       if (this.conversationManager.isAtMaxTurns(character.id)) {
-        console.log(`[ConversationExecutor] Max turns reached for ${character.name}`)
+        logger.info(`[ConversationExecutor] Max turns reached for ${character.name}`)
         break
       }
 
@@ -193,7 +201,7 @@ export class ConversationExecutor {
       // Check again if session is still active after sleep
       const sessionAfterSleep = this.conversationManager.getActiveSession(character.id)
       if (!sessionAfterSleep || sessionAfterSleep.status !== 'active') {
-        console.log(`[ConversationExecutor] Session ended during interval for ${character.name}`)
+        logger.info(`[ConversationExecutor] Session ended during interval for ${character.name}`)
         break
       }
     }
@@ -210,12 +218,18 @@ export class ConversationExecutor {
     // 同期で後処理（次の行動決定に必要な情報を更新）
     if (this.postProcessor) {
       try {
-        await this.postProcessor.process(completedSession, npc, character, context.currentTime)
+        await this.postProcessor.process(completedSession, npc, character, context.currentTime, context.isStale)
       } catch (error) {
-        console.error(`[ConversationExecutor] PostProcessor error for ${character.name}:`, error)
+        logger.error(`[ConversationExecutor] PostProcessor error for ${character.name}:`, error)
       }
     }
 
+    // The restored world has its own state for this character
+    if (context.isStale?.()) {
+      logger.info(`[ConversationExecutor] Skipping completion for ${character.name} (world was restored)`)
+      return
+    }
+
     if (this.onConversationComplete) {
       this.onConversationComplete(character.id, goalAchieved)
     }
@@ -240,7 +254,7 @@ export class ConversationExecutor {
       const result = await llmGenerateObject(
         prompt,
         CharacterUtteranceSchema,
-        { system: `あなたは${character.name}として会話してください。自然な日本語で話してください。` }
+        { system: `あなたは${character.name}として会話してください。自然な日本語で話してください。`, priority: 'conversation' }
       )
 
       return {
@@ -248,7 +262,7 @@ export class ConversationExecutor {
         goalAchieved: result.goalAchieved,
       }
     } catch (error) {
-      console.error(`[ConversationExecutor] Character LLM error:`, error)
+      logger.error(`[ConversationExecutor] Character LLM error:`, error)
       return { utterance: 'えっと...', goalAchieved: false, error: true }
     }
   }
@@ -272,12 +286,12 @@ export class ConversationExecutor {
       const result = await llmGenerateObject(
         prompt,
         NPCUtteranceSchema,
-        { system: `あなたは${npc.name}として会話してください。自然な日本語で話してください。` }
+        { system: `あなたは${npc.name}として会話してください。自然な日本語で話してください。`, priority: 'conversation' }
       )
 
       return result.utterance
     } catch (error) {
-      console.error(`[ConversationExecutor] NPC LLM error:`, error)
+      logger.error(`[ConversationExecutor] NPC LLM error:`, error)
       return 'そうですね...'
     }
   }
@@ -382,8 +396,14 @@ export class ConversationExecutor {
       parts.push('')
     }
 
+    // 町のイベント
+    this.pushTownEvents(parts, context)
+
     // 現在のステータス
     parts.push('【現在のステータス】')
+    if (context.calendar) {
+      parts.push(`- 日付: ${formatCalendarDay(context.calendar)}`)
+    }
     parts.push(`- 時刻: ${context.currentTime.hour}:${String(context.currentTime.minute).padStart(2, '0')}`)
     parts.push(`- 満腹度: ${character.satiety.toFixed(0)}%`)
     parts.push(`- エネルギー: ${character.energy.toFixed(0)}%`)
@@ -481,6 +501,9 @@ export class ConversationExecutor {
       parts.push('')
     }
 
+    // 町のイベント
+    this.pushTownEvents(parts, context)
+
     // 指示
     parts.push('【回答形式】')
     parts.push('JSON形式で回答してください。')
@@ -491,7 +514,16 @@ export class ConversationExecutor {
     return parts.join('\n')
   }
 
+  /** 開催中・今後の町のイベントをプロンプトに追加（なければ何もしない） */
+  private pushTownEvents(parts: string[], context: ConversationContext): void {
+    if (!context.townEvents || context.townEvents.length === 0) return
+    parts.push('【町のイベント】')
+    parts.push(context.townEvents.map(e => formatTownEvent(e, context.currentTime.day)).join('\n'))
+    parts.push('')
+  }
+
+  /** ワールド時間で待機（時間倍率・一時停止に追従） */
   private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
+    return this.clock.sleep(ms)
   }
 }
@@ -1,5 +1,6 @@
 import type { ConversationSession, ConversationGoal, ConversationMessage } from '@/types'
 import type { WorldStateManager } from '../simulation/WorldState'
+import { logger } from '@/lib/logger'
 
 export type ConversationEventCallback = (session: ConversationSession) => void
 
@@ -25,19 +26,19 @@ export class ConversationManager {
   startConversation(characterId: string, npcId: string, goal: ConversationGoal): ConversationSession | null {
     // Don't start if character already has an active session
     if (this.activeSessions.has(characterId)) {
-      console.log(`[ConversationManager] Character ${characterId} already in conversation`)
+      logger.info(`[ConversationManager] Character ${characterId} already in conversation`)
       return null
     }
 
     const npc = this.worldState.getNPC(npcId)
     if (!npc) {
-      console.log(`[ConversationManager] NPC ${npcId} not found`)
+      logger.info(`[ConversationManager] NPC ${npcId} not found`)
       return null
     }
 
     // Check if NPC is already in conversation
     if (npc.isInConversation) {
-      console.log(`[ConversationManager] NPC ${npcId} already in conversation`)
+      logger.info(`[ConversationManager] NPC ${npcId} already in conversation`)
       return null
     }
 
@@ -66,7 +67,7 @@ export class ConversationManager {
 
     this.activeSessions.set(characterId, session)
 
-    console.log(`[ConversationManager] Started conversation: ${characterId} <-> ${npc.name} (goal: ${goal.goal})`)
+    logger.info(`[ConversationManager] Started conversation: ${characterId} <-> ${npc.name} (goal: ${goal.goal})`)
 
     if (this.onConversationStart) {
       this.onConversationStart(session)
@@ -111,7 +112,7 @@ export class ConversationManager {
 
     this.activeSessions.delete(characterId)
 
-    console.log(`[ConversationManager] Ended conversation: ${characterId} (goalAchieved: ${goalAchieved})`)
+    logger.info(`[ConversationManager] Ended conversation: ${characterId} (goalAchieved: ${goalAchieved})`)
 
     if (this.onConversationEnd) {
       this.onConversationEnd(session)
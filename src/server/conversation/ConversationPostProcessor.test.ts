@@ -296,6 +296,56 @@ describe('ConversationPostProcessor', () => {
     expect(prompt).toContain('最近の様子を聞く')
   })
 
+  it('should write nothing when the world is restored during extraction', async () => {
+    const memoryPersistSpy = vi.fn().mockResolvedValue(undefined)
+    processor.setOnMemoryPersist(memoryPersistSpy)
+
+    let resolveExtraction!: (extraction: unknown) => void
+    vi.mocked(llmGenerateObject).mockReturnValueOnce(new Promise(resolve => { resolveExtraction = resolve }))
+
+    let restored = false
+    const processing = processor.process(createTestSession(), createTestNPC(), createTestCharacter(), { hour: 10, minute: 0, day: 1 }, () => restored)
+
+    // Snapshot restore happens while the LLM is still extracting
+    restored = true
+    resolveExtraction({
+      summary: '復元前の会話',
+      affinityChange: 10,
+      updatedFacts: ['復元前のfact'],
+      mood: 'happy',
+      topicsDiscussed: [],
+      memories: [{ content: '明日また来る', importance: 'high' }],
+    })
+
+    expect(await processing).toBeNull()
+    expect(npcUpdateSpy).not.toHaveBeenCalled()
+    expect(summaryPersistSpy).not.toHaveBeenCalled()
+    expect(npcStatePersistSpy).not.toHaveBeenCalled()
+    expect(memoryPersistSpy).not.toHaveBeenCalled()
+  })
+
+  it('should stop writing when the world is restored while persisting the summary', async () => {
+    const memoryPersistSpy = vi.fn().mockResolvedValue(undefined)
+    processor.setOnMemoryPersist(memoryPersistSpy)
+    let restored = false
+    summaryPersistSpy.mockImplementationOnce(async () => { restored = true })
+
+    vi.mocked(llmGenerateObject).mockResolvedValueOnce({
+      summary: 'test',
+      affinityChange: 0,
+      updatedFacts: [],
+      mood: 'neutral',
+      topicsDiscussed: [],
+      memories: [{ content: '明日また来る', importance: 'high' }],
+    })
+
+    await processor.process(createTestSession(), createTestNPC(), createTestCharacter(), { hour: 10, minute: 0, day: 1 }, () => restored)
+
+    expect(summaryPersistSpy).toHaveBeenCalledTimes(1)
+    expect(npcStatePersistSpy).not.toHaveBeenCalled()
+    expect(memoryPersistSpy).not.toHaveBeenCalled()
+  })
+
   describe('mid-term memory extraction', () => {
     it('should call memory persist callback with extracted memories', async () => {
       const memoryPersistSpy = vi.fn().mockResolvedValue(undefined)
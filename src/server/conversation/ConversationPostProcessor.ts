@@ -4,6 +4,7 @@ import type { ConversationSession, ConversationSummaryEntry, NPCDynamicState, NP
 import type { SimCharacter } from '@/server/simulation/types'
 import type { MidTermMemory } from '@/types/behavior'
 import { llmGenerateObject } from '@/server/llm'
+import { logger } from '@/lib/logger'
 
 const ConversationExtractionSchema = z.object({
   summary: z.string().describe('会話の要約（1-2文）'),
@@ -53,7 +54,17 @@ export class ConversationPostProcessor {
     this.onMemoryPersist = callback
   }
 
-  async process(session: ConversationSession, npc: NPC, character: SimCharacter, currentTime?: WorldTime): Promise<ConversationExtraction | null> {
+  /**
+   * 会話ログから要約・好感度・記憶を抽出して書き込む
+   * isStale が true を返したら（LLM待ちの間にスナップショットが復元されたら）以降の書き込みを行わない
+   */
+  async process(
+    session: ConversationSession,
+    npc: NPC,
+    character: SimCharacter,
+    currentTime?: WorldTime,
+    isStale: () => boolean = () => false
+  ): Promise<ConversationExtraction | null> {
     // Skip if no messages
     if (session.messages.length === 0) {
       return null
@@ -64,10 +75,18 @@ export class ConversationPostProcessor {
     const extraction = await llmGenerateObject(
       prompt,
       ConversationExtractionSchema,
-      { system: '会話ログを分析し、要約・好感度変化・facts更新・気分・トピックを抽出してください。' }
+      {
+        system: '会話ログを分析し、要約・好感度変化・facts更新・気分・トピックを抽出してください。',
+        priority: 'postProcessing',
+      }
     )
 
-    console.log(`[ConversationPostProcessor] Extraction for ${npc.name}: summary="${extraction.summary}", affinity=${extraction.affinityChange}, mood=${extraction.mood}`)
+    logger.info(`[ConversationPostProcessor] Extraction for ${npc.name}: summary="${extraction.summary}", affinity=${extraction.affinityChange}, mood=${extraction.mood}`)
+
+    if (isStale()) {
+      logger.info(`[ConversationPostProcessor] Dropping extraction for ${npc.name} (world was restored)`)
+      return null
+    }
 
     // Calculate updated NPC state
     const newAffinity = Math.max(-100, Math.min(100, npc.affinity + extraction.affinityChange))
@@ -114,12 +133,12 @@ export class ConversationPostProcessor {
       lastConversation: newLastConversation,
     }
 
-    if (this.onNPCStatePersist) {
+    if (this.onNPCStatePersist && !isStale()) {
       await this.onNPCStatePersist(npc.id, fullState)
     }
 
     // Persist mid-term memories
-    if (this.onMemoryPersist && currentTime && extraction.memories && extraction.memories.length > 0) {
+    if (this.onMemoryPersist && !isStale() && currentTime && extraction.memories && extraction.memories.length > 0) {
       const memories: MidTermMemory[] = extraction.memories.map((m, i) => ({
         id: randomUUID(),
         characterId: session.characterId,
@@ -131,7 +150,7 @@ export class ConversationPostProcessor {
       }))
 
       await this.onMemoryPersist(memories)
-      console.log(`[ConversationPostProcessor] Persisted ${memories.length} mid-term memories for ${character.name}`)
+      logger.info(`[ConversationPostProcessor] Persisted ${memories.length} mid-term memories for ${character.name}`)
     }
 
     return extraction
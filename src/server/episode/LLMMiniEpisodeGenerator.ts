@@ -1,9 +1,12 @@
 import { z } from 'zod'
-import type { MiniEpisodeGenerator, MiniEpisodeResult } from './MiniEpisodeGenerator'
+import type { MiniEpisodeGenerator, MiniEpisodeResult, MiniEpisodeContext } from './MiniEpisodeGenerator'
 import type { SimCharacter } from '@/server/simulation/types'
 import type { ActionId } from '@/types/action'
 import type { FacilityInfo } from '@/types'
 import { llmGenerateObject } from '@/server/llm'
+import { SeededRandom } from '@/server/simulation/SeededRandom'
+import { formatWeather } from '@/lib/weatherUtils'
+import { logger } from '@/lib/logger'
 
 // Actions that should never generate episodes
 const SKIP_ACTIONS: Set<string> = new Set(['talk', 'thinking', 'idle'])
@@ -21,33 +24,37 @@ const MiniEpisodeSchema = z.object({
 
 export class LLMMiniEpisodeGenerator implements MiniEpisodeGenerator {
   private probability: number
+  private rng: SeededRandom
 
-  constructor(probability: number = 0.5) {
+  constructor(probability: number = 0.5, rng: SeededRandom = new SeededRandom()) {
     this.probability = probability
+    this.rng = rng
   }
 
   async generate(
     character: SimCharacter,
     actionId: ActionId,
-    facility: FacilityInfo | null
+    facility: FacilityInfo | null,
+    context: MiniEpisodeContext = {}
   ): Promise<MiniEpisodeResult | null> {
     // Skip certain actions
     if (SKIP_ACTIONS.has(actionId)) {
-      console.log(`[MiniEpisodeGenerator] Skipped (action: ${actionId})`)
+      logger.info(`[MiniEpisodeGenerator] Skipped (action: ${actionId})`)
       return null
     }
 
     // Probability check
-    if (Math.random() > this.probability) {
-      console.log(`[MiniEpisodeGenerator] Skipped (probability)`)
+    if (this.rng.next() > this.probability) {
+      logger.info(`[MiniEpisodeGenerator] Skipped (probability)`)
       return null
     }
 
-    const prompt = this.buildPrompt(character, actionId, facility)
+    const prompt = this.buildPrompt(character, actionId, facility, context)
 
     try {
       const result = await llmGenerateObject(prompt, MiniEpisodeSchema, {
         system: 'あなたはキャラクターシミュレーションのミニエピソード生成器です。キャラクターがアクションを完了した際に、ちょっとした出来事を生成してください。出来事は短く（1-2文）、日常的で自然なものにしてください。',
+        priority: 'miniEpisode',
       })
 
       // Convert nullable values to actual stat changes (exclude nulls)
@@ -59,15 +66,20 @@ export class LLMMiniEpisodeGenerator implements MiniEpisodeGenerator {
         }
       }
 
-      console.log(`[MiniEpisodeGenerator] Generated: ${result.episode}`)
+      logger.info(`[MiniEpisodeGenerator] Generated: ${result.episode}`)
       return { episode: result.episode, statChanges }
     } catch (error) {
-      console.error('[MiniEpisodeGenerator] Error generating episode:', error)
+      logger.error('[MiniEpisodeGenerator] Error generating episode:', error)
       return null
     }
   }
 
-  private buildPrompt(character: SimCharacter, actionId: ActionId, facility: FacilityInfo | null): string {
+  private buildPrompt(
+    character: SimCharacter,
+    actionId: ActionId,
+    facility: FacilityInfo | null,
+    context: MiniEpisodeContext
+  ): string {
     const parts: string[] = []
 
     parts.push(`キャラクター: ${character.name}`)
@@ -78,6 +90,9 @@ export class LLMMiniEpisodeGenerator implements MiniEpisodeGenerator {
     if (facility) {
       parts.push(`施設タグ: ${facility.tags.join(', ')}`)
     }
+    if (context.weather) {
+      parts.push(`天気: ${formatWeather(context.weather)}`)
+    }
     parts.push('')
     parts.push('【現在のステータス】')
     parts.push(`- 満腹度: ${character.satiety.toFixed(0)}%`)
@@ -8,6 +8,7 @@ vi.mock('@/server/llm', () => ({
 
 import { StubMiniEpisodeGenerator } from './StubMiniEpisodeGenerator'
 import { LLMMiniEpisodeGenerator } from './LLMMiniEpisodeGenerator'
+import { SeededRandom } from '@/server/simulation/SeededRandom'
 import type { SimCharacter } from '@/server/simulation/types'
 import type { FacilityInfo } from '@/types'
 
@@ -54,11 +55,13 @@ describe('StubMiniEpisodeGenerator', () => {
 
 describe('LLMMiniEpisodeGenerator', () => {
   let generator: LLMMiniEpisodeGenerator
+  let rng: SeededRandom
 
   beforeEach(() => {
     vi.restoreAllMocks()
     mockLlmGenerateObject.mockReset()
-    generator = new LLMMiniEpisodeGenerator(0.5)
+    rng = new SeededRandom(42)
+    generator = new LLMMiniEpisodeGenerator(0.5, rng)
   })
 
   describe('action skipping', () => {
@@ -77,14 +80,14 @@ describe('LLMMiniEpisodeGenerator', () => {
 
   describe('probability check', () => {
     it('should return null when random exceeds probability', async () => {
-      vi.spyOn(Math, 'random').mockReturnValue(0.8) // > 0.5
+      vi.spyOn(rng, 'next').mockReturnValue(0.8) // > 0.5
       const result = await generator.generate(createTestCharacter(), 'eat', null)
       expect(result).toBeNull()
       expect(mockLlmGenerateObject).not.toHaveBeenCalled()
     })
 
     it('should call LLM when random is within probability', async () => {
-      vi.spyOn(Math, 'random').mockReturnValue(0.3) // < 0.5
+      vi.spyOn(rng, 'next').mockReturnValue(0.3) // < 0.5
       mockLlmGenerateObject.mockResolvedValue({
         episode: 'おいしいパンを見つけた',
         statChanges: { satiety: null, energy: null, hygiene: null, mood: 5, bladder: null },
@@ -96,8 +99,8 @@ describe('LLMMiniEpisodeGenerator', () => {
     })
 
     it('should respect custom probability', async () => {
-      const gen = new LLMMiniEpisodeGenerator(1.0) // always generate
-      vi.spyOn(Math, 'random').mockReturnValue(0.99) // still < 1.0
+      const gen = new LLMMiniEpisodeGenerator(1.0, rng) // always generate
+      vi.spyOn(rng, 'next').mockReturnValue(0.99) // still < 1.0
       mockLlmGenerateObject.mockResolvedValue({
         episode: 'エピソード',
         statChanges: { satiety: null, energy: null, hygiene: null, mood: null, bladder: null },
@@ -107,9 +110,26 @@ describe('LLMMiniEpisodeGenerator', () => {
       expect(result).not.toBeNull()
     })
 
+    it('should produce the same rolls for the same seed', async () => {
+      mockLlmGenerateObject.mockResolvedValue({
+        episode: 'エピソード',
+        statChanges: { satiety: null, energy: null, hygiene: null, mood: null, bladder: null },
+      })
+      const runRolls = async () => {
+        const gen = new LLMMiniEpisodeGenerator(0.5, new SeededRandom(7))
+        const results: boolean[] = []
+        for (let i = 0; i < 10; i++) {
+          results.push((await gen.generate(createTestCharacter(), 'eat', null)) !== null)
+        }
+        return results
+      }
+
+      expect(await runRolls()).toEqual(await runRolls())
+    })
+
     it('should never generate with probability 0', async () => {
-      const gen = new LLMMiniEpisodeGenerator(0)
-      vi.spyOn(Math, 'random').mockReturnValue(0.01) // > 0
+      const gen = new LLMMiniEpisodeGenerator(0, rng)
+      vi.spyOn(rng, 'next').mockReturnValue(0.01) // > 0
       const result = await gen.generate(createTestCharacter(), 'eat', null)
       expect(result).toBeNull()
     })
@@ -117,7 +137,7 @@ describe('LLMMiniEpisodeGenerator', () => {
 
   describe('LLM result processing', () => {
     beforeEach(() => {
-      vi.spyOn(Math, 'random').mockReturnValue(0.1) // always within probability
+      vi.spyOn(rng, 'next').mockReturnValue(0.1) // always within probability
     })
 
     it('should convert nullable stat changes to actual values', async () => {
@@ -204,11 +224,25 @@ describe('LLMMiniEpisodeGenerator', () => {
       const prompt = mockLlmGenerateObject.mock.calls[0][0] as string
       expect(prompt).toContain('work')
     })
+
+    it('should include weather in prompt when provided', async () => {
+      mockLlmGenerateObject.mockResolvedValue({
+        episode: 'エピソード',
+        statChanges: { satiety: null, energy: null, hygiene: null, mood: null, bladder: null },
+      })
+
+      await generator.generate(createTestCharacter(), 'rest', null, {
+        weather: { day: 1, season: 'summer', weather: 'rainy', temperature: 26 },
+      })
+
+      const prompt = mockLlmGenerateObject.mock.calls[0][0] as string
+      expect(prompt).toContain('天気: 夏・雨・26℃')
+    })
   })
 
   describe('error handling', () => {
     beforeEach(() => {
-      vi.spyOn(Math, 'random').mockReturnValue(0.1)
+      vi.spyOn(rng, 'next').mockReturnValue(0.1)
       vi.spyOn(console, 'error').mockImplementation(() => {})
     })
 
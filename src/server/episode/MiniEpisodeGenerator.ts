@@ -1,16 +1,22 @@
 import type { SimCharacter } from '@/server/simulation/types'
 import type { ActionId } from '@/types/action'
-import type { FacilityInfo } from '@/types'
+import type { FacilityInfo, WorldWeather } from '@/types'
 
 export interface MiniEpisodeResult {
   episode: string
   statChanges: Partial<Record<'satiety' | 'energy' | 'hygiene' | 'mood' | 'bladder', number>>
 }
 
+// エピソード生成時のワールドの状況
+export interface MiniEpisodeContext {
+  weather?: WorldWeather
+}
+
 export interface MiniEpisodeGenerator {
   generate(
     character: SimCharacter,
     actionId: ActionId,
-    facility: FacilityInfo | null
+    facility: FacilityInfo | null,
+    context?: MiniEpisodeContext
   ): Promise<MiniEpisodeResult | null>
 }
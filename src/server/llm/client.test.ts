@@ -129,6 +129,100 @@ describe('client', () => {
       const result = await client.llmGenerateObject('hello', schema)
       expect(result).toEqual({ key: 'value' })
     })
+
+    it('should route requests through the scheduler with the given priority', async () => {
+      process.env.LLM_MODEL = 'openai/chat/gpt-4o-mini'
+      process.env.LLM_API_KEY = 'test-key'
+      client.initializeLLMClient()
+      const { getLLMScheduler } = await import('./scheduler')
+      const scheduleSpy = vi.spyOn(getLLMScheduler(), 'schedule')
+      const { z } = await import('zod')
+      const schema = z.object({ key: z.string() })
+
+      await client.llmGenerateObject('hello', schema, { priority: 'interrupt' })
+      await client.llmGenerateObject('hello', schema)
+
+      expect(scheduleSpy.mock.calls.map(call => call[0])).toEqual(['interrupt', 'behavior'])
+      expect(getLLMScheduler().getMetrics().completed).toBe(2)
+    })
+  })
+
+  describe('waitForLLMIdle', () => {
+    it('should resolve immediately when nothing is in flight', async () => {
+      await expect(client.waitForLLMIdle()).resolves.toBeUndefined()
+    })
+
+    it('should wait for follow-up calls started when a call settles', async () => {
+      process.env.LLM_MODEL = 'openai/chat/gpt-4o-mini'
+      process.env.LLM_API_KEY = 'test-key'
+      client.initializeLLMClient()
+      const { generateText } = await import('ai')
+      let resolveFirst!: () => void
+      vi.mocked(generateText).mockImplementationOnce(() => new Promise(resolve => {
+        resolveFirst = () => resolve({ text: 'first' } as Awaited<ReturnType<typeof generateText>>)
+      }))
+
+      const results: string[] = []
+      client.llmGenerateText('first').then(async text => {
+        results.push(text)
+        results.push(await client.llmGenerateText('second'))
+      })
+      let idle = false
+      const waiting = client.waitForLLMIdle().then(() => { idle = true })
+
+      await new Promise(resolve => setImmediate(resolve))
+      expect(idle).toBe(false)
+      resolveFirst()
+      await waiting
+
+      expect(results).toEqual(['first', 'generated text'])
+    })
+  })
+
+  describe('initializeLLMTranscript', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      const { mkdtempSync } = await import('fs')
+      const os = await import('os')
+      const path = await import('path')
+      dir = mkdtempSync(path.join(os.tmpdir(), 'llm-client-transcript-'))
+    })
+
+    afterEach(async () => {
+      const { rmSync } = await import('fs')
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should replay a recorded transcript without a model', async () => {
+      const path = await import('path')
+      const filePath = path.join(dir, 'transcript.jsonl')
+      const { z } = await import('zod')
+      const schema = z.object({ key: z.string() })
+      process.env.LLM_MODEL = 'openai/chat/gpt-4o-mini'
+      process.env.LLM_API_KEY = 'test-key'
+      client.initializeLLMClient()
+      client.initializeLLMTranscript({ record: filePath })
+      await client.llmGenerateObject('hello', schema)
+      await client.llmGenerateText('hi', { priority: 'conversation' })
+      await client.waitForLLMIdle()
+      client.shutdownLLMClient()
+
+      const { generateText, generateObject } = await import('ai')
+      vi.mocked(generateText).mockClear()
+      vi.mocked(generateObject).mockClear()
+      client.initializeLLMTranscript({ replay: filePath })
+
+      expect(client.isLLMAvailable()).toBe(true)
+      await expect(client.llmGenerateText('hi', { priority: 'conversation' })).resolves.toBe('generated text')
+      await expect(client.llmGenerateObject('hello', schema)).resolves.toEqual({ key: 'value' })
+      expect(generateText).not.toHaveBeenCalled()
+      expect(generateObject).not.toHaveBeenCalled()
+    })
+
+    it('should reject recording and replaying at once', () => {
+      expect(() => client.initializeLLMTranscript({ record: 'a.jsonl', replay: 'b.jsonl' })).toThrow()
+    })
   })
 
   describe('shutdownLLMClient', () => {
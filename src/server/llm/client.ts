@@ -3,11 +3,19 @@ import { createAnthropic } from '@ai-sdk/anthropic'
 import { createGoogleGenerativeAI } from '@ai-sdk/google'
 import { generateText, generateObject, type LanguageModel } from 'ai'
 import type { z } from 'zod'
+import type { LLMPriority } from '@/types/config'
 import { getLLMErrorHandler } from './errorHandler'
+import { getLLMScheduler, LLMRequestDroppedError } from './scheduler'
+import { LLMTranscript, hashPrompt, type LLMTranscriptOperation } from './transcript'
+import { logger } from '@/lib/logger'
 
 // Internal state
 let model: LanguageModel | null = null
 let modelString: string | null = null
+// Calls that have not settled yet (see waitForLLMIdle)
+const inFlight: Set<Promise<unknown>> = new Set()
+// Set by initializeLLMTranscript (record or replay)
+let transcript: LLMTranscript | null = null
 
 /**
  * Parse model string
@@ -69,7 +77,7 @@ function createLanguageModel(
 export function initializeLLMClient(): void {
   const llmModel = process.env.LLM_MODEL
   if (!llmModel) {
-    console.warn('[LLM] LLM_MODEL not set, LLM features disabled')
+    logger.warn('[LLM] LLM_MODEL not set, LLM features disabled')
     return
   }
 
@@ -78,28 +86,55 @@ export function initializeLLMClient(): void {
     model = createLanguageModel(parsed.provider, parsed.subType, parsed.model)
     modelString = llmModel
     const baseURL = process.env.LLM_BASE_URL
-    console.log(`[LLM] Client initialized: ${llmModel}${baseURL ? ` (baseURL: ${baseURL})` : ''}`)
+    logger.info(`[LLM] Client initialized: ${llmModel}${baseURL ? ` (baseURL: ${baseURL})` : ''}`)
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
-    console.error(`[LLM] Failed to initialize (${llmModel}): ${message}`)
+    logger.error(`[LLM] Failed to initialize (${llmModel}): ${message}`)
   }
 }
 
 /**
- * Check if LLM is available
+ * Enable LLM transcript recording or replay
+ * record: append every call's result to a JSONL file
+ * replay: answer calls from a recorded JSONL file without calling the model
+ */
+export function initializeLLMTranscript(options: { record?: string; replay?: string }): void {
+  if (options.record && options.replay) {
+    throw new Error('Cannot record and replay an LLM transcript at the same time')
+  }
+  if (options.replay) {
+    transcript = LLMTranscript.replay(options.replay)
+    logger.info(`[LLM] Replaying transcript: ${options.replay} (${transcript.size} entries)`)
+  } else if (options.record) {
+    transcript = LLMTranscript.record(options.record)
+    logger.info(`[LLM] Recording transcript: ${options.record}`)
+  } else {
+    transcript = null
+  }
+}
+
+/**
+ * Check if LLM is available (a replayed transcript counts as available)
  */
 export function isLLMAvailable(): boolean {
-  return model !== null
+  return model !== null || transcript?.mode === 'replay'
 }
 
 /**
  * Generate text
+ * Requests are queued by the LLM scheduler (default priority: behavior)
  */
 export async function llmGenerateText(
   prompt: string,
-  options?: { system?: string }
+  options?: { system?: string; priority?: LLMPriority }
 ): Promise<string> {
   const errorHandler = getLLMErrorHandler()
+  const priority = options?.priority ?? 'behavior'
+
+  // Replay bypasses the scheduler: recorded drops are replayed as recorded
+  if (transcript?.mode === 'replay') {
+    return trackInFlight(replayCall<string>(transcript, priority, 'generateText', prompt, options?.system))
+  }
 
   if (!model) {
     const error = new Error('LLM client not initialized')
@@ -107,30 +142,43 @@ export async function llmGenerateText(
     throw error
   }
 
-  try {
-    const result = await generateText({
-      model,
-      prompt,
-      system: options?.system,
-    })
+  const currentModel = model
+  const scheduled = getLLMScheduler().schedule(priority, async () => {
+    try {
+      const result = await generateText({
+        model: currentModel,
+        prompt,
+        system: options?.system,
+      })
 
-    errorHandler.resetFailureCount()
-    return result.text
-  } catch (error) {
-    await errorHandler.handleError(error, { operation: 'generateText', prompt: prompt.substring(0, 100) })
-    throw error
-  }
+      errorHandler.resetFailureCount()
+      return result.text
+    } catch (error) {
+      await errorHandler.handleError(error, { operation: 'generateText', prompt: prompt.substring(0, 100) })
+      throw error
+    }
+  })
+  return trackInFlight(transcript
+    ? transcript.record(priority, 'generateText', hashPrompt(prompt, options?.system), scheduled)
+    : scheduled)
 }
 
 /**
  * Generate structured output
+ * Requests are queued by the LLM scheduler (default priority: behavior)
  */
 export async function llmGenerateObject<T>(
   prompt: string,
   schema: z.Schema<T>,
-  options?: { system?: string }
+  options?: { system?: string; priority?: LLMPriority }
 ): Promise<T> {
   const errorHandler = getLLMErrorHandler()
+  const priority = options?.priority ?? 'behavior'
+
+  // Replay bypasses the scheduler: recorded drops are replayed as recorded
+  if (transcript?.mode === 'replay') {
+    return trackInFlight(replayCall<T>(transcript, priority, 'generateObject', prompt, options?.system))
+  }
 
   if (!model) {
     const error = new Error('LLM client not initialized')
@@ -138,29 +186,81 @@ export async function llmGenerateObject<T>(
     throw error
   }
 
-  try {
-    const result = await generateObject({
-      model,
-      prompt,
-      schema,
-      system: options?.system,
-    })
+  const currentModel = model
+  const scheduled = getLLMScheduler().schedule(priority, async () => {
+    try {
+      const result = await generateObject({
+        model: currentModel,
+        prompt,
+        schema,
+        system: options?.system,
+      })
 
+      errorHandler.resetFailureCount()
+      return result.object
+    } catch (error) {
+      await errorHandler.handleError(error, { operation: 'generateObject', prompt: prompt.substring(0, 100) })
+      throw error
+    }
+  })
+  return trackInFlight(transcript
+    ? transcript.record(priority, 'generateObject', hashPrompt(prompt, options?.system), scheduled)
+    : scheduled)
+}
+
+/**
+ * Wait until no LLM call is in flight
+ * A settled call's caller may start the next one (e.g. the next conversation turn),
+ * so this repeats until none remain. Used by the headless runner between virtual-time steps.
+ */
+export async function waitForLLMIdle(): Promise<void> {
+  do {
+    await Promise.allSettled([...inFlight])
+    // Let the callers' continuations run before checking again
+    await new Promise(resolve => setImmediate(resolve))
+  } while (inFlight.size > 0)
+}
+
+/**
+ * Answer a call from the replayed transcript
+ * Recorded model errors go through the error handler as in a live call, so pauses on repeated failures replay too
+ */
+async function replayCall<T>(
+  replaying: LLMTranscript,
+  priority: LLMPriority,
+  operation: LLMTranscriptOperation,
+  prompt: string,
+  system?: string
+): Promise<T> {
+  const errorHandler = getLLMErrorHandler()
+  try {
+    const output = await replaying.replay<T>(priority, operation, hashPrompt(prompt, system))
     errorHandler.resetFailureCount()
-    return result.object
+    return output
   } catch (error) {
-    await errorHandler.handleError(error, { operation: 'generateObject', prompt: prompt.substring(0, 100) })
+    // Drops never reached the model, so the error handler did not see them either
+    if (!(error instanceof LLMRequestDroppedError)) {
+      await errorHandler.handleError(error, { operation, prompt: prompt.substring(0, 100) })
+    }
     throw error
   }
 }
 
+function trackInFlight<T>(promise: Promise<T>): Promise<T> {
+  inFlight.add(promise)
+  const settle = () => { inFlight.delete(promise) }
+  promise.then(settle, settle)
+  return promise
+}
+
 /**
  * Shutdown LLM client
  */
 export function shutdownLLMClient(): void {
   model = null
   modelString = null
-  console.log('[LLM] Client shutdown')
+  transcript = null
+  logger.info('[LLM] Client shutdown')
 }
 
 /**
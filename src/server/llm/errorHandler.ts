@@ -1,4 +1,5 @@
 import type { ErrorConfig } from '@/types/config'
+import { logger } from '@/lib/logger'
 
 // Error type definitions
 export type LLMErrorCode =
@@ -43,7 +44,7 @@ export class LLMErrorHandler {
     const llmError = this.normalizeError(error, context)
     this.consecutiveFailures++
 
-    console.error(`[LLMErrorHandler] Error (${llmError.code}): ${llmError.message}`, {
+    logger.error(`[LLMErrorHandler] Error (${llmError.code}): ${llmError.message}`, {
       severity: llmError.severity,
       consecutiveFailures: this.consecutiveFailures,
       context: llmError.context,
@@ -54,7 +55,7 @@ export class LLMErrorHandler {
 
     // Send webhook notification (non-blocking)
     this.sendWebhookNotification(llmError, shouldPause).catch((webhookError) => {
-      console.error('[LLMErrorHandler] Webhook notification failed:', webhookError)
+      logger.error('[LLMErrorHandler] Webhook notification failed:', webhookError)
     })
 
     // Pause simulation if needed
@@ -70,7 +71,7 @@ export class LLMErrorHandler {
    */
   resetFailureCount(): void {
     if (this.consecutiveFailures > 0) {
-      console.log(`[LLMErrorHandler] Failure count reset (was ${this.consecutiveFailures})`)
+      logger.info(`[LLMErrorHandler] Failure count reset (was ${this.consecutiveFailures})`)
       this.consecutiveFailures = 0
     }
   }
@@ -209,13 +210,13 @@ export class LLMErrorHandler {
       })
 
       if (!response.ok) {
-        console.warn(`[LLMErrorHandler] Webhook returned ${response.status}`)
+        logger.warn(`[LLMErrorHandler] Webhook returned ${response.status}`)
       } else {
-        console.log('[LLMErrorHandler] Webhook notification sent')
+        logger.info('[LLMErrorHandler] Webhook notification sent')
       }
     } catch (err) {
       if (err instanceof Error && err.name === 'AbortError') {
-        console.warn('[LLMErrorHandler] Webhook request timed out')
+        logger.warn('[LLMErrorHandler] Webhook request timed out')
       } else {
         throw err
       }
@@ -234,10 +235,10 @@ export class LLMErrorHandler {
 
       if (engine.isInitialized() && !engine.isPaused()) {
         engine.pause()
-        console.log('[LLMErrorHandler] Simulation paused due to error')
+        logger.info('[LLMErrorHandler] Simulation paused due to error')
       }
     } catch (err) {
-      console.error('[LLMErrorHandler] Failed to pause simulation:', err)
+      logger.error('[LLMErrorHandler] Failed to pause simulation:', err)
     }
   }
 }
@@ -250,7 +251,7 @@ let errorHandler: LLMErrorHandler | null = null
  */
 export function initializeLLMErrorHandler(config?: ErrorConfig): void {
   errorHandler = new LLMErrorHandler(config)
-  console.log('[LLMErrorHandler] Initialized')
+  logger.info('[LLMErrorHandler] Initialized')
 }
 
 /**
@@ -260,7 +261,7 @@ export function getLLMErrorHandler(): LLMErrorHandler {
   if (!errorHandler) {
     // Auto-initialize with defaults if not explicitly initialized
     errorHandler = new LLMErrorHandler()
-    console.log('[LLMErrorHandler] Auto-initialized with defaults')
+    logger.info('[LLMErrorHandler] Auto-initialized with defaults')
   }
   return errorHandler
 }
@@ -1,12 +1,18 @@
 export {
   initializeLLMClient,
+  initializeLLMTranscript,
   isLLMAvailable,
   llmGenerateText,
   llmGenerateObject,
   shutdownLLMClient,
   getLLMModelString,
+  waitForLLMIdle,
 } from './client'
 
+export { LLMTranscript } from './transcript'
+
+export type { LLMTranscriptEntry, LLMTranscriptMode, LLMTranscriptOperation } from './transcript'
+
 export {
   initializeLLMErrorHandler,
   getLLMErrorHandler,
@@ -15,3 +21,14 @@ export {
 } from './errorHandler'
 
 export type { LLMError, LLMErrorCode, LLMErrorSeverity } from './errorHandler'
+
+export {
+  initializeLLMScheduler,
+  getLLMScheduler,
+  resetLLMScheduler,
+  LLMScheduler,
+  LLMRequestDroppedError,
+  LLM_PRIORITY_ORDER,
+} from './scheduler'
+
+export type { LLMSchedulerMetrics, LLMDropReason } from './scheduler'
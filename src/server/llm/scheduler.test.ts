@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  LLMScheduler,
+  LLMRequestDroppedError,
+  initializeLLMScheduler,
+  getLLMScheduler,
+  resetLLMScheduler,
+} from './scheduler'
+import type { LLMPriority } from '@/types/config'
+
+/** 外部から resolve できるタスクを作成 */
+function deferred<T = string>() {
+  let resolve!: (value: T) => void
+  let reject!: (error: Error) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('LLMScheduler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    resetLLMScheduler()
+  })
+
+  it('should run tasks immediately while under the concurrency limit', async () => {
+    const scheduler = new LLMScheduler({ maxConcurrent: 2 })
+    const results = await Promise.all([
+      scheduler.schedule('behavior', async () => 'a'),
+      scheduler.schedule('behavior', async () => 'b'),
+    ])
+
+    expect(results).toEqual(['a', 'b'])
+    expect(scheduler.getMetrics()).toMatchObject({ running: 0, queueDepth: 0, completed: 2 })
+  })
+
+  it('should limit concurrency and run queued tasks by priority', async () => {
+    const scheduler = new LLMScheduler({ maxConcurrent: 1 })
+    const blocker = deferred()
+    const order: LLMPriority[] = []
+    const run = (priority: LLMPriority) => scheduler.schedule(priority, async () => {
+      order.push(priority)
+      return priority
+    })
+
+    const first = scheduler.schedule('behavior', () => blocker.promise)
+    const queued = [run('miniEpisode'), run('postProcessing'), run('behavior'), run('conversation'), run('interrupt')]
+    await flush()
+
+    expect(scheduler.getMetrics()).toMatchObject({
+      running: 1,
+      queueDepth: 5,
+      queueDepthByPriority: { interrupt: 1, conversation: 1, behavior: 1, postProcessing: 1, miniEpisode: 1 },
+    })
+
+    blocker.resolve('done')
+    await Promise.all([first, ...queued])
+
+    expect(order).toEqual(['interrupt', 'conversation', 'behavior', 'postProcessing', 'miniEpisode'])
+    expect(scheduler.getMetrics()).toMatchObject({ running: 0, queueDepth: 0, peakQueueDepth: 5, completed: 6 })
+  })
+
+  it('should keep arrival order within the same priority', async () => {
+    const scheduler = new LLMScheduler({ maxConcurrent: 1 })
+    const blocker = deferred()
+    const order: string[] = []
+
+    const first = scheduler.schedule('behavior', () => blocker.promise)
+    const queued = ['a', 'b', 'c'].map(id => scheduler.schedule('behavior', async () => {
+      order.push(id)
+    }))
+
+    blocker.resolve('done')
+    await Promise.all([first, ...queued])
+    expect(order).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should drop droppable priorities under load', async () => {
+    const scheduler = new LLMScheduler({ maxConcurrent: 1, loadSheddingThreshold: 1 })
+    const blocker = deferred()
+    const first = scheduler.schedule('behavior', () => blocker.promise)
+    const deferredWork = scheduler.schedule('postProcessing', async () => 'processed')
+
+    await expect(scheduler.schedule('miniEpisode', async () => 'episode')).rejects.toBeInstanceOf(LLMRequestDroppedError)
+
+    blocker.resolve('done')
+    // Non-droppable low priority work is deferred, not dropped
+    await expect(deferredWork).resolves.toBe('processed')
+    await first
+    expect(scheduler.getMetrics().dropped).toMatchObject({ miniEpisode: 1, postProcessing: 0 })
+  })
+
+  it('should evict the lowest priority request when the queue is full', async () => {
+    const scheduler = new LLMScheduler({ maxConcurrent: 1, maxQueueSize: 2, dropPriorities: [] })
+    const blocker = deferred()
+    const first = scheduler.schedule('behavior', () => blocker.promise)
+    const postProcessing = scheduler.schedule('postProcessing', async () => 'post')
+    const behavior = scheduler.schedule('behavior', async () => 'behavior')
+    const interrupt = scheduler.schedule('interrupt', async () => 'interrupt')
+
+    await expect(postProcessing).rejects.toMatchObject({ priority: 'postProcessing', reason: 'queue_full' })
+
+    blocker.resolve('done')
+    await expect(interrupt).resolves.toBe('interrupt')
+    await expect(behavior).resolves.toBe('behavior')
+    await first
+    expect(scheduler.getMetrics().dropped.postProcessing).toBe(1)
+  })
+
+  it('should count failures and continue with the next task', async () => {
+    const scheduler = new LLMScheduler({ maxConcurrent: 1 })
+    const failing = scheduler.schedule('behavior', async () => {
+      throw new Error('rate limit')
+    })
+    const next = scheduler.schedule('behavior', async () => 'ok')
+
+    await expect(failing).rejects.toThrow('rate limit')
+    await expect(next).resolves.toBe('ok')
+    expect(scheduler.getMetrics()).toMatchObject({ completed: 1, failed: 1 })
+  })
+
+  describe('singleton', () => {
+    it('should auto-initialize with defaults', () => {
+      expect(getLLMScheduler()).toBe(getLLMScheduler())
+    })
+
+    it('should replace the instance on initialize', () => {
+      const before = getLLMScheduler()
+      initializeLLMScheduler({ maxConcurrent: 4 })
+      expect(getLLMScheduler()).not.toBe(before)
+    })
+  })
+})
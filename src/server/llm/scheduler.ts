@@ -0,0 +1,201 @@
+import type { LLMPriority, LLMSchedulerConfig } from '@/types/config'
+import { logger } from '@/lib/logger'
+
+// Highest priority first
+export const LLM_PRIORITY_ORDER: readonly LLMPriority[] = [
+  'interrupt',
+  'conversation',
+  'behavior',
+  'postProcessing',
+  'miniEpisode',
+]
+
+// Default configuration
+const DEFAULT_SCHEDULER_CONFIG: Required<LLMSchedulerConfig> = {
+  maxConcurrent: 2,
+  maxQueueSize: 50,
+  loadSheddingThreshold: 5,
+  dropPriorities: ['miniEpisode'],
+}
+
+export type LLMDropReason = 'load_shedding' | 'queue_full'
+
+/**
+ * 高負荷のためスケジューラがリクエストを破棄したことを示すエラー
+ * （LLM呼び出し自体は行われていないため LLMErrorHandler の失敗回数には含めない）
+ */
+export class LLMRequestDroppedError extends Error {
+  constructor(
+    public readonly priority: LLMPriority,
+    public readonly reason: LLMDropReason
+  ) {
+    super(`LLM request dropped (priority: ${priority}, reason: ${reason})`)
+    this.name = 'LLMRequestDroppedError'
+  }
+}
+
+export interface LLMSchedulerMetrics {
+  running: number
+  queueDepth: number
+  queueDepthByPriority: Record<LLMPriority, number>
+  peakQueueDepth: number
+  completed: number
+  failed: number
+  dropped: Record<LLMPriority, number>
+}
+
+interface QueuedRequest {
+  priority: LLMPriority
+  rank: number
+  start: () => void
+  reject: (error: Error) => void
+}
+
+function createPriorityCounts(): Record<LLMPriority, number> {
+  return {
+    interrupt: 0,
+    conversation: 0,
+    behavior: 0,
+    postProcessing: 0,
+    miniEpisode: 0,
+  }
+}
+
+/**
+ * 全キャラクター共通のLLMリクエストスケジューラ
+ *
+ * 同時実行数を制限し、待機中のリクエストは優先度順（同順位は到着順）に実行する。
+ * 待機数が loadSheddingThreshold 以上のとき dropPriorities のリクエストは即座に破棄し、
+ * キューが maxQueueSize を超えた場合は最も優先度の低いリクエストを破棄する。
+ * 破棄されなかった低優先度のリクエストは高優先度のリクエストが捌けるまで後回しになる。
+ */
+export class LLMScheduler {
+  private config: Required<LLMSchedulerConfig>
+  private running: number = 0
+  private queue: QueuedRequest[] = []
+  private peakQueueDepth: number = 0
+  private completed: number = 0
+  private failed: number = 0
+  private dropped: Record<LLMPriority, number> = createPriorityCounts()
+
+  constructor(config?: LLMSchedulerConfig) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config }
+  }
+
+  /**
+   * タスクを優先度付きで実行する（破棄された場合は LLMRequestDroppedError で reject）
+   */
+  schedule<T>(priority: LLMPriority, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const start = () => {
+        this.running++
+        Promise.resolve()
+          .then(task)
+          .then(
+            (value) => {
+              this.completed++
+              resolve(value)
+            },
+            (error) => {
+              this.failed++
+              reject(error)
+            }
+          )
+          .finally(() => {
+            this.running--
+            this.startNext()
+          })
+      }
+
+      if (this.running < this.config.maxConcurrent && this.queue.length === 0) {
+        start()
+        return
+      }
+
+      if (
+        this.config.dropPriorities.includes(priority) &&
+        this.queue.length >= this.config.loadSheddingThreshold
+      ) {
+        this.drop(priority, reject, 'load_shedding')
+        return
+      }
+
+      this.enqueue({ priority, rank: LLM_PRIORITY_ORDER.indexOf(priority), start, reject })
+
+      if (this.queue.length > this.config.maxQueueSize) {
+        // The tail is the lowest priority, most recently queued request
+        const evicted = this.queue.pop()!
+        this.drop(evicted.priority, evicted.reject, 'queue_full')
+      }
+    })
+  }
+
+  getMetrics(): LLMSchedulerMetrics {
+    const queueDepthByPriority = createPriorityCounts()
+    for (const request of this.queue) {
+      queueDepthByPriority[request.priority]++
+    }
+
+    return {
+      running: this.running,
+      queueDepth: this.queue.length,
+      queueDepthByPriority,
+      peakQueueDepth: this.peakQueueDepth,
+      completed: this.completed,
+      failed: this.failed,
+      dropped: { ...this.dropped },
+    }
+  }
+
+  private enqueue(request: QueuedRequest): void {
+    const index = this.queue.findIndex(q => q.rank > request.rank)
+    if (index === -1) {
+      this.queue.push(request)
+    } else {
+      this.queue.splice(index, 0, request)
+    }
+    this.peakQueueDepth = Math.max(this.peakQueueDepth, this.queue.length)
+  }
+
+  private startNext(): void {
+    while (this.running < this.config.maxConcurrent && this.queue.length > 0) {
+      this.queue.shift()!.start()
+    }
+  }
+
+  private drop(priority: LLMPriority, reject: (error: Error) => void, reason: LLMDropReason): void {
+    this.dropped[priority]++
+    logger.warn(`[LLMScheduler] Dropped ${priority} request (${reason}, queue: ${this.queue.length})`)
+    reject(new LLMRequestDroppedError(priority, reason))
+  }
+}
+
+// Singleton instance
+let scheduler: LLMScheduler | null = null
+
+/**
+ * Initialize the LLM scheduler
+ */
+export function initializeLLMScheduler(config?: LLMSchedulerConfig): void {
+  scheduler = new LLMScheduler(config)
+  logger.info('[LLMScheduler] Initialized')
+}
+
+/**
+ * Get the LLM scheduler instance
+ */
+export function getLLMScheduler(): LLMScheduler {
+  if (!scheduler) {
+    // Auto-initialize with defaults if not explicitly initialized
+    scheduler = new LLMScheduler()
+    logger.info('[LLMScheduler] Auto-initialized with defaults')
+  }
+  return scheduler
+}
+
+/**
+ * Reset the scheduler (for testing)
+ */
+export function resetLLMScheduler(): void {
+  scheduler = null
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import os from 'os'
+import path from 'path'
+import { LLMTranscript, hashPrompt } from './transcript'
+import { LLMRequestDroppedError } from './scheduler'
+
+describe('LLMTranscript', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    dir = mkdtempSync(path.join(os.tmpdir(), 'llm-transcript-'))
+    filePath = path.join(dir, 'nested', 'transcript.jsonl')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should replay recorded outputs by priority and call order', async () => {
+    const recorder = LLMTranscript.record(filePath)
+    // Settle out of call order: the second behavior call finishes first
+    let resolveFirst!: (value: { action: string }) => void
+    const first = recorder.record('behavior', 'generateObject', hashPrompt('a'), new Promise<{ action: string }>(resolve => { resolveFirst = resolve }))
+    await recorder.record('behavior', 'generateObject', hashPrompt('b'), Promise.resolve({ action: 'eat' }))
+    await recorder.record('conversation', 'generateText', hashPrompt('c', 'sys'), Promise.resolve('hello'))
+    resolveFirst({ action: 'sleep' })
+    await first
+
+    const player = LLMTranscript.replay(filePath)
+    expect(player.size).toBe(3)
+    await expect(player.replay('conversation', 'generateText', hashPrompt('c', 'sys'))).resolves.toBe('hello')
+    await expect(player.replay('behavior', 'generateObject', hashPrompt('a'))).resolves.toEqual({ action: 'sleep' })
+    await expect(player.replay('behavior', 'generateObject', hashPrompt('b'))).resolves.toEqual({ action: 'eat' })
+    expect(console.warn).not.toHaveBeenCalled()
+  })
+
+  it('should replay recorded errors including scheduler drops', async () => {
+    const recorder = LLMTranscript.record(filePath)
+    await expect(recorder.record('miniEpisode', 'generateText', hashPrompt('x'),
+      Promise.reject(new LLMRequestDroppedError('miniEpisode', 'load_shedding')))).rejects.toThrow()
+    await expect(recorder.record('behavior', 'generateObject', hashPrompt('y'),
+      Promise.reject(new Error('rate limited')))).rejects.toThrow()
+
+    const player = LLMTranscript.replay(filePath)
+    const dropped = await player.replay('miniEpisode', 'generateText', hashPrompt('x')).catch((error: unknown) => error)
+    expect(dropped).toBeInstanceOf(LLMRequestDroppedError)
+    expect((dropped as LLMRequestDroppedError).reason).toBe('load_shedding')
+    await expect(player.replay('behavior', 'generateObject', hashPrompt('y'))).rejects.toThrow('rate limited')
+  })
+
+  it('should truncate an existing file when recording', async () => {
+    const first = LLMTranscript.record(filePath)
+    await first.record('behavior', 'generateText', hashPrompt('a'), Promise.resolve('old'))
+    LLMTranscript.record(filePath)
+    expect(readFileSync(filePath, 'utf-8')).toBe('')
+  })
+
+  it('should fail calls beyond the recording', async () => {
+    LLMTranscript.record(filePath)
+    const player = LLMTranscript.replay(filePath)
+    await expect(player.replay('behavior', 'generateObject', hashPrompt('a'))).rejects.toThrow('No generateObject entry for behavior call #0')
+  })
+
+  it('should warn when the prompt differs from the recording', async () => {
+    const recorder = LLMTranscript.record(filePath)
+    await recorder.record('behavior', 'generateText', hashPrompt('a'), Promise.resolve('ok'))
+
+    const player = LLMTranscript.replay(filePath)
+    await expect(player.replay('behavior', 'generateText', hashPrompt('changed'))).resolves.toBe('ok')
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('diverged'))
+  })
+
+  it('should reject malformed lines', () => {
+    writeFileSync(path.join(dir, 'bad.jsonl'), '{"priority":"behavior"\n', 'utf-8')
+    expect(() => LLMTranscript.replay(path.join(dir, 'bad.jsonl'))).toThrow('Invalid LLM transcript line 1')
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * LLM応答のトランスクリプト（記録・再生）
+ *
+ * 記録モードでは各LLM呼び出しの結果（出力またはエラー）をJSONLに1行ずつ追記し、
+ * 再生モードではモデルを呼ばずに記録済みの結果を返す。
+ * エントリは「優先度ごとの呼び出し順」で対応付ける。同じシード・開始時刻・ステップで
+ * ヘッドレスランナーを回せば呼び出し順は再現されるので、同じ action_history が得られる。
+ * プロンプトのハッシュも記録し、再生時に食い違えば分岐したことを警告する。
+ */
+import { appendFileSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { createHash } from 'crypto'
+import path from 'path'
+import type { LLMPriority } from '@/types/config'
+import { LLMRequestDroppedError, type LLMDropReason } from './scheduler'
+import { logger } from '@/lib/logger'
+
+export type LLMTranscriptOperation = 'generateText' | 'generateObject'
+
+export interface LLMTranscriptEntry {
+  priority: LLMPriority
+  // Call order within the priority, from 0
+  index: number
+  operation: LLMTranscriptOperation
+  promptHash: string
+  output?: unknown
+  error?: { name: string; message: string; reason?: LLMDropReason }
+}
+
+export type LLMTranscriptMode = 'record' | 'replay'
+
+export function hashPrompt(prompt: string, system?: string): string {
+  return createHash('sha256').update(`${system ?? ''}\n${prompt}`).digest('hex').slice(0, 16)
+}
+
+export class LLMTranscript {
+  private callCounts: Map<LLMPriority, number> = new Map()
+
+  private constructor(
+    readonly mode: LLMTranscriptMode,
+    readonly filePath: string,
+    private entries: Map<string, LLMTranscriptEntry> = new Map()
+  ) {}
+
+  /**
+   * 記録用トランスクリプトを作成（既存ファイルは空にする）
+   * プロセスが途中で終了しても記録済みの行が残るよう、結果は同期的に追記する。
+   */
+  static record(filePath: string): LLMTranscript {
+    mkdirSync(path.dirname(filePath), { recursive: true })
+    writeFileSync(filePath, '', 'utf-8')
+    return new LLMTranscript('record', filePath)
+  }
+
+  /**
+   * 記録済みトランスクリプトを読み込んで再生用に作成
+   */
+  static replay(filePath: string): LLMTranscript {
+    const entries = new Map<string, LLMTranscriptEntry>()
+    const lines = readFileSync(filePath, 'utf-8').split('\n')
+    for (const [lineIndex, line] of lines.entries()) {
+      if (line.trim() === '') continue
+      try {
+        const entry = JSON.parse(line) as LLMTranscriptEntry
+        entries.set(entryKey(entry.priority, entry.index), entry)
+      } catch {
+        throw new Error(`Invalid LLM transcript line ${lineIndex + 1} in ${filePath}`)
+      }
+    }
+    return new LLMTranscript('replay', filePath, entries)
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * 呼び出し結果を記録する（呼び出し順は呼び出した時点で確定させる）
+   */
+  record<T>(
+    priority: LLMPriority,
+    operation: LLMTranscriptOperation,
+    promptHash: string,
+    promise: Promise<T>
+  ): Promise<T> {
+    const index = this.nextIndex(priority)
+    const append = (result: Pick<LLMTranscriptEntry, 'output' | 'error'>) => {
+      const entry: LLMTranscriptEntry = { priority, index, operation, promptHash, ...result }
+      appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf-8')
+    }
+    promise.then(
+      output => append({ output }),
+      error => append({ error: serializeError(error) })
+    )
+    return promise
+  }
+
+  /**
+   * 記録済みの結果を返す（エラーが記録されていれば同じエラーで失敗する）
+   */
+  async replay<T>(
+    priority: LLMPriority,
+    operation: LLMTranscriptOperation,
+    promptHash: string
+  ): Promise<T> {
+    const index = this.nextIndex(priority)
+    const entry = this.entries.get(entryKey(priority, index))
+    if (!entry || entry.operation !== operation) {
+      const error = new Error(`No ${operation} entry for ${priority} call #${index} in LLM transcript ${this.filePath}`)
+      logger.error(`[LLMTranscript] ${error.message}`)
+      throw error
+    }
+    if (entry.promptHash !== promptHash) {
+      logger.warn(`[LLMTranscript] Prompt for ${priority} call #${index} differs from the recording; the run has diverged`)
+    }
+    if (entry.error) {
+      throw deserializeError(priority, entry.error)
+    }
+    return structuredClone(entry.output) as T
+  }
+
+  private nextIndex(priority: LLMPriority): number {
+    const index = this.callCounts.get(priority) ?? 0
+    this.callCounts.set(priority, index + 1)
+    return index
+  }
+}
+
+function entryKey(priority: LLMPriority, index: number): string {
+  return `${priority}:${index}`
+}
+
+function serializeError(error: unknown): NonNullable<LLMTranscriptEntry['error']> {
+  if (error instanceof LLMRequestDroppedError) {
+    return { name: error.name, message: error.message, reason: error.reason }
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message }
+  }
+  return { name: 'Error', message: String(error) }
+}
+
+function deserializeError(priority: LLMPriority, recorded: NonNullable<LLMTranscriptEntry['error']>): Error {
+  if (recorded.name === 'LLMRequestDroppedError' && recorded.reason) {
+    return new LLMRequestDroppedError(priority, recorded.reason)
+  }
+  const error = new Error(recorded.message)
+  error.name = recorded.name
+  return error
+}
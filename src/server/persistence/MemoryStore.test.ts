@@ -202,6 +202,16 @@ describe('MemoryStore', () => {
     })
   })
 
+  describe('world clock time', () => {
+    it('should save and load world clock time', async () => {
+      expect(await store.loadWorldClockTime()).toBeNull()
+
+      await store.saveWorldClockTime(1700000000000)
+
+      expect(await store.loadWorldClockTime()).toBe(1700000000000)
+    })
+  })
+
   describe('schedule management', () => {
     it('should save and load schedule', async () => {
       const schedule: DailySchedule = {
@@ -404,6 +414,37 @@ describe('MemoryStore', () => {
       await store.updateActionHistoryEpisode('char-1', 1, '08:00', 'エピソード')
       // Should not throw
     })
+
+    it('should record cancelled actions with elapsed time and applied effects', async () => {
+      const rowId = await store.startActionHistory({
+        characterId: 'char-1',
+        day: 1,
+        time: '20:00',
+        actionId: 'eat',
+        target: 'cafe',
+        durationMinutes: 60,
+        startTimeReal: 0,
+      })
+
+      await store.cancelActionHistory(rowId, {
+        endTime: '20:20',
+        cancelReason: 'closing',
+        elapsedMinutes: 20,
+        appliedEffects: { satiety: 40 },
+      })
+
+      expect(await store.loadActiveActions()).toEqual([])
+      const history = await store.loadActionHistoryForDay('char-1', 1)
+      expect(history).toEqual([{
+        time: '20:20',
+        actionId: 'eat',
+        target: 'cafe',
+        durationMinutes: 20,
+        reason: undefined,
+        cancelReason: 'closing',
+        appliedEffects: { satiety: 40 },
+      }])
+    })
   })
 
   describe('mid-term memories', () => {
@@ -558,6 +599,41 @@ describe('MemoryStore', () => {
     })
   })
 
+  describe('transactions', () => {
+    it('should load transactions newest first and summarize per day', async () => {
+      await store.addTransaction({ characterId: 'char-1', day: 1, time: '12:00', amount: -800, balanceAfter: 200, category: 'payment', reason: 'ランチセット' })
+      await store.addTransaction({ characterId: 'char-1', day: 2, time: '17:00', amount: 1200, balanceAfter: 1400, category: 'wage', reason: '給与（フリーライター）', jobId: 'writer' })
+      await store.addTransaction({ characterId: 'char-2', day: 2, time: '10:00', amount: -500, balanceAfter: 500, category: 'payment', reason: '利用料' })
+
+      expect((await store.loadTransactions('char-1')).map(t => t.time)).toEqual(['17:00', '12:00'])
+      expect((await store.loadTransactions('char-1', { day: 1 })).map(t => t.reason)).toEqual(['ランチセット'])
+      expect(await store.loadTransactions('char-1', { limit: 1 })).toMatchObject([{ amount: 1200, jobId: 'writer' }])
+      expect(await store.loadDailyMoneySummaries('char-1', 1)).toEqual([
+        { day: 1, income: 0, expense: 800 },
+        { day: 2, income: 1200, expense: 0 },
+      ])
+
+      await store.clear()
+      expect(await store.loadTransactions('char-1')).toEqual([])
+    })
+  })
+
+  describe('attendance', () => {
+    it('should load attendance records from a day', async () => {
+      await store.addAttendanceRecord({ characterId: 'char-1', jobId: 'cafe', day: 1, hoursWorked: 4, expectedHours: 4, docked: 0, absent: false })
+      await store.addAttendanceRecord({ characterId: 'char-1', jobId: 'cafe', day: 2, hoursWorked: 0, expectedHours: 4, docked: 1200, absent: true })
+      await store.addAttendanceRecord({ characterId: 'char-2', jobId: 'cafe', day: 2, hoursWorked: 4, expectedHours: 4, docked: 0, absent: false })
+
+      expect((await store.loadAttendance('char-1', 1)).map(r => r.day)).toEqual([1, 2])
+      expect(await store.loadAttendance('char-1', 2)).toEqual([
+        { characterId: 'char-1', jobId: 'cafe', day: 2, hoursWorked: 0, expectedHours: 4, docked: 1200, absent: true },
+      ])
+
+      await store.clear()
+      expect(await store.loadAttendance('char-1', 1)).toEqual([])
+    })
+  })
+
   describe('hasData', () => {
     it('should return false when empty', async () => {
       const result = await store.hasData()
@@ -604,6 +680,53 @@ describe('MemoryStore', () => {
     })
   })
 
+  describe('world snapshots', () => {
+    it('should restore saved world data', async () => {
+      await store.saveState(createTestWorldState())
+      await store.saveWorldClockTime(1700000000000)
+      await store.addActionHistory({ characterId: 'char-1', day: 1, time: '08:00', actionId: 'eat' })
+      const info = await store.saveSnapshot('base')
+      expect(info.day).toBe(1)
+      expect(info.time).toBe('08:00')
+
+      await store.saveTime({ hour: 18, minute: 0, day: 2 })
+      await store.saveWorldClockTime(1800000000000)
+      await store.addActionHistory({ characterId: 'char-1', day: 1, time: '09:00', actionId: 'work' })
+
+      expect(await store.restoreSnapshot(info.id)).toBe(true)
+      expect((await store.loadState())?.time).toEqual({ hour: 8, minute: 0, day: 1 })
+      expect(await store.loadWorldClockTime()).toBe(1700000000000)
+      expect(await store.loadActionHistoryForDay('char-1', 1)).toHaveLength(1)
+    })
+
+    it('should list snapshots and reject unknown ids', async () => {
+      const info = await store.saveSnapshot('empty')
+      expect(await store.listSnapshots()).toEqual([info])
+      expect(await store.restoreSnapshot('unknown')).toBe(false)
+    })
+  })
+
+  describe('world journal', () => {
+    it('should append, filter and clear journal events', async () => {
+      const meta = { worldTime: 1700000000000, day: 1, time: '08:00' }
+      await store.appendJournalEvents([
+        { ...meta, tick: 1, type: 'action_started', characterId: 'char-1', actionId: 'eat' },
+        { ...meta, tick: 2, type: 'npc_updated', npcId: 'npc-1', updates: { affinity: 5 } },
+        { ...meta, tick: 3, type: 'action_completed', characterId: 'char-1', actionId: 'eat' },
+      ])
+
+      const events = await store.loadJournalEvents({ characterId: 'char-1' })
+      expect(events.map(e => e.seq)).toEqual([1, 3])
+      expect(await store.loadJournalEvents({ fromTick: 2, order: 'desc', limit: 1 })).toMatchObject([{ tick: 3 }])
+      expect(await store.loadJournalEvents({ afterSeq: 2 })).toHaveLength(1)
+      expect(await store.loadLatestJournalTick()).toBe(3)
+
+      await store.clear()
+      expect(await store.loadJournalEvents()).toEqual([])
+      expect(await store.loadLatestJournalTick()).toBeNull()
+    })
+  })
+
   describe('close', () => {
     it('should complete without error', async () => {
       await expect(store.close()).resolves.not.toThrow()
@@ -1,7 +1,9 @@
-import type { StateStore, ActiveActionEntry } from './StateStore'
-import type { SerializedWorldState, SimCharacter } from '../simulation/types'
-import type { WorldTime, DailySchedule, ConversationSummaryEntry, NPCDynamicState, CharacterStats } from '@/types'
+import { randomUUID } from 'crypto'
+import type { StateStore, ActiveActionEntry, WorldSnapshotInfo } from './StateStore'
+import type { SerializedWorldState, SimCharacter, WorldEvent, JournalEntry, JournalQuery } from '../simulation/types'
+import type { WorldTime, DailySchedule, ConversationSummaryEntry, NPCDynamicState, CharacterStats, ActionCancelReason, AppliedEffects, Transaction, DailyMoneySummary, AttendanceRecord } from '@/types'
 import type { ActionHistoryEntry, MidTermMemory } from '@/types/behavior'
+import { formatTime } from '@/lib/timeUtils'
 
 /**
  * In-memory implementation of StateStore.
@@ -9,7 +11,25 @@ import type { ActionHistoryEntry, MidTermMemory } from '@/types/behavior'
  * Useful for development and testing.
  */
 interface InMemoryActiveAction extends ActiveActionEntry {
-  status: 'in_progress' | 'completed'
+  status: 'in_progress' | 'completed' | 'cancelled'
+}
+
+// Snapshot payload: copies of all world fields (Maps as entry arrays)
+interface MemorySnapshotData {
+  state: SerializedWorldState | null
+  characters: Array<[string, SimCharacter]>
+  time: WorldTime | null
+  currentMapId: string | null
+  worldClockTime: number | null
+  schedules: Array<[string, DailySchedule]>
+  actionHistory: Array<[string, ActionHistoryEntry[]]>
+  npcSummaries: ConversationSummaryEntry[]
+  npcStates: Array<[string, NPCDynamicState]>
+  midTermMemories: MidTermMemory[]
+  activeActions: Array<[number, InMemoryActiveAction]>
+  nextRowId: number
+  transactions: Transaction[]
+  attendance: AttendanceRecord[]
 }
 
 export class MemoryStore implements StateStore {
@@ -17,6 +37,7 @@ export class MemoryStore implements StateStore {
   private characters: Map<string, SimCharacter> = new Map()
   private time: WorldTime | null = null
   private currentMapId: string | null = null
+  private worldClockTime: number | null = null
   private schedules: Map<string, DailySchedule> = new Map() // key: `${characterId}:${day}`
   private actionHistory: Map<string, ActionHistoryEntry[]> = new Map() // key: `${characterId}:${day}`
   private npcSummaries: ConversationSummaryEntry[] = []
@@ -24,6 +45,10 @@ export class MemoryStore implements StateStore {
   private midTermMemories: MidTermMemory[] = []
   private activeActions: Map<number, InMemoryActiveAction> = new Map() // key: rowId
   private nextRowId: number = 1
+  private transactions: Transaction[] = []
+  private attendance: AttendanceRecord[] = []
+  private journal: JournalEntry[] = []
+  private snapshots: Map<string, { info: WorldSnapshotInfo; data: string }> = new Map() // data: JSON
 
   async saveState(state: SerializedWorldState): Promise<void> {
     // Deep clone to avoid reference issues
@@ -97,6 +122,14 @@ export class MemoryStore implements StateStore {
     return this.currentMapId
   }
 
+  async saveWorldClockTime(time: number): Promise<void> {
+    this.worldClockTime = time
+  }
+
+  async loadWorldClockTime(): Promise<number | null> {
+    return this.worldClockTime
+  }
+
   // Common key generator for character-day based data
   private characterDayKey(characterId: string, day: number): string {
     return `${characterId}:${day}`
@@ -150,6 +183,8 @@ export class MemoryStore implements StateStore {
     target?: string
     durationMinutes?: number
     reason?: string
+    cancelReason?: ActionCancelReason
+    appliedEffects?: AppliedEffects
   }): Promise<void> {
     const key = this.characterDayKey(entry.characterId, entry.day)
     const existing = this.actionHistory.get(key) ?? []
@@ -159,6 +194,8 @@ export class MemoryStore implements StateStore {
       target: entry.target,
       durationMinutes: entry.durationMinutes,
       reason: entry.reason,
+      cancelReason: entry.cancelReason,
+      appliedEffects: entry.appliedEffects,
     })
     this.actionHistory.set(key, existing)
   }
@@ -182,6 +219,40 @@ export class MemoryStore implements StateStore {
     }
   }
 
+  async addTransaction(entry: Transaction): Promise<void> {
+    this.transactions.push({ ...entry, id: this.transactions.length + 1 })
+  }
+
+  async loadTransactions(characterId: string, query: { day?: number; limit?: number } = {}): Promise<Transaction[]> {
+    const filtered = this.transactions
+      .filter(t => t.characterId === characterId && (query.day === undefined || t.day === query.day))
+      .reverse()
+    return (query.limit !== undefined ? filtered.slice(0, query.limit) : filtered).map(t => ({ ...t }))
+  }
+
+  async loadDailyMoneySummaries(characterId: string, fromDay: number): Promise<DailyMoneySummary[]> {
+    const byDay = new Map<number, DailyMoneySummary>()
+    for (const t of this.transactions) {
+      if (t.characterId !== characterId || t.day < fromDay) continue
+      const summary = byDay.get(t.day) ?? { day: t.day, income: 0, expense: 0 }
+      if (t.amount > 0) summary.income += t.amount
+      else summary.expense -= t.amount
+      byDay.set(t.day, summary)
+    }
+    return Array.from(byDay.values()).sort((a, b) => a.day - b.day)
+  }
+
+  async addAttendanceRecord(record: AttendanceRecord): Promise<void> {
+    this.attendance.push({ ...record })
+  }
+
+  async loadAttendance(characterId: string, fromDay: number): Promise<AttendanceRecord[]> {
+    return this.attendance
+      .filter(r => r.characterId === characterId && r.day >= fromDay)
+      .sort((a, b) => a.day - b.day)
+      .map(r => ({ ...r }))
+  }
+
   // New action persistence methods (for in-progress action tracking)
 
   async startActionHistory(entry: {
@@ -246,6 +317,35 @@ export class MemoryStore implements StateStore {
     this.actionHistory.set(key, existing)
   }
 
+  async cancelActionHistory(
+    rowId: number,
+    entry: {
+      endTime: string
+      cancelReason: ActionCancelReason
+      elapsedMinutes: number
+      appliedEffects: AppliedEffects
+    }
+  ): Promise<void> {
+    const action = this.activeActions.get(rowId)
+    if (!action) return
+
+    action.status = 'cancelled'
+
+    // Add to actionHistory cache (duration = elapsed time)
+    const key = this.characterDayKey(action.characterId, action.day)
+    const existing = this.actionHistory.get(key) ?? []
+    existing.push({
+      time: entry.endTime,
+      actionId: action.actionId,
+      target: action.target,
+      durationMinutes: entry.elapsedMinutes,
+      reason: action.reason,
+      cancelReason: entry.cancelReason,
+      appliedEffects: entry.appliedEffects,
+    })
+    this.actionHistory.set(key, existing)
+  }
+
   async loadActiveActions(): Promise<ActiveActionEntry[]> {
     return Array.from(this.activeActions.values())
       .filter(action => action.status === 'in_progress')
@@ -311,6 +411,95 @@ export class MemoryStore implements StateStore {
     return before - this.midTermMemories.length
   }
 
+  // World journal methods
+
+  async appendJournalEvents(events: WorldEvent[]): Promise<void> {
+    for (const event of events) {
+      const entry = JSON.parse(JSON.stringify(event)) as WorldEvent
+      this.journal.push({ ...entry, seq: this.journal.length + 1 })
+    }
+  }
+
+  async loadJournalEvents(query: JournalQuery = {}): Promise<JournalEntry[]> {
+    let result = this.journal.filter(e =>
+      (query.fromTick === undefined || e.tick >= query.fromTick) &&
+      (query.toTick === undefined || e.tick <= query.toTick) &&
+      (query.afterSeq === undefined || e.seq > query.afterSeq) &&
+      (query.characterId === undefined || ('characterId' in e && e.characterId === query.characterId)) &&
+      (!query.types || query.types.length === 0 || query.types.includes(e.type))
+    )
+    if (query.order === 'desc') {
+      result = result.reverse()
+    }
+    if (query.limit !== undefined) {
+      result = result.slice(0, query.limit)
+    }
+    return JSON.parse(JSON.stringify(result))
+  }
+
+  async loadLatestJournalTick(): Promise<number | null> {
+    if (this.journal.length === 0) return null
+    return this.journal.reduce((max, e) => Math.max(max, e.tick), -Infinity)
+  }
+
+  // World snapshot methods
+
+  async saveSnapshot(name: string): Promise<WorldSnapshotInfo> {
+    const data: MemorySnapshotData = {
+      state: this.state,
+      characters: Array.from(this.characters),
+      time: this.time,
+      currentMapId: this.currentMapId,
+      worldClockTime: this.worldClockTime,
+      schedules: Array.from(this.schedules),
+      actionHistory: Array.from(this.actionHistory),
+      npcSummaries: this.npcSummaries,
+      npcStates: Array.from(this.npcStates),
+      midTermMemories: this.midTermMemories,
+      activeActions: Array.from(this.activeActions),
+      nextRowId: this.nextRowId,
+      transactions: this.transactions,
+      attendance: this.attendance,
+    }
+    const info: WorldSnapshotInfo = {
+      id: randomUUID(),
+      name,
+      day: this.time?.day ?? null,
+      time: this.time ? formatTime(this.time) : null,
+      createdAt: Date.now(),
+    }
+    this.snapshots.set(info.id, { info, data: JSON.stringify(data) })
+    return { ...info }
+  }
+
+  async listSnapshots(): Promise<WorldSnapshotInfo[]> {
+    return Array.from(this.snapshots.values())
+      .map(snapshot => ({ ...snapshot.info }))
+      .sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  async restoreSnapshot(id: string): Promise<boolean> {
+    const snapshot = this.snapshots.get(id)
+    if (!snapshot) return false
+
+    const data = JSON.parse(snapshot.data) as MemorySnapshotData
+    this.state = data.state
+    this.characters = new Map(data.characters)
+    this.time = data.time
+    this.currentMapId = data.currentMapId
+    this.worldClockTime = data.worldClockTime
+    this.schedules = new Map(data.schedules)
+    this.actionHistory = new Map(data.actionHistory)
+    this.npcSummaries = data.npcSummaries
+    this.npcStates = new Map(data.npcStates)
+    this.midTermMemories = data.midTermMemories
+    this.activeActions = new Map(data.activeActions)
+    this.nextRowId = data.nextRowId
+    this.transactions = data.transactions ?? []
+    this.attendance = data.attendance ?? []
+    return true
+  }
+
   async hasData(): Promise<boolean> {
     return this.state !== null || this.characters.size > 0
   }
@@ -320,6 +509,7 @@ export class MemoryStore implements StateStore {
     this.characters.clear()
     this.time = null
     this.currentMapId = null
+    this.worldClockTime = null
     this.schedules.clear()
     this.actionHistory.clear()
     this.npcSummaries = []
@@ -327,6 +517,9 @@ export class MemoryStore implements StateStore {
     this.midTermMemories = []
     this.activeActions.clear()
     this.nextRowId = 1
+    this.transactions = []
+    this.attendance = []
+    this.journal = []
   }
 
   async close(): Promise<void> {
@@ -111,11 +111,78 @@ describe('SqliteStore', () => {
 
     it('should handle employment field', async () => {
       const char = createTestSimCharacter('c1', {
-        employment: { jobId: 'cook', workplaces: [{ workplaceLabel: 'キッチン', mapId: 'cafe' }] },
+        employments: [{ jobId: 'cook', workplaces: [{ workplaceLabel: 'キッチン', mapId: 'cafe' }] }],
       })
       await store.saveCharacter('c1', char)
       const loaded = await store.loadCharacter('c1')
-      expect(loaded!.employment).toEqual({ jobId: 'cook', workplaces: [{ workplaceLabel: 'キッチン', mapId: 'cafe' }] })
+      expect(loaded!.employments).toEqual([{ jobId: 'cook', workplaces: [{ workplaceLabel: 'キッチン', mapId: 'cafe' }] }])
+    })
+
+    it('should load a legacy single employment as an array', async () => {
+      await store.saveCharacter('c1', createTestSimCharacter('c1'))
+      ;(store as any).db.prepare('UPDATE character_states SET employment = ? WHERE id = ?')
+        .run(JSON.stringify({ jobId: 'cook', workplaces: [] }), 'c1')
+
+      const loaded = await store.loadCharacter('c1')
+      expect(loaded!.employments).toEqual([{ jobId: 'cook', workplaces: [] }])
+    })
+
+    it('should persist inventory', async () => {
+      const char = createTestSimCharacter('c1', {
+        inventory: [{ itemId: 'onigiri', quantity: 2 }],
+      })
+      await store.saveCharacter('c1', char)
+      const loaded = await store.loadCharacter('c1')
+      expect(loaded!.inventory).toEqual([{ itemId: 'onigiri', quantity: 2 }])
+    })
+
+    it('should leave inventory undefined when not set', async () => {
+      await store.saveCharacter('c1', createTestSimCharacter('c1'))
+      const loaded = await store.loadCharacter('c1')
+      expect(loaded!.inventory).toBeUndefined()
+    })
+
+    it('should persist the action plan across restarts', async () => {
+      const plan = {
+        goal: 'カフェで食事してから出勤',
+        steps: [
+          { type: 'action' as const, actionId: 'eat' as const, targetFacilityId: 'cafe-counter', precondition: { minMoney: 800 } },
+          { type: 'move' as const, targetMapId: 'office' },
+        ],
+      }
+      await store.saveCharacter('c1', createTestSimCharacter('c1', { plan }))
+      const loaded = await store.loadCharacter('c1')
+      expect(loaded!.plan).toEqual(plan)
+
+      await store.saveCharacter('c1', createTestSimCharacter('c1'))
+      expect((await store.loadCharacter('c1'))!.plan).toBeNull()
+    })
+
+    it('should persist skill experience', async () => {
+      await store.saveCharacter('c1', createTestSimCharacter('c1', { skills: { writing: 1310.5, cooking: 40 } }))
+      const loaded = await store.loadCharacter('c1')
+      expect(loaded!.skills).toEqual({ writing: 1310.5, cooking: 40 })
+
+      await store.saveCharacter('c2', createTestSimCharacter('c2'))
+      expect((await store.loadCharacter('c2'))!.skills).toBeUndefined()
+    })
+
+    it('should persist recurring expense arrears and evictions', async () => {
+      const expenseState = { arrears: { rent: { amount: 3000, sinceDay: 2 } }, evictedMapIds: ['home'] }
+      await store.saveCharacter('c1', createTestSimCharacter('c1', { expenseState }))
+      expect((await store.loadCharacter('c1'))!.expenseState).toEqual(expenseState)
+
+      await store.saveCharacter('c2', createTestSimCharacter('c2'))
+      expect((await store.loadCharacter('c2'))!.expenseState).toBeUndefined()
+    })
+
+    it('should persist payroll', async () => {
+      const payroll = { cafe: { pendingWage: 2400, day: 3, hoursWorked: 2, consecutiveAbsences: 1 } }
+      await store.saveCharacter('c1', createTestSimCharacter('c1', { payroll }))
+      expect((await store.loadCharacter('c1'))!.payroll).toEqual(payroll)
+
+      await store.saveCharacter('c2', createTestSimCharacter('c2'))
+      expect((await store.loadCharacter('c2'))!.payroll).toBeUndefined()
     })
   })
 
@@ -326,6 +393,54 @@ describe('SqliteStore', () => {
       })
       const history = await store.loadActionHistoryForDay('c1', 1)
       expect(history[0].episode).toBeUndefined()
+      expect(history[0].cancelReason).toBeUndefined()
+    })
+
+    it('should save cancelled actions with the legacy API', async () => {
+      await store.addActionHistory({
+        characterId: 'c1',
+        day: 1,
+        time: '10:00',
+        actionId: 'work',
+        durationMinutes: 45,
+        cancelReason: 'user',
+        appliedEffects: { money: 900 },
+      })
+      const history = await store.loadActionHistoryForDay('c1', 1)
+      expect(history[0].cancelReason).toBe('user')
+      expect(history[0].appliedEffects).toEqual({ money: 900 })
+    })
+  })
+
+  describe('cancelActionHistory', () => {
+    it('should mark the in-progress row as cancelled with elapsed time and applied effects', async () => {
+      const rowId = await store.startActionHistory({
+        characterId: 'c1',
+        day: 1,
+        time: '20:00',
+        actionId: 'eat',
+        target: 'cafe',
+        durationMinutes: 60,
+        startTimeReal: 0,
+      })
+
+      await store.cancelActionHistory(rowId, {
+        endTime: '20:20',
+        cancelReason: 'closing',
+        elapsedMinutes: 20,
+        appliedEffects: { satiety: 40, mood: 10 },
+      })
+
+      expect(await store.loadActiveActions()).toEqual([])
+      const history = await store.loadActionHistoryForDay('c1', 1)
+      expect(history).toHaveLength(1)
+      expect(history[0]).toMatchObject({
+        time: '20:00',
+        actionId: 'eat',
+        durationMinutes: 20,
+        cancelReason: 'closing',
+        appliedEffects: { satiety: 40, mood: 10 },
+      })
     })
   })
 
@@ -379,6 +494,78 @@ describe('SqliteStore', () => {
     })
   })
 
+  describe('transactions', () => {
+    beforeEach(async () => {
+      await store.addTransaction({ characterId: 'c1', day: 1, time: '12:00', amount: -800, balanceAfter: 200, category: 'payment', reason: 'ランチセット', facilityId: 'cafe-counter' })
+      await store.addTransaction({ characterId: 'c1', day: 2, time: '17:00', amount: 1200, balanceAfter: 1400, category: 'wage', reason: '給与（フリーライター）', facilityId: 'desk', jobId: 'writer' })
+      await store.addTransaction({ characterId: 'c1', day: 2, time: '19:00', amount: -300, balanceAfter: 1100, category: 'payment', reason: '利用料' })
+      await store.addTransaction({ characterId: 'c2', day: 2, time: '10:00', amount: -500, balanceAfter: 500, category: 'payment', reason: '利用料' })
+    })
+
+    it('should load transactions newest first with optional day and limit', async () => {
+      const all = await store.loadTransactions('c1')
+      expect(all.map(t => t.time)).toEqual(['19:00', '17:00', '12:00'])
+      expect(all[1]).toMatchObject({
+        characterId: 'c1',
+        day: 2,
+        amount: 1200,
+        balanceAfter: 1400,
+        category: 'wage',
+        reason: '給与（フリーライター）',
+        facilityId: 'desk',
+        jobId: 'writer',
+      })
+      expect(all[0].facilityId).toBeUndefined()
+
+      expect((await store.loadTransactions('c1', { day: 1 })).map(t => t.reason)).toEqual(['ランチセット'])
+      expect((await store.loadTransactions('c1', { limit: 1 })).map(t => t.time)).toEqual(['19:00'])
+    })
+
+    it('should summarize income and expense per day', async () => {
+      expect(await store.loadDailyMoneySummaries('c1', 1)).toEqual([
+        { day: 1, income: 0, expense: 800 },
+        { day: 2, income: 1200, expense: 300 },
+      ])
+      expect(await store.loadDailyMoneySummaries('c1', 2)).toEqual([{ day: 2, income: 1200, expense: 300 }])
+    })
+
+    it('should be cleared and restored with snapshots', async () => {
+      const info = await store.saveSnapshot('base')
+      await store.clear()
+      expect(await store.loadTransactions('c1')).toEqual([])
+
+      await store.restoreSnapshot(info.id)
+      expect(await store.loadTransactions('c1')).toHaveLength(3)
+    })
+  })
+
+  describe('attendance', () => {
+    beforeEach(async () => {
+      await store.addAttendanceRecord({ characterId: 'c1', jobId: 'cafe', day: 1, hoursWorked: 4, expectedHours: 4, docked: 0, absent: false })
+      await store.addAttendanceRecord({ characterId: 'c1', jobId: 'cafe', day: 2, hoursWorked: 0, expectedHours: 4, docked: 1200, absent: true })
+      await store.addAttendanceRecord({ characterId: 'c1', jobId: 'writer', day: 2, hoursWorked: 1.5, expectedHours: null, docked: 0, absent: false })
+      await store.addAttendanceRecord({ characterId: 'c2', jobId: 'cafe', day: 2, hoursWorked: 4, expectedHours: 4, docked: 0, absent: false })
+    })
+
+    it('should load attendance records in day order from a day', async () => {
+      expect(await store.loadAttendance('c1', 1)).toEqual([
+        { characterId: 'c1', jobId: 'cafe', day: 1, hoursWorked: 4, expectedHours: 4, docked: 0, absent: false },
+        { characterId: 'c1', jobId: 'cafe', day: 2, hoursWorked: 0, expectedHours: 4, docked: 1200, absent: true },
+        { characterId: 'c1', jobId: 'writer', day: 2, hoursWorked: 1.5, expectedHours: null, docked: 0, absent: false },
+      ])
+      expect((await store.loadAttendance('c1', 2)).map(r => r.jobId)).toEqual(['cafe', 'writer'])
+    })
+
+    it('should be cleared and restored with snapshots', async () => {
+      const info = await store.saveSnapshot('base')
+      await store.clear()
+      expect(await store.loadAttendance('c1', 1)).toEqual([])
+
+      await store.restoreSnapshot(info.id)
+      expect(await store.loadAttendance('c1', 1)).toHaveLength(3)
+    })
+  })
+
   describe('clear', () => {
     it('should clear all data', async () => {
       await store.saveCharacter('c1', createTestSimCharacter('c1'))
@@ -614,4 +801,162 @@ describe('SqliteStore', () => {
       expect(loaded).toBe(time)
     })
   })
+
+  describe('saveWorldClockTime / loadWorldClockTime', () => {
+    it('should return null when not saved', async () => {
+      expect(await store.loadWorldClockTime()).toBeNull()
+    })
+
+    it('should save and load world clock time', async () => {
+      await store.saveWorldClockTime(1700000000000)
+      expect(await store.loadWorldClockTime()).toBe(1700000000000)
+    })
+
+    it('should preserve other server state columns', async () => {
+      await store.saveServerStartTime(1600000000000)
+      await store.saveCurrentMapId('cafe')
+      await store.saveWorldClockTime(1700000000000)
+
+      expect(await store.loadServerStartTime()).toBe(1600000000000)
+      expect(await store.loadCurrentMapId()).toBe('cafe')
+
+      await store.saveCurrentMapId('home')
+      expect(await store.loadWorldClockTime()).toBe(1700000000000)
+    })
+  })
+
+  describe('saveRandomSeed / loadRandomSeed', () => {
+    it('should return null when not saved', async () => {
+      expect(await store.loadRandomSeed()).toBeNull()
+    })
+
+    it('should save and load random seed', async () => {
+      await store.saveRandomSeed(0)
+      expect(await store.loadRandomSeed()).toBe(0)
+
+      await store.saveRandomSeed(4294967295)
+      expect(await store.loadRandomSeed()).toBe(4294967295)
+    })
+
+    it('should preserve other server state columns', async () => {
+      await store.saveServerStartTime(1600000000000)
+      await store.saveRandomSeed(42)
+      await store.saveWorldClockTime(1700000000000)
+
+      expect(await store.loadServerStartTime()).toBe(1600000000000)
+      expect(await store.loadRandomSeed()).toBe(42)
+    })
+  })
+
+  describe('world snapshots', () => {
+    async function seedWorld(money: number): Promise<void> {
+      await store.saveCharacter('c1', createTestSimCharacter('c1', { money }))
+      await store.saveTime({ hour: 9, minute: 30, day: 2 })
+      await store.saveCurrentMapId('town')
+      await store.saveWorldClockTime(1700000000000)
+      await store.saveSchedule({ characterId: 'c1', day: 2, entries: [{ time: '09:00', activity: 'work' }] })
+      await store.addActionHistory({ characterId: 'c1', day: 2, time: '08:00', actionId: 'eat' })
+      await store.addMidTermMemory({ id: 'm1', characterId: 'c1', content: 'memo', importance: 'high', createdDay: 2, expiresDay: 5 })
+      await store.saveNPCState('npc1', { affinity: 10, mood: 'happy', facts: ['a'], conversationCount: 1, lastConversation: 100 })
+      await store.saveNPCSummary({ characterId: 'c1', npcId: 'npc1', npcName: 'NPC', summary: 'hi', topics: [], goalAchieved: true, timestamp: 100, day: 2, time: '09:00' })
+    }
+
+    it('should list saved snapshots with world time', async () => {
+      await seedWorld(100)
+      const info = await store.saveSnapshot('before-test')
+
+      expect(info.name).toBe('before-test')
+      expect(info.day).toBe(2)
+      expect(info.time).toBe('09:30')
+      expect(await store.listSnapshots()).toEqual([info])
+    })
+
+    it('should restore all snapshot data', async () => {
+      await seedWorld(100)
+      const info = await store.saveSnapshot('base')
+
+      // Mutate world after snapshot
+      await store.saveCharacter('c1', createTestSimCharacter('c1', { money: 5 }))
+      await store.saveCharacter('c2', createTestSimCharacter('c2'))
+      await store.saveTime({ hour: 20, minute: 0, day: 3 })
+      await store.saveCurrentMapId('cafe')
+      await store.saveWorldClockTime(1800000000000)
+      await store.deleteSchedule('c1', 2)
+      await store.addActionHistory({ characterId: 'c1', day: 2, time: '10:00', actionId: 'work' })
+      await store.deleteExpiredMidTermMemories(10)
+      await store.saveNPCState('npc1', { affinity: 50, mood: 'sad', facts: [], conversationCount: 5, lastConversation: 200 })
+
+      expect(await store.restoreSnapshot(info.id)).toBe(true)
+
+      const chars = await store.loadAllCharacters()
+      expect(Object.keys(chars)).toEqual(['c1'])
+      expect(chars.c1.money).toBe(100)
+      expect(await store.loadTime()).toEqual({ hour: 9, minute: 30, day: 2 })
+      expect(await store.loadCurrentMapId()).toBe('town')
+      expect(await store.loadWorldClockTime()).toBe(1700000000000)
+      expect((await store.loadSchedule('c1', 2))?.entries).toEqual([{ time: '09:00', activity: 'work' }])
+      expect((await store.loadActionHistoryForDay('c1', 2)).map(e => e.actionId)).toEqual(['eat'])
+      expect(await store.loadActiveMidTermMemories('c1', 2)).toHaveLength(1)
+      expect((await store.loadNPCState('npc1'))?.affinity).toBe(10)
+      expect(await store.loadNPCSummariesForDay(2)).toHaveLength(1)
+    })
+
+    it('should return false for unknown snapshot', async () => {
+      expect(await store.restoreSnapshot('unknown')).toBe(false)
+    })
+
+    it('should keep snapshots on clear', async () => {
+      await seedWorld(100)
+      const info = await store.saveSnapshot('base')
+      await store.clear()
+
+      expect(await store.listSnapshots()).toHaveLength(1)
+      expect(await store.restoreSnapshot(info.id)).toBe(true)
+      expect(await store.hasData()).toBe(true)
+    })
+  })
+
+  describe('world journal', () => {
+    const meta = (tick: number) => ({ tick, worldTime: 1700000000000 + tick * 60000, day: 1, time: '08:00' })
+
+    beforeEach(async () => {
+      await store.appendJournalEvents([
+        { ...meta(1), type: 'action_started', characterId: 'c1', actionId: 'eat', target: 'kitchen', durationMinutes: 30 },
+        { ...meta(1), type: 'stat_delta', characterId: 'c2', deltas: { money: -100 }, values: { money: 900 } },
+        { ...meta(2), type: 'npc_updated', npcId: 'npc1', updates: { affinity: 5 } },
+        { ...meta(3), type: 'action_completed', characterId: 'c1', actionId: 'eat', target: 'kitchen' },
+      ])
+    })
+
+    it('should load events in append order with seq', async () => {
+      const events = await store.loadJournalEvents()
+      expect(events.map(e => e.type)).toEqual(['action_started', 'stat_delta', 'npc_updated', 'action_completed'])
+      expect(events[0]).toMatchObject({ ...meta(1), characterId: 'c1', actionId: 'eat', target: 'kitchen', durationMinutes: 30 })
+      expect(events[1].seq).toBeGreaterThan(events[0].seq)
+    })
+
+    it('should filter by tick range, character, type and seq', async () => {
+      expect((await store.loadJournalEvents({ fromTick: 2, toTick: 2 })).map(e => e.type)).toEqual(['npc_updated'])
+      expect(await store.loadJournalEvents({ characterId: 'c1' })).toHaveLength(2)
+      expect(await store.loadJournalEvents({ types: ['stat_delta', 'npc_updated'] })).toHaveLength(2)
+
+      const [first] = await store.loadJournalEvents({ limit: 1 })
+      expect(await store.loadJournalEvents({ afterSeq: first.seq })).toHaveLength(3)
+    })
+
+    it('should load newest first with order desc', async () => {
+      const [latest] = await store.loadJournalEvents({ order: 'desc', limit: 1 })
+      expect(latest.type).toBe('action_completed')
+    })
+
+    it('should return the latest tick', async () => {
+      expect(await store.loadLatestJournalTick()).toBe(3)
+    })
+
+    it('should clear the journal', async () => {
+      await store.clear()
+      expect(await store.loadJournalEvents()).toEqual([])
+      expect(await store.loadLatestJournalTick()).toBeNull()
+    })
+  })
 })
@@ -1,22 +1,43 @@
 import Database from 'better-sqlite3'
-import type { StateStore, ActiveActionEntry } from './StateStore'
-import type { SerializedWorldState, SimCharacter } from '../simulation/types'
-import type { WorldTime, Direction, SpriteConfig, Employment, DailySchedule, ScheduleEntry, ConversationSummaryEntry, NPCDynamicState, CharacterStats } from '@/types'
+import { randomUUID } from 'crypto'
+import type { StateStore, ActiveActionEntry, WorldSnapshotInfo } from './StateStore'
+import type { SerializedWorldState, SimCharacter, WorldEvent, JournalEntry, JournalQuery } from '../simulation/types'
+import type { WorldTime, Direction, SpriteConfig, Employment, DailySchedule, ScheduleEntry, ConversationSummaryEntry, NPCDynamicState, CharacterStats, InventoryItem, ActionCancelReason, AppliedEffects, ActionPlan, CharacterSkills, ExpenseState, PayrollState, AttendanceRecord, Transaction, TransactionCategory, DailyMoneySummary } from '@/types'
 import type { ActionHistoryEntry, MidTermMemory } from '@/types/behavior'
 import * as path from 'path'
 import * as fs from 'fs'
+import { formatTime } from '@/lib/timeUtils'
+import { logger } from '@/lib/logger'
 
 // Round to 2 decimal places for status values
 function round2(value: number): number {
   return Math.round(value * 100) / 100
 }
 
+// Tables copied as-is into world snapshots (server_state is stored separately)
+const SNAPSHOT_TABLES = [
+  'character_states',
+  'world_time',
+  'schedules',
+  'action_history',
+  'npc_summaries',
+  'npc_states',
+  'mid_term_memories',
+  'transactions',
+  'attendance',
+] as const
+
 // Database row type for character_states table
 interface CharacterRow {
   id: string
   name: string
   sprite: string // JSON
-  employment: string | null // JSON
+  employment: string | null // JSON: Employment[]（旧形式は単一の Employment）
+  inventory: string | null // JSON
+  plan: string | null // JSON
+  skills: string | null // JSON
+  expenses: string | null // JSON: ExpenseState
+  payroll: string | null // JSON: PayrollState
   money: number
   satiety: number
   energy: number
@@ -39,6 +60,13 @@ interface WorldTimeRow {
   updated_at: number
 }
 
+interface ServerStateRow {
+  server_start_time: number
+  current_map_id: string
+  world_clock_time: number | null
+  random_seed: number | null
+}
+
 interface ScheduleRow {
   character_id: string
   day: number
@@ -57,11 +85,66 @@ interface ActionHistoryRow {
   episode: string | null
   created_at: number
   // New columns for action persistence
-  status: string  // 'in_progress' | 'completed'
+  status: string  // 'in_progress' | 'completed' | 'cancelled'
   start_time_real: number | null  // 開始実時刻
   end_time: string | null  // 完了時刻
   last_update_time: number | null  // 最終更新時刻
   stats_snapshot: string | null  // JSON: CharacterStats
+  cancel_reason: string | null  // 中断理由（status = 'cancelled' のみ）
+  applied_effects: string | null  // JSON: AppliedEffects（中断までに適用した効果）
+}
+
+interface TransactionRow {
+  id: number
+  character_id: string
+  day: number
+  time: string
+  amount: number
+  balance_after: number
+  category: string
+  reason: string
+  facility_id: string | null
+  job_id: string | null
+  created_at: number
+}
+
+interface AttendanceRow {
+  id: number
+  character_id: string
+  job_id: string
+  day: number
+  hours_worked: number
+  expected_hours: number | null
+  docked: number
+  absent: number // 0 or 1
+}
+
+interface JournalRow {
+  seq: number
+  tick: number
+  world_time: number
+  day: number
+  time: string
+  type: string
+  character_id: string | null
+  npc_id: string | null
+  payload: string // JSON: WorldEventPayload
+}
+
+interface WorldSnapshotRow {
+  id: string
+  name: string
+  day: number | null
+  time: string | null
+  data: string // JSON: WorldSnapshotData
+  created_at: number
+}
+
+// Snapshot payload: raw table rows + server state values
+interface WorldSnapshotData {
+  tables: Record<string, Array<Record<string, unknown>>>
+  currentMapId: string | null
+  worldClockTime: number | null
 }
 
 /**
@@ -92,6 +175,11 @@ export class SqliteStore implements StateStore {
         name TEXT NOT NULL,
         sprite TEXT NOT NULL,
         employment TEXT,
+        inventory TEXT,
+        plan TEXT,
+        skills TEXT,
+        expenses TEXT,
+        payroll TEXT,
         money INTEGER NOT NULL,
         satiety INTEGER NOT NULL,
         energy INTEGER NOT NULL,
@@ -151,6 +239,39 @@ export class SqliteStore implements StateStore {
       CREATE INDEX IF NOT EXISTS idx_action_history_character_day
         ON action_history(character_id, day);
 
+      -- Money transactions (ledger)
+      CREATE TABLE IF NOT EXISTS transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        character_id TEXT NOT NULL,
+        day INTEGER NOT NULL,
+        time TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        balance_after INTEGER NOT NULL,
+        category TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        facility_id TEXT,
+        job_id TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_transactions_character_day
+        ON transactions(character_id, day);
+
+      -- Attendance (hours worked per job and day)
+      CREATE TABLE IF NOT EXISTS attendance (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        character_id TEXT NOT NULL,
+        job_id TEXT NOT NULL,
+        day INTEGER NOT NULL,
+        hours_worked REAL NOT NULL,
+        expected_hours REAL,
+        docked INTEGER NOT NULL DEFAULT 0,
+        absent INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_attendance_character_day
+        ON attendance(character_id, day);
+
       -- NPC conversation summaries
       CREATE TABLE IF NOT EXISTS npc_summaries (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -199,10 +320,101 @@ export class SqliteStore implements StateStore {
         last_conversation INTEGER,
         updated_at INTEGER NOT NULL
       );
+
+      -- World journal (append-only event log)
+      CREATE TABLE IF NOT EXISTS world_journal (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        tick INTEGER NOT NULL,
+        world_time INTEGER NOT NULL,
+        day INTEGER NOT NULL,
+        time TEXT NOT NULL,
+        type TEXT NOT NULL,
+        character_id TEXT,
+        npc_id TEXT,
+        payload TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_world_journal_tick
+        ON world_journal(tick);
+
+      CREATE INDEX IF NOT EXISTS idx_world_journal_character
+        ON world_journal(character_id, tick);
+
+      -- Named world snapshots
+      CREATE TABLE IF NOT EXISTS world_snapshots (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        day INTEGER,
+        time TEXT,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
     `)
 
     // Migration: add episode column to action_history
     this.migrateActionHistoryEpisode()
+    this.migrateServerStateWorldClock()
+    this.migrateCharacterStatesInventory()
+    this.migrateCharacterStatesPlan()
+    this.migrateCharacterStatesSkills()
+    this.migrateCharacterStatesExpenses()
+    this.migrateCharacterStatesPayroll()
+  }
+
+  private migrateCharacterStatesInventory(): void {
+    const columns = this.db.pragma('table_info(character_states)') as Array<{ name: string }>
+    if (!columns.some(c => c.name === 'inventory')) {
+      this.db.prepare('ALTER TABLE character_states ADD COLUMN inventory TEXT').run()
+      logger.info('[SqliteStore] Migrated: added inventory column to character_states')
+    }
+  }
+
+  private migrateCharacterStatesPlan(): void {
+    const columns = this.db.pragma('table_info(character_states)') as Array<{ name: string }>
+    if (!columns.some(c => c.name === 'plan')) {
+      this.db.prepare('ALTER TABLE character_states ADD COLUMN plan TEXT').run()
+      logger.info('[SqliteStore] Migrated: added plan column to character_states')
+    }
+  }
+
+  private migrateCharacterStatesSkills(): void {
+    const columns = this.db.pragma('table_info(character_states)') as Array<{ name: string }>
+    if (!columns.some(c => c.name === 'skills')) {
+      this.db.prepare('ALTER TABLE character_states ADD COLUMN skills TEXT').run()
+      logger.info('[SqliteStore] Migrated: added skills column to character_states')
+    }
+  }
+
+  private migrateCharacterStatesExpenses(): void {
+    const columns = this.db.pragma('table_info(character_states)') as Array<{ name: string }>
+    if (!columns.some(c => c.name === 'expenses')) {
+      this.db.prepare('ALTER TABLE character_states ADD COLUMN expenses TEXT').run()
+      logger.info('[SqliteStore] Migrated: added expenses column to character_states')
+    }
+  }
+
+  private migrateCharacterStatesPayroll(): void {
+    const columns = this.db.pragma('table_info(character_states)') as Array<{ name: string }>
+    if (!columns.some(c => c.name === 'payroll')) {
+      this.db.prepare('ALTER TABLE character_states ADD COLUMN payroll TEXT').run()
+      logger.info('[SqliteStore] Migrated: added payroll column to character_states')
+    }
+  }
+
+  private migrateServerStateWorldClock(): void {
+    const columns = this.db.pragma('table_info(server_state)') as Array<{ name: string }>
+    const columnNames = new Set(columns.map(c => c.name))
+
+    if (!columnNames.has('world_clock_time')) {
+      this.db.prepare('ALTER TABLE server_state ADD COLUMN world_clock_time INTEGER').run()
+      logger.info('[SqliteStore] Migrated: added world_clock_time column to server_state')
+    }
+
+    if (!columnNames.has('random_seed')) {
+      this.db.prepare('ALTER TABLE server_state ADD COLUMN random_seed INTEGER').run()
+      logger.info('[SqliteStore] Migrated: added random_seed column to server_state')
+    }
   }
 
   private migrateActionHistoryEpisode(): void {
@@ -210,7 +422,7 @@ export class SqliteStore implements StateStore {
     const hasEpisode = columns.some(c => c.name === 'episode')
     if (!hasEpisode) {
       this.db.prepare('ALTER TABLE action_history ADD COLUMN episode TEXT').run()
-      console.log('[SqliteStore] Migrated: added episode column to action_history')
+      logger.info('[SqliteStore] Migrated: added episode column to action_history')
     }
     // Chain to next migration
     this.migrateActionHistoryPersistence()
@@ -223,31 +435,41 @@ export class SqliteStore implements StateStore {
     // Add status column with default 'completed' (existing records are completed)
     if (!columnNames.has('status')) {
       this.db.prepare("ALTER TABLE action_history ADD COLUMN status TEXT NOT NULL DEFAULT 'completed'").run()
-      console.log('[SqliteStore] Migrated: added status column to action_history')
+      logger.info('[SqliteStore] Migrated: added status column to action_history')
     }
 
     // Add start_time_real column
     if (!columnNames.has('start_time_real')) {
       this.db.prepare('ALTER TABLE action_history ADD COLUMN start_time_real INTEGER').run()
-      console.log('[SqliteStore] Migrated: added start_time_real column to action_history')
+      logger.info('[SqliteStore] Migrated: added start_time_real column to action_history')
     }
 
     // Add end_time column
     if (!columnNames.has('end_time')) {
       this.db.prepare('ALTER TABLE action_history ADD COLUMN end_time TEXT').run()
-      console.log('[SqliteStore] Migrated: added end_time column to action_history')
+      logger.info('[SqliteStore] Migrated: added end_time column to action_history')
     }
 
     // Add last_update_time column
     if (!columnNames.has('last_update_time')) {
       this.db.prepare('ALTER TABLE action_history ADD COLUMN last_update_time INTEGER').run()
-      console.log('[SqliteStore] Migrated: added last_update_time column to action_history')
+      logger.info('[SqliteStore] Migrated: added last_update_time column to action_history')
     }
 
     // Add stats_snapshot column
     if (!columnNames.has('stats_snapshot')) {
       this.db.prepare('ALTER TABLE action_history ADD COLUMN stats_snapshot TEXT').run()
-      console.log('[SqliteStore] Migrated: added stats_snapshot column to action_history')
+      logger.info('[SqliteStore] Migrated: added stats_snapshot column to action_history')
+    }
+
+    // Add cancel_reason / applied_effects columns (cancelled actions)
+    if (!columnNames.has('cancel_reason')) {
+      this.db.prepare('ALTER TABLE action_history ADD COLUMN cancel_reason TEXT').run()
+      logger.info('[SqliteStore] Migrated: added cancel_reason column to action_history')
+    }
+    if (!columnNames.has('applied_effects')) {
+      this.db.prepare('ALTER TABLE action_history ADD COLUMN applied_effects TEXT').run()
+      logger.info('[SqliteStore] Migrated: added applied_effects column to action_history')
     }
 
     // Create partial unique index for in-progress actions (one per character)
@@ -330,10 +552,10 @@ export class SqliteStore implements StateStore {
   private saveCharacterSync(id: string, character: SimCharacter): void {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO character_states (
-        id, name, sprite, employment, money, satiety, energy, hygiene, mood, bladder,
+        id, name, sprite, employment, inventory, plan, skills, expenses, payroll, money, satiety, energy, hygiene, mood, bladder,
         current_map_id, current_node_id, position_x, position_y, direction, updated_at
       ) VALUES (
-        @id, @name, @sprite, @employment, @money, @satiety, @energy, @hygiene, @mood, @bladder,
+        @id, @name, @sprite, @employment, @inventory, @plan, @skills, @expenses, @payroll, @money, @satiety, @energy, @hygiene, @mood, @bladder,
         @current_map_id, @current_node_id, @position_x, @position_y, @direction, @updated_at
       )
     `)
@@ -342,7 +564,12 @@ export class SqliteStore implements StateStore {
       id,
       name: character.name,
       sprite: JSON.stringify(character.sprite),
-      employment: character.employment ? JSON.stringify(character.employment) : null,
+      employment: character.employments ? JSON.stringify(character.employments) : null,
+      inventory: character.inventory ? JSON.stringify(character.inventory) : null,
+      plan: character.plan ? JSON.stringify(character.plan) : null,
+      skills: character.skills ? JSON.stringify(character.skills) : null,
+      expenses: character.expenseState ? JSON.stringify(character.expenseState) : null,
+      payroll: character.payroll ? JSON.stringify(character.payroll) : null,
       money: character.money,
       satiety: round2(character.satiety),
       energy: round2(character.energy),
@@ -385,7 +612,11 @@ export class SqliteStore implements StateStore {
       id: row.id,
       name: row.name,
       sprite: JSON.parse(row.sprite) as SpriteConfig,
-      employment: row.employment ? (JSON.parse(row.employment) as Employment) : undefined,
+      employments: row.employment ? this.parseEmployments(row.employment) : undefined,
+      inventory: row.inventory ? (JSON.parse(row.inventory) as InventoryItem[]) : undefined,
+      skills: row.skills ? (JSON.parse(row.skills) as CharacterSkills) : undefined,
+      expenseState: row.expenses ? (JSON.parse(row.expenses) as ExpenseState) : undefined,
+      payroll: row.payroll ? (JSON.parse(row.payroll) as PayrollState) : undefined,
       money: row.money,
       satiety: row.satiety,
       energy: row.energy,
@@ -409,10 +640,17 @@ export class SqliteStore implements StateStore {
       conversation: null,
       currentAction: null,
       pendingAction: null,
+      plan: row.plan ? (JSON.parse(row.plan) as ActionPlan) : null,
       actionCounter: 0, // Runtime state - reset on load
     }
   }
 
+  // Rows saved before multiple employments hold a single Employment object
+  private parseEmployments(json: string): Employment[] {
+    const parsed = JSON.parse(json) as Employment | Employment[]
+    return Array.isArray(parsed) ? parsed : [parsed]
+  }
+
   async deleteCharacter(id: string): Promise<void> {
     const stmt = this.db.prepare('DELETE FROM character_states WHERE id = ?')
     stmt.run(id)
@@ -464,6 +702,24 @@ export class SqliteStore implements StateStore {
     return row?.current_map_id ?? null
   }
 
+  async saveWorldClockTime(time: number): Promise<void> {
+    this.upsertServerState({ worldClockTime: time })
+  }
+
+  async loadWorldClockTime(): Promise<number | null> {
+    const row = this.getServerStateRow()
+    return row?.world_clock_time ?? null
+  }
+
+  async saveRandomSeed(seed: number): Promise<void> {
+    this.upsertServerState({ randomSeed: seed })
+  }
+
+  async loadRandomSeed(): Promise<number | null> {
+    const row = this.getServerStateRow()
+    return row?.random_seed ?? null
+  }
+
   async saveServerStartTime(time: number): Promise<void> {
     this.upsertServerState({ serverStartTime: time })
   }
@@ -474,14 +730,16 @@ export class SqliteStore implements StateStore {
   }
 
   // Unified server state upsert - preserves existing values with COALESCE
-  private upsertServerState(update: { serverStartTime?: number; currentMapId?: string }): void {
+  private upsertServerState(update: { serverStartTime?: number; currentMapId?: string; worldClockTime?: number; randomSeed?: number }): void {
     const now = Date.now()
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO server_state (id, server_start_time, current_map_id, updated_at)
+      INSERT OR REPLACE INTO server_state (id, server_start_time, current_map_id, world_clock_time, random_seed, updated_at)
       VALUES (
         1,
         COALESCE(@server_start_time, (SELECT server_start_time FROM server_state WHERE id = 1), @fallback_time),
         COALESCE(@current_map_id, (SELECT current_map_id FROM server_state WHERE id = 1), 'town'),
+        COALESCE(@world_clock_time, (SELECT world_clock_time FROM server_state WHERE id = 1)),
+        COALESCE(@random_seed, (SELECT random_seed FROM server_state WHERE id = 1)),
         @updated_at
       )
     `)
@@ -489,14 +747,16 @@ export class SqliteStore implements StateStore {
     stmt.run({
       server_start_time: update.serverStartTime ?? null,
       current_map_id: update.currentMapId ?? null,
+      world_clock_time: update.worldClockTime ?? null,
+      random_seed: update.randomSeed ?? null,
       fallback_time: now,
       updated_at: now,
     })
   }
 
-  private getServerStateRow(): { server_start_time: number; current_map_id: string } | undefined {
-    const stmt = this.db.prepare('SELECT server_start_time, current_map_id FROM server_state WHERE id = 1')
-    return stmt.get() as { server_start_time: number; current_map_id: string } | undefined
+  private getServerStateRow(): ServerStateRow | undefined {
+    const stmt = this.db.prepare('SELECT server_start_time, current_map_id, world_clock_time, random_seed FROM server_state WHERE id = 1')
+    return stmt.get() as ServerStateRow | undefined
   }
 
   // Schedule CRUD methods
@@ -566,10 +826,12 @@ export class SqliteStore implements StateStore {
     target?: string
     durationMinutes?: number
     reason?: string
+    cancelReason?: ActionCancelReason
+    appliedEffects?: AppliedEffects
   }): Promise<void> {
     const stmt = this.db.prepare(`
-      INSERT INTO action_history (character_id, day, time, action_id, target, duration_minutes, reason, created_at)
-      VALUES (@character_id, @day, @time, @action_id, @target, @duration_minutes, @reason, @created_at)
+      INSERT INTO action_history (character_id, day, time, action_id, target, duration_minutes, reason, status, cancel_reason, applied_effects, created_at)
+      VALUES (@character_id, @day, @time, @action_id, @target, @duration_minutes, @reason, @status, @cancel_reason, @applied_effects, @created_at)
     `)
 
     stmt.run({
@@ -580,6 +842,9 @@ export class SqliteStore implements StateStore {
       target: entry.target ?? null,
       duration_minutes: entry.durationMinutes ?? null,
       reason: entry.reason ?? null,
+      status: entry.cancelReason ? 'cancelled' : 'completed',
+      cancel_reason: entry.cancelReason ?? null,
+      applied_effects: entry.appliedEffects ? JSON.stringify(entry.appliedEffects) : null,
       created_at: Date.now(),
     })
   }
@@ -597,6 +862,100 @@ export class SqliteStore implements StateStore {
       durationMinutes: row.duration_minutes ?? undefined,
       reason: row.reason ?? undefined,
       episode: row.episode ?? undefined,
+      cancelReason: (row.cancel_reason as ActionCancelReason | null) ?? undefined,
+      appliedEffects: row.applied_effects ? JSON.parse(row.applied_effects) as AppliedEffects : undefined,
+    }))
+  }
+
+  async addTransaction(entry: Transaction): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT INTO transactions (character_id, day, time, amount, balance_after, category, reason, facility_id, job_id, created_at)
+      VALUES (@character_id, @day, @time, @amount, @balance_after, @category, @reason, @facility_id, @job_id, @created_at)
+    `)
+
+    stmt.run({
+      character_id: entry.characterId,
+      day: entry.day,
+      time: entry.time,
+      amount: entry.amount,
+      balance_after: entry.balanceAfter,
+      category: entry.category,
+      reason: entry.reason,
+      facility_id: entry.facilityId ?? null,
+      job_id: entry.jobId ?? null,
+      created_at: Date.now(),
+    })
+  }
+
+  async loadTransactions(characterId: string, query: { day?: number; limit?: number } = {}): Promise<Transaction[]> {
+    const conditions = ['character_id = @character_id']
+    if (query.day !== undefined) conditions.push('day = @day')
+    const stmt = this.db.prepare(`
+      SELECT * FROM transactions WHERE ${conditions.join(' AND ')}
+      ORDER BY id DESC
+      ${query.limit !== undefined ? 'LIMIT @limit' : ''}
+    `)
+    const rows = stmt.all({ character_id: characterId, day: query.day, limit: query.limit }) as TransactionRow[]
+
+    return rows.map(row => ({
+      id: row.id,
+      characterId: row.character_id,
+      day: row.day,
+      time: row.time,
+      amount: row.amount,
+      balanceAfter: row.balance_after,
+      category: row.category as TransactionCategory,
+      reason: row.reason,
+      facilityId: row.facility_id ?? undefined,
+      jobId: row.job_id ?? undefined,
+    }))
+  }
+
+  async loadDailyMoneySummaries(characterId: string, fromDay: number): Promise<DailyMoneySummary[]> {
+    const stmt = this.db.prepare(`
+      SELECT day,
+        SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END) AS income,
+        SUM(CASE WHEN amount < 0 THEN -amount ELSE 0 END) AS expense
+      FROM transactions
+      WHERE character_id = ? AND day >= ?
+      GROUP BY day
+      ORDER BY day
+    `)
+    return stmt.all(characterId, fromDay) as DailyMoneySummary[]
+  }
+
+  async addAttendanceRecord(record: AttendanceRecord): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT INTO attendance (character_id, job_id, day, hours_worked, expected_hours, docked, absent)
+      VALUES (@character_id, @job_id, @day, @hours_worked, @expected_hours, @docked, @absent)
+    `)
+    stmt.run({
+      character_id: record.characterId,
+      job_id: record.jobId,
+      day: record.day,
+      hours_worked: round2(record.hoursWorked),
+      expected_hours: record.expectedHours,
+      docked: record.docked,
+      absent: record.absent ? 1 : 0,
+    })
+  }
+
+  async loadAttendance(characterId: string, fromDay: number): Promise<AttendanceRecord[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM attendance
+      WHERE character_id = ? AND day >= ?
+      ORDER BY day, id
+    `)
+    const rows = stmt.all(characterId, fromDay) as AttendanceRow[]
+
+    return rows.map(row => ({
+      characterId: row.character_id,
+      jobId: row.job_id,
+      day: row.day,
+      hoursWorked: row.hours_worked,
+      expectedHours: row.expected_hours,
+      docked: row.docked,
+      absent: row.absent === 1,
     }))
   }
 
@@ -692,6 +1051,32 @@ export class SqliteStore implements StateStore {
     })
   }
 
+  async cancelActionHistory(
+    rowId: number,
+    entry: {
+      endTime: string
+      cancelReason: ActionCancelReason
+      elapsedMinutes: number
+      appliedEffects: AppliedEffects
+    }
+  ): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE action_history
+      SET status = 'cancelled', end_time = @end_time, duration_minutes = @duration_minutes,
+        cancel_reason = @cancel_reason, applied_effects = @applied_effects, last_update_time = @last_update_time
+      WHERE id = @row_id
+    `)
+
+    stmt.run({
+      row_id: rowId,
+      end_time: entry.endTime,
+      duration_minutes: entry.elapsedMinutes,
+      cancel_reason: entry.cancelReason,
+      applied_effects: JSON.stringify(entry.appliedEffects),
+      last_update_time: Date.now(),
+    })
+  }
+
   async loadActiveActions(): Promise<ActiveActionEntry[]> {
     const stmt = this.db.prepare(`
       SELECT * FROM action_history WHERE status = 'in_progress'
@@ -924,6 +1309,172 @@ export class SqliteStore implements StateStore {
     return result.changes
   }
 
+  // World journal methods
+
+  async appendJournalEvents(events: WorldEvent[]): Promise<void> {
+    if (events.length === 0) return
+
+    const stmt = this.db.prepare(`
+      INSERT INTO world_journal (tick, world_time, day, time, type, character_id, npc_id, payload, created_at)
+      VALUES (@tick, @world_time, @day, @time, @type, @character_id, @npc_id, @payload, @created_at)
+    `)
+    const now = Date.now()
+
+    const transaction = this.db.transaction(() => {
+      for (const event of events) {
+        const { tick, worldTime, day, time, ...payload } = event
+        stmt.run({
+          tick,
+          world_time: worldTime,
+          day,
+          time,
+          type: payload.type,
+          character_id: 'characterId' in payload ? payload.characterId : null,
+          npc_id: 'npcId' in payload ? payload.npcId : null,
+          payload: JSON.stringify(payload),
+          created_at: now,
+        })
+      }
+    })
+
+    transaction()
+  }
+
+  async loadJournalEvents(query: JournalQuery = {}): Promise<JournalEntry[]> {
+    const conditions: string[] = []
+    const params: Record<string, unknown> = {}
+
+    if (query.fromTick !== undefined) {
+      conditions.push('tick >= @from_tick')
+      params.from_tick = query.fromTick
+    }
+    if (query.toTick !== undefined) {
+      conditions.push('tick <= @to_tick')
+      params.to_tick = query.toTick
+    }
+    if (query.afterSeq !== undefined) {
+      conditions.push('seq > @after_seq')
+      params.after_seq = query.afterSeq
+    }
+    if (query.characterId !== undefined) {
+      conditions.push('character_id = @character_id')
+      params.character_id = query.characterId
+    }
+    if (query.types && query.types.length > 0) {
+      const placeholders = query.types.map((_, i) => `@type_${i}`)
+      conditions.push(`type IN (${placeholders.join(', ')})`)
+      query.types.forEach((type, i) => { params[`type_${i}`] = type })
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const order = query.order === 'desc' ? 'DESC' : 'ASC'
+    const limit = query.limit !== undefined ? 'LIMIT @limit' : ''
+    if (query.limit !== undefined) params.limit = query.limit
+
+    const stmt = this.db.prepare(`SELECT * FROM world_journal ${where} ORDER BY seq ${order} ${limit}`)
+    const rows = stmt.all(params) as JournalRow[]
+
+    return rows.map(row => ({
+      ...(JSON.parse(row.payload) as WorldEvent),
+      seq: row.seq,
+      tick: row.tick,
+      worldTime: row.world_time,
+      day: row.day,
+      time: row.time,
+    }))
+  }
+
+  async loadLatestJournalTick(): Promise<number | null> {
+    const stmt = this.db.prepare('SELECT MAX(tick) as tick FROM world_journal')
+    const result = stmt.get() as { tick: number | null }
+    return result.tick
+  }
+
+  // World snapshot methods
+
+  async saveSnapshot(name: string): Promise<WorldSnapshotInfo> {
+    const tables: WorldSnapshotData['tables'] = {}
+    for (const table of SNAPSHOT_TABLES) {
+      tables[table] = this.db.prepare(`SELECT * FROM ${table}`).all() as Array<Record<string, unknown>>
+    }
+    const serverState = this.getServerStateRow()
+    const data: WorldSnapshotData = {
+      tables,
+      currentMapId: serverState?.current_map_id ?? null,
+      worldClockTime: serverState?.world_clock_time ?? null,
+    }
+
+    const time = await this.loadTime()
+    const info: WorldSnapshotInfo = {
+      id: randomUUID(),
+      name,
+      day: time?.day ?? null,
+      time: time ? formatTime(time) : null,
+      createdAt: Date.now(),
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT INTO world_snapshots (id, name, day, time, data, created_at)
+      VALUES (@id, @name, @day, @time, @data, @created_at)
+    `)
+    stmt.run({
+      id: info.id,
+      name: info.name,
+      day: info.day,
+      time: info.time,
+      data: JSON.stringify(data),
+      created_at: info.createdAt,
+    })
+
+    return info
+  }
+
+  async listSnapshots(): Promise<WorldSnapshotInfo[]> {
+    const stmt = this.db.prepare(
+      'SELECT id, name, day, time, created_at FROM world_snapshots ORDER BY created_at DESC'
+    )
+    const rows = stmt.all() as Array<Omit<WorldSnapshotRow, 'data'>>
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      day: row.day,
+      time: row.time,
+      createdAt: row.created_at,
+    }))
+  }
+
+  async restoreSnapshot(id: string): Promise<boolean> {
+    const row = this.db.prepare('SELECT * FROM world_snapshots WHERE id = ?').get(id) as WorldSnapshotRow | undefined
+    if (!row) {
+      return false
+    }
+
+    const data = JSON.parse(row.data) as WorldSnapshotData
+
+    const transaction = this.db.transaction(() => {
+      for (const table of SNAPSHOT_TABLES) {
+        this.db.prepare(`DELETE FROM ${table}`).run()
+
+        // Columns added by later migrations fall back to their defaults
+        for (const tableRow of data.tables[table] ?? []) {
+          const columns = Object.keys(tableRow)
+          this.db.prepare(
+            `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})`
+          ).run(tableRow)
+        }
+      }
+
+      this.upsertServerState({
+        currentMapId: data.currentMapId ?? undefined,
+        worldClockTime: data.worldClockTime ?? undefined,
+      })
+    })
+
+    transaction()
+    return true
+  }
+
   async hasData(): Promise<boolean> {
     const stmt = this.db.prepare('SELECT COUNT(*) as count FROM character_states')
     const result = stmt.get() as { count: number }
@@ -940,6 +1491,9 @@ export class SqliteStore implements StateStore {
       DELETE FROM npc_summaries;
       DELETE FROM npc_states;
       DELETE FROM mid_term_memories;
+      DELETE FROM transactions;
+      DELETE FROM attendance;
+      DELETE FROM world_journal;
     `)
   }
 
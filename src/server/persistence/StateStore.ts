@@ -1,5 +1,5 @@
-import type { SerializedWorldState, SimCharacter } from '../simulation/types'
-import type { WorldTime, DailySchedule, ConversationSummaryEntry, NPCDynamicState, CharacterStats } from '@/types'
+import type { SerializedWorldState, SimCharacter, WorldEvent, JournalEntry, JournalQuery } from '../simulation/types'
+import type { WorldTime, DailySchedule, ConversationSummaryEntry, NPCDynamicState, CharacterStats, ActionCancelReason, AppliedEffects, Transaction, DailyMoneySummary, AttendanceRecord } from '@/types'
 import type { ActionHistoryEntry, MidTermMemory } from '@/types/behavior'
 
 /**
@@ -14,11 +14,22 @@ export interface ActiveActionEntry {
   target?: string
   durationMinutes?: number
   reason?: string
-  startTimeReal: number        // 開始実時刻 (Date.now())
+  startTimeReal: number        // 開始時刻（ワールド時計のepoch ms）
   lastUpdateTime: number       // 最終更新時刻
   statsSnapshot?: CharacterStats  // 更新時点のステータス
 }
 
+/**
+ * Named world snapshot metadata
+ */
+export interface WorldSnapshotInfo {
+  id: string
+  name: string
+  day: number | null           // スナップショット時点のワールド日
+  time: string | null          // スナップショット時点のワールド時刻 (HH:MM)
+  createdAt: number            // 作成時刻（実時間 epoch ms）
+}
+
 /**
  * Abstract interface for state persistence.
  * Implementations can be in-memory, SQLite, PostgreSQL, etc.
@@ -76,6 +87,17 @@ export interface StateStore {
    */
   loadCurrentMapId(): Promise<string | null>
 
+  /**
+   * Save world clock time (epoch ms of simulated time)
+   */
+  saveWorldClockTime(time: number): Promise<void>
+
+  /**
+   * Load world clock time
+   * Returns null if not saved yet
+   */
+  loadWorldClockTime(): Promise<number | null>
+
   /**
    * Save a schedule for a character on a specific day
    */
@@ -102,7 +124,7 @@ export interface StateStore {
   deleteAllSchedulesForCharacter(characterId: string): Promise<void>
 
   /**
-   * Add an action history entry (legacy: completed action)
+   * Add an action history entry (legacy: completed action, or cancelled when cancelReason is set)
    */
   addActionHistory(entry: {
     characterId: string
@@ -112,6 +134,8 @@ export interface StateStore {
     target?: string
     durationMinutes?: number
     reason?: string
+    cancelReason?: ActionCancelReason
+    appliedEffects?: AppliedEffects
   }): Promise<void>
 
   /**
@@ -146,6 +170,19 @@ export interface StateStore {
     episode?: string
   ): Promise<void>
 
+  /**
+   * Cancel an action (UPDATE status='cancelled' with elapsed duration and applied effects)
+   */
+  cancelActionHistory(
+    rowId: number,
+    entry: {
+      endTime: string
+      cancelReason: ActionCancelReason
+      elapsedMinutes: number
+      appliedEffects: AppliedEffects
+    }
+  ): Promise<void>
+
   /**
    * Load all in-progress actions (for restart recovery)
    */
@@ -161,6 +198,31 @@ export interface StateStore {
    */
   updateActionHistoryEpisode(characterId: string, day: number, time: string, episode: string): Promise<void>
 
+  /**
+   * Add a money transaction (ledger entry)
+   */
+  addTransaction(entry: Transaction): Promise<void>
+
+  /**
+   * Load transactions for a character (newest first, optionally filtered by day)
+   */
+  loadTransactions(characterId: string, query?: { day?: number; limit?: number }): Promise<Transaction[]>
+
+  /**
+   * Load daily income/expense summaries for a character from a day onward (oldest first)
+   */
+  loadDailyMoneySummaries(characterId: string, fromDay: number): Promise<DailyMoneySummary[]>
+
+  /**
+   * Add an attendance record (hours worked for a job on a day)
+   */
+  addAttendanceRecord(record: AttendanceRecord): Promise<void>
+
+  /**
+   * Load attendance records for a character from a day onward (oldest first)
+   */
+  loadAttendance(characterId: string, fromDay: number): Promise<AttendanceRecord[]>
+
   /**
    * Save an NPC conversation summary
    */
@@ -207,13 +269,47 @@ export interface StateStore {
    */
   deleteExpiredMidTermMemories(currentDay: number): Promise<number>
 
+  /**
+   * Append events to the world journal (append-only, kept across snapshot restores)
+   */
+  appendJournalEvents(events: WorldEvent[]): Promise<void>
+
+  /**
+   * Load journal events matching the query (ordered by seq)
+   */
+  loadJournalEvents(query?: JournalQuery): Promise<JournalEntry[]>
+
+  /**
+   * Load the latest journaled tick
+   * Returns null if the journal is empty
+   */
+  loadLatestJournalTick(): Promise<number | null>
+
+  /**
+   * Save a named snapshot of the persisted world
+   * (characters, time, current map, world clock, schedules, action history,
+   * mid-term memories, NPC dynamic states and summaries)
+   */
+  saveSnapshot(name: string): Promise<WorldSnapshotInfo>
+
+  /**
+   * List all snapshots (newest first)
+   */
+  listSnapshots(): Promise<WorldSnapshotInfo[]>
+
+  /**
+   * Replace the persisted world with a snapshot
+   * Returns false if the snapshot doesn't exist
+   */
+  restoreSnapshot(id: string): Promise<boolean>
+
   /**
    * Check if store has been initialized with data
    */
   hasData(): Promise<boolean>
 
   /**
-   * Clear all data
+   * Clear all data (snapshots are kept)
    */
   clear(): Promise<void>
 
@@ -1,3 +1,3 @@
-export type { StateStore, StateStoreFactory } from './StateStore'
+export type { StateStore, StateStoreFactory, WorldSnapshotInfo } from './StateStore'
 export { MemoryStore } from './MemoryStore'
 export { SqliteStore } from './SqliteStore'
@@ -551,6 +551,63 @@ describe('CharacterSimulator (integration with real WorldStateManager)', () => {
     })
   })
 
+  describe('navigateToRandomMap', () => {
+    function createHubMaps() {
+      const townNodes: PathNode[] = [
+        { id: 'town-0-0', x: 100, y: 100, type: 'waypoint', connectedTo: ['town-cafe', 'town-park'] },
+        { id: 'town-cafe', x: 200, y: 100, type: 'entrance', connectedTo: ['town-0-0'], leadsTo: { mapId: 'cafe', nodeId: 'cafe-entrance' } },
+        { id: 'town-park', x: 100, y: 200, type: 'entrance', connectedTo: ['town-0-0'], leadsTo: { mapId: 'park', nodeId: 'park-entrance' } },
+      ]
+      const cafeNodes: PathNode[] = [
+        { id: 'cafe-entrance', x: 100, y: 100, type: 'entrance', connectedTo: ['cafe-0-0'], leadsTo: { mapId: 'town', nodeId: 'town-cafe' } },
+        { id: 'cafe-0-0', x: 200, y: 100, type: 'waypoint', connectedTo: ['cafe-entrance'] },
+      ]
+      const parkNodes: PathNode[] = [
+        { id: 'park-entrance', x: 100, y: 100, type: 'entrance', connectedTo: ['park-0-0'], leadsTo: { mapId: 'town', nodeId: 'town-park' } },
+        { id: 'park-0-0', x: 200, y: 100, type: 'waypoint', connectedTo: ['park-entrance'] },
+      ]
+      return {
+        town: createTestMap('town', { nodes: townNodes }),
+        cafe: createTestMap('cafe', { nodes: cafeNodes, spawnNodeId: 'cafe-0-0' }),
+        park: createTestMap('park', { nodes: parkNodes, spawnNodeId: 'park-0-0' }),
+      }
+    }
+
+    it('should pick the same sequence of target maps for the same seed', () => {
+      const pickSequence = (seed: number) => {
+        const state = new WorldStateManager()
+        state.initialize(createHubMaps(), 'town')
+        const sim = new CharacterSimulator(state, { ...defaultConfig, seed })
+        return Array.from({ length: 10 }, (_, i) => {
+          state.addCharacter(createTestCharacter(`c${i}`))
+          return sim.navigateToRandomMap(`c${i}`, ['cafe', 'park'])
+        })
+      }
+
+      const first = pickSequence(42)
+      expect(pickSequence(42)).toEqual(first)
+      expect(first.every(id => id === 'cafe' || id === 'park')).toBe(true)
+    })
+
+    it('should start cross-map navigation to the spawn node of the picked map', () => {
+      worldState.initialize(createHubMaps(), 'town')
+      worldState.addCharacter(createTestCharacter('c1'))
+
+      const targetMapId = simulator.navigateToRandomMap('c1', ['cafe'])
+
+      expect(targetMapId).toBe('cafe')
+      const char = worldState.getCharacter('c1')!
+      expect(char.navigation.isMoving).toBe(true)
+      expect(char.crossMapNavigation?.targetNodeId).toBe('cafe-0-0')
+    })
+
+    it('should return null without candidates', () => {
+      worldState.initialize(createHubMaps(), 'town')
+      worldState.addCharacter(createTestCharacter('c1'))
+      expect(simulator.navigateToRandomMap('c1', [])).toBeNull()
+    })
+  })
+
   describe('cross-map navigation full cycle', () => {
     function createThreeMapSetup() {
       const townNodes: PathNode[] = [
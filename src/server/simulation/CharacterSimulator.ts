@@ -1,6 +1,7 @@
 import type { Position, WorldMap, PathNode, RouteSegment } from '@/types'
 import type { SimCharacter, SimulationConfig, SimCrossMapNavState } from './types'
 import type { WorldStateManager } from './WorldState'
+import { SeededRandom } from './SeededRandom'
 import { findPathAvoidingNodes } from '@/lib/pathfinding'
 import { lerpPosition, getDirection, getDistance } from '@/lib/movement'
 import { planCrossMapRoute, hasMoreSegments } from '@/lib/crossMapNavigation'
@@ -8,14 +9,17 @@ import { planCrossMapRoute, hasMoreSegments } from '@/lib/crossMapNavigation'
 export class CharacterSimulator {
   private worldState: WorldStateManager
   private config: SimulationConfig
+  // Seeded RNG shared with the engine (random movement targets follow the simulation seed)
+  private rng: SeededRandom
   private transitionStates: Map<string, TransitionSimState> = new Map()
   private onNavigationComplete: ((characterId: string) => void) | null = null
   // Track navigation state from previous tick for completion detection
   private wasNavigatingLastTick: Set<string> = new Set()
 
-  constructor(worldState: WorldStateManager, config: SimulationConfig) {
+  constructor(worldState: WorldStateManager, config: SimulationConfig, rng: SeededRandom = new SeededRandom(config.seed)) {
     this.worldState = worldState
     this.config = config
+    this.rng = rng
   }
 
   // Set callback for navigation complete (triggers next behavior decision)
@@ -263,6 +267,20 @@ export class CharacterSimulator {
     return true
   }
 
+  /**
+   * 候補のマップからシード付き乱数で1つ選び、そのスポーンノードへクロスマップ移動を開始（システム自動移動用）
+   * @returns 移動先のマップID（候補がない・移動を開始できない場合は null）
+   */
+  public navigateToRandomMap(characterId: string, mapIds: string[]): string | null {
+    const targetMapId = this.rng.pick(mapIds)
+    if (!targetMapId) return null
+
+    const spawnNodeId = this.worldState.getMap(targetMapId)?.spawnNodeId
+    if (!spawnNodeId) return null
+
+    return this.navigateToMap(characterId, targetMapId, spawnNodeId) ? targetMapId : null
+  }
+
   private startCrossMapSegment(character: SimCharacter, segment: RouteSegment): void {
     const map = this.worldState.getMap(segment.mapId)
     if (!map) return
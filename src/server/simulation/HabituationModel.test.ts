@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { HabituationModel, getHabituationTargets } from './HabituationModel'
+import type { HabituationConfig } from '@/types'
+
+const config: HabituationConfig = { windowMinutes: 240, decayPerRepeat: 0.3, minMultiplier: 0.3 }
+
+const minutes = (m: number) => m * 60 * 1000
+
+describe('HabituationModel', () => {
+  const rest = getHabituationTargets('rest', 'bench-1')
+
+  function createModel(): HabituationModel {
+    const model = new HabituationModel()
+    model.setConfig(config)
+    return model
+  }
+
+  describe('getHabituationTargets', () => {
+    it('should target the action and facility', () => {
+      expect(rest).toEqual([{ kind: 'action', id: 'rest' }, { kind: 'facility', id: 'bench-1' }])
+      expect(getHabituationTargets('rest')).toEqual([{ kind: 'action', id: 'rest' }])
+    })
+
+    it('should target only the partner for talk', () => {
+      expect(getHabituationTargets('talk', undefined, 'npc-1')).toEqual([{ kind: 'npc', id: 'npc-1' }])
+      expect(getHabituationTargets('talk')).toEqual([])
+    })
+  })
+
+  describe('getMultiplier', () => {
+    it('should decay with repetition', () => {
+      const model = createModel()
+      expect(model.getMultiplier('char-1', rest, 0)).toBe(1)
+
+      model.record('char-1', rest, 0)
+      expect(model.getMultiplier('char-1', rest, 0)).toBe(0.7)
+
+      model.record('char-1', rest, 0)
+      expect(model.getMultiplier('char-1', rest, 0)).toBe(0.4)
+    })
+
+    it('should not go below the minimum', () => {
+      const model = createModel()
+      for (let i = 0; i < 5; i++) model.record('char-1', rest, 0)
+      expect(model.getMultiplier('char-1', rest, 0)).toBe(0.3)
+    })
+
+    it('should recover over time', () => {
+      const model = createModel()
+      model.record('char-1', rest, 0)
+      expect(model.getMultiplier('char-1', rest, minutes(120))).toBe(0.85)
+      expect(model.getMultiplier('char-1', rest, minutes(240))).toBe(1)
+    })
+
+    it('should use the lowest multiplier of the action and facility', () => {
+      const model = createModel()
+      model.record('char-1', getHabituationTargets('rest', 'bench-1'), 0)
+      model.record('char-1', getHabituationTargets('eat', 'bench-1'), 0)
+
+      expect(model.getMultiplier('char-1', getHabituationTargets('rest', 'bench-2'), 0)).toBe(0.7)
+      expect(model.getMultiplier('char-1', getHabituationTargets('sleep', 'bench-1'), 0)).toBe(0.4)
+    })
+
+    it('should track characters separately', () => {
+      const model = createModel()
+      model.record('char-1', rest, 0)
+      expect(model.getMultiplier('char-2', rest, 0)).toBe(1)
+    })
+
+    it('should not weigh exposures after the current time more than a fresh one', () => {
+      const model = createModel()
+      model.record('char-1', rest, minutes(600))
+      expect(model.getMultiplier('char-1', rest, 0)).toBe(0.7)
+    })
+
+    it('should forget all exposures on clear', () => {
+      const model = createModel()
+      model.record('char-1', rest, 0)
+      model.clear()
+      expect(model.getMultiplier('char-1', rest, 0)).toBe(1)
+      expect(model.getHabituations('char-1', 0)).toEqual([])
+    })
+
+    it('should be neutral without config', () => {
+      const model = new HabituationModel()
+      model.record('char-1', rest, 0)
+      expect(model.getMultiplier('char-1', rest, 0)).toBe(1)
+    })
+  })
+
+  describe('getHabituations', () => {
+    it('should list habituated targets from lowest multiplier', () => {
+      const model = createModel()
+      model.record('char-1', rest, 0)
+      model.record('char-1', getHabituationTargets('talk', undefined, 'npc-1'), minutes(60))
+      model.record('char-1', getHabituationTargets('talk', undefined, 'npc-1'), minutes(60))
+
+      expect(model.getHabituations('char-1', minutes(60))).toEqual([
+        { kind: 'npc', id: 'npc-1', multiplier: 0.4 },
+        { kind: 'action', id: 'rest', multiplier: 0.78 },
+        { kind: 'facility', id: 'bench-1', multiplier: 0.78 },
+      ])
+    })
+
+    it('should drop targets that have fully recovered', () => {
+      const model = createModel()
+      model.record('char-1', rest, 0)
+      expect(model.getHabituations('char-1', minutes(240))).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,114 @@
+import type { HabituationConfig } from '@/types'
+import type { HabituationInfo, HabituationKind } from '@/types/behavior'
+
+interface Exposure {
+  kind: HabituationKind
+  id: string
+  time: number  // ワールド時刻（epoch ms）
+}
+
+/**
+ * 慣れの対象を取得
+ * talk は会話相手ごと、それ以外はアクションと施設ごとに慣れる。
+ */
+export function getHabituationTargets(
+  actionId: string,
+  facilityId?: string,
+  targetNpcId?: string
+): Array<{ kind: HabituationKind; id: string }> {
+  if (actionId === 'talk') {
+    return targetNpcId ? [{ kind: 'npc', id: targetNpcId }] : []
+  }
+  const targets: Array<{ kind: HabituationKind; id: string }> = [{ kind: 'action', id: actionId }]
+  if (facilityId) {
+    targets.push({ kind: 'facility', id: facilityId })
+  }
+  return targets
+}
+
+/**
+ * 慣れモデル（同じアクション・施設・会話相手の繰り返しで気分の回復効果が下がる）
+ *
+ * 直近 windowMinutes 以内の利用ごとに、経過時間に応じて薄れる重み（1 → 0）を積み上げ、
+ * 倍率 = 1 - decayPerRepeat × 重みの合計 とする（minMultiplier 以上）。
+ * 複数の対象がある場合（アクションと施設）は最も低い倍率を使う。設定がなければ常に 1。
+ */
+export class HabituationModel {
+  private config: HabituationConfig | null = null
+  private exposures: Map<string, Exposure[]> = new Map()
+
+  setConfig(config: HabituationConfig): void {
+    this.config = config
+  }
+
+  /**
+   * すべての利用記録を消去（スナップショットの復元で時計が戻る場合など）
+   */
+  clear(): void {
+    this.exposures.clear()
+  }
+
+  /**
+   * 対象の利用を記録
+   */
+  record(characterId: string, targets: Array<{ kind: HabituationKind; id: string }>, now: number): void {
+    if (!this.config || targets.length === 0) return
+    const exposures = this.prune(characterId, now)
+    exposures.push(...targets.map(t => ({ ...t, time: now })))
+    this.exposures.set(characterId, exposures)
+  }
+
+  /**
+   * 対象の気分の回復効果の倍率を取得（複数の対象は最も低い倍率）
+   */
+  getMultiplier(characterId: string, targets: Array<{ kind: HabituationKind; id: string }>, now: number): number {
+    let multiplier = 1
+    for (const target of targets) {
+      multiplier = Math.min(multiplier, this.getTargetMultiplier(characterId, target.kind, target.id, now))
+    }
+    return multiplier
+  }
+
+  /**
+   * 倍率が 1 未満の対象を倍率の低い順に取得
+   */
+  getHabituations(characterId: string, now: number): HabituationInfo[] {
+    const seen = new Set<string>()
+    const habituations: HabituationInfo[] = []
+
+    for (const exposure of this.prune(characterId, now)) {
+      const key = `${exposure.kind}:${exposure.id}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      const multiplier = this.getTargetMultiplier(characterId, exposure.kind, exposure.id, now)
+      if (multiplier < 1) {
+        habituations.push({ kind: exposure.kind, id: exposure.id, multiplier })
+      }
+    }
+
+    return habituations.sort((a, b) => a.multiplier - b.multiplier)
+  }
+
+  private getTargetMultiplier(characterId: string, kind: HabituationKind, id: string, now: number): number {
+    if (!this.config) return 1
+    const windowMs = this.config.windowMinutes * 60 * 1000
+    let weight = 0
+    for (const exposure of this.exposures.get(characterId) ?? []) {
+      if (exposure.kind !== kind || exposure.id !== id) continue
+      // Clamp to [0, 1] so exposures recorded "in the future" (clock rewound) weigh no more than a fresh one
+      weight += Math.min(1, Math.max(0, 1 - (now - exposure.time) / windowMs))
+    }
+    const multiplier = Math.max(this.config.minMultiplier, 1 - this.config.decayPerRepeat * weight)
+    return Math.round(multiplier * 100) / 100
+  }
+
+  // Drop exposures that have fully worn off
+  private prune(characterId: string, now: number): Exposure[] {
+    const exposures = this.exposures.get(characterId) ?? []
+    if (!this.config) return exposures
+    const windowMs = this.config.windowMinutes * 60 * 1000
+    const active = exposures.filter(e => now - e.time < windowMs)
+    this.exposures.set(characterId, active)
+    return active
+  }
+}
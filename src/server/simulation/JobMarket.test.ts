@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { JobMarket, buildJobPostings } from './JobMarket'
+import { createSimCharacter } from './types'
+import type { SimCharacter } from './types'
+import type { JobInfo, Obstacle, SkillsConfig, WorldMap } from '@/types'
+
+const skills: SkillsConfig = {
+  experiencePerLevel: 600,
+  maxLevel: 10,
+  wageBonusPerLevel: 0.05,
+  effectBonusPerLevel: 0.03,
+  definitions: { cooking: { label: '料理', actions: ['eat'] } },
+}
+
+const cafeJob: JobInfo = { jobId: 'cafe-staff', title: 'カフェスタッフ', hourlyWage: 1100, workHours: { start: 8, end: 20 }, openings: 1 }
+const chefJob: JobInfo = {
+  jobId: 'chef',
+  title: 'シェフ',
+  hourlyWage: 1500,
+  workHours: { start: 10, end: 22 },
+  requiredSkill: { skill: 'cooking', level: 2 },
+}
+
+function createJobObstacle(id: string, label: string | undefined, job: JobInfo): Obstacle {
+  return { id, x: 0, y: 0, width: 60, height: 60, type: 'zone', tileRow: 0, tileCol: 0, tileWidth: 1, tileHeight: 1, label, facility: { tags: ['workspace'], job } }
+}
+
+function createMap(id: string, obstacles: Obstacle[]): WorldMap {
+  return { id, name: `Map ${id}`, width: 800, height: 600, backgroundColor: 0, nodes: [], spawnNodeId: `${id}-0-0`, obstacles }
+}
+
+function createCharacter(id: string, overrides: Partial<SimCharacter> = {}): SimCharacter {
+  return {
+    ...createSimCharacter({
+      id,
+      name: id,
+      sprite: { sheetUrl: 'test.png', frameWidth: 96, frameHeight: 96, cols: 3, rows: 4, rowMapping: { down: 0, left: 1, right: 2, up: 3 } },
+      money: 0,
+      satiety: 100,
+      energy: 100,
+      hygiene: 100,
+      mood: 100,
+      bladder: 100,
+      currentMapId: 'town',
+      currentNodeId: 'town-0-0',
+      position: { x: 0, y: 0 },
+      direction: 'down',
+    }),
+    ...overrides,
+  }
+}
+
+describe('buildJobPostings', () => {
+  it('should collect jobs across maps and merge workplaces of the same job', () => {
+    const postings = buildJobPostings({
+      cafe: createMap('cafe', [createJobObstacle('cafe-counter', 'カウンター', cafeJob)]),
+      cafe2: createMap('cafe2', [createJobObstacle('cafe2-counter', undefined, cafeJob)]),
+      restaurant: createMap('restaurant', [createJobObstacle('kitchen', '厨房', chefJob)]),
+    })
+
+    expect(postings.map(p => p.jobId)).toEqual(['cafe-staff', 'chef'])
+    expect(postings[0].workplaces).toEqual([
+      { workplaceLabel: 'カウンター', mapId: 'cafe' },
+      { workplaceLabel: 'Map cafe2', mapId: 'cafe2' },
+    ])
+    expect(postings[1]).toMatchObject({ hourlyWage: 1500, requiredSkill: { skill: 'cooking', level: 2 } })
+  })
+})
+
+describe('JobMarket', () => {
+  let market: JobMarket
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    market = new JobMarket()
+    market.setSkills(skills)
+    market.setPostings(buildJobPostings({
+      cafe: createMap('cafe', [createJobObstacle('cafe-counter', 'カウンター', cafeJob)]),
+      restaurant: createMap('restaurant', [createJobObstacle('kitchen', '厨房', chefJob)]),
+    }))
+  })
+
+  it('should apply, accept and quit a job', () => {
+    const alice = createCharacter('alice')
+
+    expect(market.apply(alice, 'cafe-staff', [alice], 1)).toEqual({ success: true })
+    expect(market.getBoard(alice, [alice], 1)[0]).toMatchObject({ status: 'offered', remainingOpenings: 1 })
+
+    const accepted = market.accept(alice, 'cafe-staff', [alice], 1)
+    expect(accepted).toEqual({
+      success: true,
+      employments: [{ jobId: 'cafe-staff', workplaces: [{ workplaceLabel: 'カウンター', mapId: 'cafe' }] }],
+    })
+    const employed = { ...alice, employments: accepted.success ? accepted.employments : [] }
+    expect(market.getBoard(employed, [employed], 1)[0]).toMatchObject({ status: 'employed', remainingOpenings: 0 })
+
+    expect(market.quit(employed, 'cafe-staff')).toEqual({ success: true, employments: [] })
+  })
+
+  it('should keep existing employments when accepting another job', () => {
+    const alice = createCharacter('alice', {
+      employments: [{ jobId: 'writer', workplaces: [{ workplaceLabel: '書斎', mapId: 'home' }] }],
+      skills: { cooking: 1200 },
+    })
+    market.apply(alice, 'chef', [alice], 1)
+
+    const result = market.accept(alice, 'chef', [alice], 1)
+
+    expect(result.success && result.employments.map(e => e.jobId)).toEqual(['writer', 'chef'])
+  })
+
+  it('should reject applications for unknown, held, full or under-skilled jobs', () => {
+    const bob = createCharacter('bob', { employments: [{ jobId: 'cafe-staff', workplaces: [] }] })
+    const alice = createCharacter('alice', { skills: { cooking: 700 } })
+
+    expect(market.apply(alice, 'unknown', [alice, bob], 1)).toEqual({ success: false, reason: '求人が見つかりません' })
+    expect(market.apply(bob, 'cafe-staff', [alice, bob], 1)).toEqual({ success: false, reason: '既に雇用されています' })
+    expect(market.apply(alice, 'cafe-staff', [alice, bob], 1)).toEqual({ success: false, reason: '募集人数に達しています' })
+    expect(market.apply(alice, 'chef', [alice, bob], 1)).toEqual({ success: false, reason: 'スキルが足りません（料理 Lv2）' })
+
+    const board = market.getBoard(alice, [alice, bob], 1)
+    expect(board[0]).toMatchObject({ status: 'full', remainingOpenings: 0 })
+    expect(board[1]).toMatchObject({ status: 'open', remainingOpenings: null, requiredSkillLabel: '料理 Lv2', meetsRequirement: false })
+  })
+
+  it('should only accept offers made on the same day', () => {
+    const alice = createCharacter('alice')
+    market.apply(alice, 'cafe-staff', [alice], 1)
+
+    expect(market.accept(alice, 'cafe-staff', [alice], 2)).toEqual({ success: false, reason: '内定がありません' })
+    expect(market.getBoard(alice, [alice], 2)[0].status).toBe('open')
+  })
+
+  it('should reject accepting when the opening was filled after the offer', () => {
+    const alice = createCharacter('alice')
+    const bob = createCharacter('bob')
+    market.apply(alice, 'cafe-staff', [alice, bob], 1)
+    market.apply(bob, 'cafe-staff', [alice, bob], 1)
+    const hired = { ...bob, employments: [{ jobId: 'cafe-staff', workplaces: [] }] }
+
+    expect(market.accept(alice, 'cafe-staff', [alice, hired], 1)).toEqual({ success: false, reason: '募集人数に達しています' })
+  })
+
+  it('should not quit jobs the character does not have', () => {
+    expect(market.quit(createCharacter('alice'), 'cafe-staff')).toEqual({ success: false, reason: '雇用されていません' })
+  })
+})
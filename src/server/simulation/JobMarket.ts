@@ -0,0 +1,156 @@
+import type { Employment, JobBoardEntry, JobPosting, SkillsConfig, WorldMap } from '@/types'
+import type { SimCharacter } from './types'
+import { formatSkillRequirement, meetsSkillRequirement } from '@/lib/skillUtils'
+import { logger } from '@/lib/logger'
+
+/**
+ * 求人への応募結果
+ * reason は行動履歴に残すため日本語（LLMが次の判断に使う）
+ */
+export type JobApplicationResult = { success: true } | { success: false; reason: string }
+
+/**
+ * 入社・退職の結果（成功時は変更後の雇用）
+ */
+export type JobChangeResult =
+  | { success: true; employments: Employment[] }
+  | { success: false; reason: string }
+
+/**
+ * マップの施設の JobInfo から求人一覧を作成
+ * 同じ jobId の仕事が複数の施設にある場合は1件にまとめ、勤務地を追加する（条件は最初の施設のもの）。
+ */
+export function buildJobPostings(maps: Record<string, WorldMap>): JobPosting[] {
+  const postings = new Map<string, JobPosting>()
+  for (const map of Object.values(maps)) {
+    for (const obstacle of map.obstacles) {
+      const job = obstacle.facility?.job
+      if (!job) continue
+      const workplace = { workplaceLabel: obstacle.label ?? map.name, mapId: map.id }
+      const posting = postings.get(job.jobId)
+      if (posting) {
+        posting.workplaces.push(workplace)
+      } else {
+        postings.set(job.jobId, { ...job, workplaces: [workplace] })
+      }
+    }
+  }
+  return Array.from(postings.values())
+}
+
+/**
+ * 求人市場（求人の応募・入社・退職）
+ *
+ * 応募（apply）は募集人数と必要スキルを満たしていれば内定になり、内定は応募した日のうちに入社（accept）できる。
+ * 入社すると求人の勤務地で雇用され、複数の仕事を掛け持ちできる。退職（quit）で雇用から外れる。
+ * 募集人数（openings）は雇用中のキャラクター数で数える。内定は保存しない（サーバー再起動で消える）。
+ */
+export class JobMarket {
+  private postings: Map<string, JobPosting> = new Map()
+  private skills: SkillsConfig | null = null
+  private offers: Map<string, Map<string, number>> = new Map() // characterId -> jobId -> offered day
+
+  setPostings(postings: JobPosting[]): void {
+    this.postings = new Map(postings.map(p => [p.jobId, p]))
+    logger.info(`[JobMarket] Loaded job postings: ${postings.map(p => p.jobId).join(', ')}`)
+  }
+
+  setSkills(config: SkillsConfig): void {
+    this.skills = config
+  }
+
+  getPostings(): JobPosting[] {
+    return Array.from(this.postings.values())
+  }
+
+  /**
+   * jobId → 求人（給与・勤怠の締めで仕事の条件を引く）
+   */
+  getPostingsById(): ReadonlyMap<string, JobPosting> {
+    return this.postings
+  }
+
+  /**
+   * キャラクターから見た求人掲示板を取得
+   */
+  getBoard(character: SimCharacter, characters: SimCharacter[], day: number): JobBoardEntry[] {
+    return this.getPostings().map(posting => {
+      const remainingOpenings = this.getRemainingOpenings(posting, characters)
+      const status = this.isEmployed(character, posting.jobId)
+        ? 'employed'
+        : this.hasOffer(character.id, posting.jobId, day)
+          ? 'offered'
+          : remainingOpenings === 0 ? 'full' : 'open'
+      return {
+        ...posting,
+        status,
+        remainingOpenings,
+        requiredSkillLabel: posting.requiredSkill ? formatSkillRequirement(posting.requiredSkill, this.skills) : undefined,
+        meetsRequirement: meetsSkillRequirement(character.skills, posting.requiredSkill, this.skills),
+      }
+    })
+  }
+
+  /**
+   * 求人に応募（条件を満たせば内定）
+   */
+  apply(character: SimCharacter, jobId: string, characters: SimCharacter[], day: number): JobApplicationResult {
+    const posting = this.postings.get(jobId)
+    if (!posting) return { success: false, reason: '求人が見つかりません' }
+    if (this.isEmployed(character, jobId)) return { success: false, reason: '既に雇用されています' }
+    if (this.getRemainingOpenings(posting, characters) === 0) return { success: false, reason: '募集人数に達しています' }
+    if (!meetsSkillRequirement(character.skills, posting.requiredSkill, this.skills)) {
+      return { success: false, reason: `スキルが足りません（${formatSkillRequirement(posting.requiredSkill!, this.skills)}）` }
+    }
+
+    const offers = this.offers.get(character.id) ?? new Map<string, number>()
+    offers.set(jobId, day)
+    this.offers.set(character.id, offers)
+    return { success: true }
+  }
+
+  /**
+   * 内定した求人に入社
+   */
+  accept(character: SimCharacter, jobId: string, characters: SimCharacter[], day: number): JobChangeResult {
+    const posting = this.postings.get(jobId)
+    if (!posting || !this.hasOffer(character.id, jobId, day)) return { success: false, reason: '内定がありません' }
+    this.offers.get(character.id)!.delete(jobId)
+    if (this.isEmployed(character, jobId)) return { success: false, reason: '既に雇用されています' }
+    // 内定後に他のキャラクターが入社して埋まった場合
+    if (this.getRemainingOpenings(posting, characters) === 0) return { success: false, reason: '募集人数に達しています' }
+
+    const employment: Employment = { jobId, workplaces: posting.workplaces.map(w => ({ ...w })) }
+    return { success: true, employments: [...(character.employments ?? []), employment] }
+  }
+
+  /**
+   * 仕事を退職
+   */
+  quit(character: SimCharacter, jobId: string): JobChangeResult {
+    if (!this.isEmployed(character, jobId)) return { success: false, reason: '雇用されていません' }
+    return { success: true, employments: (character.employments ?? []).filter(e => e.jobId !== jobId) }
+  }
+
+  /**
+   * 内定を破棄（スナップショット復元時など）
+   */
+  clearOffers(): void {
+    this.offers.clear()
+  }
+
+  private isEmployed(character: SimCharacter, jobId: string): boolean {
+    return (character.employments ?? []).some(e => e.jobId === jobId)
+  }
+
+  // Offers are valid only on the day they were made
+  private hasOffer(characterId: string, jobId: string, day: number): boolean {
+    return this.offers.get(characterId)?.get(jobId) === day
+  }
+
+  private getRemainingOpenings(posting: JobPosting, characters: SimCharacter[]): number | null {
+    if (posting.openings === undefined) return null
+    const employees = characters.filter(c => this.isEmployed(c, posting.jobId)).length
+    return Math.max(0, posting.openings - employees)
+  }
+}
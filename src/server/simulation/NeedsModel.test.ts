@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { NeedsModel, DEFAULT_NEEDS_CONFIG } from './NeedsModel'
+import { createSimCharacter } from './types'
+import type { NeedsConfig } from '@/types'
+import type { SimCharacter } from './types'
+
+const config: NeedsConfig = {
+  needs: {
+    satiety: { urgencyThreshold: 50, interruptThreshold: 10, priority: 2, actions: ['eat'] },
+    bladder: { urgencyThreshold: 50, interruptThreshold: 10, curve: 'quadratic', priority: 1, actions: ['toilet'] },
+    mood: { urgencyThreshold: 40, curve: 'sqrt', priority: 3, actions: ['talk', 'rest'] },
+  },
+  characterOverrides: {
+    hungry: { satiety: { interruptThreshold: 30, actions: ['eat', 'rest'] } },
+  },
+}
+
+function createCharacter(id: string, stats: Partial<SimCharacter> = {}): SimCharacter {
+  return {
+    ...createSimCharacter({
+      id,
+      name: id,
+      sprite: { sheetUrl: 'test.png', frameWidth: 96, frameHeight: 96, cols: 3, rows: 4, rowMapping: { down: 0, left: 1, right: 2, up: 3 } },
+      money: 0,
+      satiety: 100,
+      energy: 100,
+      hygiene: 100,
+      mood: 100,
+      bladder: 100,
+      currentMapId: 'town',
+      currentNodeId: 'town-0-0',
+      position: { x: 0, y: 0 },
+      direction: 'down',
+    }),
+    ...stats,
+  }
+}
+
+describe('NeedsModel', () => {
+  const model = new NeedsModel(config)
+
+  it('should order needs by priority', () => {
+    expect(model.getNeeds('c1').map(([stat]) => stat)).toEqual(['bladder', 'satiety', 'mood'])
+  })
+
+  it('should merge per-character overrides', () => {
+    expect(model.getNeed('hungry', 'satiety')).toMatchObject({ urgencyThreshold: 50, interruptThreshold: 30, actions: ['eat', 'rest'] })
+    expect(model.getNeed('c1', 'satiety')).toMatchObject({ interruptThreshold: 10, actions: ['eat'] })
+    expect(model.getNeed('c1', 'energy')).toBeNull()
+  })
+
+  it('should compute urgency along the configured curve', () => {
+    const satiety = model.getNeed('c1', 'satiety')!
+    const bladder = model.getNeed('c1', 'bladder')!
+    const mood = model.getNeed('c1', 'mood')!
+
+    expect(model.getUrgency(satiety, 60)).toBe(0)
+    expect(model.getUrgency(satiety, 30)).toBe(50)
+    expect(model.getUrgency(satiety, 5)).toBe(100)
+    expect(model.getUrgency(bladder, 30)).toBe(25)
+    // Without interruptThreshold the curve ends at 0
+    expect(model.getUrgency(mood, 30)).toBe(50)
+  })
+
+  it('should treat equal or inverted thresholds as a step', () => {
+    const equal = { urgencyThreshold: 20, interruptThreshold: 20, priority: 1, actions: ['eat'] }
+    const inverted = { urgencyThreshold: 20, interruptThreshold: 30, priority: 1, actions: ['eat'] }
+    expect(model.getUrgency(equal, 20)).toBe(0)
+    expect(model.getUrgency(equal, 19.5)).toBe(100)
+    expect(model.getUrgency(inverted, 25)).toBe(0)
+    expect(model.getUrgency(inverted, 15)).toBe(100)
+  })
+
+  it('should list urgent needs by urgency', () => {
+    const character = createCharacter('c1', { satiety: 20, bladder: 40, mood: 90 })
+    expect(model.getUrgencies(character)).toEqual([
+      { stat: 'satiety', value: 20, urgency: 75, actions: ['eat'] },
+      { stat: 'bladder', value: 40, urgency: 6, actions: ['toilet'] },
+    ])
+  })
+
+  it('should find the highest priority interrupt crossing', () => {
+    const before = createCharacter('c1', { satiety: 12, bladder: 12 })
+    const after = createCharacter('c1', { satiety: 9, bladder: 9 })
+    expect(model.findInterrupt('c1', before, after)).toBe('bladder')
+    // Already below threshold: no new crossing
+    expect(model.findInterrupt('c1', after, createCharacter('c1', { satiety: 8, bladder: 8 }))).toBeNull()
+    // Needs without interruptThreshold never interrupt
+    expect(model.findInterrupt('c1', createCharacter('c1', { mood: 1 }), createCharacter('c1', { mood: 0 }))).toBeNull()
+  })
+
+  it('should use per-character thresholds for interrupts and critical checks', () => {
+    const before = createCharacter('hungry', { satiety: 31 })
+    const after = createCharacter('hungry', { satiety: 29 })
+    expect(model.findInterrupt('hungry', before, after)).toBe('satiety')
+    expect(model.findInterrupt('c1', before, after)).toBeNull()
+    expect(model.hasCriticalNeed(after)).toBe(true)
+    expect(model.hasCriticalNeed(createCharacter('c1', { satiety: 29 }))).toBe(false)
+  })
+
+  it('should keep the legacy 10% interrupts by default', () => {
+    const defaults = new NeedsModel(DEFAULT_NEEDS_CONFIG)
+    expect(defaults.getNeeds('c1').map(([stat, need]) => [stat, need.interruptThreshold, need.actions[0]])).toEqual([
+      ['bladder', 10, 'toilet'],
+      ['satiety', 10, 'eat'],
+      ['energy', 10, 'sleep'],
+      ['hygiene', 10, 'bathe'],
+      ['mood', undefined, 'talk'],
+    ])
+  })
+})
@@ -0,0 +1,112 @@
+import type { NeedConfig, NeedsConfig, NeedStat, UrgencyCurve } from '@/types'
+import type { NeedUrgency } from '@/types/behavior'
+import type { SimCharacter } from './types'
+
+type NeedStats = Pick<SimCharacter, NeedStat>
+
+/**
+ * デフォルトの欲求モデル
+ * 10%を下回ると割り込み（優先順位: bladder > satiety > energy > hygiene）、mood は緊急度のみ
+ */
+export const DEFAULT_NEEDS_CONFIG: NeedsConfig = {
+  needs: {
+    bladder: { urgencyThreshold: 40, interruptThreshold: 10, curve: 'quadratic', priority: 1, actions: ['toilet'] },
+    satiety: { urgencyThreshold: 50, interruptThreshold: 10, priority: 2, actions: ['eat'] },
+    energy: { urgencyThreshold: 40, interruptThreshold: 10, priority: 3, actions: ['sleep', 'rest'] },
+    hygiene: { urgencyThreshold: 40, interruptThreshold: 10, priority: 4, actions: ['bathe'] },
+    mood: { urgencyThreshold: 40, priority: 5, actions: ['talk', 'rest'] },
+  },
+}
+
+const CURVES: Record<UrgencyCurve, (x: number) => number> = {
+  linear: x => x,
+  quadratic: x => x * x,
+  sqrt: x => Math.sqrt(x),
+}
+
+/**
+ * 欲求モデル（ステータスごとのしきい値・緊急度カーブ・候補アクション）
+ *
+ * 緊急度は urgencyThreshold で 0、interruptThreshold（省略時は 0）で 100 となり、
+ * その間を curve に従って補間する。キャラクターごとの上書き設定は欲求単位でマージする。
+ */
+export class NeedsModel {
+  private config: NeedsConfig
+
+  constructor(config: NeedsConfig = DEFAULT_NEEDS_CONFIG) {
+    this.config = config
+  }
+
+  setConfig(config: NeedsConfig): void {
+    this.config = config
+  }
+
+  /**
+   * キャラクターに適用される欲求設定を優先順位順に取得
+   */
+  getNeeds(characterId: string): Array<[NeedStat, NeedConfig]> {
+    const overrides = this.config.characterOverrides?.[characterId]
+    const needs: Array<[NeedStat, NeedConfig]> = []
+
+    for (const [stat, need] of Object.entries(this.config.needs) as Array<[NeedStat, NeedConfig]>) {
+      needs.push([stat, { ...need, ...overrides?.[stat] }])
+    }
+
+    return needs.sort((a, b) => a[1].priority - b[1].priority)
+  }
+
+  getUrgency(need: NeedConfig, value: number): number {
+    const floor = need.interruptThreshold ?? 0
+    if (value >= need.urgencyThreshold) return 0
+    // No curve between the thresholds (equal or inverted): urgent right below urgencyThreshold
+    const range = need.urgencyThreshold - floor
+    if (value <= floor || range <= 0) return 100
+
+    const progress = (need.urgencyThreshold - value) / range
+    return Math.round(CURVES[need.curve ?? 'linear'](progress) * 100)
+  }
+
+  /**
+   * 緊急度 > 0 の欲求を緊急度の高い順（同値は優先順位順）に取得
+   */
+  getUrgencies(character: SimCharacter): NeedUrgency[] {
+    const urgencies: NeedUrgency[] = []
+
+    for (const [stat, need] of this.getNeeds(character.id)) {
+      const urgency = this.getUrgency(need, character[stat])
+      if (urgency > 0) {
+        urgencies.push({ stat, value: character[stat], urgency, actions: need.actions })
+      }
+    }
+
+    // Array.prototype.sort is stable, so equal urgencies keep priority order
+    return urgencies.sort((a, b) => b.urgency - a.urgency)
+  }
+
+  /**
+   * 今回の変化で割り込みしきい値を下回った欲求を取得（複数の場合は優先順位が最も高いもの）
+   */
+  findInterrupt(characterId: string, before: NeedStats, after: NeedStats): NeedStat | null {
+    for (const [stat, need] of this.getNeeds(characterId)) {
+      const threshold = need.interruptThreshold
+      if (threshold === undefined) continue
+      if (before[stat] >= threshold && after[stat] < threshold) {
+        return stat
+      }
+    }
+    return null
+  }
+
+  /**
+   * 割り込みしきい値を下回っている欲求があるか
+   */
+  hasCriticalNeed(character: SimCharacter): boolean {
+    return this.getNeeds(character.id).some(([stat, need]) =>
+      need.interruptThreshold !== undefined && character[stat] < need.interruptThreshold
+    )
+  }
+
+  getNeed(characterId: string, stat: NeedStat): NeedConfig | null {
+    return this.getNeeds(characterId).find(([s]) => s === stat)?.[1] ?? null
+  }
+}
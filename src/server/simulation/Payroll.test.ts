@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest'
+import { closePayrollDay, getNextPayday, getPayrollSummaries, isPayday, recordWork, startEmployment } from './Payroll'
+import { createSimCharacter } from './types'
+import type { SimCharacter } from './types'
+import type { JobInfo } from '@/types'
+
+const jobs = new Map<string, JobInfo>([
+  ['cafe', { jobId: 'cafe', title: 'カフェ店員', hourlyWage: 1000, workHours: { start: 9, end: 17 }, payday: 'daily', attendance: { expectedHours: 4, dockPerMissingHour: 300, fireAfterAbsences: 2 } }],
+  ['hotel', { jobId: 'hotel', title: 'ホテル', hourlyWage: 1500, workHours: { start: 9, end: 17 }, payday: 'weekly' }],
+  ['shop', { jobId: 'shop', title: '店員', hourlyWage: 1200, workHours: { start: 9, end: 17 } }],
+])
+
+function createCharacter(overrides: Partial<SimCharacter> = {}): SimCharacter {
+  return {
+    ...createSimCharacter({
+      id: 'alice',
+      name: 'alice',
+      sprite: { sheetUrl: 'test.png', frameWidth: 96, frameHeight: 96, cols: 3, rows: 4, rowMapping: { down: 0, left: 1, right: 2, up: 3 } },
+      money: 10000,
+      satiety: 100,
+      energy: 100,
+      hygiene: 100,
+      mood: 100,
+      bladder: 100,
+      currentMapId: 'home',
+      currentNodeId: 'home-0-0',
+      position: { x: 0, y: 0 },
+      direction: 'down',
+    }),
+    employments: [{ jobId: 'cafe', workplaces: [] }],
+    ...overrides,
+  }
+}
+
+const everyDay = () => true
+
+describe('isPayday / getNextPayday', () => {
+  it('should pay daily jobs every day and weekly jobs on days divisible by 7', () => {
+    expect(isPayday('daily', 3)).toBe(true)
+    expect([6, 7, 14].map(day => isPayday('weekly', day))).toEqual([false, true, true])
+    expect(isPayday('shift', 7)).toBe(false)
+    expect(getNextPayday('daily', 3)).toBe(4)
+    expect(getNextPayday('weekly', 7)).toBe(14)
+    expect(getNextPayday('shift', 3)).toBeNull()
+  })
+})
+
+describe('recordWork', () => {
+  it('should add hours and pending wages for the day', () => {
+    const first = recordWork(undefined, 'cafe', 3, 2, 2000)
+    const second = recordWork(first, 'cafe', 3, 1.5, 1500)
+
+    expect(first.cafe).toEqual({ pendingWage: 2000, day: 3, hoursWorked: 2, consecutiveAbsences: 0 })
+    expect(second.cafe).toEqual({ pendingWage: 3500, day: 3, hoursWorked: 3.5, consecutiveAbsences: 0 })
+  })
+
+  it('should not count hours from an earlier day', () => {
+    const payroll = recordWork({ cafe: { pendingWage: 2000, day: 2, hoursWorked: 4, consecutiveAbsences: 1 } }, 'cafe', 3, 1, 0)
+
+    expect(payroll.cafe).toEqual({ pendingWage: 2000, day: 3, hoursWorked: 1, consecutiveAbsences: 1 })
+  })
+})
+
+describe('closePayrollDay', () => {
+  it('should record attendance and pay daily wages on the next day', () => {
+    const alice = createCharacter({ payroll: { cafe: { pendingWage: 4000, day: 3, hoursWorked: 4, consecutiveAbsences: 0 } } })
+
+    const result = closePayrollDay(alice, jobs, 3, 4, everyDay)
+
+    expect(result.records).toEqual([{ characterId: 'alice', jobId: 'cafe', day: 3, hoursWorked: 4, expectedHours: 4, docked: 0, absent: false }])
+    expect(result.payouts).toEqual([{ jobId: 'cafe', amount: 4000 }])
+    expect(result.payroll.cafe).toEqual({ pendingWage: 0, day: 4, hoursWorked: 0, consecutiveAbsences: 0 })
+    expect(result.firedJobIds).toEqual([])
+  })
+
+  it('should dock pay for missing hours from the pending wage first, then from money', () => {
+    const short = createCharacter({ payroll: { cafe: { pendingWage: 2000, day: 3, hoursWorked: 2, consecutiveAbsences: 0 } } })
+    const underpaid = createCharacter({ money: 300, payroll: { cafe: { pendingWage: 500, day: 3, hoursWorked: 0.5, consecutiveAbsences: 0 } } })
+
+    const shortResult = closePayrollDay(short, jobs, 3, 4, everyDay)
+    expect(shortResult.payouts).toEqual([{ jobId: 'cafe', amount: 1400 }])
+    expect(shortResult.deductions).toEqual([])
+
+    // 3.5 missing hours = 1050 yen: 500 from the pending wage, the rest from money (up to what the character has)
+    const underpaidResult = closePayrollDay(underpaid, jobs, 3, 4, everyDay)
+    expect(underpaidResult.records[0].docked).toBe(800)
+    expect(underpaidResult.deductions).toEqual([{ jobId: 'cafe', amount: 300 }])
+    expect(underpaidResult.payouts).toEqual([])
+  })
+
+  it('should dock shift-paid jobs from money', () => {
+    const shiftJobs = new Map<string, JobInfo>([
+      ['shop', { jobId: 'shop', title: '店員', hourlyWage: 1200, workHours: { start: 9, end: 17 }, attendance: { expectedHours: 4, dockPerMissingHour: 500 } }],
+    ])
+    const alice = createCharacter({
+      employments: [{ jobId: 'shop', workplaces: [] }],
+      payroll: { shop: { pendingWage: 0, day: 3, hoursWorked: 3, consecutiveAbsences: 0 } },
+    })
+
+    const result = closePayrollDay(alice, shiftJobs, 3, 4, everyDay)
+
+    expect(result.records[0]).toMatchObject({ hoursWorked: 3, docked: 500, absent: false })
+    expect(result.deductions).toEqual([{ jobId: 'shop', amount: 500 }])
+  })
+
+  it('should fire after consecutive absences and pay the final wages', () => {
+    const alice = createCharacter({
+      employments: [{ jobId: 'cafe', workplaces: [] }, { jobId: 'hotel', workplaces: [] }],
+      payroll: {
+        cafe: { pendingWage: 2000, day: 2, hoursWorked: 4, consecutiveAbsences: 1 },
+        hotel: { pendingWage: 3000, day: 3, hoursWorked: 2, consecutiveAbsences: 0 },
+      },
+    })
+
+    const result = closePayrollDay(alice, jobs, 3, 4, everyDay)
+
+    expect(result.records.find(r => r.jobId === 'cafe')).toMatchObject({ hoursWorked: 0, docked: 1200, absent: true })
+    expect(result.firedJobIds).toEqual(['cafe'])
+    expect(result.payouts).toEqual([{ jobId: 'cafe', amount: 800 }])
+    expect(result.payroll).toEqual({ hotel: { pendingWage: 3000, day: 4, hoursWorked: 0, consecutiveAbsences: 0 } })
+  })
+
+  it('should not mark the hiring day absent or docked', () => {
+    const alice = createCharacter({ money: 1000, payroll: startEmployment(undefined, 'cafe', 3) })
+
+    const hired = closePayrollDay(alice, jobs, 3, 4, everyDay)
+    expect(hired.records).toEqual([])
+    expect(hired.deductions).toEqual([])
+    expect(hired.payroll.cafe).toEqual({ pendingWage: 0, day: 4, hoursWorked: 0, consecutiveAbsences: 0, startDay: 4 })
+
+    // Attendance counts from the next workday
+    const next = closePayrollDay({ ...alice, payroll: hired.payroll }, jobs, 4, 5, everyDay)
+    expect(next.records[0]).toMatchObject({ day: 4, absent: true, docked: 1000 })
+    expect(next.payroll.cafe.consecutiveAbsences).toBe(1)
+  })
+
+  it('should record hours worked on the hiring day without docking', () => {
+    const alice = createCharacter({ payroll: recordWork(startEmployment(undefined, 'cafe', 3), 'cafe', 3, 1, 1000) })
+
+    const result = closePayrollDay(alice, jobs, 3, 4, everyDay)
+
+    expect(result.records).toEqual([{ characterId: 'alice', jobId: 'cafe', day: 3, hoursWorked: 1, expectedHours: null, docked: 0, absent: false }])
+    expect(result.payouts).toEqual([{ jobId: 'cafe', amount: 1000 }])
+  })
+
+  it('should skip attendance on days off', () => {
+    const alice = createCharacter()
+
+    const result = closePayrollDay(alice, jobs, 3, 4, () => false)
+
+    expect(result.records).toEqual([])
+    expect(result.payroll.cafe.consecutiveAbsences).toBe(0)
+  })
+
+  it('should pay out pending wages of jobs the character quit', () => {
+    const alice = createCharacter({
+      employments: [],
+      payroll: { hotel: { pendingWage: 3000, day: 3, hoursWorked: 2, consecutiveAbsences: 0 } },
+    })
+
+    const result = closePayrollDay(alice, jobs, 3, 4, everyDay)
+
+    expect(result.payouts).toEqual([{ jobId: 'hotel', amount: 3000 }])
+    expect(result.payroll).toEqual({})
+  })
+})
+
+describe('getPayrollSummaries', () => {
+  it('should summarize pending wages and attendance of employed jobs', () => {
+    const alice = createCharacter({
+      employments: [{ jobId: 'hotel', workplaces: [] }, { jobId: 'shop', workplaces: [] }],
+      payroll: { hotel: { pendingWage: 3000, day: 5, hoursWorked: 2, consecutiveAbsences: 0 } },
+    })
+
+    expect(getPayrollSummaries(alice, jobs, 5)).toEqual([
+      { jobId: 'hotel', title: 'ホテル', payday: 'weekly', nextPayday: 7, pendingWage: 3000, hoursWorkedToday: 2, expectedHours: null, consecutiveAbsences: 0, fireAfterAbsences: null },
+      { jobId: 'shop', title: '店員', payday: 'shift', nextPayday: null, pendingWage: 0, hoursWorkedToday: 0, expectedHours: null, consecutiveAbsences: 0, fireAfterAbsences: null },
+    ])
+  })
+})
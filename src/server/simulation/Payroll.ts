@@ -0,0 +1,184 @@
+import type { AttendanceRecord, JobInfo, JobPayroll, PaydaySchedule, PayrollState, PayrollSummary } from '@/types'
+import type { SimCharacter } from './types'
+
+/**
+ * 給料の支払い・減給の差し引き
+ */
+export interface PayrollPayout {
+  jobId: string
+  amount: number
+}
+
+/**
+ * 日替わりの給与・勤怠の締めの結果
+ */
+export interface PayrollDayResult {
+  payroll: PayrollState
+  records: AttendanceRecord[]
+  payouts: PayrollPayout[]
+  deductions: PayrollPayout[]   // 未払い給与で足りず所持金から差し引く減給
+  firedJobIds: string[]
+}
+
+/**
+ * 給料日か（newDay になった日替わりに支払う）
+ */
+export function isPayday(payday: PaydaySchedule, newDay: number): boolean {
+  if (payday === 'daily') return true
+  if (payday === 'weekly') return newDay % 7 === 0
+  return false
+}
+
+/**
+ * 指定日より後の最初の給料日（shift は勤務終了時に支払うため null）
+ */
+export function getNextPayday(payday: PaydaySchedule, day: number): number | null {
+  if (payday === 'daily') return day + 1
+  if (payday === 'weekly') return (Math.floor(day / 7) + 1) * 7
+  return null
+}
+
+/**
+ * 勤務を記録（その日の勤務時間と未払い給与を加算、元のオブジェクトは変更しない）
+ * @param pendingEarnings 給料日まで支払わない給与（shift の仕事は 0）
+ */
+export function recordWork(
+  payroll: PayrollState | undefined,
+  jobId: string,
+  day: number,
+  hours: number,
+  pendingEarnings: number
+): PayrollState {
+  const current = getJobPayroll(payroll, jobId, day)
+  return {
+    ...payroll,
+    [jobId]: {
+      ...current,
+      pendingWage: current.pendingWage + pendingEarnings,
+      hoursWorked: Math.round((current.hoursWorked + hours) * 100) / 100,
+    },
+  }
+}
+
+/**
+ * 入社時の給与・勤怠の状態を作成（入社した日は勤務日でも欠勤・減給の対象にしない）
+ */
+export function startEmployment(payroll: PayrollState | undefined, jobId: string, day: number): PayrollState {
+  const current = getJobPayroll(payroll, jobId, day)
+  return {
+    ...payroll,
+    [jobId]: { ...current, consecutiveAbsences: 0, startDay: day + 1 },
+  }
+}
+
+/**
+ * 日替わりの給与・勤怠の締め（キャラクターは変更しない）
+ *
+ * endedDay が勤務日の仕事は勤怠を記録し、所定労働時間に足りなければ未払い給与から減給
+ * （未払い給与で足りない分は締める前の所持金から差し引く。shift の仕事は未払い給与がないため所持金から）、
+ * 連続欠勤が fireAfterAbsences 日に達すると解雇する。startDay より前の日は勤務した場合だけ記録し、欠勤・減給にしない。
+ * newDay が給料日の仕事は未払い給与を支払う。
+ * 解雇・退職した仕事の未払い給与は給料日を待たずに支払う。
+ */
+export function closePayrollDay(
+  character: SimCharacter,
+  jobs: ReadonlyMap<string, JobInfo>,
+  endedDay: number,
+  newDay: number,
+  isWorkday: (job: JobInfo) => boolean
+): PayrollDayResult {
+  const previous = character.payroll ?? {}
+  const payroll: PayrollState = {}
+  const records: AttendanceRecord[] = []
+  const payouts: PayrollPayout[] = []
+  const deductions: PayrollPayout[] = []
+  const firedJobIds: string[] = []
+  let money = character.money
+  const employedJobIds = new Set((character.employments ?? []).map(e => e.jobId))
+
+  for (const jobId of employedJobIds) {
+    const job = jobs.get(jobId)
+    if (!job) continue
+    const entry = getJobPayroll(previous, jobId, endedDay)
+    const { hoursWorked } = entry
+    let { pendingWage, consecutiveAbsences } = entry
+
+    // Attendance rules apply from the first workday after hiring
+    const policy = entry.startDay === undefined || endedDay >= entry.startDay ? job.attendance : undefined
+    if (isWorkday(job) && (policy || hoursWorked > 0)) {
+      const absent = hoursWorked === 0
+      const missingHours = policy ? Math.max(0, policy.expectedHours - hoursWorked) : 0
+      const dock = Math.floor(missingHours * (policy?.dockPerMissingHour ?? 0))
+      const fromPending = Math.min(pendingWage, dock)
+      const fromMoney = Math.min(money, dock - fromPending)
+      const docked = fromPending + fromMoney
+      pendingWage -= fromPending
+      if (fromMoney > 0) {
+        money -= fromMoney
+        deductions.push({ jobId, amount: fromMoney })
+      }
+      consecutiveAbsences = absent ? consecutiveAbsences + 1 : 0
+      records.push({
+        characterId: character.id,
+        jobId,
+        day: endedDay,
+        hoursWorked,
+        expectedHours: policy?.expectedHours ?? null,
+        docked,
+        absent,
+      })
+    }
+
+    if (policy?.fireAfterAbsences && consecutiveAbsences >= policy.fireAfterAbsences) {
+      firedJobIds.push(jobId)
+      if (pendingWage > 0) payouts.push({ jobId, amount: pendingWage })
+      continue
+    }
+    if (pendingWage > 0 && isPayday(job.payday ?? 'shift', newDay)) {
+      payouts.push({ jobId, amount: pendingWage })
+      pendingWage = 0
+    }
+    payroll[jobId] = { ...entry, pendingWage, day: newDay, hoursWorked: 0, consecutiveAbsences }
+  }
+
+  // Jobs the character quit: pay out the remaining wages
+  for (const [jobId, entry] of Object.entries(previous)) {
+    if (!employedJobIds.has(jobId) && entry.pendingWage > 0) {
+      payouts.push({ jobId, amount: entry.pendingWage })
+    }
+  }
+
+  return { payroll, records, payouts, deductions, firedJobIds }
+}
+
+/**
+ * 雇用中の仕事の給与・勤怠の状態を取得（行動決定・API用）
+ */
+export function getPayrollSummaries(character: SimCharacter, jobs: ReadonlyMap<string, JobInfo>, day: number): PayrollSummary[] {
+  const summaries: PayrollSummary[] = []
+  for (const employment of character.employments ?? []) {
+    const job = jobs.get(employment.jobId)
+    if (!job) continue
+    const entry = getJobPayroll(character.payroll, job.jobId, day)
+    const payday = job.payday ?? 'shift'
+    summaries.push({
+      jobId: job.jobId,
+      title: job.title,
+      payday,
+      nextPayday: getNextPayday(payday, day),
+      pendingWage: entry.pendingWage,
+      hoursWorkedToday: entry.hoursWorked,
+      expectedHours: job.attendance?.expectedHours ?? null,
+      consecutiveAbsences: entry.consecutiveAbsences,
+      fireAfterAbsences: job.attendance?.fireAfterAbsences ?? null,
+    })
+  }
+  return summaries
+}
+
+// Hours from an earlier day are not counted (the day was already closed)
+function getJobPayroll(payroll: PayrollState | undefined, jobId: string, day: number): JobPayroll {
+  const entry = payroll?.[jobId]
+  if (!entry) return { pendingWage: 0, day, hoursWorked: 0, consecutiveAbsences: 0 }
+  return entry.day === day ? entry : { ...entry, day, hoursWorked: 0 }
+}
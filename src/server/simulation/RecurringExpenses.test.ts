@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import { getCharacterExpenses, getExpenseStatuses, getNextDueDay, isExpenseDue, settleRecurringExpenses } from './RecurringExpenses'
+import { createSimCharacter } from './types'
+import type { SimCharacter } from './types'
+import type { ExpensesConfig, Obstacle, RecurringExpense, WorldMap } from '@/types'
+
+const config: ExpensesConfig = { overdueMoodPenalty: 10, evictionOverdueDays: 3 }
+
+function createOwnedObstacle(id: string, owner: string, expenses: RecurringExpense[]): Obstacle {
+  return { id, x: 0, y: 0, width: 60, height: 60, type: 'zone', tileRow: 0, tileCol: 0, tileWidth: 1, tileHeight: 1, facility: { tags: ['bedroom'], owner, expenses } }
+}
+
+function createMap(id: string, obstacles: Obstacle[]): WorldMap {
+  return { id, name: `Map ${id}`, width: 800, height: 600, backgroundColor: 0, nodes: [], spawnNodeId: `${id}-0-0`, obstacles }
+}
+
+const maps = {
+  home: createMap('home', [
+    createOwnedObstacle('bedroom', 'alice', [{ id: 'rent', label: '家賃', amount: 3000, intervalDays: 7 }]),
+    createOwnedObstacle('kitchen', 'alice', [{ id: 'utilities', label: '光熱費', amount: 200 }]),
+  ]),
+  other: createMap('other', [createOwnedObstacle('bob-bedroom', 'bob', [{ id: 'bob-rent', label: '家賃', amount: 1000 }])]),
+}
+
+function createCharacter(overrides: Partial<SimCharacter> = {}): SimCharacter {
+  return {
+    ...createSimCharacter({
+      id: 'alice',
+      name: 'alice',
+      sprite: { sheetUrl: 'test.png', frameWidth: 96, frameHeight: 96, cols: 3, rows: 4, rowMapping: { down: 0, left: 1, right: 2, up: 3 } },
+      money: 10000,
+      satiety: 100,
+      energy: 100,
+      hygiene: 100,
+      mood: 100,
+      bladder: 100,
+      currentMapId: 'home',
+      currentNodeId: 'home-0-0',
+      position: { x: 0, y: 0 },
+      direction: 'down',
+      recurringExpenses: [{ id: 'gym', label: 'ジム会費', amount: 500, intervalDays: 30 }],
+    }),
+    ...overrides,
+  }
+}
+
+describe('getCharacterExpenses', () => {
+  it('should list expenses of owned facilities before the character expenses', () => {
+    expect(getCharacterExpenses(createCharacter(), maps)).toEqual([
+      { id: 'rent', label: '家賃', amount: 3000, intervalDays: 7, facilityId: 'bedroom', mapId: 'home' },
+      { id: 'utilities', label: '光熱費', amount: 200, facilityId: 'kitchen', mapId: 'home' },
+      { id: 'gym', label: 'ジム会費', amount: 500, intervalDays: 30 },
+    ])
+  })
+
+  it('should skip cancelled character expenses', () => {
+    const alice = createCharacter({ expenseState: { arrears: {}, cancelledExpenseIds: ['gym'] } })
+
+    expect(getCharacterExpenses(alice, maps).map(e => e.id)).toEqual(['rent', 'utilities'])
+  })
+
+  it('should skip facilities on maps the character was evicted from', () => {
+    const alice = createCharacter({ expenseState: { arrears: {}, evictedMapIds: ['home'] } })
+
+    expect(getCharacterExpenses(alice, maps).map(e => e.id)).toEqual(['gym'])
+  })
+})
+
+describe('isExpenseDue / getNextDueDay', () => {
+  it('should be due on days divisible by the interval (every day by default)', () => {
+    const weekly = { id: 'rent', label: '家賃', amount: 3000, intervalDays: 7 }
+
+    expect([6, 7, 8, 14].map(day => isExpenseDue(weekly, day))).toEqual([false, true, false, true])
+    expect(isExpenseDue({ id: 'daily', label: '光熱費', amount: 200 }, 3)).toBe(true)
+    expect(getNextDueDay(weekly, 6)).toBe(7)
+    expect(getNextDueDay(weekly, 7)).toBe(14)
+  })
+})
+
+describe('settleRecurringExpenses', () => {
+  it('should pay due expenses from the character money', () => {
+    const result = settleRecurringExpenses(createCharacter(), maps, 7, config)
+
+    expect(result.money).toBe(6800)
+    expect(result.payments.map(p => [p.expense.id, p.amount, p.balanceAfter])).toEqual([
+      ['rent', 3000, 7000],
+      ['utilities', 200, 6800],
+    ])
+    expect(result.expenseState).toEqual({ arrears: {} })
+    expect(result.moodPenalty).toBe(0)
+  })
+
+  it('should keep unpaid expenses as arrears and lower mood', () => {
+    const result = settleRecurringExpenses(createCharacter({ money: 1000 }), maps, 7, config)
+
+    expect(result.money).toBe(800)
+    expect(result.unpaid.map(e => e.id)).toEqual(['rent'])
+    expect(result.expenseState.arrears).toEqual({ rent: { amount: 3000, sinceDay: 7 } })
+    expect(result.moodPenalty).toBe(10)
+  })
+
+  it('should pay arrears together with the next charge when money allows', () => {
+    const alice = createCharacter({ money: 5000, expenseState: { arrears: { rent: { amount: 3000, sinceDay: 7 } } } })
+
+    const result = settleRecurringExpenses(alice, maps, 8, config)
+
+    expect(result.payments.map(p => [p.expense.id, p.amount])).toEqual([['rent', 3000], ['utilities', 200]])
+    expect(result.expenseState.arrears).toEqual({})
+  })
+
+  it('should evict from the facility map after the overdue days', () => {
+    const alice = createCharacter({
+      money: 0,
+      expenseState: { arrears: { rent: { amount: 3000, sinceDay: 7 }, utilities: { amount: 600, sinceDay: 8 } } },
+    })
+
+    const onLastDay = settleRecurringExpenses(alice, maps, 9, config)
+    expect(onLastDay.evictedMapIds).toEqual([])
+
+    const result = settleRecurringExpenses(alice, maps, 10, config)
+    expect(result.evictedMapIds).toEqual(['home'])
+    expect(result.expenseState).toEqual({ arrears: {}, evictedMapIds: ['home'] })
+    expect(result.moodPenalty).toBe(0)
+  })
+
+  it('should cancel character expenses after the overdue days', () => {
+    const alice = createCharacter({
+      money: 0,
+      expenseState: { arrears: { gym: { amount: 500, sinceDay: 7 } }, evictedMapIds: ['home'] },
+    })
+
+    const onLastDay = settleRecurringExpenses(alice, maps, 9, config)
+    expect(onLastDay.cancelled).toEqual([])
+    expect(onLastDay.expenseState.arrears.gym).toEqual({ amount: 500, sinceDay: 7 })
+
+    const result = settleRecurringExpenses(alice, maps, 10, config)
+    expect(result.cancelled.map(e => e.id)).toEqual(['gym'])
+    expect(result.expenseState).toEqual({ arrears: {}, evictedMapIds: ['home'], cancelledExpenseIds: ['gym'] })
+    expect(result.moodPenalty).toBe(0)
+
+    // No longer charged after cancellation
+    const later = settleRecurringExpenses({ ...alice, expenseState: result.expenseState }, maps, 30, config)
+    expect(later.payments).toEqual([])
+    expect(later.expenseState.arrears).toEqual({})
+  })
+
+  it('should not penalize or evict without config', () => {
+    const alice = createCharacter({ money: 0, expenseState: { arrears: { rent: { amount: 3000, sinceDay: 1 } } } })
+
+    const result = settleRecurringExpenses(alice, maps, 10, null)
+
+    expect(result.evictedMapIds).toEqual([])
+    expect(result.expenseState.arrears.rent).toEqual({ amount: 3000, sinceDay: 1 })
+    expect(result.moodPenalty).toBe(0)
+  })
+})
+
+describe('getExpenseStatuses', () => {
+  it('should include the next due day and arrears', () => {
+    const alice = createCharacter({ expenseState: { arrears: { rent: { amount: 3000, sinceDay: 7 } } } })
+
+    expect(getExpenseStatuses(alice, maps, 8)[0]).toEqual({
+      id: 'rent', label: '家賃', amount: 3000, intervalDays: 7, nextDueDay: 14, overdueAmount: 3000, overdueDays: 2, mapId: 'home',
+    })
+    expect(getExpenseStatuses(alice, maps, 8)[2]).toMatchObject({ id: 'gym', intervalDays: 30, nextDueDay: 30, overdueAmount: 0, overdueDays: 0 })
+  })
+})
@@ -0,0 +1,172 @@
+import type { ExpenseArrears, ExpensesConfig, ExpenseState, RecurringExpense, RecurringExpenseStatus, WorldMap } from '@/types'
+import type { SimCharacter } from './types'
+
+/**
+ * キャラクターが支払う定期支出（施設の支出は施設のIDとマップを持つ）
+ */
+export interface CharacterExpense extends RecurringExpense {
+  facilityId?: string
+  mapId?: string
+}
+
+/**
+ * 定期支出の支払い
+ */
+export interface ExpensePayment {
+  expense: CharacterExpense
+  amount: number            // 滞納分を含む支払額
+  balanceAfter: number
+}
+
+/**
+ * 1日分の定期支出の精算結果
+ */
+export interface ExpenseSettlement {
+  money: number             // 精算後の所持金
+  expenseState: ExpenseState
+  payments: ExpensePayment[]
+  unpaid: CharacterExpense[]    // 支払えなかった支出
+  evictedMapIds: string[]       // この精算で退去したマップ
+  cancelled: CharacterExpense[] // この精算で解約されたキャラクターの支出
+  moodPenalty: number           // 滞納による気分の低下
+}
+
+/**
+ * キャラクターの定期支出を取得（所有施設の支出 → キャラクター自身の支出の順）
+ * 退去したマップの施設の支出と、解約されたキャラクターの支出は含まない。
+ */
+export function getCharacterExpenses(character: SimCharacter, maps: Record<string, WorldMap>): CharacterExpense[] {
+  const expenses: CharacterExpense[] = []
+  for (const map of Object.values(maps)) {
+    if (isEvictedFrom(character, map.id)) continue
+    for (const obstacle of map.obstacles) {
+      const facility = obstacle.facility
+      if (!facility?.expenses || facility.owner !== character.id) continue
+      for (const expense of facility.expenses) {
+        expenses.push({ ...expense, facilityId: obstacle.id, mapId: map.id })
+      }
+    }
+  }
+  const cancelledIds = character.expenseState?.cancelledExpenseIds ?? []
+  for (const expense of character.recurringExpenses ?? []) {
+    if (cancelledIds.includes(expense.id)) continue
+    expenses.push({ ...expense })
+  }
+  return expenses
+}
+
+/**
+ * 退去したマップか（退去したマップの所有施設は使えない）
+ */
+export function isEvictedFrom(character: Pick<SimCharacter, 'expenseState'>, mapId: string): boolean {
+  return character.expenseState?.evictedMapIds?.includes(mapId) ?? false
+}
+
+/**
+ * 支払日か（日数が intervalDays で割り切れる日）
+ */
+export function isExpenseDue(expense: RecurringExpense, day: number): boolean {
+  return day % (expense.intervalDays ?? 1) === 0
+}
+
+/**
+ * 指定日より後の最初の支払日
+ */
+export function getNextDueDay(expense: RecurringExpense, day: number): number {
+  const interval = expense.intervalDays ?? 1
+  return (Math.floor(day / interval) + 1) * interval
+}
+
+/**
+ * 日替わりの定期支出を精算（キャラクターは変更しない）
+ *
+ * 支払日の支出と滞納分をまとめて支払い、所持金が足りない支出は滞納になる（一部だけの支払いはしない）。
+ * config がある場合、滞納があれば気分が下がり、evictionOverdueDays 日滞納したまま次の日を迎えると
+ * 施設の支出は施設のマップから退去し、キャラクター自身の支出（会費など）は解約される（どちらも滞納分は破棄）。
+ * config がない場合は滞納が請求され続ける。
+ */
+export function settleRecurringExpenses(
+  character: SimCharacter,
+  maps: Record<string, WorldMap>,
+  day: number,
+  config: ExpensesConfig | null
+): ExpenseSettlement {
+  const previousArrears = character.expenseState?.arrears ?? {}
+  const arrears: Record<string, ExpenseArrears> = {}
+  const evictedMapIds = [...(character.expenseState?.evictedMapIds ?? [])]
+  const cancelledExpenseIds = [...(character.expenseState?.cancelledExpenseIds ?? [])]
+  const payments: ExpensePayment[] = []
+  const unpaid: CharacterExpense[] = []
+  const newlyEvicted: string[] = []
+  const cancelled: CharacterExpense[] = []
+  let money = character.money
+
+  for (const expense of getCharacterExpenses(character, maps)) {
+    const previous = previousArrears[expense.id]
+    const owed = (previous?.amount ?? 0) + (isExpenseDue(expense, day) ? expense.amount : 0)
+    if (owed <= 0) continue
+
+    if (money >= owed) {
+      money -= owed
+      payments.push({ expense, amount: owed, balanceAfter: money })
+      continue
+    }
+
+    const sinceDay = previous?.sinceDay ?? day
+    if (config && day - sinceDay >= config.evictionOverdueDays) {
+      if (!expense.mapId) {
+        cancelledExpenseIds.push(expense.id)
+        cancelled.push(expense)
+      } else if (!evictedMapIds.includes(expense.mapId)) {
+        evictedMapIds.push(expense.mapId)
+        newlyEvicted.push(expense.mapId)
+      }
+      continue
+    }
+    arrears[expense.id] = { amount: owed, sinceDay }
+    unpaid.push(expense)
+  }
+
+  // Arrears of other expenses on an evicted map end with the eviction
+  for (const expense of unpaid.filter(e => e.mapId && newlyEvicted.includes(e.mapId))) {
+    delete arrears[expense.id]
+  }
+
+  const hasArrears = Object.keys(arrears).length > 0
+  return {
+    money,
+    expenseState: {
+      arrears,
+      evictedMapIds: evictedMapIds.length > 0 ? evictedMapIds : undefined,
+      cancelledExpenseIds: cancelledExpenseIds.length > 0 ? cancelledExpenseIds : undefined,
+    },
+    payments,
+    unpaid: unpaid.filter(e => arrears[e.id]),
+    evictedMapIds: newlyEvicted,
+    cancelled,
+    moodPenalty: config && hasArrears ? config.overdueMoodPenalty : 0,
+  }
+}
+
+/**
+ * 定期支出の状態一覧を取得（行動決定・家計簿用）
+ */
+export function getExpenseStatuses(
+  character: SimCharacter,
+  maps: Record<string, WorldMap>,
+  day: number
+): RecurringExpenseStatus[] {
+  return getCharacterExpenses(character, maps).map(expense => {
+    const arrears = character.expenseState?.arrears[expense.id]
+    return {
+      id: expense.id,
+      label: expense.label,
+      amount: expense.amount,
+      intervalDays: expense.intervalDays ?? 1,
+      nextDueDay: getNextDueDay(expense, day),
+      overdueAmount: arrears?.amount ?? 0,
+      overdueDays: arrears ? day - arrears.sinceDay + 1 : 0,
+      mapId: expense.mapId,
+    }
+  })
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { SeededRandom } from './SeededRandom'
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = new SeededRandom(42)
+    const b = new SeededRandom(42)
+    const seqA = Array.from({ length: 10 }, () => a.next())
+    const seqB = Array.from({ length: 10 }, () => b.next())
+    expect(seqA).toEqual(seqB)
+  })
+
+  it('should produce different sequences for different seeds', () => {
+    const a = new SeededRandom(1)
+    const b = new SeededRandom(2)
+    expect(a.next()).not.toBe(b.next())
+  })
+
+  it('should restart the sequence on setSeed', () => {
+    const rng = new SeededRandom(7)
+    const first = [rng.next(), rng.next()]
+    rng.setSeed(7)
+    expect([rng.next(), rng.next()]).toEqual(first)
+    expect(rng.getSeed()).toBe(7)
+  })
+
+  it('should generate a seed when not specified', () => {
+    const rng = new SeededRandom()
+    expect(Number.isInteger(rng.getSeed())).toBe(true)
+    expect(rng.getSeed()).toBeGreaterThanOrEqual(0)
+  })
+
+  it('should return values in [0, 1)', () => {
+    const rng = new SeededRandom(123)
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+
+  it('should return integers in [0, max) from nextInt', () => {
+    const rng = new SeededRandom(123)
+    for (let i = 0; i < 100; i++) {
+      const value = rng.nextInt(5)
+      expect(Number.isInteger(value)).toBe(true)
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(5)
+    }
+  })
+
+  it('should pick an element or undefined for empty arrays', () => {
+    const rng = new SeededRandom(99)
+    expect(['a', 'b', 'c']).toContain(rng.pick(['a', 'b', 'c']))
+    expect(rng.pick([])).toBeUndefined()
+  })
+})
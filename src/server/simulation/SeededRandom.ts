@@ -0,0 +1,55 @@
+/**
+ * シード付き乱数生成器（mulberry32）
+ *
+ * シミュレーション内のランダム要素（オートムーブ先の選択、ミニエピソードの発生判定など）は
+ * すべてこのサービス経由で乱数を取得する。同じシードなら同じ乱数列になる。
+ * LLM応答は含まれないので、行動履歴まで同一にするには LLMトランスクリプトの再生と組み合わせる。
+ */
+export class SeededRandom {
+  private seed: number
+  private state: number
+
+  constructor(seed?: number) {
+    this.seed = SeededRandom.normalizeSeed(seed ?? SeededRandom.generateSeed())
+    this.state = this.seed
+  }
+
+  /** ランダムなシードを生成（シード未指定時） */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0
+  }
+
+  getSeed(): number {
+    return this.seed
+  }
+
+  /** シードを設定し、乱数列を先頭から再開する */
+  setSeed(seed: number): void {
+    this.seed = SeededRandom.normalizeSeed(seed)
+    this.state = this.seed
+  }
+
+  /** [0, 1) の乱数 */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  /** [0, max) の整数 */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max)
+  }
+
+  /** 配列からランダムに1要素を選択（空配列なら undefined） */
+  pick<T>(items: readonly T[]): T | undefined {
+    if (items.length === 0) return undefined
+    return items[this.nextInt(items.length)]
+  }
+
+  private static normalizeSeed(seed: number): number {
+    return Math.floor(seed) >>> 0
+  }
+}
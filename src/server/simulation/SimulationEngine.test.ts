@@ -20,8 +20,12 @@ vi.mock('../conversation/ConversationExecutor', () => ({
   },
 }))
 
-import { SimulationEngine } from './SimulationEngine'
-import type { WorldMap, Character, TimeConfig, Obstacle, NPC } from '@/types'
+import { SimulationEngine, configureEngine } from './SimulationEngine'
+import { MemoryStore } from '../persistence/MemoryStore'
+import { TICK_PHASE_ORDER } from './TickPipeline'
+import { DEFAULT_FACILITY_TAGS, getFacilityTagRegistry, resetFacilityTagRegistry, setFacilityTagRegistry } from '@/lib/facilityMapping'
+import type { WorldMap, Character, TimeConfig, Obstacle, NPC, ClimateConfig, ActivityLogEntry, WorldConfig } from '@/types'
+import shippedWorldConfig from '../../../public/data/world-config.json'
 
 // --- Test helpers ---
 
@@ -156,6 +160,7 @@ describe('SimulationEngine (integration)', () => {
     engine.stop()
     vi.useRealTimers()
     vi.restoreAllMocks()
+    resetFacilityTagRegistry()
   })
 
   describe('lifecycle', () => {
@@ -360,6 +365,27 @@ describe('SimulationEngine (integration)', () => {
       expect(updated.currentAction).not.toBeNull()
     })
 
+    it('should cancel the running action for needs that cancel actions', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1', { bladder: 5 })], 'town', undefined, undefined, testTimeConfig)
+      engine.setActionConfigs(testActionConfigs as never)
+      engine.setNeedsConfig({
+        needs: { bladder: { urgencyThreshold: 30, interruptThreshold: 10, priority: 1, actions: ['toilet'], cancelsAction: true } },
+      })
+      const now = (engine as any).clock.now()
+      ;(engine as any).worldState.updateCharacter('c1', {
+        currentAction: { actionId: 'work', startTime: now, targetEndTime: now + 600000 },
+      })
+
+      ;(engine as any).triggerStatusInterrupt('c1', 'bladder')
+
+      expect(engine.getCharacter('c1')!.currentAction?.actionId).not.toBe('work')
+      expect((engine as any).pendingDecisions.has('c1')).toBe(true)
+      expect((engine as any).getActionHistoryForCharacter('c1')).toContainEqual(
+        expect.objectContaining({ actionId: 'work', cancelReason: 'interrupt' })
+      )
+    })
+
     it('should trigger interrupt when idle and stat drops below threshold', async () => {
       const maps = { town: createTestMap('town') }
       // bladder starts at 10.5 (just above threshold of 10, will cross below with decay)
@@ -473,7 +499,11 @@ describe('SimulationEngine (integration)', () => {
     it('should save/restore with mock store', async () => {
       const mockStore = {
         hasData: vi.fn().mockResolvedValue(true),
+        loadWorldClockTime: vi.fn().mockResolvedValue(null),
+        loadLatestJournalTick: vi.fn().mockResolvedValue(null),
+        appendJournalEvents: vi.fn().mockResolvedValue(undefined),
         saveState: vi.fn().mockResolvedValue(undefined),
+        saveWorldClockTime: vi.fn().mockResolvedValue(undefined),
         loadState: vi.fn().mockResolvedValue({
           characters: {
             c1: {
@@ -532,6 +562,371 @@ describe('SimulationEngine (integration)', () => {
     })
   })
 
+  describe('configureEngine', () => {
+    it('should apply world-config sections and load caches', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const setters = [
+        vi.spyOn(e, 'setFacilityModifiers'),
+        vi.spyOn(e, 'setHabituationConfig'),
+        vi.spyOn(e, 'setSkillsConfig'),
+        vi.spyOn(e, 'setExpensesConfig'),
+        vi.spyOn(e, 'loadMoneySummaryCache'),
+        vi.spyOn(e, 'initializeLastDay'),
+      ]
+
+      await configureEngine(e, {
+        facilityModifiers: {},
+        habituation: { windowMinutes: 240, decayPerRepeat: 0.3, minMultiplier: 0.3 },
+        skills: { definitions: {}, experiencePerLevel: 60, maxLevel: 5, wageBonusPerLevel: 0, effectBonusPerLevel: 0 },
+        expenses: { overdueMoodPenalty: 10, evictionOverdueDays: 3 },
+      } as unknown as WorldConfig)
+
+      for (const setter of setters) {
+        expect(setter).toHaveBeenCalledOnce()
+      }
+    })
+
+    it('should apply every engine section of the shipped world-config.json', async () => {
+      // Sections used outside configureEngine (client rendering, initialize(), LLM client setup)
+      const handledElsewhere = new Set(['timing', 'time', 'movement', 'character', 'sprite', 'grid', 'canvas', 'theme', 'initialState', 'paths', 'error', 'llmScheduler'])
+      const setterBySection: Record<string, keyof SimulationEngine> = {
+        actions: 'setActionConfigs',
+        facilityTags: 'setFacilityTagsConfig',
+        items: 'setItemConfigs',
+        facilityModifiers: 'setFacilityModifiers',
+        habituation: 'setHabituationConfig',
+        skills: 'setSkillsConfig',
+        expenses: 'setExpensesConfig',
+        miniEpisode: 'setMiniEpisodeConfig',
+        climate: 'setClimateConfig',
+        calendar: 'setCalendarConfig',
+        needs: 'setNeedsConfig',
+      }
+      const sections = Object.keys(shippedWorldConfig)
+      expect(sections.filter(section => !handledElsewhere.has(section) && !(section in setterBySection))).toEqual([])
+
+      const e = new SimulationEngine({}, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const spies = Object.fromEntries(
+        Object.entries(setterBySection).map(([section, setter]) => [section, vi.spyOn(e, setter as never)])
+      )
+
+      await configureEngine(e, shippedWorldConfig as unknown as WorldConfig)
+
+      for (const section of sections.filter(section => section in setterBySection)) {
+        expect(spies[section], section).toHaveBeenCalledWith((shippedWorldConfig as Record<string, unknown>)[section])
+      }
+    })
+
+    it('should reset facility tags left by a previously configured engine', async () => {
+      setFacilityTagRegistry({ gym: { label: 'ジム', actions: ['exercise'], access: 'public' } })
+      const e = new SimulationEngine({}, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+
+      await configureEngine(e, {} as WorldConfig)
+
+      expect(getFacilityTagRegistry()).toEqual(DEFAULT_FACILITY_TAGS)
+    })
+  })
+
+  describe('snapshots', () => {
+    it('should restore world state, clock and caches from a snapshot', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const day = e.getState().time.day
+      await store.addActionHistory({ characterId: 'c1', day, time: '08:00', actionId: 'eat' })
+      await e.loadActionHistoryCache()
+
+      const clockTime = e.getWorldClock().now()
+      const snapshot = await e.createSnapshot('base')
+      expect(await e.listSnapshots()).toEqual([snapshot])
+
+      // Change world after snapshot
+      e.getCharacter('c1')!.money = 1
+      e.getWorldClock().setNow(clockTime + 2 * 60 * 60 * 1000)
+      await store.addActionHistory({ characterId: 'c1', day, time: '09:00', actionId: 'work' })
+      await e.loadActionHistoryCache()
+      expect((e as any).getActionHistoryForCharacter('c1')).toHaveLength(2)
+
+      expect(await e.restoreSnapshot(snapshot.id)).toBe(true)
+      expect(e.getCharacter('c1')!.money).toBe(createTestCharacter('c1').money)
+      expect(e.getWorldClock().now()).toBe(clockTime)
+      expect((e as any).getActionHistoryForCharacter('c1')).toHaveLength(1)
+    })
+
+    it('should drop behavior decisions requested before the restore', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const snapshot = await e.createSnapshot('base')
+
+      let resolveDecision!: (decision: unknown) => void
+      ;(e as any).behaviorDecider.decide.mockReturnValueOnce(new Promise(resolve => { resolveDecision = resolve }))
+      ;(e as any).makeBehaviorDecision(e.getCharacter('c1')!, e.getState().time)
+      expect((e as any).pendingDecisions.has('c1')).toBe(true)
+
+      expect(await e.restoreSnapshot(snapshot.id)).toBe(true)
+      expect((e as any).pendingDecisions.has('c1')).toBe(false)
+
+      const applySpy = vi.spyOn(e as any, 'applyBehaviorDecision')
+      resolveDecision({ type: 'action', actionId: 'rest', reason: 'stale' })
+      await vi.runAllTimersAsync()
+
+      expect(applySpy).not.toHaveBeenCalled()
+      expect(e.getCharacter('c1')!.plan).toBeUndefined()
+    })
+
+    it('should mark conversations started before the restore as stale', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      const npc = createTestNPC('npc1', { currentNodeId: 'town-0-1', position: { x: 200, y: 100 } })
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, [npc], testTimeConfig)
+      const snapshot = await e.createSnapshot('base')
+      const executeConversation = (e as any).conversationExecutor.executeConversation
+
+      ;(e as any).startConversationWithExecutor('c1', 'npc1', { goal: '挨拶', successCriteria: '挨拶できた' })
+      const context = executeConversation.mock.calls[0][3]
+      expect(context.isStale()).toBe(false)
+
+      expect(await e.restoreSnapshot(snapshot.id)).toBe(true)
+      expect(context.isStale()).toBe(true)
+
+      ;(e as any).startConversationWithExecutor('c1', 'npc1', { goal: '挨拶', successCriteria: '挨拶できた' })
+      expect(executeConversation.mock.calls[1][3].isStale()).toBe(false)
+    })
+
+    it('should drop mini episodes generated before the restore', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1', { mood: 50 })], 'town', undefined, undefined, testTimeConfig)
+      const snapshot = await e.createSnapshot('base')
+
+      let resolveEpisode!: (result: unknown) => void
+      ;(e as any).miniEpisodeGenerator = { generate: vi.fn().mockReturnValue(new Promise(resolve => { resolveEpisode = resolve })) }
+      const generating = (e as any).generateMiniEpisode('c1', 'eat', null, '10:00', e.getState().time.day)
+
+      expect(await e.restoreSnapshot(snapshot.id)).toBe(true)
+      resolveEpisode({ episode: '復元前の出来事', statChanges: { mood: 10 } })
+      await generating
+
+      expect(e.getCharacter('c1')!.mood).toBe(50)
+    })
+
+    it('should forget habituation recorded after the snapshot', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      e.setHabituationConfig({ windowMinutes: 240, decayPerRepeat: 0.3, minMultiplier: 0.3 })
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const snapshot = await e.createSnapshot('base')
+
+      e.getWorldClock().setNow(e.getWorldClock().now() + 2 * 60 * 60 * 1000)
+      ;(e as any).actionExecutor.habituation.record('c1', [{ kind: 'action', id: 'rest' }], e.getWorldClock().now())
+      expect((e as any).actionExecutor.getHabituations('c1')).toHaveLength(1)
+
+      expect(await e.restoreSnapshot(snapshot.id)).toBe(true)
+      expect((e as any).actionExecutor.getHabituations('c1')).toEqual([])
+    })
+
+    it('should return false for unknown snapshot', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')])
+      expect(await e.restoreSnapshot('unknown')).toBe(false)
+    })
+
+    it('should throw without state store', async () => {
+      await expect(engine.createSnapshot('base')).rejects.toThrow('State store is not configured')
+    })
+  })
+
+  describe('plugins', () => {
+    it('should insert plugin phases between built-in phases', async () => {
+      const e = new SimulationEngine()
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const run = vi.fn()
+      const onRegister = vi.fn()
+      e.registerPlugin({
+        name: 'traffic',
+        phases: [{ name: 'traffic-update', order: TICK_PHASE_ORDER.actions + 1, run }],
+        onRegister,
+      })
+
+      const names = e.getTickPhaseNames()
+      expect(names.indexOf('traffic-update')).toBe(names.indexOf('actions') + 1)
+      expect(onRegister).toHaveBeenCalledWith(expect.objectContaining({ worldState: expect.anything() }))
+
+      ;(e as any).tick()
+      expect(run).toHaveBeenCalledWith(expect.objectContaining({ tick: 0, worldTime: e.getState().time }))
+      expect(run.mock.calls[0][0].worldState.getCharacter('c1')).toBeDefined()
+    })
+
+    it('should emit logs through the plugin context', async () => {
+      const e = new SimulationEngine()
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')])
+      const logs: unknown[] = []
+      e.subscribeToLogs(entry => logs.push(entry))
+      e.registerPlugin({
+        name: 'announcer',
+        onRegister: ({ emitLog }) => emitLog({ type: 'action', characterId: 'c1', characterName: 'c1', time: '08:00', actionId: 'idle' }),
+      })
+      expect(logs).toHaveLength(1)
+    })
+
+    it('should call onDayChange when the world day changes', async () => {
+      const e = new SimulationEngine()
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const onDayChange = vi.fn()
+      e.registerPlugin({ name: 'calendar', onDayChange })
+      ;(e as any).lastDay = 0
+
+      ;(e as any).tick()
+
+      expect(onDayChange).toHaveBeenCalledWith(0, e.getState().time.day, expect.any(Object))
+    })
+
+    it('should call onShutdown before saving state', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')])
+      const order: string[] = []
+      vi.spyOn(store, 'saveState').mockImplementation(async () => { order.push('save') })
+      e.registerPlugin({ name: 'economy', onShutdown: async () => { order.push('plugin') } })
+
+      await e.shutdown()
+
+      expect(order).toEqual(['plugin', 'save'])
+    })
+
+    it('should reject duplicate plugins and remove phases on unregister', () => {
+      const e = new SimulationEngine()
+      const plugin = { name: 'traffic', phases: [{ name: 'traffic-update', order: 350, run: () => {} }] }
+      e.registerPlugin(plugin)
+      expect(() => e.registerPlugin(plugin)).toThrow('Plugin "traffic" is already registered')
+
+      expect(e.unregisterPlugin('traffic')).toBe(true)
+      expect(e.unregisterPlugin('traffic')).toBe(false)
+      expect(e.getTickPhaseNames()).not.toContain('traffic-update')
+    })
+
+    it('should not register a plugin whose phase name conflicts', () => {
+      const e = new SimulationEngine()
+      expect(() => e.registerPlugin({
+        name: 'bad',
+        phases: [
+          { name: 'bad-phase', order: 1, run: () => {} },
+          { name: 'actions', order: 2, run: () => {} },
+        ],
+      })).toThrow('Tick phase "actions" is already registered')
+      expect(e.getTickPhaseNames()).not.toContain('bad-phase')
+      expect(e.unregisterPlugin('bad')).toBe(false)
+    })
+  })
+
+  describe('weather', () => {
+    const fixedClimate = (season: 'summer' | 'winter', weather: 'sunny' | 'rainy', temperature: number): ClimateConfig => ({
+      seasonLengthDays: 100,
+      startSeason: season,
+      hotThreshold: 28,
+      coldThreshold: 8,
+      seasons: {
+        spring: { weatherWeights: { [weather]: 1 }, temperature: { min: temperature, max: temperature } },
+        summer: { weatherWeights: { [weather]: 1 }, temperature: { min: temperature, max: temperature } },
+        autumn: { weatherWeights: { [weather]: 1 }, temperature: { min: temperature, max: temperature } },
+        winter: { weatherWeights: { [weather]: 1 }, temperature: { min: temperature, max: temperature } },
+      },
+      effects: {
+        hot: { decayMultipliers: { bladder: 2 } },
+        rainy: { facilityModifiers: { outdoor: -40 } },
+      },
+    })
+
+    it('should scale status decay by weather', async () => {
+      const e = new SimulationEngine()
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1', { bladder: 50, satiety: 50 })], 'town', undefined, undefined, testTimeConfig)
+      e.setClimateConfig(fixedClimate('summer', 'sunny', 32))
+
+      ;(e as any).applyStatusDecay(10)
+
+      const char = e.getCharacter('c1')!
+      expect(char.bladder).toBeCloseTo(50 - 0.8 * 10 * 2)
+      expect(char.satiety).toBeCloseTo(50 - 0.5 * 10)
+    })
+
+    it('should include weather and outdoor facility modifiers in behavior context', async () => {
+      const bench: Obstacle = {
+        id: 'bench-1',
+        x: 100, y: 100, width: 100, height: 100,
+        type: 'building', label: 'ベンチ',
+        facility: { tags: ['public'], outdoor: true },
+        tileRow: 0, tileCol: 0, tileWidth: 2, tileHeight: 2,
+      }
+      const e = new SimulationEngine()
+      await e.initialize({ town: createTestMap('town', { obstacles: [bench] }) }, [createTestCharacter('c1')], 'town')
+      e.setClimateConfig(fixedClimate('winter', 'rainy', 5))
+
+      const context = (e as any).buildBehaviorContext(e.getCharacter('c1')!)
+
+      expect(context.weather).toMatchObject({ season: 'winter', weather: 'rainy', temperature: 5 })
+      expect(context.currentMapFacilities[0]).toMatchObject({ id: 'bench-1', weatherModifier: -40 })
+      expect(e.getState().weather).toEqual(context.weather)
+    })
+
+    it('should regenerate weather when the seed changes', async () => {
+      const e = new SimulationEngine({ seed: 1 })
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')])
+      const before = e.getWeather()
+      e.setRandomSeed(1)
+      expect(e.getWeather()).toEqual(before)
+      expect(e.getTickPhaseNames()).toContain('weather')
+    })
+  })
+
+  describe('calendar', () => {
+    it('should include calendar day and town events in behavior context', async () => {
+      const e = new SimulationEngine()
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town')
+      e.setCalendarConfig({
+        startWeekday: 'sat',
+        events: [{ id: 'market', name: '朝市', day: 1, mapId: 'town', startTime: '00:00', endTime: '23:59' }],
+      })
+
+      const context = (e as any).buildBehaviorContext(e.getCharacter('c1')!)
+
+      expect(context.calendar).toMatchObject({ day: 1, weekday: 'sat', isHoliday: false })
+      expect(context.townEvents).toHaveLength(1)
+      expect(context.townEvents[0]).toMatchObject({ id: 'market', status: 'active' })
+      expect(e.getTownEvents()).toEqual(context.townEvents)
+    })
+  })
+
+  describe('world journal', () => {
+    it('should rebuild state at a past tick from checkpoint and journaled changes', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      await e.recordCheckpoint('init')
+      const checkpointTick = e.getState().tick
+
+      e.getCharacter('c1')!.money = 500
+      ;(e as any).tick()
+      e.getCharacter('c1')!.money = 200
+      ;(e as any).tick()
+      await e.saveState()
+
+      const events = await store.loadJournalEvents({ types: ['stat_delta'] })
+      expect(events.map(ev => ev.tick)).toEqual([checkpointTick, checkpointTick + 1])
+
+      const atFirst = await e.rebuildStateAtTick(checkpointTick)
+      expect(atFirst?.state.characters.c1.money).toBe(500)
+      const latest = await e.rebuildStateAtTick(checkpointTick + 1)
+      expect(latest?.state.characters.c1.money).toBe(200)
+    })
+
+    it('should return null without checkpoint or store', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')])
+      expect(await e.rebuildStateAtTick(10)).toBeNull()
+      expect(await engine.rebuildStateAtTick(10)).toBeNull()
+    })
+  })
+
   describe('serverStartTime', () => {
     it('should get and set server start time', () => {
       const time = 1234567890
@@ -540,6 +935,109 @@ describe('SimulationEngine (integration)', () => {
     })
   })
 
+  describe('world clock', () => {
+    it('should apply timeScale from time config', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, { ...testTimeConfig, timeScale: 60 })
+      expect(engine.getTimeScale()).toBe(60)
+    })
+
+    it('should complete actions faster with higher timeScale', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, { ...testTimeConfig, timeScale: 60 })
+      engine.setActionConfigs(testActionConfigs as never)
+
+      // toilet: 5 world minutes = 5 real seconds at 60x
+      const now = engine.getWorldClock().now()
+      engine.getCharacter('c1')!.currentAction = {
+        actionId: 'toilet',
+        startTime: now,
+        targetEndTime: now + 300000,
+      }
+
+      engine.start()
+      vi.advanceTimersByTime(5000 + 100)
+      engine.stop()
+
+      expect(engine.getCharacter('c1')!.currentAction?.actionId).toBe('thinking')
+    })
+
+    it('should freeze world time while paused', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+
+      engine.start()
+      engine.pause()
+      const before = engine.getState().time
+      vi.advanceTimersByTime(10 * 60 * 1000)
+      const after = engine.getState().time
+      engine.stop()
+
+      expect(after).toEqual(before)
+    })
+
+    it('should save world clock time with state', async () => {
+      const mockStore = {
+        saveState: vi.fn().mockResolvedValue(undefined),
+        saveWorldClockTime: vi.fn().mockResolvedValue(undefined),
+      }
+      const e = new SimulationEngine({ tickRate: 20 }, mockStore as never)
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+
+      await e.saveState()
+
+      expect(mockStore.saveWorldClockTime).toHaveBeenCalledWith(e.getWorldClock().now())
+    })
+
+    it('should advance a manual clock without real time and complete actions', async () => {
+      const e = new SimulationEngine({ manualClock: true }, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      e.setActionConfigs(testActionConfigs as never)
+      const clock = e.getWorldClock()
+      const start = clock.now()
+      e.getCharacter('c1')!.currentAction = { actionId: 'toilet', startTime: start, targetEndTime: start + 300000 }
+
+      vi.advanceTimersByTime(10 * 60 * 1000)
+      expect(clock.now()).toBe(start)
+
+      for (let i = 0; i < 30; i++) e.advance(10_000)
+
+      expect(clock.now()).toBe(start + 300000)
+      expect(e.getCharacter('c1')!.currentAction?.actionId).toBe('thinking')
+      expect(() => e.start()).toThrow('advance()')
+    })
+
+    it('should fire scheduled decisions on the manual clock', async () => {
+      const e = new SimulationEngine({ manualClock: true }, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, { ...testTimeConfig, timeScale: 60 })
+      const decideSpy = vi.spyOn(e as any, 'makeBehaviorDecision').mockImplementation(() => {})
+
+      // 1 real second at 60x = 1 world minute
+      ;(e as any).scheduleNextDecision('c1', 1000)
+      e.advance(59_000)
+      expect(decideSpy).not.toHaveBeenCalled()
+      e.advance(1000)
+      expect(decideSpy).toHaveBeenCalledOnce()
+    })
+
+    it('should resume world clock from store on restore', async () => {
+      const savedClockTime = Date.now() - 3 * 24 * 60 * 60 * 1000
+      const mockStore = {
+        hasData: vi.fn().mockResolvedValue(true),
+        loadWorldClockTime: vi.fn().mockResolvedValue(savedClockTime),
+        loadLatestJournalTick: vi.fn().mockResolvedValue(null),
+        appendJournalEvents: vi.fn().mockResolvedValue(undefined),
+        loadState: vi.fn().mockResolvedValue({ currentMapId: 'town', characters: {} }),
+        close: vi.fn(),
+      }
+      const e = new SimulationEngine({ tickRate: 20 }, mockStore as never)
+
+      await e.restoreFromStore({ town: createTestMap('town') })
+
+      expect(e.getWorldClock().now()).toBe(savedClockTime)
+    })
+  })
+
   describe('action completion flow', () => {
     it('should complete action and start thinking for next decision', async () => {
       const maps = { town: createTestMap('town') }
@@ -789,6 +1287,172 @@ describe('SimulationEngine (integration)', () => {
       })
     })
 
+    it('should carry the order through the pending action for buy', async () => {
+      const shopObstacle: Obstacle = {
+        id: 'shop-1',
+        x: 100, y: 100, width: 300, height: 300,
+        type: 'zone', label: 'Shop',
+        facility: { tags: ['shop'], catalog: [{ id: 'onigiri', name: 'おにぎり', price: 150, itemId: 'onigiri' }] },
+        tileRow: 1, tileCol: 1, tileWidth: 3, tileHeight: 3,
+      }
+      const nodes = createTestNodes('town', 5, 5)
+      const maps = { town: createTestMap('town', { nodes, obstacles: [shopObstacle] }) }
+      await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      engine.setItemConfigs({ onigiri: { name: 'おにぎり', category: 'food', price: 150 } })
+
+      const decider = (engine as any).behaviorDecider
+      decider.decide.mockResolvedValueOnce({
+        type: 'action',
+        actionId: 'buy',
+        targetFacilityId: 'shop-1',
+        orderId: 'onigiri',
+        reason: 'snack',
+      })
+
+      const char = engine.getCharacter('c1')!
+      ;(engine as any).makeBehaviorDecision(char, { hour: 8, minute: 0, day: 1 })
+
+      await vi.waitFor(() => {
+        const updated = engine.getCharacter('c1')!
+        expect(updated.pendingAction).toMatchObject({ actionId: 'buy', facilityId: 'shop-1', orderId: 'onigiri' })
+      })
+    })
+
+    it('should show receipts in the activity log and in today\'s logs', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      vi.spyOn(engine as any, 'generateMiniEpisode').mockResolvedValue(undefined)
+      const logs: ActivityLogEntry[] = []
+      engine.subscribeToLogs(entry => logs.push(entry))
+      const receipt = { label: '日替わり定食', price: 800 }
+
+      ;(engine as any).startActionHistoryRecord({ characterId: 'c1', actionId: 'eat', facilityId: 'diner', receipt, startTimeReal: 0 })
+      ;(engine as any).completeActionHistoryRecord({ characterId: 'c1', actionId: 'eat', facilityId: 'diner', receipt })
+
+      expect(logs[0]).toMatchObject({ type: 'action', status: 'started', receipt })
+      const todayLogs = await engine.getTodayLogs()
+      expect(todayLogs).toContainEqual(expect.objectContaining({ type: 'action', actionId: 'eat', receipt }))
+    })
+
+    it('should show cancelled actions in the activity log and in today\'s logs', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const logs: ActivityLogEntry[] = []
+      engine.subscribeToLogs(entry => logs.push(entry))
+
+      ;(engine as any).startActionHistoryRecord({ characterId: 'c1', actionId: 'eat', facilityId: 'diner', startTimeReal: 0 })
+      ;(engine as any).cancelActionHistoryRecord({
+        characterId: 'c1', actionId: 'eat', facilityId: 'diner', cancelReason: 'closing', elapsedMinutes: 20, appliedEffects: { satiety: 40 },
+      })
+
+      expect(logs[1]).toMatchObject({ type: 'action', status: 'cancelled', cancelReason: 'closing', durationMinutes: 20 })
+      const todayLogs = await engine.getTodayLogs()
+      expect(todayLogs).toContainEqual(expect.objectContaining({ type: 'action', actionId: 'eat', status: 'cancelled', cancelReason: 'closing' }))
+    })
+
+    describe('cancelCharacterAction', () => {
+      it('should cancel the current action and decide again', async () => {
+        const maps = { town: createTestMap('town') }
+        await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+        const onComplete = vi.spyOn(engine as any, 'onActionComplete').mockImplementation(() => {})
+        const now = (engine as any).clock.now()
+        ;(engine as any).worldState.updateCharacter('c1', {
+          currentAction: { actionId: 'work', startTime: now, targetEndTime: now + 600000 },
+        })
+
+        expect(engine.cancelCharacterAction('c1', 'user')).toBe(true)
+
+        expect(engine.getCharacter('c1')!.currentAction).toBeNull()
+        expect(onComplete).toHaveBeenCalledWith('c1')
+      })
+
+      it('should not cancel when idle, thinking or talking', async () => {
+        const maps = { town: createTestMap('town') }
+        await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+        expect(engine.cancelCharacterAction('c1', 'user')).toBe(false)
+
+        for (const actionId of ['thinking', 'talk']) {
+          const now = (engine as any).clock.now()
+          ;(engine as any).worldState.updateCharacter('c1', {
+            currentAction: { actionId, startTime: now, targetEndTime: now },
+          })
+          expect(engine.cancelCharacterAction('c1', 'user')).toBe(false)
+          expect(engine.getCharacter('c1')!.currentAction?.actionId).toBe(actionId)
+        }
+      })
+    })
+
+    describe('facility queue', () => {
+      const toiletObstacle: Obstacle = {
+        id: 'toilet-1',
+        x: 100, y: 100, width: 300, height: 300,
+        type: 'zone', label: 'Toilet',
+        facility: { tags: ['toilet'], capacity: 1 },
+        tileRow: 1, tileCol: 1, tileWidth: 3, tileHeight: 3,
+      }
+
+      async function setupQueue(): Promise<void> {
+        const nodes = createTestNodes('town', 5, 5)
+        const maps = { town: createTestMap('town', { nodes, obstacles: [toiletObstacle] }) }
+        const inside = { currentNodeId: 'town-2-2', position: { x: 300, y: 300 } }
+        await engine.initialize(maps, [createTestCharacter('c1', inside), createTestCharacter('c2', inside)], 'town', undefined, undefined, testTimeConfig)
+        ;(engine as any).actionExecutor.startAction('c1', 'toilet')
+        ;(engine as any).worldState.updateCharacter('c2', {
+          pendingAction: { actionId: 'toilet', facilityId: 'toilet-1', facilityMapId: 'town' },
+        })
+      }
+
+      it('should queue with an emoji when arriving at a full facility', async () => {
+        await setupQueue()
+
+        ;(engine as any).checkPendingActions()
+
+        const c2 = engine.getCharacter('c2')!
+        expect(c2.currentAction).toBeNull()
+        expect(c2.pendingAction?.queuedAt).toBeDefined()
+        expect(c2.displayEmoji).toBe('⏳')
+      })
+
+      it('should start the action once the facility frees up', async () => {
+        await setupQueue()
+        ;(engine as any).checkPendingActions()
+
+        ;(engine as any).actionExecutor.cancelAction('c1', 'user')
+        ;(engine as any).checkPendingActions()
+
+        const c2 = engine.getCharacter('c2')!
+        expect(c2.currentAction?.actionId).toBe('toilet')
+        expect(c2.pendingAction).toBeNull()
+      })
+
+      it('should give up and decide again after waiting too long', async () => {
+        await setupQueue()
+        const decideSpy = vi.spyOn(engine as any, 'makeBehaviorDecision').mockImplementation(() => {})
+        const now = (engine as any).clock.now()
+        ;(engine as any).worldState.updateCharacter('c2', {
+          pendingAction: { actionId: 'toilet', facilityId: 'toilet-1', facilityMapId: 'town', queuedAt: now - 31 * 60 * 1000 },
+          plan: { goal: 'トイレ', steps: [{ type: 'action', actionId: 'rest' }] },
+          bladder: 5,
+        })
+
+        ;(engine as any).checkPendingActions()
+
+        expect(engine.getCharacter('c2')!.pendingAction).toBeNull()
+        // Decides from the current character state (no queued action or abandoned plan)
+        expect(decideSpy).toHaveBeenCalledWith(
+          expect.objectContaining({ id: 'c2', pendingAction: null, plan: null, bladder: 5, displayEmoji: undefined }),
+          expect.anything()
+        )
+      })
+
+      it('should show occupancy for facilities with capacity', async () => {
+        await setupQueue()
+
+        const facilities = (engine as any).buildCurrentMapFacilities('town')
+        expect(facilities[0]).toMatchObject({ id: 'toilet-1', capacity: 1, occupancy: 1 })
+      })
+    })
+
     it('should navigate cross-map to facility on different map', async () => {
       const townNodes = [
         { id: 'town-0-0', x: 100, y: 100, type: 'waypoint' as const, connectedTo: ['town-entrance'] },
@@ -968,6 +1632,7 @@ describe('SimulationEngine (integration)', () => {
       const mockStore = {
         hasData: vi.fn().mockResolvedValue(false),
         saveState: vi.fn().mockResolvedValue(undefined),
+        saveWorldClockTime: vi.fn().mockResolvedValue(undefined),
         saveSchedule: vi.fn().mockResolvedValue(undefined),
         addActionHistory: vi.fn().mockResolvedValue(undefined),
         close: vi.fn(),
@@ -1158,6 +1823,28 @@ describe('SimulationEngine (integration)', () => {
       expect(entries.some(e => e.actionId === 'talk' && e.target === 'npc1' && e.reason === 'NPCと話したい')).toBe(true)
     })
 
+    it('should apply talk mood with habituation when conversation completes', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1', { mood: 50 })], 'town', undefined, undefined, testTimeConfig)
+      engine.setActionConfigs({ ...testActionConfigs, talk: { fixed: true, duration: 0, effects: { mood: 20 } } } as never)
+      engine.setHabituationConfig({ windowMinutes: 240, decayPerRepeat: 0.3, minMultiplier: 0.3 })
+      vi.spyOn(engine as any, 'onActionComplete').mockImplementation(() => {})
+      const actionExecutor = (engine as any).actionExecutor
+      const callback = (engine as any).conversationExecutor.setOnConversationComplete.mock.calls[0][0]
+
+      actionExecutor.startAction('c1', 'talk', undefined, 'npc1')
+      callback('c1')
+      actionExecutor.startAction('c1', 'talk', undefined, 'npc1')
+      callback('c1')
+
+      const char = engine.getCharacter('c1')!
+      expect(char.mood).toBe(50 + 20 + 14)
+      expect(char.currentAction).toBeNull()
+      expect((engine as any).buildBehaviorContext(char).habituations).toEqual([
+        { kind: 'npc', id: 'npc1', multiplier: 0.4 },
+      ])
+    })
+
     it('should clear action history cache for specific day', () => {
       const e = new SimulationEngine({ tickRate: 20 })
       const cache = (e as any).actionHistoryCache as Map<string, unknown>
@@ -1269,6 +1956,36 @@ describe('SimulationEngine (integration)', () => {
       expect(facilities.find((f: { id: string }) => f.id === 'toilet-1')).toBeDefined()
       expect(facilities.find((f: { id: string }) => f.id === 'table-1')).toBeUndefined()
     })
+
+    it('should exclude closed facilities and include closing times', async () => {
+      const obstacles: Obstacle[] = [
+        {
+          id: 'diner-1',
+          x: 100, y: 100, width: 200, height: 200,
+          type: 'zone', label: 'Diner',
+          facility: { tags: ['restaurant'], openHours: { start: '08:00', end: '21:00' } },
+          tileRow: 0, tileCol: 0, tileWidth: 2, tileHeight: 2,
+        },
+        {
+          id: 'toilet-1',
+          x: 300, y: 100, width: 100, height: 100,
+          type: 'zone', label: 'Toilet',
+          facility: { tags: ['toilet'] },
+          tileRow: 0, tileCol: 3, tileWidth: 2, tileHeight: 2,
+        },
+      ]
+      const maps = { town: createTestMap('town', { obstacles }) }
+      await engine.initialize(maps, [createTestCharacter('c1')])
+
+      ;(engine as any).worldState.setTime({ hour: 12, minute: 0, day: 1 })
+      let facilities = (engine as any).buildCurrentMapFacilities('town')
+      expect(facilities.find((f: { id: string }) => f.id === 'diner-1')?.closingTime).toBe('21:00')
+      expect(facilities.find((f: { id: string }) => f.id === 'toilet-1')?.closingTime).toBeUndefined()
+
+      ;(engine as any).worldState.setTime({ hour: 3, minute: 0, day: 1 })
+      facilities = (engine as any).buildCurrentMapFacilities('town')
+      expect(facilities.map((f: { id: string }) => f.id)).toEqual(['toilet-1'])
+    })
   })
 
   describe('buildNearbyFacilities', () => {
@@ -1326,6 +2043,38 @@ describe('SimulationEngine (integration)', () => {
     })
   })
 
+  describe('getNearbyMapIds', () => {
+    const createMaps = () => {
+      const townNodes = [
+        { id: 'town-0-0', x: 100, y: 100, type: 'waypoint' as const, connectedTo: ['town-cafe', 'town-park'] },
+        { id: 'town-cafe', x: 200, y: 100, type: 'entrance' as const, connectedTo: ['town-0-0'], leadsTo: { mapId: 'cafe', nodeId: 'cafe-entrance' } },
+        { id: 'town-park', x: 100, y: 200, type: 'entrance' as const, connectedTo: ['town-0-0'], leadsTo: { mapId: 'park', nodeId: 'park-entrance' } },
+      ]
+      const cafeNodes = [
+        { id: 'cafe-entrance', x: 100, y: 100, type: 'entrance' as const, connectedTo: [], leadsTo: { mapId: 'town', nodeId: 'town-cafe' } },
+      ]
+      const parkNodes = [
+        { id: 'park-entrance', x: 100, y: 100, type: 'entrance' as const, connectedTo: [], leadsTo: { mapId: 'town', nodeId: 'town-park' } },
+      ]
+      return {
+        town: createTestMap('town', { nodes: townNodes }),
+        cafe: createTestMap('cafe', { nodes: cafeNodes }),
+        park: createTestMap('park', { nodes: parkNodes }),
+      }
+    }
+
+    it('should list maps other than the current one as auto-move candidates', async () => {
+      const e = new SimulationEngine({ seed: 42 })
+      await e.initialize(createMaps(), [createTestCharacter('c1')])
+      expect((e as any).getNearbyMapIds('town').sort()).toEqual(['cafe', 'park'])
+    })
+
+    it('should pick auto-move targets with the engine RNG', () => {
+      const e = new SimulationEngine({ seed: 42 })
+      expect((e as any).characterSimulator.rng).toBe((e as any).rng)
+    })
+  })
+
   describe('onNavigationComplete', () => {
     it('should trigger behavior decision when navigation completes without pending action', async () => {
       const maps = { town: createTestMap('town') }
@@ -1373,6 +2122,118 @@ describe('SimulationEngine (integration)', () => {
     })
   })
 
+  describe('action plans', () => {
+    const plan = {
+      goal: '一休みしてから出勤',
+      steps: [
+        { type: 'action' as const, actionId: 'rest' as const, reason: '一休み' },
+        { type: 'move' as const, targetMapId: 'office', reason: '出勤' },
+      ],
+    }
+
+    async function setupPlan(): Promise<void> {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      ;(engine as any).worldState.updateCharacter('c1', { plan })
+    }
+
+    it('should store the follow-up steps of a decision as a plan', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      vi.spyOn(engine as any, 'applyBehaviorDecision').mockImplementation(() => {})
+      ;(engine as any).behaviorDecider.decide.mockResolvedValueOnce({
+        type: 'action', actionId: 'eat', reason: plan.goal, plan: plan.steps,
+      })
+
+      ;(engine as any).makeBehaviorDecision(engine.getCharacter('c1')!, { hour: 8, minute: 0, day: 1 })
+
+      await vi.waitFor(() => {
+        expect(engine.getCharacter('c1')!.plan).toEqual(plan)
+      })
+    })
+
+    it('should run the next step on action completion without asking the LLM', async () => {
+      await setupPlan()
+      const apply = vi.spyOn(engine as any, 'applyBehaviorDecision').mockImplementation(() => {})
+
+      ;(engine as any).onActionComplete('c1')
+
+      expect(apply).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'c1' }),
+        expect.objectContaining({ type: 'action', actionId: 'rest', reason: '一休み' }),
+        'plan'
+      )
+      expect((engine as any).behaviorDecider.decide).not.toHaveBeenCalled()
+      expect(engine.getCharacter('c1')!.plan).toEqual({ goal: plan.goal, steps: [plan.steps[1]] })
+    })
+
+    it('should skip move steps to the current map', async () => {
+      await setupPlan()
+      ;(engine as any).worldState.updateCharacter('c1', {
+        plan: { goal: plan.goal, steps: [{ type: 'move', targetMapId: 'town' }, plan.steps[0]] },
+      })
+      const apply = vi.spyOn(engine as any, 'applyBehaviorDecision').mockImplementation(() => {})
+
+      ;(engine as any).onNavigationComplete('c1')
+
+      expect(apply).toHaveBeenCalledTimes(1)
+      expect(apply).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ actionId: 'rest' }), 'plan')
+      expect(engine.getCharacter('c1')!.plan).toBeNull()
+    })
+
+    it('should re-plan when a precondition is not met', async () => {
+      await setupPlan()
+      ;(engine as any).worldState.updateCharacter('c1', {
+        plan: { goal: plan.goal, steps: [{ ...plan.steps[0], precondition: { minMoney: 1_000_000 } }] },
+      })
+      const decide = vi.spyOn(engine as any, 'makeBehaviorDecision').mockImplementation(() => {})
+
+      ;(engine as any).onActionComplete('c1')
+
+      expect(engine.getCharacter('c1')!.plan).toBeNull()
+      expect(decide).toHaveBeenCalledWith(expect.objectContaining({ id: 'c1' }), expect.anything())
+    })
+
+    it('should re-plan when it is too late to start a step', async () => {
+      await setupPlan()
+      ;(engine as any).worldState.setTime({ hour: 10, minute: 0, day: 1 })
+      ;(engine as any).worldState.updateCharacter('c1', {
+        plan: { goal: plan.goal, steps: [{ ...plan.steps[0], precondition: { notAfter: '09:30' } }] },
+      })
+      vi.spyOn(engine as any, 'makeBehaviorDecision').mockImplementation(() => {})
+
+      expect((engine as any).startNextPlanStep('c1')).toBe(false)
+      expect(engine.getCharacter('c1')!.plan).toBeNull()
+    })
+
+    it('should abandon the plan when a step fails', async () => {
+      await setupPlan()
+
+      ;(engine as any).handleFacilityAction(engine.getCharacter('c1')!, 'eat', 'missing-facility')
+
+      expect(engine.getCharacter('c1')!.plan).toBeNull()
+    })
+
+    it('should abandon the plan on a status interrupt', async () => {
+      await setupPlan()
+      vi.spyOn(engine as any, 'makeInterruptBehaviorDecision').mockImplementation(() => {})
+
+      ;(engine as any).triggerStatusInterrupt('c1', 'bladder')
+
+      expect(engine.getCharacter('c1')!.plan).toBeNull()
+    })
+
+    it('should resume a restored plan on start', async () => {
+      await setupPlan()
+      const apply = vi.spyOn(engine as any, 'applyBehaviorDecision').mockImplementation(() => {})
+
+      engine.triggerInitialBehaviorDecisions()
+
+      expect(apply).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ actionId: 'rest' }), 'plan')
+      expect((engine as any).behaviorDecider.decide).not.toHaveBeenCalled()
+    })
+  })
+
   describe('loadScheduleCache', () => {
     it('should load schedules from store into cache', async () => {
       const mockStore = {
@@ -1519,6 +2380,9 @@ describe('SimulationEngine (integration)', () => {
     it('should restore characters from store', async () => {
       const mockStore = {
         hasData: vi.fn().mockResolvedValue(true),
+        loadWorldClockTime: vi.fn().mockResolvedValue(null),
+        loadLatestJournalTick: vi.fn().mockResolvedValue(null),
+        appendJournalEvents: vi.fn().mockResolvedValue(undefined),
         loadState: vi.fn().mockResolvedValue({
           currentMapId: 'town',
           characters: {
@@ -1549,6 +2413,9 @@ describe('SimulationEngine (integration)', () => {
     it('should return false when state is null', async () => {
       const mockStore = {
         hasData: vi.fn().mockResolvedValue(true),
+        loadWorldClockTime: vi.fn().mockResolvedValue(null),
+        loadLatestJournalTick: vi.fn().mockResolvedValue(null),
+        appendJournalEvents: vi.fn().mockResolvedValue(undefined),
         loadState: vi.fn().mockResolvedValue(null),
         close: vi.fn(),
       }
@@ -1587,6 +2454,7 @@ describe('SimulationEngine (integration)', () => {
       const mockStore = {
         hasData: vi.fn().mockResolvedValue(false),
         saveState: vi.fn().mockResolvedValue(undefined),
+        saveWorldClockTime: vi.fn().mockResolvedValue(undefined),
         close: vi.fn(),
       }
       const e = new SimulationEngine({ tickRate: 20 }, mockStore as never)
@@ -1985,9 +2853,350 @@ describe('SimulationEngine (integration)', () => {
       expect(char.hygiene).toBeLessThan(10)
       expect((engine as any).pendingDecisions.has('c1')).toBe(true)
     })
+
+    it('should use per-character interrupt thresholds from needs config', async () => {
+      const maps = { town: createTestMap('town') }
+      const chars = [
+        createTestCharacter('c1', { satiety: 31, bladder: 80 }),
+        createTestCharacter('c2', { satiety: 31, bladder: 80 }),
+      ]
+      await engine.initialize(maps, chars, 'town', undefined, undefined, testTimeConfig)
+      engine.setActionConfigs(testActionConfigs as never)
+      engine.setNeedsConfig({
+        needs: { satiety: { urgencyThreshold: 60, interruptThreshold: 10, priority: 1, actions: ['eat'] } },
+        characterOverrides: { c1: { satiety: { interruptThreshold: 30 } } },
+      })
+
+      ;(engine as any).applyStatusDecay(3) // 31 → 29.5
+
+      expect((engine as any).pendingDecisions.has('c1')).toBe(true)
+      expect((engine as any).pendingDecisions.has('c2')).toBe(false)
+    })
+
+    it('should not trigger interrupts for needs without interruptThreshold', async () => {
+      const maps = { town: createTestMap('town') }
+      const chars = [createTestCharacter('c1', { satiety: 11, bladder: 80 })]
+      await engine.initialize(maps, chars, 'town', undefined, undefined, testTimeConfig)
+      engine.setNeedsConfig({
+        needs: { satiety: { urgencyThreshold: 50, priority: 1, actions: ['eat'] } },
+      })
+
+      ;(engine as any).applyStatusDecay(3)
+
+      expect((engine as any).pendingDecisions.has('c1')).toBe(false)
+    })
+  })
+
+  describe('needs urgency', () => {
+    it('should include urgency scores in behavior context', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1', { satiety: 30, bladder: 80, energy: 80, hygiene: 80, mood: 80 })], 'town')
+
+      const context = (engine as any).buildBehaviorContext(engine.getCharacter('c1')!)
+
+      expect(context.needs).toEqual([{ stat: 'satiety', value: 30, urgency: 50, actions: ['eat'] }])
+    })
+  })
+
+  describe('skills', () => {
+    it('should include skill levels in behavior context', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1', { skills: { writing: 1250 } })], 'town')
+      engine.setSkillsConfig({
+        experiencePerLevel: 600,
+        maxLevel: 10,
+        wageBonusPerLevel: 0.05,
+        effectBonusPerLevel: 0.03,
+        definitions: { writing: { label: '文章', actions: ['read'] } },
+      })
+
+      const context = (engine as any).buildBehaviorContext(engine.getCharacter('c1')!)
+
+      expect(context.skills).toEqual([{ id: 'writing', label: '文章', level: 2, experience: 1250, nextLevelExperience: 1800 }])
+    })
+  })
+
+  describe('transaction ledger', () => {
+    it('should record transactions and include the daily money summary in behavior context', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const day = e.getState().time.day
+
+      ;(e as any).recordTransaction({ characterId: 'c1', amount: -800, balanceAfter: 200, category: 'payment', reason: 'ランチセット', facilityId: 'cafe' })
+      ;(e as any).recordTransaction({ characterId: 'c1', amount: 1200, balanceAfter: 1400, category: 'wage', reason: '給与（ライター）', jobId: 'writer' })
+
+      const context = (e as any).buildBehaviorContext(e.getCharacter('c1')!)
+      expect(context.moneySummary[0]).toEqual({ day, income: 1200, expense: 800 })
+
+      const ledger = await e.getCharacterLedger('c1', { limit: 1 })
+      expect(ledger?.transactions).toMatchObject([{ day, amount: 1200, balanceAfter: 1400, jobId: 'writer' }])
+      expect(ledger?.dailySummaries).toEqual([{ day, income: 1200, expense: 800 }])
+    })
+
+    it('should load the money summary cache from the store', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const day = e.getState().time.day
+      await store.addTransaction({ characterId: 'c1', day, time: '12:00', amount: -500, balanceAfter: 500, category: 'payment', reason: '利用料' })
+
+      await e.loadMoneySummaryCache()
+
+      const context = (e as any).buildBehaviorContext(e.getCharacter('c1')!)
+      expect(context.moneySummary[0]).toEqual({ day, income: 0, expense: 500 })
+    })
+
+    it('should return null ledger for unknown characters', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      await e.initialize({ town: createTestMap('town') }, [createTestCharacter('c1')])
+      expect(await e.getCharacterLedger('unknown')).toBeNull()
+    })
+  })
+
+  describe('job market', () => {
+    const cafeMap = () => createTestMap('cafe', {
+      obstacles: [{
+        id: 'cafe-counter', x: 0, y: 0, width: 60, height: 60, type: 'zone', tileRow: 0, tileCol: 0, tileWidth: 1, tileHeight: 1, label: 'カウンター',
+        facility: { tags: ['workspace'], job: { jobId: 'cafe-staff', title: 'カフェスタッフ', hourlyWage: 1100, workHours: { start: 8, end: 20 }, openings: 1 } },
+      }],
+    })
+
+    it('should apply for, accept and quit a job and persist employments', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      await e.initialize({ town: createTestMap('town'), cafe: cafeMap() }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      const apply = (type: string) => (e as any).applyBehaviorDecision(e.getCharacter('c1')!, { type, jobId: 'cafe-staff', reason: '稼ぎたい' }, 'normal')
+
+      expect((e as any).buildBehaviorContext(e.getCharacter('c1')!).jobBoard).toMatchObject([{ jobId: 'cafe-staff', status: 'open' }])
+
+      apply('apply_job')
+      expect((e as any).buildBehaviorContext(e.getCharacter('c1')!).jobBoard[0].status).toBe('offered')
+
+      apply('accept_job')
+      expect(e.getCharacter('c1')!.employments).toEqual([{ jobId: 'cafe-staff', workplaces: [{ workplaceLabel: 'カウンター', mapId: 'cafe' }] }])
+      await vi.waitFor(async () => {
+        expect((await store.loadCharacter('c1'))?.employments).toHaveLength(1)
+      })
+
+      apply('quit_job')
+      expect(e.getCharacter('c1')!.employments).toEqual([])
+      expect((e as any).getActionHistoryForCharacter('c1').map((h: { actionId: string }) => h.actionId))
+        .toEqual(['apply_job', 'accept_job', 'quit_job'])
+    })
+
+    it('should not mark a character hired today absent at the day change', async () => {
+      const map = createTestMap('cafe', {
+        obstacles: [{
+          id: 'cafe-counter', x: 0, y: 0, width: 60, height: 60, type: 'zone', tileRow: 0, tileCol: 0, tileWidth: 1, tileHeight: 1, label: 'カウンター',
+          facility: {
+            tags: ['workspace'],
+            job: { jobId: 'cafe-staff', title: 'カフェスタッフ', hourlyWage: 1100, workHours: { start: 8, end: 20 }, attendance: { expectedHours: 4, dockPerMissingHour: 300, fireAfterAbsences: 1 } },
+          },
+        }],
+      })
+      await engine.initialize({ town: createTestMap('town'), cafe: map }, [createTestCharacter('c1', { money: 1000 })], 'town', undefined, undefined, testTimeConfig)
+      ;(engine as any).lastDay = 1
+      const apply = (type: string) => (engine as any).applyBehaviorDecision(engine.getCharacter('c1')!, { type, jobId: 'cafe-staff', reason: '稼ぎたい' }, 'normal')
+      apply('apply_job')
+      apply('accept_job')
+
+      ;(engine as any).checkDayChange(2)
+
+      const character = engine.getCharacter('c1')!
+      expect(character.employments).toHaveLength(1)
+      expect(character.money).toBe(1000)
+      expect(character.payroll?.['cafe-staff']).toMatchObject({ consecutiveAbsences: 0 })
+    })
+
+    it('should record failed job decisions with the reason', async () => {
+      await engine.initialize({ town: createTestMap('town'), cafe: cafeMap() }, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+
+      ;(engine as any).applyBehaviorDecision(engine.getCharacter('c1')!, { type: 'accept_job', jobId: 'cafe-staff', reason: '入社' }, 'normal')
+
+      expect(engine.getCharacter('c1')!.employments).toBeUndefined()
+      expect((engine as any).getActionHistoryForCharacter('c1')).toMatchObject([
+        { actionId: 'accept_job', target: 'cafe-staff', reason: '入社（失敗: 内定がありません）' },
+      ])
+    })
+  })
+
+  describe('recurring expenses', () => {
+    const homeMap = () => createTestMap('home', {
+      obstacles: [{
+        id: 'home-bedroom', x: 0, y: 0, width: 60, height: 60, type: 'zone', tileRow: 0, tileCol: 0, tileWidth: 1, tileHeight: 1, label: '寝室',
+        facility: { tags: ['bedroom'], owner: 'c1', expenses: [{ id: 'rent', label: '家賃', amount: 3000, intervalDays: 2 }] },
+      }],
+    })
+
+    it('should charge due expenses on day change and record them in the ledger', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      const character = createTestCharacter('c1', {
+        money: 5000,
+        recurringExpenses: [{ id: 'gym', label: 'ジム会費', amount: 500 }],
+      })
+      await e.initialize({ town: createTestMap('town'), home: homeMap() }, [character], 'town', undefined, undefined, testTimeConfig)
+      ;(e as any).lastDay = 1
+
+      ;(e as any).checkDayChange(2)
+
+      expect(e.getCharacter('c1')!.money).toBe(1500)
+      await vi.waitFor(async () => {
+        expect(await store.loadTransactions('c1')).toMatchObject([
+          { amount: -500, balanceAfter: 1500, category: 'bill', reason: 'ジム会費' },
+          { amount: -3000, balanceAfter: 2000, category: 'bill', reason: '家賃', facilityId: 'home-bedroom' },
+        ])
+      })
+      expect((e as any).buildBehaviorContext(e.getCharacter('c1')!).recurringExpenses).toMatchObject([
+        { id: 'rent', nextDueDay: 2, overdueAmount: 0 },
+        { id: 'gym', nextDueDay: 2, overdueAmount: 0 },
+      ])
+      expect((await e.getCharacterLedger('c1'))!.recurringExpenses.map(r => r.id)).toEqual(['rent', 'gym'])
+    })
+
+    it('should lower mood while overdue and evict from owned facilities', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      e.setExpensesConfig({ overdueMoodPenalty: 10, evictionOverdueDays: 2 })
+      await e.initialize({ town: createTestMap('town'), home: homeMap() }, [createTestCharacter('c1', { money: 1000 })], 'home', undefined, undefined, testTimeConfig)
+      ;(e as any).lastDay = 1
+
+      ;(e as any).checkDayChange(2)
+      ;(e as any).checkDayChange(3)
+
+      expect(e.getCharacter('c1')!).toMatchObject({
+        money: 1000,
+        mood: 60,
+        expenseState: { arrears: { rent: { amount: 3000, sinceDay: 2 } } },
+      })
+
+      ;(e as any).checkDayChange(4)
+
+      expect(e.getCharacter('c1')!.expenseState).toEqual({ arrears: {}, evictedMapIds: ['home'] })
+      expect(e.getCharacter('c1')!.mood).toBe(60)
+      expect((e as any).buildBehaviorContext(e.getCharacter('c1')!).recurringExpenses).toEqual([])
+    })
+  })
+
+  describe('payroll', () => {
+    const cafeMap = () => createTestMap('cafe', {
+      obstacles: [{
+        id: 'cafe-counter', x: 0, y: 0, width: 60, height: 60, type: 'zone', tileRow: 0, tileCol: 0, tileWidth: 1, tileHeight: 1, label: 'カウンター',
+        facility: {
+          tags: ['workspace'],
+          job: {
+            jobId: 'cafe-staff', title: 'カフェスタッフ', hourlyWage: 1000, workHours: { start: 8, end: 20 },
+            payday: 'daily', attendance: { expectedHours: 4, dockPerMissingHour: 300, fireAfterAbsences: 2 },
+          },
+        },
+      }],
+    })
+    const employments = [{ jobId: 'cafe-staff', workplaces: [{ workplaceLabel: 'カウンター', mapId: 'cafe' }] }]
+
+    it('should pay accrued wages on payday and record attendance', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      const character = createTestCharacter('c1', {
+        money: 1000,
+        employments,
+        payroll: { 'cafe-staff': { pendingWage: 3000, day: 1, hoursWorked: 3, consecutiveAbsences: 0 } },
+      })
+      await e.initialize({ town: createTestMap('town'), cafe: cafeMap() }, [character], 'town', undefined, undefined, testTimeConfig)
+      ;(e as any).lastDay = 1
+
+      expect((e as any).buildBehaviorContext(e.getCharacter('c1')!).payroll).toMatchObject([
+        { jobId: 'cafe-staff', payday: 'daily', nextPayday: 2, pendingWage: 3000, hoursWorkedToday: 3, expectedHours: 4 },
+      ])
+
+      ;(e as any).checkDayChange(2)
+
+      expect(e.getCharacter('c1')!.money).toBe(1000 + 2700)
+      await vi.waitFor(async () => {
+        expect(await store.loadTransactions('c1')).toMatchObject([
+          { amount: 2700, balanceAfter: 3700, category: 'wage', reason: '給与（カフェスタッフ）', jobId: 'cafe-staff' },
+        ])
+      })
+      expect(await e.getCharacterPayroll('c1')).toMatchObject({
+        payroll: [{ jobId: 'cafe-staff', pendingWage: 0, hoursWorkedToday: 0 }],
+        attendance: [{ jobId: 'cafe-staff', day: 1, hoursWorked: 3, expectedHours: 4, docked: 300, absent: false }],
+      })
+    })
+
+    it('should fire the character after missing scheduled shifts', async () => {
+      const e = new SimulationEngine({}, new MemoryStore())
+      await e.initialize({ town: createTestMap('town'), cafe: cafeMap() }, [createTestCharacter('c1', { employments })], 'town', undefined, undefined, testTimeConfig)
+      ;(e as any).lastDay = 1
+
+      ;(e as any).checkDayChange(2)
+      expect(e.getCharacter('c1')!.payroll).toEqual({ 'cafe-staff': { pendingWage: 0, day: 2, hoursWorked: 0, consecutiveAbsences: 1 } })
+
+      ;(e as any).checkDayChange(3)
+      expect(e.getCharacter('c1')!.employments).toEqual([])
+      expect(e.getCharacter('c1')!.payroll).toEqual({})
+      expect(await e.getCharacterPayroll('unknown')).toBeNull()
+    })
+
+    it('should replay skills, plan and payroll changes to the live state', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      const character = createTestCharacter('c1', {
+        money: 1000,
+        employments,
+        payroll: { 'cafe-staff': { pendingWage: 3000, day: 1, hoursWorked: 3, consecutiveAbsences: 0 } },
+      })
+      await e.initialize({ town: createTestMap('town'), cafe: cafeMap() }, [character], 'town', undefined, undefined, testTimeConfig)
+      ;(e as any).lastDay = 1
+      await e.recordCheckpoint('init')
+
+      e.getCharacter('c1')!.skills = { cooking: 2.5 }
+      e.getCharacter('c1')!.plan = { goal: '働く', steps: [{ type: 'action', actionId: 'work', targetFacilityId: 'cafe-counter' }] }
+      ;(e as any).checkDayChange(2)
+      ;(e as any).tick()
+      await e.saveState()
+
+      const live = e.getCharacter('c1')!
+
+      const replayed = await e.rebuildStateAtTick(e.getState().tick - 1)
+      const char = replayed!.state.characters.c1
+      expect(char.skills).toEqual(live.skills)
+      expect(char.plan).toEqual(live.plan)
+      expect(char.payroll).toEqual(live.payroll)
+      expect(char.money).toBe(live.money)
+      expect(replayed!.attendance).toMatchObject([{ jobId: 'cafe-staff', day: 1, hoursWorked: 3, docked: 300 }])
+    })
+
+    it('should dock shift-paid jobs from money', async () => {
+      const store = new MemoryStore()
+      const e = new SimulationEngine({}, store)
+      const shopMap = createTestMap('shop', {
+        obstacles: [{
+          id: 'shop-counter', x: 0, y: 0, width: 60, height: 60, type: 'zone', tileRow: 0, tileCol: 0, tileWidth: 1, tileHeight: 1, label: 'レジ',
+          facility: {
+            tags: ['workspace'],
+            job: { jobId: 'clerk', title: '店員', hourlyWage: 1000, workHours: { start: 8, end: 20 }, attendance: { expectedHours: 4, dockPerMissingHour: 200 } },
+          },
+        }],
+      })
+      const character = createTestCharacter('c1', {
+        money: 1000,
+        employments: [{ jobId: 'clerk', workplaces: [{ workplaceLabel: 'レジ', mapId: 'shop' }] }],
+        payroll: { clerk: { pendingWage: 0, day: 1, hoursWorked: 3, consecutiveAbsences: 0 } },
+      })
+      await e.initialize({ town: createTestMap('town'), shop: shopMap }, [character], 'town', undefined, undefined, testTimeConfig)
+      ;(e as any).lastDay = 1
+
+      ;(e as any).checkDayChange(2)
+
+      expect(e.getCharacter('c1')!.money).toBe(800)
+      await vi.waitFor(async () => {
+        expect(await store.loadTransactions('c1')).toMatchObject([
+          { amount: -200, balanceAfter: 800, category: 'wage', reason: '減給（店員）', jobId: 'clerk' },
+        ])
+      })
+    })
   })
 
-  describe('getCurrentRealTime', () => {
+  describe('getCurrentWorldTime', () => {
     it('should handle invalid timezone gracefully', async () => {
       const invalidTimeConfig: TimeConfig = {
         ...testTimeConfig,
@@ -1996,8 +3205,8 @@ describe('SimulationEngine (integration)', () => {
       const maps = { town: createTestMap('town') }
       await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, invalidTimeConfig)
 
-      // getCurrentRealTime should fallback to default timezone
-      const time = (engine as any).getCurrentRealTime()
+      // getCurrentWorldTime should fallback to default timezone
+      const time = (engine as any).getCurrentWorldTime()
       expect(time).toHaveProperty('hour')
       expect(time).toHaveProperty('minute')
       expect(time).toHaveProperty('day')
@@ -2200,6 +3409,23 @@ describe('SimulationEngine (integration)', () => {
       const decider = (engine as any).behaviorDecider
       expect(decider.decideInterruptFacility).not.toHaveBeenCalled()
     })
+
+    it('should notify interrupt subscribers when interrupt fires', async () => {
+      const maps = { town: createTestMap('town') }
+      await engine.initialize(maps, [createTestCharacter('c1')], 'town', undefined, undefined, testTimeConfig)
+      engine.setActionConfigs(testActionConfigs as never)
+
+      const callback = vi.fn()
+      const unsubscribe = engine.subscribeToInterrupts(callback)
+      ;(engine as any).triggerStatusInterrupt('c1', 'bladder')
+
+      expect(callback).toHaveBeenCalledWith('c1', 'bladder')
+
+      // Skipped interrupts (pending decision) are not reported
+      unsubscribe()
+      ;(engine as any).triggerStatusInterrupt('c1', 'satiety')
+      expect(callback).toHaveBeenCalledTimes(1)
+    })
   })
 
   describe('checkPendingActions with NPC target', () => {
@@ -2259,6 +3485,7 @@ describe('SimulationEngine (integration)', () => {
       const mockStore = {
         hasData: vi.fn().mockResolvedValue(false),
         saveState: vi.fn().mockResolvedValue(undefined),
+        saveWorldClockTime: vi.fn().mockResolvedValue(undefined),
         close: vi.fn().mockResolvedValue(undefined),
       }
 
@@ -1,17 +1,32 @@
-import type { WorldMap, Character, WorldTime, NPC, TimeConfig, ScheduleEntry, DailySchedule, CharacterConfig, ConversationGoal, NPCDynamicState, ActivityLogEntry, ConversationSummaryEntry, MiniEpisodeConfig } from '@/types'
-import type { BehaviorContext, BehaviorDecision, NearbyFacility, NearbyMap, ScheduleUpdate, CurrentMapFacility, ActionHistoryEntry, MidTermMemory, RecentConversation } from '@/types/behavior'
+import type { WorldMap, Character, WorldTime, NPC, TimeConfig, ScheduleEntry, DailySchedule, CharacterConfig, ConversationGoal, NPCDynamicState, ActivityLogEntry, ConversationSummaryEntry, MiniEpisodeConfig, ClimateConfig, WorldWeather, FacilityInfo, CalendarConfig, CalendarDay, TownEventInfo, NeedsConfig, NeedStat, FacilityTagConfig, ItemConfig, Receipt, Obstacle, ActionCancelReason, AppliedEffects, NeedConfig, FacilityModifiersConfig, HabituationConfig, SkillsConfig, Transaction, TransactionCategory, DailyMoneySummary, Employment, ExpensesConfig, RecurringExpenseStatus, AttendanceRecord, PayrollSummary, WorldConfig } from '@/types'
+import type { BehaviorContext, BehaviorDecision, NearbyFacility, NearbyMap, ScheduleUpdate, CurrentMapFacility, ActionHistoryEntry, MidTermMemory, RecentConversation, ActionPlan, PlanStep } from '@/types/behavior'
 import type {
   SimulationConfig,
   SerializedWorldState,
   SimCharacter,
   PendingAction,
+  CheckpointReason,
+  WorldEventMeta,
+  WorldEventPayload,
 } from './types'
 import { DEFAULT_SIMULATION_CONFIG, createSimCharacter } from './types'
 import { WorldStateManager } from './WorldState'
+import { WorldClock } from './WorldClock'
+import { SeededRandom } from './SeededRandom'
+import { WorldJournal } from './WorldJournal'
+import { replayWorldEvents, type ReplayResult } from './WorldReplayer'
+import { TickPipeline, TICK_PHASE_ORDER } from './TickPipeline'
+import type { SimulationPlugin, SimulationPluginContext } from './TickPipeline'
+import { WeatherSystem } from './WeatherSystem'
+import { WorldCalendar } from './WorldCalendar'
+import { NeedsModel } from './NeedsModel'
+import { JobMarket, buildJobPostings } from './JobMarket'
+import { getExpenseStatuses, settleRecurringExpenses } from './RecurringExpenses'
+import { closePayrollDay, getPayrollSummaries, startEmployment } from './Payroll'
 import { CharacterSimulator } from './CharacterSimulator'
 import { ActionExecutor } from './actions/ActionExecutor'
 import type { ActionId } from './actions/definitions'
-import type { StateStore } from '../persistence/StateStore'
+import type { StateStore, WorldSnapshotInfo } from '../persistence/StateStore'
 import type { BehaviorDecider } from '../behavior/BehaviorDecider'
 import { LLMBehaviorDecider } from '../behavior/LLMBehaviorDecider'
 import { ConversationManager } from '../conversation/ConversationManager'
@@ -22,19 +37,40 @@ import type { MiniEpisodeGenerator } from '../episode/MiniEpisodeGenerator'
 import { StubMiniEpisodeGenerator } from '../episode/StubMiniEpisodeGenerator'
 import { findObstacleById, getFacilityTargetNode, isNodeAtFacility } from '@/lib/facilityUtils'
 import { calculateStatChange } from '@/lib/statusUtils'
-import { getActionsForTags } from '@/lib/facilityMapping'
+import { getClosingTime } from '@/lib/openHoursUtils'
+import { parseTimeString, timeToMinutes } from '@/lib/timeUtils'
+import { getActionsForTags, setFacilityTagRegistry } from '@/lib/facilityMapping'
 import { getDirection } from '@/lib/movement'
+import { logger } from '@/lib/logger'
 
 export type StateChangeCallback = (state: SerializedWorldState) => void
 export type LogEventCallback = (entry: ActivityLogEntry) => void
+export type StatusInterruptCallback = (characterId: string, statusType: string) => void
 
 const DEFAULT_TIMEZONE = 'Asia/Tokyo'
 
 // Persistence save interval (30 seconds)
 const SAVE_INTERVAL_MS = 30000
 
+// Give up waiting at a full facility after 30 world minutes
+const FACILITY_QUEUE_MAX_WAIT_MS = 30 * 60 * 1000
+const FACILITY_QUEUE_EMOJI = '⏳'
+
 export class SimulationEngine {
   private worldState: WorldStateManager
+  // Simulated world clock (time scale + pause aware; manual clocks move only on advance())
+  private clock: WorldClock
+  // Seeded RNG shared by all random elements (same seed, same random sequence)
+  private rng: SeededRandom
+  // Append-only event journal (audit trail / replay)
+  private journal: WorldJournal = new WorldJournal()
+  // Ordered tick phases (built-in + plugins)
+  private tickPipeline: TickPipeline = new TickPipeline()
+  private plugins: Map<string, SimulationPlugin> = new Map()
+  // Daily weather/season (registered as a plugin)
+  private weatherSystem: WeatherSystem = new WeatherSystem()
+  // Weekdays, holidays and town events
+  private calendar: WorldCalendar = new WorldCalendar()
   private characterSimulator: CharacterSimulator
   private actionExecutor: ActionExecutor
   private conversationManager: ConversationManager
@@ -46,12 +82,13 @@ export class SimulationEngine {
   private config: SimulationConfig
   private subscribers: Set<StateChangeCallback> = new Set()
   private logSubscribers: Set<LogEventCallback> = new Set()
+  private interruptSubscribers: Set<StatusInterruptCallback> = new Set()
   private tickInterval: ReturnType<typeof setInterval> | null = null
-  private lastTickTime: number = 0
+  private lastTickTime: number = 0 // Real time (for movement delta)
   private isRunning: boolean = false
   private initialized: boolean = false
   private timeConfig: TimeConfig | null = null
-  private lastDecayTime: number = 0
+  private lastDecayTime: number = 0 // World clock time
   private serverStartTime: number = Date.now()
   private serverStartMidnight: number = 0
   private cachedFormatter: Intl.DateTimeFormat | null = null
@@ -63,6 +100,8 @@ export class SimulationEngine {
   private scheduleCache: Map<string, ScheduleEntry[]> = new Map()
   // Action history cache: key = `${characterId}-${day}`, loaded from DB
   private actionHistoryCache: Map<string, ActionHistoryEntry[]> = new Map()
+  // Daily money summary cache: key = characterId, recent days only (loaded from transactions)
+  private moneySummaryCache: Map<string, DailyMoneySummary[]> = new Map()
   // Mid-term memories cache: key = characterId
   private midTermMemoriesCache: Map<string, MidTermMemory[]> = new Map()
   // Recent conversations cache: key = characterId, loaded from npc_summaries for current day
@@ -73,32 +112,39 @@ export class SimulationEngine {
   private miniEpisodeGenerator: MiniEpisodeGenerator = new StubMiniEpisodeGenerator()
   // Track characters with pending behavior decisions (prevents duplicate LLM calls)
   private pendingDecisions: Set<string> = new Set()
+  // Bumped on snapshot restore; decisions requested in an earlier generation are dropped
+  private decisionGeneration = 0
   // Track active action rowIds for DB persistence (characterId -> rowId)
   private activeActionRowIds: Map<string, number> = new Map()
   // Track last day for day-change detection (schedule cache refresh)
   private lastDay: number = 1
-  // Status interrupt threshold (design: 10%)
-  private static readonly INTERRUPT_THRESHOLD = 10
+  // Needs model (interrupt thresholds, urgency curves, forced actions)
+  private needsModel: NeedsModel = new NeedsModel()
+  // Job market (job board from facility JobInfo, applying/accepting/quitting)
+  private jobMarket: JobMarket = new JobMarket()
+  // Overdue handling for recurring expenses (null = charge only, no mood penalty or eviction)
+  private expensesConfig: ExpensesConfig | null = null
   // System auto-move interval (every N actions)
   private static readonly SYSTEM_AUTO_MOVE_INTERVAL = 3
-  // Status type → forced action mapping (Step 14)
-  private static readonly STATUS_INTERRUPT_ACTIONS: Record<string, string> = {
-    bladder: 'toilet',
-    satiety: 'eat',
-    energy: 'sleep',  // Could also be 'rest', but sleep is more effective
-    hygiene: 'bathe',
-  }
+  // Number of days (including today) shown in the behavior context money summary
+  private static readonly MONEY_SUMMARY_DAYS = 3
 
   constructor(config: Partial<SimulationConfig> = {}, stateStore?: StateStore) {
     this.config = { ...DEFAULT_SIMULATION_CONFIG, ...config }
+    this.clock = new WorldClock({ manual: this.config.manualClock })
+    this.rng = new SeededRandom(this.config.seed)
     this.worldState = new WorldStateManager()
-    this.characterSimulator = new CharacterSimulator(this.worldState, this.config)
-    this.actionExecutor = new ActionExecutor(this.worldState)
+    this.characterSimulator = new CharacterSimulator(this.worldState, this.config, this.rng)
+    this.actionExecutor = new ActionExecutor(this.worldState, this.clock)
+    this.actionExecutor.setCalendar(this.calendar)
     this.conversationManager = new ConversationManager(this.worldState)
-    this.conversationExecutor = new ConversationExecutor(this.conversationManager)
+    this.conversationExecutor = new ConversationExecutor(this.conversationManager, this.clock)
     this.conversationPostProcessor = new ConversationPostProcessor()
     this.behaviorDecider = new LLMBehaviorDecider()
     this.stateStore = stateStore ?? null
+    this.journal.setStore(this.stateStore)
+    this.registerBuiltinPhases()
+    this.registerPlugin(this.weatherSystem)
 
     // Set up PostProcessor callbacks and inject into executor
     this.conversationPostProcessor.setOnNPCUpdate((npcId, updates) => {
@@ -159,14 +205,14 @@ export class SimulationEngine {
           reason: action.reason,
         })
       }
-      // Clear action state and trigger next behavior decision
-      this.actionExecutor.forceCompleteAction(characterId)
+      // Apply talk effects (with habituation), clear action state and trigger next behavior decision
+      this.actionExecutor.completeTalkAction(characterId)
       this.onActionComplete(characterId)
     })
 
     // Set action completion callback for behavior decision trigger
     this.actionExecutor.setOnActionComplete((characterId, actionId) => {
-      console.log(`[SimulationEngine] Action complete callback: ${characterId} finished ${actionId}`)
+      logger.info(`[SimulationEngine] Action complete callback: ${characterId} finished ${actionId}`)
 
       // On sleep completion: clear recent conversations if day has changed
       if (actionId === 'sleep') {
@@ -175,7 +221,7 @@ export class SimulationEngine {
         if (cacheDay !== undefined && currentDay > cacheDay) {
           this.recentConversationsCache.delete(characterId)
           this.recentConversationsCacheDay.delete(characterId)
-          console.log(`[SimulationEngine] Cleared recentConversations for ${characterId} (slept across day boundary: ${cacheDay} -> ${currentDay})`)
+          logger.info(`[SimulationEngine] Cleared recentConversations for ${characterId} (slept across day boundary: ${cacheDay} -> ${currentDay})`)
         }
       }
 
@@ -185,7 +231,7 @@ export class SimulationEngine {
 
     // Set navigation completion callback for behavior decision trigger
     this.characterSimulator.setOnNavigationComplete((characterId) => {
-      console.log(`[SimulationEngine] Navigation complete callback: ${characterId}`)
+      logger.info(`[SimulationEngine] Navigation complete callback: ${characterId}`)
       this.onNavigationComplete(characterId)
     })
 
@@ -198,6 +244,16 @@ export class SimulationEngine {
     this.actionExecutor.setOnActionStart((entry) => {
       this.startActionHistoryRecord(entry)
     })
+
+    // Set action cancellation callback (records elapsed time and applied effects)
+    this.actionExecutor.setOnActionCancel((entry) => {
+      this.cancelActionHistoryRecord(entry)
+    })
+
+    // Set money transaction callback (ledger)
+    this.actionExecutor.setOnTransaction((entry) => {
+      this.recordTransaction(entry)
+    })
   }
 
   // Initialize with world data
@@ -211,7 +267,8 @@ export class SimulationEngine {
     defaultSchedules?: Map<string, ScheduleEntry[]>
   ): Promise<void> {
     this.worldState.initialize(maps, initialMapId)
-    this.serverStartTime = Date.now()
+    this.jobMarket.setPostings(buildJobPostings(maps))
+    this.serverStartTime = this.clock.now()
 
     // Setup NPCs and time configuration
     this.setupNPCsAndTimeConfig(npcBlockedNodes, npcs, timeConfig)
@@ -228,7 +285,7 @@ export class SimulationEngine {
     }
 
     this.initialized = true
-    console.log(`[SimulationEngine] Initialized with ${characters.length} characters and ${Object.keys(maps).length} maps`)
+    logger.info(`[SimulationEngine] Initialized with ${characters.length} characters and ${Object.keys(maps).length} maps`)
   }
 
   // Check if engine has been initialized
@@ -238,17 +295,20 @@ export class SimulationEngine {
 
   // Start the simulation loop
   start(): void {
+    if (this.clock.isManual()) {
+      throw new Error('A manual clock is driven by advance(), not start()')
+    }
     if (this.isRunning) {
-      console.log('[SimulationEngine] Already running')
+      logger.info('[SimulationEngine] Already running')
       return
     }
 
     this.isRunning = true
     this.lastTickTime = Date.now()
-    this.lastDecayTime = Date.now() // Reset to avoid decay spike after stop
+    this.lastDecayTime = this.clock.now() // Reset to avoid decay spike after stop
     const tickMs = 1000 / this.config.tickRate
 
-    console.log(`[SimulationEngine] Starting at ${this.config.tickRate} ticks/second`)
+    logger.info(`[SimulationEngine] Starting at ${this.config.tickRate} ticks/second`)
 
     this.tickInterval = setInterval(() => {
       this.tick()
@@ -266,7 +326,7 @@ export class SimulationEngine {
       this.tickInterval = null
     }
 
-    console.log('[SimulationEngine] Stopped')
+    logger.info('[SimulationEngine] Stopped')
   }
 
   // Save current state to persistent storage
@@ -275,20 +335,74 @@ export class SimulationEngine {
 
     const state = this.worldState.getSerializedState()
     await this.stateStore.saveState(state)
-    console.log('[SimulationEngine] State saved to persistent storage')
+    await this.stateStore.saveWorldClockTime(this.clock.now())
+    await this.journal.flush()
+    logger.info('[SimulationEngine] State saved to persistent storage')
   }
 
   // Shutdown the engine and save state
   async shutdown(): Promise<void> {
-    console.log('[SimulationEngine] Shutting down...')
+    logger.info('[SimulationEngine] Shutting down...')
     this.stop()
 
+    for (const plugin of this.plugins.values()) {
+      if (!plugin.onShutdown) continue
+      try {
+        await plugin.onShutdown(this.getPluginContext())
+      } catch (err) {
+        logger.error(`[SimulationEngine] Error in plugin "${plugin.name}" onShutdown:`, err)
+      }
+    }
+
     if (this.stateStore) {
       await this.saveState()
       await this.stateStore.close()
     }
 
-    console.log('[SimulationEngine] Shutdown complete')
+    logger.info('[SimulationEngine] Shutdown complete')
+  }
+
+  // Register a plugin and insert its phases into the tick pipeline
+  registerPlugin(plugin: SimulationPlugin): void {
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already registered`)
+    }
+    const added: string[] = []
+    try {
+      for (const phase of plugin.phases ?? []) {
+        this.tickPipeline.addPhase(phase, plugin.name)
+        added.push(phase.name)
+      }
+    } catch (err) {
+      this.tickPipeline.removePhasesByOwner(plugin.name)
+      throw err
+    }
+    this.plugins.set(plugin.name, plugin)
+    plugin.onRegister?.(this.getPluginContext())
+    logger.info(`[SimulationEngine] Registered plugin "${plugin.name}" (phases: ${added.join(', ') || 'none'})`)
+  }
+
+  // Remove a plugin and its phases
+  unregisterPlugin(name: string): boolean {
+    if (!this.plugins.has(name)) return false
+    this.tickPipeline.removePhasesByOwner(name)
+    this.plugins.delete(name)
+    return true
+  }
+
+  // Tick phase names in execution order (for debugging)
+  getTickPhaseNames(): string[] {
+    return this.tickPipeline.getPhaseNames()
+  }
+
+  private getPluginContext(): SimulationPluginContext {
+    return {
+      worldState: this.worldState,
+      clock: this.clock,
+      rng: this.rng,
+      stateStore: this.stateStore,
+      emitLog: (entry) => this.emitLogEntry(entry),
+    }
   }
 
   // Restore characters from persistent storage
@@ -297,31 +411,45 @@ export class SimulationEngine {
 
     const hasData = await this.stateStore.hasData()
     if (!hasData) {
-      console.log('[SimulationEngine] No persisted data found')
+      logger.info('[SimulationEngine] No persisted data found')
       return false
     }
 
     const state = await this.stateStore.loadState()
     if (!state) {
-      console.log('[SimulationEngine] Failed to load persisted state')
+      logger.info('[SimulationEngine] Failed to load persisted state')
       return false
     }
 
     // Initialize world state with maps
     this.worldState.initialize(maps, state.currentMapId)
+    this.jobMarket.setPostings(buildJobPostings(maps))
+
+    // Resume world clock from where it stopped (legacy data: keep current real time)
+    const clockTime = await this.stateStore.loadWorldClockTime()
+    if (clockTime !== null) {
+      this.clock.setNow(clockTime)
+    }
 
     // Restore characters
     for (const [, char] of Object.entries(state.characters)) {
       this.worldState.addCharacter(char)
     }
 
-    console.log(`[SimulationEngine] Restored ${Object.keys(state.characters).length} characters from persistent storage`)
+    // Continue tick numbering from the journal
+    const lastTick = await this.stateStore.loadLatestJournalTick()
+    if (lastTick !== null) {
+      this.worldState.setTick(lastTick + 1)
+    }
+
+    logger.info(`[SimulationEngine] Restored ${Object.keys(state.characters).length} characters from persistent storage`)
     return true
   }
 
   // Set state store (for late binding)
   setStateStore(store: StateStore): void {
     this.stateStore = store
+    this.journal.setStore(store)
   }
 
   // Get state store
@@ -329,6 +457,153 @@ export class SimulationEngine {
     return this.stateStore
   }
 
+  // Save a named snapshot of the current world (flushes in-memory state first)
+  async createSnapshot(name: string): Promise<WorldSnapshotInfo> {
+    if (!this.stateStore) {
+      throw new Error('State store is not configured')
+    }
+
+    await this.saveState()
+    await this.updateActiveActionsProgress()
+    const info = await this.stateStore.saveSnapshot(name)
+    logger.info(`[SimulationEngine] Snapshot saved: ${info.name} (id=${info.id}, day ${info.day} ${info.time})`)
+    return info
+  }
+
+  // List saved snapshots (newest first)
+  async listSnapshots(): Promise<WorldSnapshotInfo[]> {
+    if (!this.stateStore) return []
+    return this.stateStore.listSnapshots()
+  }
+
+  // Restore a snapshot and rebuild in-memory state and caches (no server restart needed)
+  // Returns false if the snapshot doesn't exist
+  async restoreSnapshot(id: string): Promise<boolean> {
+    if (!this.stateStore) {
+      throw new Error('State store is not configured')
+    }
+
+    const wasRunning = this.isRunning
+    this.stop()
+    await this.journal.flush()
+
+    // End ongoing conversations (loops stop at their next turn check)
+    for (const char of this.worldState.getAllCharacters()) {
+      if (this.conversationManager.getActiveSession(char.id)) {
+        this.conversationManager.endConversation(char.id, false)
+      }
+    }
+
+    const restored = await this.stateStore.restoreSnapshot(id)
+    const state = restored ? await this.stateStore.loadState() : null
+    if (!state) {
+      logger.info(`[SimulationEngine] Snapshot not found or empty: ${id}`)
+      if (wasRunning) this.start()
+      return false
+    }
+
+    // In-flight LLM decisions were made against the pre-restore world
+    this.decisionGeneration++
+    this.pendingDecisions.clear()
+
+    // Replace characters (profile fields are not persisted - carry over from current characters)
+    const previousCharacters = new Map(this.worldState.getAllCharacters().map(c => [c.id, c]))
+    this.worldState.clearCharacters()
+    this.worldState.initialize(this.worldState.getMaps(), state.currentMapId)
+    for (const char of Object.values(state.characters)) {
+      this.worldState.addCharacter(char)
+      const previous = previousCharacters.get(char.id)
+      if (previous) {
+        this.worldState.supplementCharacterProfile(char.id, {
+          personality: previous.personality,
+          tendencies: previous.tendencies,
+          customPrompt: previous.customPrompt,
+          recurringExpenses: previous.recurringExpenses,
+        })
+      }
+    }
+
+    // Rewind world clock and derived world time
+    const clockTime = await this.stateStore.loadWorldClockTime()
+    if (clockTime !== null) {
+      this.clock.setNow(clockTime)
+    }
+    this.worldState.setTime(this.getCurrentWorldTime())
+    this.lastDecayTime = this.clock.now()
+
+    // Restore NPC dynamic states
+    const npcStates = await this.stateStore.loadAllNPCStates()
+    for (const [npcId, npcState] of npcStates) {
+      this.restoreNPCState(npcId, npcState)
+    }
+
+    // Rebuild caches from restored DB
+    this.scheduleCache.clear()
+    this.actionHistoryCache.clear()
+    this.moneySummaryCache.clear()
+    this.activeActionRowIds.clear()
+    this.jobMarket.clearOffers()
+    this.actionExecutor.clearHabituation()
+    await this.loadScheduleCache()
+    await this.loadActionHistoryCache()
+    await this.loadMoneySummaryCache()
+    await this.loadMidTermMemoriesCache()
+    await this.loadRecentConversationsCache()
+    this.initializeLastDay()
+    await this.restoreActiveActions()
+
+    await this.recordCheckpoint('snapshot')
+    logger.info(`[SimulationEngine] Restored snapshot ${id} (${Object.keys(state.characters).length} characters)`)
+    this.notifySubscribers()
+
+    if (wasRunning) {
+      this.start()
+      this.triggerInitialBehaviorDecisions()
+    }
+    return true
+  }
+
+  // Record a full-state checkpoint to the journal (replay starting point)
+  async recordCheckpoint(reason: CheckpointReason): Promise<void> {
+    const state = JSON.parse(JSON.stringify(this.worldState.getSerializedState())) as SerializedWorldState
+    this.recordJournalEvent({ type: 'checkpoint', reason, state })
+    this.journal.resetTracking(this.worldState.getAllCharacters())
+    await this.journal.flush()
+  }
+
+  // Rebuild world state at a given tick from the journal
+  // Returns null if no checkpoint exists at or before the tick
+  async rebuildStateAtTick(tick: number): Promise<ReplayResult | null> {
+    if (!this.stateStore) return null
+
+    await this.journal.flush()
+    const [checkpoint] = await this.stateStore.loadJournalEvents({
+      toTick: tick,
+      types: ['checkpoint'],
+      order: 'desc',
+      limit: 1,
+    })
+    if (!checkpoint) return null
+
+    const events = await this.stateStore.loadJournalEvents({ afterSeq: checkpoint.seq, toTick: tick })
+    return replayWorldEvents([checkpoint, ...events], tick)
+  }
+
+  // Build common journal event fields from current tick and world time
+  private getJournalMeta(): WorldEventMeta {
+    const time = this.worldState.getTime()
+    return {
+      tick: this.worldState.getTick(),
+      worldTime: this.clock.now(),
+      day: time.day,
+      time: this.formatTimeString(time),
+    }
+  }
+
+  private recordJournalEvent(payload: WorldEventPayload): void {
+    this.journal.record(this.getJournalMeta(), payload)
+  }
+
   // Initialize NPCs and config (for use after restore)
   initializeNPCsAndConfig(
     npcBlockedNodes?: Map<string, Set<string>>,
@@ -350,20 +625,20 @@ export class SimulationEngine {
     timeConfig?: TimeConfig
   ): void {
     this.timeConfig = timeConfig ?? null
+    this.clock.setTimeScale(timeConfig?.timeScale ?? 1)
 
     // Initialize formatter cache, recompute midnight, and sync time
     this.updateFormatterCache()
     this.serverStartMidnight = this.computeServerStartMidnight()
-    const realTime = this.getCurrentRealTime()
-    this.worldState.setTime(realTime)
-    this.lastDecayTime = Date.now()
+    this.worldState.setTime(this.getCurrentWorldTime())
+    this.lastDecayTime = this.clock.now()
 
     // Set NPC blocked nodes for pathfinding
     if (npcBlockedNodes) {
       for (const [mapId, nodeIds] of npcBlockedNodes) {
         this.worldState.setNPCBlockedNodes(mapId, nodeIds)
       }
-      console.log(`[SimulationEngine] Loaded NPC blocked nodes for ${npcBlockedNodes.size} maps`)
+      logger.info(`[SimulationEngine] Loaded NPC blocked nodes for ${npcBlockedNodes.size} maps`)
     }
 
     // Add NPCs to world state and store full NPC data
@@ -373,7 +648,7 @@ export class SimulationEngine {
       for (const npc of npcs) {
         this.fullNPCs.set(npc.id, npc)
       }
-      console.log(`[SimulationEngine] Loaded ${npcs.length} NPCs`)
+      logger.info(`[SimulationEngine] Loaded ${npcs.length} NPCs`)
     }
   }
 
@@ -386,6 +661,7 @@ export class SimulationEngine {
     if (updates.facts !== undefined) npc.facts = updates.facts
     if (updates.conversationCount !== undefined) npc.conversationCount = updates.conversationCount
     if (updates.lastConversation !== undefined) npc.lastConversation = updates.lastConversation
+    this.recordJournalEvent({ type: 'npc_updated', npcId, updates })
   }
 
   // Restore NPC dynamic state from persistent storage
@@ -399,84 +675,292 @@ export class SimulationEngine {
     npc.lastConversation = state.lastConversation
   }
 
-  // Main tick function
-  private tick(): void {
-    const now = Date.now()
-    const deltaTime = (now - this.lastTickTime) / 1000 // Convert to seconds
-    this.lastTickTime = now
+  /**
+   * Advance a manual world clock and run one tick over the elapsed world time (headless runner).
+   * Timers due within the step (idle re-decisions, conversation turns) fire before the tick.
+   */
+  advance(worldMs: number): void {
+    this.clock.advance(worldMs)
+    this.tick(this.worldState.isPaused() ? 0 : worldMs / 1000)
+  }
+
+  // Main tick function (worldDeltaSeconds: elapsed world time when driven by advance())
+  private tick(worldDeltaSeconds?: number): void {
+    const realNow = Date.now()
+    const now = this.clock.now()
+    // Movement delta in world seconds (scaled by time scale)
+    const deltaTime = worldDeltaSeconds ?? (realNow - this.lastTickTime) / 1000 * this.clock.getTimeScale()
+    this.lastTickTime = realNow
 
-    // Always sync with real time (even when paused)
-    const realTime = this.getCurrentRealTime()
-    this.worldState.setTime(realTime)
+    // Sync with world clock (frozen while paused)
+    const worldTime = this.getCurrentWorldTime()
+    this.worldState.setTime(worldTime)
 
-    // Skip simulation updates if paused (but time still syncs)
+    // Skip simulation updates if paused
     if (this.worldState.isPaused()) {
       this.notifySubscribers()
       return
     }
 
-    // Check for day change and refresh caches
-    const currentDay = realTime.day
-    if (currentDay !== this.lastDay) {
-      console.log(`[SimulationEngine] Day changed: ${this.lastDay} -> ${currentDay}`)
-      const previousDay = this.lastDay
-      this.lastDay = currentDay
-      // Async seed + reload, then clear old entries
-      // Note: Don't clear cache before loading - this causes race condition
-      // where getScheduleForCharacter() returns null during async operation
-      this.seedDefaultSchedules()
-        .then(() => this.loadScheduleCache())
-        .then(() => {
-          // Clear only previous day's entries (new day's data is already loaded)
-          this.clearScheduleCacheForDay(previousDay)
-          this.clearActionHistoryCacheForDay(previousDay)
+    // Run built-in and plugin phases in order
+    this.tickPipeline.run({
+      ...this.getPluginContext(),
+      tick: this.worldState.getTick(),
+      now,
+      realNow,
+      deltaTime,
+      worldTime,
+    })
+
+    // Increment tick counter
+    this.worldState.incrementTick()
+
+    // Notify subscribers
+    this.notifySubscribers()
+  }
+
+  // Register built-in tick phases (order: TICK_PHASE_ORDER)
+  private registerBuiltinPhases(): void {
+    this.tickPipeline.addPhase({
+      name: 'day-change',
+      order: TICK_PHASE_ORDER.dayChange,
+      run: ({ worldTime }) => this.checkDayChange(worldTime.day),
+    })
+    this.tickPipeline.addPhase({
+      name: 'status-decay',
+      order: TICK_PHASE_ORDER.statusDecay,
+      run: ({ now }) => {
+        // Check for status decay with elapsed time scaling
+        if (!this.timeConfig) return
+        const elapsed = now - this.lastDecayTime
+        if (elapsed >= this.timeConfig.statusDecayIntervalMs) {
+          const elapsedMinutes = elapsed / 60000 // Convert ms to minutes
+          this.applyStatusDecay(elapsedMinutes)
+          this.lastDecayTime = now
+        }
+      },
+    })
+    this.tickPipeline.addPhase({
+      name: 'actions',
+      order: TICK_PHASE_ORDER.actions,
+      // Update action execution (checks for completion)
+      // Note: Action completion triggers behavior decision via callback (design-compliant)
+      run: ({ now }) => this.actionExecutor.tick(now),
+    })
+    this.tickPipeline.addPhase({
+      name: 'movement',
+      order: TICK_PHASE_ORDER.movement,
+      // Update character simulations (movement, transitions)
+      run: ({ deltaTime, now }) => this.characterSimulator.tick(deltaTime, now),
+    })
+    this.tickPipeline.addPhase({
+      name: 'pending-actions',
+      order: TICK_PHASE_ORDER.pendingActions,
+      // Check for pending actions after movement completes
+      run: () => this.checkPendingActions(),
+    })
+    this.tickPipeline.addPhase({
+      name: 'journal',
+      order: TICK_PHASE_ORDER.journal,
+      run: () => {
+        // Journal stat changes and moves made during this tick
+        this.journal.trackCharacters(this.getJournalMeta(), this.worldState.getAllCharacters())
+        if (this.journal.getPendingCount() > 0) {
+          this.journal.flush().catch(err => {
+            logger.error('[SimulationEngine] Error flushing journal:', err)
+          })
+        }
+      },
+    })
+    this.tickPipeline.addPhase({
+      name: 'persistence',
+      order: TICK_PHASE_ORDER.persistence,
+      run: ({ realNow, worldTime }) => {
+        // Periodic state persistence (every 30 seconds, real time)
+        if (!this.stateStore || realNow - this.lastSaveTime < SAVE_INTERVAL_MS) return
+        this.saveState().catch(err => {
+          logger.error('[SimulationEngine] Error saving state:', err)
         })
-        .catch(err => {
-          console.error('[SimulationEngine] Error seeding/reloading schedule cache:', err)
+        // Update active action progress (stats snapshot)
+        this.updateActiveActionsProgress().catch(err => {
+          logger.error('[SimulationEngine] Error updating active actions:', err)
         })
-    }
+        // Delete expired mid-term memories and reload cache
+        this.cleanupAndReloadMidTermMemories(worldTime.day).catch(err => {
+          logger.error('[SimulationEngine] Error cleaning up mid-term memories:', err)
+        })
+        this.lastSaveTime = realNow
+      },
+    })
+  }
 
-    // Check for status decay with elapsed time scaling
-    if (this.timeConfig) {
-      const elapsed = now - this.lastDecayTime
-      if (elapsed >= this.timeConfig.statusDecayIntervalMs) {
-        const elapsedMinutes = elapsed / 60000 // Convert ms to minutes
-        this.applyStatusDecay(elapsedMinutes)
-        this.lastDecayTime = now
+  // Check for day change and refresh caches
+  private checkDayChange(currentDay: number): void {
+    if (currentDay === this.lastDay) return
+
+    logger.info(`[SimulationEngine] Day changed: ${this.lastDay} -> ${currentDay}`)
+    const previousDay = this.lastDay
+    this.lastDay = currentDay
+    // Wages are paid before bills so that payday money can cover them
+    this.closePayroll(previousDay, currentDay)
+    this.settleRecurringExpenses(previousDay, currentDay)
+    // Async seed + reload, then clear old entries
+    // Note: Don't clear cache before loading - this causes race condition
+    // where getScheduleForCharacter() returns null during async operation
+    this.seedDefaultSchedules()
+      .then(() => this.loadScheduleCache())
+      .then(() => {
+        // Clear only previous day's entries (new day's data is already loaded)
+        this.clearScheduleCacheForDay(previousDay)
+        this.clearActionHistoryCacheForDay(previousDay)
+      })
+      .catch(err => {
+        logger.error('[SimulationEngine] Error seeding/reloading schedule cache:', err)
+      })
+
+    for (const plugin of this.plugins.values()) {
+      if (!plugin.onDayChange) continue
+      try {
+        Promise.resolve(plugin.onDayChange(previousDay, currentDay, this.getPluginContext())).catch(err => {
+          logger.error(`[SimulationEngine] Error in plugin "${plugin.name}" onDayChange:`, err)
+        })
+      } catch (err) {
+        logger.error(`[SimulationEngine] Error in plugin "${plugin.name}" onDayChange:`, err)
       }
     }
+  }
 
-    // Update action execution (checks for completion)
-    // Note: Action completion triggers behavior decision via callback (design-compliant)
-    this.actionExecutor.tick(now)
+  // Close attendance and pay wages on payday for each day from previousDay until currentDay
+  private closePayroll(previousDay: number, currentDay: number): void {
+    for (const { id } of this.worldState.getAllCharacters()) {
+      // Shifts still running at midnight count toward the day that ended
+      this.actionExecutor.creditWorkInProgress(id, previousDay)
+      for (let day = previousDay; day < currentDay; day++) {
+        this.closeCharacterPayrollDay(id, day, day + 1)
+      }
+    }
+  }
 
-    // Update character simulations (movement, transitions)
-    this.characterSimulator.tick(deltaTime, now)
+  private closeCharacterPayrollDay(characterId: string, endedDay: number, newDay: number): void {
+    const character = this.worldState.getCharacter(characterId)
+    if (!character || (!character.payroll && !character.employments?.length)) return
 
-    // Check for pending actions after movement completes
-    this.checkPendingActions()
+    const jobs = this.jobMarket.getPostingsById()
+    const result = closePayrollDay(
+      character,
+      jobs,
+      endedDay,
+      newDay,
+      job => !(job.skipHolidays && this.calendar.isHoliday(endedDay))
+    )
 
-    // Increment tick counter
-    this.worldState.incrementTick()
+    let money = character.money
+    const paid = result.payouts.reduce((sum, p) => sum + p.amount, 0)
+    const deducted = result.deductions.reduce((sum, d) => sum + d.amount, 0)
+    this.worldState.updateCharacter(characterId, {
+      money: money + paid - deducted,
+      payroll: result.payroll,
+    })
+    // Docks are taken before the day's wages are paid
+    for (const deduction of result.deductions) {
+      money -= deduction.amount
+      this.recordTransaction({
+        characterId,
+        amount: -deduction.amount,
+        balanceAfter: money,
+        category: 'wage',
+        reason: `減給（${jobs.get(deduction.jobId)?.title ?? deduction.jobId}）`,
+        jobId: deduction.jobId,
+      })
+    }
+    for (const payout of result.payouts) {
+      money += payout.amount
+      this.recordTransaction({
+        characterId,
+        amount: payout.amount,
+        balanceAfter: money,
+        category: 'wage',
+        reason: `給与（${jobs.get(payout.jobId)?.title ?? payout.jobId}）`,
+        jobId: payout.jobId,
+      })
+    }
 
-    // Periodic state persistence (every 30 seconds)
-    if (this.stateStore && now - this.lastSaveTime >= SAVE_INTERVAL_MS) {
-      this.saveState().catch(err => {
-        console.error('[SimulationEngine] Error saving state:', err)
+    for (const record of result.records) {
+      if (record.absent || record.docked > 0) {
+        logger.info(`[SimulationEngine] ${character.name} worked ${record.hoursWorked}/${record.expectedHours}h at ${record.jobId} on day ${record.day} (docked ${record.docked} yen)`)
+      }
+      this.recordJournalEvent({ type: 'attendance_recorded', record })
+      this.stateStore?.addAttendanceRecord(record).catch(error => {
+        logger.error(`[SimulationEngine] Error saving attendance:`, error)
       })
-      // Update active action progress (stats snapshot)
-      this.updateActiveActionsProgress().catch(err => {
-        console.error('[SimulationEngine] Error updating active actions:', err)
+    }
+
+    if (result.firedJobIds.length > 0) {
+      logger.info(`[SimulationEngine] ${character.name} was fired from ${result.firedJobIds.join(', ')} (missed shifts)`)
+      this.updateEmployments(characterId, (character.employments ?? []).filter(e => !result.firedJobIds.includes(e.jobId)))
+      return
+    }
+
+    const updated = this.worldState.getCharacter(characterId)
+    if (updated && this.stateStore) {
+      this.stateStore.saveCharacter(characterId, updated).catch(error => {
+        logger.error(`[SimulationEngine] Error saving payroll:`, error)
       })
-      // Delete expired mid-term memories and reload cache
-      this.cleanupAndReloadMidTermMemories(realTime.day).catch(err => {
-        console.error('[SimulationEngine] Error cleaning up mid-term memories:', err)
+    }
+  }
+
+  // Charge recurring expenses (rent, bills, subscriptions) for each day after previousDay
+  private settleRecurringExpenses(previousDay: number, currentDay: number): void {
+    for (const { id } of this.worldState.getAllCharacters()) {
+      for (let day = previousDay + 1; day <= currentDay; day++) {
+        this.settleCharacterExpenses(id, day)
+      }
+    }
+  }
+
+  private settleCharacterExpenses(characterId: string, day: number): void {
+    const character = this.worldState.getCharacter(characterId)
+    if (!character) return
+
+    const settlement = settleRecurringExpenses(character, this.worldState.getMaps(), day, this.expensesConfig)
+    const stateChanged = JSON.stringify(settlement.expenseState) !== JSON.stringify(character.expenseState ?? { arrears: {} })
+    if (settlement.payments.length === 0 && !stateChanged && settlement.moodPenalty === 0) return
+
+    this.worldState.updateCharacter(characterId, {
+      money: settlement.money,
+      mood: Math.max(0, character.mood - settlement.moodPenalty),
+      expenseState: settlement.expenseState,
+    })
+
+    for (const payment of settlement.payments) {
+      this.recordTransaction({
+        characterId,
+        amount: -payment.amount,
+        balanceAfter: payment.balanceAfter,
+        category: 'bill',
+        reason: payment.expense.label,
+        facilityId: payment.expense.facilityId,
       })
-      this.lastSaveTime = now
+    }
+    for (const expense of settlement.unpaid) {
+      logger.info(`[SimulationEngine] ${character.name} could not pay ${expense.label} (day ${day})`)
+    }
+    for (const mapId of settlement.evictedMapIds) {
+      logger.info(`[SimulationEngine] ${character.name} was evicted from ${mapId} (unpaid expenses)`)
+    }
+    for (const expense of settlement.cancelled) {
+      logger.info(`[SimulationEngine] ${character.name}'s ${expense.label} was cancelled (unpaid)`)
     }
 
-    // Notify subscribers
-    this.notifySubscribers()
+    if (stateChanged) {
+      this.recordJournalEvent({ type: 'expense_state_changed', characterId, expenseState: settlement.expenseState })
+    }
+    const updated = this.worldState.getCharacter(characterId)
+    if (updated && this.stateStore) {
+      this.stateStore.saveCharacter(characterId, updated).catch(error => {
+        logger.error(`[SimulationEngine] Error saving expense state:`, error)
+      })
+    }
   }
 
   // Update formatter cache when timezone changes
@@ -497,7 +981,7 @@ export class SimulationEngine {
       })
       this.cachedTimezone = timezone
     } catch {
-      console.warn(`[SimulationEngine] Invalid timezone "${timezone}", falling back to ${DEFAULT_TIMEZONE}`)
+      logger.warn(`[SimulationEngine] Invalid timezone "${timezone}", falling back to ${DEFAULT_TIMEZONE}`)
       this.cachedFormatter = new Intl.DateTimeFormat('en-US', {
         timeZone: DEFAULT_TIMEZONE,
         hour: 'numeric',
@@ -520,8 +1004,9 @@ export class SimulationEngine {
     return this.serverStartTime - (hour * 60 + minute) * 60 * 1000
   }
 
-  private getCurrentRealTime(): WorldTime {
-    const now = new Date()
+  // Derive WorldTime from the world clock in configured timezone
+  private getCurrentWorldTime(): WorldTime {
+    const now = new Date(this.clock.now())
 
     // Use cached formatter
     if (!this.cachedFormatter) {
@@ -551,7 +1036,16 @@ export class SimulationEngine {
 
     const { decayRates } = this.timeConfig
     const characters = this.worldState.getAllCharacters()
-    const threshold = SimulationEngine.INTERRUPT_THRESHOLD
+
+    // Weather scales decay rates (e.g. hot days: bladder/hygiene decay faster)
+    const weather = this.getWeather()
+    const rates = {
+      satiety: decayRates.satietyPerMinute * this.weatherSystem.getDecayMultiplier(weather, 'satiety'),
+      bladder: decayRates.bladderPerMinute * this.weatherSystem.getDecayMultiplier(weather, 'bladder'),
+      energy: decayRates.energyPerMinute * this.weatherSystem.getDecayMultiplier(weather, 'energy'),
+      hygiene: decayRates.hygienePerMinute * this.weatherSystem.getDecayMultiplier(weather, 'hygiene'),
+      mood: decayRates.moodPerMinute * this.weatherSystem.getDecayMultiplier(weather, 'mood'),
+    }
 
     for (const char of characters) {
       // アクション実行中の場合、perMinute 効果を取得
@@ -561,44 +1055,41 @@ export class SimulationEngine {
       // perMinute で定義されている場合は perMinute の値で置き換え、
       // そうでない場合は通常の減少を適用
       const newSatiety = calculateStatChange(
-        char.satiety, decayRates.satietyPerMinute, elapsedMinutes, perMinuteEffects?.satiety
+        char.satiety, rates.satiety, elapsedMinutes, perMinuteEffects?.satiety
       )
       const newBladder = calculateStatChange(
-        char.bladder, decayRates.bladderPerMinute, elapsedMinutes, perMinuteEffects?.bladder
+        char.bladder, rates.bladder, elapsedMinutes, perMinuteEffects?.bladder
       )
       const newEnergy = calculateStatChange(
-        char.energy, decayRates.energyPerMinute, elapsedMinutes, perMinuteEffects?.energy
+        char.energy, rates.energy, elapsedMinutes, perMinuteEffects?.energy
       )
       const newHygiene = calculateStatChange(
-        char.hygiene, decayRates.hygienePerMinute, elapsedMinutes, perMinuteEffects?.hygiene
+        char.hygiene, rates.hygiene, elapsedMinutes, perMinuteEffects?.hygiene
       )
       const newMood = calculateStatChange(
-        char.mood, decayRates.moodPerMinute, elapsedMinutes, perMinuteEffects?.mood
+        char.mood, rates.mood, elapsedMinutes, perMinuteEffects?.mood
       )
 
-      // Update character stats
-      this.worldState.updateCharacter(char.id, {
+      const newStats = {
         satiety: newSatiety,
         bladder: newBladder,
         energy: newEnergy,
         hygiene: newHygiene,
         mood: newMood,
-      })
+      }
 
-      // Check for status interrupts (when stat crosses below threshold)
-      // Priority order: bladder > satiety > energy > hygiene (mood doesn't trigger interrupt)
-      if (char.bladder >= threshold && newBladder < threshold) {
-        this.triggerStatusInterrupt(char.id, 'bladder')
-      } else if (char.satiety >= threshold && newSatiety < threshold) {
-        this.triggerStatusInterrupt(char.id, 'satiety')
-      } else if (char.energy >= threshold && newEnergy < threshold) {
-        this.triggerStatusInterrupt(char.id, 'energy')
-      } else if (char.hygiene >= threshold && newHygiene < threshold) {
-        this.triggerStatusInterrupt(char.id, 'hygiene')
+      // Update character stats
+      this.worldState.updateCharacter(char.id, newStats)
+
+      // Check for status interrupts (when stat crosses below its interrupt threshold)
+      // Only the highest priority need triggers (see NeedsModel)
+      const interruptStat = this.needsModel.findInterrupt(char.id, char, newStats)
+      if (interruptStat) {
+        this.triggerStatusInterrupt(char.id, interruptStat)
       }
     }
 
-    console.log(`[SimulationEngine] Status decay applied (${elapsedMinutes.toFixed(2)} min elapsed)`)
+    logger.info(`[SimulationEngine] Status decay applied (${elapsedMinutes.toFixed(2)} min elapsed)`)
   }
 
   // Check if character is idle (not executing action, conversation, or movement)
@@ -619,6 +1110,11 @@ export class SimulationEngine {
     const newCounter = character.actionCounter + 1
     this.worldState.updateCharacter(characterId, { actionCounter: newCounter })
 
+    // Continue the current plan without asking the LLM
+    if (this.startNextPlanStep(characterId)) {
+      return
+    }
+
     // Check for system auto-move (every 5 actions)
     // If triggered, skip normal behavior decision
     if (this.checkSystemAutoMove(character, newCounter)) {
@@ -639,6 +1135,8 @@ export class SimulationEngine {
     // Skip if pending action exists (will be handled by checkPendingActions)
     if (character.pendingAction) return
 
+    if (this.startNextPlanStep(characterId)) return
+
     const currentTime = this.worldState.getTime()
     this.makeBehaviorDecision(character, currentTime)
   }
@@ -648,62 +1146,29 @@ export class SimulationEngine {
     const characters = this.worldState.getAllCharacters()
     const currentTime = this.worldState.getTime()
 
-    console.log('[SimulationEngine] Triggering initial behavior decisions for all idle characters')
+    logger.info('[SimulationEngine] Triggering initial behavior decisions for all idle characters')
 
     for (const character of characters) {
       if (this.pendingDecisions.has(character.id)) continue
       if (!this.isCharacterIdle(character)) continue
 
+      // Resume a plan restored from persistent storage
+      if (this.startNextPlanStep(character.id)) continue
+
       this.makeBehaviorDecision(character, currentTime)
     }
   }
 
-  // Check if character has any status below threshold (for system auto-move skip)
+  // Check if character has any status below its interrupt threshold (for system auto-move skip)
   private hasLowStatus(character: SimCharacter): boolean {
-    const threshold = SimulationEngine.INTERRUPT_THRESHOLD
-    return character.bladder < threshold ||
-           character.satiety < threshold ||
-           character.energy < threshold ||
-           character.hygiene < threshold
+    return this.needsModel.hasCriticalNeed(character)
   }
 
-  // Select a random map within 3 hops (excluding current map)
-  private selectRandomNearbyMap(currentMapId: string): string | null {
-    // Collect all nearby map IDs (excluding current map)
-    const nearbyMapIds = this.traverseNearbyMaps(currentMapId, (_map, mapId, distance) =>
+  // Maps within 3 hops (excluding current map), candidates for system auto-move
+  private getNearbyMapIds(currentMapId: string): string[] {
+    return this.traverseNearbyMaps(currentMapId, (_map, mapId, distance) =>
       distance > 0 ? [mapId] : []
     )
-
-    if (nearbyMapIds.length === 0) {
-      return null
-    }
-
-    // Random selection
-    const randomIndex = Math.floor(Math.random() * nearbyMapIds.length)
-    return nearbyMapIds[randomIndex]
-  }
-
-  // Start system auto-move to a target map
-  private startSystemAutoMove(character: SimCharacter, targetMapId: string): boolean {
-    const targetMap = this.worldState.getMap(targetMapId)
-    if (!targetMap?.spawnNodeId) {
-      console.log(`[SimulationEngine] System auto-move failed: no spawn node for map ${targetMapId}`)
-      return false
-    }
-
-    const success = this.characterSimulator.navigateToMap(
-      character.id,
-      targetMapId,
-      targetMap.spawnNodeId
-    )
-
-    if (success) {
-      console.log(`[SimulationEngine] System auto-move: ${character.name} -> ${targetMapId}`)
-    } else {
-      console.log(`[SimulationEngine] System auto-move failed: ${character.name} -> ${targetMapId}`)
-    }
-
-    return success
   }
 
   // Check and execute system auto-move (called after action completion)
@@ -713,51 +1178,75 @@ export class SimulationEngine {
       return false
     }
 
-    // Status interrupt active (any status < 10%) - skip auto-move but count progresses
+    // Status interrupt active (any status below interrupt threshold) - skip auto-move but count progresses
     // Don't reset counter - will check again after interrupt is resolved
     if (this.hasLowStatus(character)) {
-      console.log(`[SimulationEngine] System auto-move skipped (status interrupt): ${character.name}`)
+      logger.info(`[SimulationEngine] System auto-move skipped (status interrupt): ${character.name}`)
       return false
     }
 
     // Reset counter (regardless of whether auto-move succeeds)
     this.worldState.updateCharacter(character.id, { actionCounter: 0 })
 
-    // Select random nearby map (within 3 hops)
-    const targetMapId = this.selectRandomNearbyMap(character.currentMapId)
-    if (!targetMapId) {
-      console.log(`[SimulationEngine] System auto-move skipped (no nearby maps): ${character.name}`)
+    // Move to a random nearby map (within 3 hops, picked with the seeded RNG)
+    const nearbyMapIds = this.getNearbyMapIds(character.currentMapId)
+    if (nearbyMapIds.length === 0) {
+      logger.info(`[SimulationEngine] System auto-move skipped (no nearby maps): ${character.name}`)
       return false
     }
 
-    // Start navigation to target map
-    return this.startSystemAutoMove(character, targetMapId)
+    const targetMapId = this.characterSimulator.navigateToRandomMap(character.id, nearbyMapIds)
+    if (targetMapId) {
+      logger.info(`[SimulationEngine] System auto-move: ${character.name} -> ${targetMapId}`)
+    } else {
+      logger.info(`[SimulationEngine] System auto-move failed: ${character.name}`)
+    }
+    return targetMapId !== null
   }
 
   // Trigger status interrupt for a character (called when status drops below threshold)
-  private triggerStatusInterrupt(characterId: string, statusType: string): void {
+  private triggerStatusInterrupt(characterId: string, statusType: NeedStat): void {
     const character = this.worldState.getCharacter(characterId)
     if (!character) return
 
     // Skip if decision is already pending
     if (this.pendingDecisions.has(characterId)) return
 
-    // Skip if already executing action (don't interrupt current action)
-    if (character.currentAction) return
+    // Skip if already executing action, unless the need cancels it
+    const need = this.needsModel.getNeed(characterId, statusType)
+    if (character.currentAction && !this.cancelActionForInterrupt(character, need)) return
+    // An interrupt always abandons the current plan
+    this.clearPlan(characterId, `${statusType} interrupt`)
+    // Re-read after a possible cancellation
+    const current = this.worldState.getCharacter(characterId) ?? character
 
-    console.log(`[SimulationEngine] Status interrupt: ${character.name} ${statusType} < ${SimulationEngine.INTERRUPT_THRESHOLD}%`)
+    logger.info(`[SimulationEngine] Status interrupt: ${current.name} ${statusType} < ${need?.interruptThreshold}%`)
+    for (const callback of this.interruptSubscribers) {
+      try { callback(characterId, statusType) } catch { /* ignore */ }
+    }
 
-    // Get forced action for this status type
-    const forcedAction = SimulationEngine.STATUS_INTERRUPT_ACTIONS[statusType]
+    // Get forced action for this status type (first candidate action)
+    const forcedAction = need?.actions[0]
     if (!forcedAction) {
       // Fallback to normal behavior decision if no mapping
       const currentTime = this.worldState.getTime()
-      this.makeBehaviorDecision(character, currentTime)
+      this.makeBehaviorDecision(current, currentTime)
       return
     }
 
     // Trigger interrupt behavior decision with forced action
-    this.makeInterruptBehaviorDecision(character, forcedAction)
+    this.makeInterruptBehaviorDecision(current, forcedAction)
+  }
+
+  // Cancel the current action for a need with cancelsAction (actions that already address the need,
+  // thinking and talk keep running). Returns true when the action was cancelled.
+  private cancelActionForInterrupt(character: SimCharacter, need: NeedConfig | null): boolean {
+    const actionId = character.currentAction?.actionId
+    if (!actionId || !need?.cancelsAction) return false
+    if (actionId === 'thinking' || actionId === 'talk' || need.actions.includes(actionId)) return false
+
+    this.actionExecutor.cancelAction(character.id, 'interrupt')
+    return true
   }
 
   /**
@@ -781,6 +1270,16 @@ export class SimulationEngine {
       recentConversations: this.recentConversationsCache.get(character.id),
       midTermMemories: this.midTermMemoriesCache.get(character.id),
       todayActions: includeTodayActions ? this.getActionHistoryForCharacter(character.id) : undefined,
+      weather: this.getWeather(),
+      calendar: this.calendar.getDay(currentTime.day),
+      townEvents: this.calendar.getEvents(currentTime),
+      needs: this.needsModel.getUrgencies(character),
+      habituations: this.actionExecutor.getHabituations(character.id),
+      skills: this.actionExecutor.getSkills(character.id),
+      moneySummary: this.getMoneySummaryForCharacter(character.id),
+      jobBoard: this.jobMarket.getBoard(character, this.worldState.getAllCharacters(), currentTime.day),
+      recurringExpenses: getExpenseStatuses(character, this.worldState.getMaps(), currentTime.day),
+      payroll: getPayrollSummaries(character, this.jobMarket.getPostingsById(), currentTime.day),
     }
   }
 
@@ -810,22 +1309,22 @@ export class SimulationEngine {
               targetMap.spawnNodeId
             )
             if (moveSuccess) {
-              console.log(`[SimulationEngine] ${character.name} moving to map ${decision.targetMapId} (${logContext}: ${decision.reason})`)
+              logger.info(`[SimulationEngine] ${character.name} moving to map ${decision.targetMapId} (${logContext}: ${decision.reason})`)
             } else {
-              console.log(`[SimulationEngine] ${character.name} failed to start navigation to map ${decision.targetMapId}`)
+              logger.info(`[SimulationEngine] ${character.name} failed to start navigation to map ${decision.targetMapId}`)
             }
           } else {
-            console.log(`[SimulationEngine] ${character.name} cannot find map ${decision.targetMapId}`)
+            logger.info(`[SimulationEngine] ${character.name} cannot find map ${decision.targetMapId}`)
           }
         } else if (decision.targetNodeId) {
           moveSuccess = this.characterSimulator.navigateToNode(character.id, decision.targetNodeId)
           if (moveSuccess) {
-            console.log(`[SimulationEngine] ${character.name} moving to node ${decision.targetNodeId} (${logContext}: ${decision.reason})`)
+            logger.info(`[SimulationEngine] ${character.name} moving to node ${decision.targetNodeId} (${logContext}: ${decision.reason})`)
           } else {
-            console.log(`[SimulationEngine] ${character.name} failed to start navigation to node ${decision.targetNodeId}`)
+            logger.info(`[SimulationEngine] ${character.name} failed to start navigation to node ${decision.targetNodeId}`)
           }
         } else {
-          console.log(`[SimulationEngine] ${character.name} move decision has no target`)
+          logger.info(`[SimulationEngine] ${character.name} move decision has no target`)
         }
         if (moveSuccess) {
           this.recordActionHistory({
@@ -860,6 +1359,65 @@ export class SimulationEngine {
         this.scheduleNextDecision(character.id, isInterrupt ? 5000 : 2000)
         break
       }
+
+      case 'apply_job':
+      case 'accept_job':
+      case 'quit_job':
+        this.handleJobDecision(character, decision)
+        break
+    }
+  }
+
+  /**
+   * Apply for, accept or quit a job (instant; the next decision follows right away)
+   * The outcome is recorded in action history so the LLM sees rejected applications.
+   */
+  private handleJobDecision(character: SimCharacter, decision: BehaviorDecision): void {
+    const jobId = decision.jobId
+    const day = this.worldState.getTime().day
+    const characters = this.worldState.getAllCharacters()
+    let failure: string | undefined
+
+    if (!jobId) {
+      failure = '求人が指定されていません'
+    } else if (decision.type === 'apply_job') {
+      const result = this.jobMarket.apply(character, jobId, characters, day)
+      if (!result.success) failure = result.reason
+    } else {
+      const result = decision.type === 'accept_job'
+        ? this.jobMarket.accept(character, jobId, characters, day)
+        : this.jobMarket.quit(character, jobId)
+      if (result.success) {
+        if (decision.type === 'accept_job') {
+          // Attendance starts the day after hiring
+          this.worldState.updateCharacter(character.id, { payroll: startEmployment(character.payroll, jobId, day) })
+        }
+        this.updateEmployments(character.id, result.employments)
+      } else {
+        failure = result.reason
+      }
+    }
+
+    logger.info(`[SimulationEngine] ${character.name} ${decision.type} ${jobId ?? '-'}: ${failure ? `failed (${failure})` : 'succeeded'}`)
+    this.recordActionHistory({
+      characterId: character.id,
+      actionId: decision.type,
+      target: jobId,
+      reason: failure ? `${decision.reason ?? ''}（失敗: ${failure}）` : decision.reason,
+    })
+    this.scheduleNextDecision(character.id, 1000)
+  }
+
+  // Update employments and persist immediately (not only at the periodic save)
+  private updateEmployments(characterId: string, employments: Employment[]): void {
+    this.worldState.updateCharacter(characterId, { employments })
+    this.recordJournalEvent({ type: 'employment_changed', characterId, employments })
+
+    const character = this.worldState.getCharacter(characterId)
+    if (character && this.stateStore) {
+      this.stateStore.saveCharacter(characterId, character).catch(error => {
+        logger.error(`[SimulationEngine] Error saving employment:`, error)
+      })
     }
   }
 
@@ -869,24 +1427,27 @@ export class SimulationEngine {
     this.actionExecutor.startAction(character.id, 'thinking')
 
     const context = this.buildBehaviorContext(character, false)
+    const generation = this.decisionGeneration
 
     this.behaviorDecider.decideInterruptFacility(forcedAction, context).then((decision) => {
+      if (this.isStaleDecision(generation, character)) return
       this.actionExecutor.forceCompleteAction(character.id)
 
       const currentChar = this.worldState.getCharacter(character.id)
       if (!currentChar || !this.isCharacterIdle(currentChar)) return
 
-      console.log(`[SimulationEngine] Interrupt decision for ${character.name}: ${decision.type} (${decision.reason})`)
+      logger.info(`[SimulationEngine] Interrupt decision for ${character.name}: ${decision.type} (${decision.reason})`)
       this.applyBehaviorDecision(currentChar, decision, 'interrupt')
     }).catch((error) => {
+      if (this.isStaleDecision(generation, character)) return
       this.actionExecutor.forceCompleteAction(character.id)
-      console.error(`[SimulationEngine] Error in interrupt decision for ${character.name}:`, error)
+      logger.error(`[SimulationEngine] Error in interrupt decision for ${character.name}:`, error)
       const currentChar = this.worldState.getCharacter(character.id)
       if (currentChar && this.isCharacterIdle(currentChar)) {
         this.makeBehaviorDecision(currentChar, this.worldState.getTime())
       }
     }).finally(() => {
-      this.pendingDecisions.delete(character.id)
+      if (generation === this.decisionGeneration) this.pendingDecisions.delete(character.id)
     })
   }
 
@@ -896,13 +1457,17 @@ export class SimulationEngine {
     this.actionExecutor.startAction(character.id, 'thinking')
 
     const context = this.buildBehaviorContext(character, true)
+    const generation = this.decisionGeneration
 
     this.behaviorDecider.decide(context).then((decision) => {
+      if (this.isStaleDecision(generation, character)) return
       this.actionExecutor.forceCompleteAction(character.id)
 
       const currentChar = this.worldState.getCharacter(character.id)
       if (!currentChar || !this.isCharacterIdle(currentChar)) return
 
+      // Each LLM decision replaces the previous plan
+      this.worldState.updateCharacter(character.id, { plan: this.createPlan(decision) })
       this.applyBehaviorDecision(currentChar, decision, 'normal')
 
       // Apply schedule update if LLM proposed one
@@ -910,13 +1475,21 @@ export class SimulationEngine {
         this.applyScheduleUpdate(character.id, decision.scheduleUpdate)
       }
     }).catch((error) => {
+      if (this.isStaleDecision(generation, character)) return
       this.actionExecutor.forceCompleteAction(character.id)
-      console.error(`[SimulationEngine] Error making behavior decision for ${character.name}:`, error)
+      logger.error(`[SimulationEngine] Error making behavior decision for ${character.name}:`, error)
     }).finally(() => {
-      this.pendingDecisions.delete(character.id)
+      if (generation === this.decisionGeneration) this.pendingDecisions.delete(character.id)
     })
   }
 
+  // A decision requested before a snapshot restore must not touch the restored world
+  private isStaleDecision(generation: number, character: SimCharacter): boolean {
+    if (generation === this.decisionGeneration) return false
+    logger.info(`[SimulationEngine] Dropping stale decision for ${character.name} (requested before snapshot restore)`)
+    return true
+  }
+
   // Check for pending actions after movement completes
   private checkPendingActions(): void {
     const characters = this.worldState.getAllCharacters()
@@ -933,13 +1506,16 @@ export class SimulationEngine {
       if (character.currentAction) continue
 
       // Character has arrived - execute pending action
-      const { actionId, facilityId, targetNpcId, reason, durationMinutes, conversationGoal } = character.pendingAction
+      const { actionId, facilityId, targetNpcId, reason, durationMinutes, itemId, orderId, conversationGoal } = character.pendingAction
+
+      // Wait in line if the facility is full
+      if (facilityId && this.waitForFacility(character, facilityId)) continue
 
       // Clear pending action first
       this.worldState.updateCharacter(character.id, { pendingAction: null })
 
       // Try to execute the action
-      const success = this.actionExecutor.startAction(character.id, actionId, facilityId, targetNpcId, durationMinutes, reason)
+      const success = this.actionExecutor.startAction(character.id, actionId, facilityId, targetNpcId, durationMinutes, reason, itemId, orderId)
       if (success) {
         const durationStr = durationMinutes !== undefined ? ` (${durationMinutes}min)` : ''
         if (targetNpcId) {
@@ -949,12 +1525,13 @@ export class SimulationEngine {
             this.startConversationWithExecutor(character.id, targetNpcId, goal)
           }
           const npc = this.worldState.getNPC(targetNpcId)
-          console.log(`[SimulationEngine] ${character.name} arrived and started action: ${actionId}${durationStr} with ${npc?.name ?? targetNpcId} (${reason})`)
+          logger.info(`[SimulationEngine] ${character.name} arrived and started action: ${actionId}${durationStr} with ${npc?.name ?? targetNpcId} (${reason})`)
         } else {
-          console.log(`[SimulationEngine] ${character.name} arrived and started action: ${actionId}${durationStr} at facility: ${facilityId} (${reason})`)
+          logger.info(`[SimulationEngine] ${character.name} arrived and started action: ${actionId}${durationStr} at facility: ${facilityId} (${reason})`)
         }
       } else {
-        console.log(`[SimulationEngine] ${character.name} arrived but failed to start action: ${actionId}`)
+        logger.info(`[SimulationEngine] ${character.name} arrived but failed to start action: ${actionId}`)
+        this.clearPlan(character.id, `failed to start ${actionId}`)
         // Trigger new behavior decision since action failed
         const currentTime = this.worldState.getTime()
         this.makeBehaviorDecision(character, currentTime)
@@ -962,9 +1539,63 @@ export class SimulationEngine {
     }
   }
 
+  /**
+   * 満員の施設での順番待ち
+   * 空きがあり、先に並んでいるキャラクターがいなければ false（実行可能）。
+   * 待つ場合は ⏳ を表示し、上限時間を超えたら諦めて行動を決め直す。
+   */
+  private waitForFacility(character: SimCharacter, facilityId: string): boolean {
+    const pendingAction = character.pendingAction!
+    const map = this.worldState.getMap(character.currentMapId)
+    const obstacle = map ? findObstacleById(map.obstacles, facilityId) : null
+    const capacity = obstacle?.facility?.capacity
+    if (!obstacle || capacity === undefined) return false
+    // A closed facility won't free up; let the start fail instead of waiting
+    if (!this.actionExecutor.isFacilityOpenNow(obstacle.facility!)) return false
+
+    // Characters already waiting here ahead of this one keep their turn
+    const queuedAt = pendingAction.queuedAt
+    const waitingAhead = this.worldState.getAllCharacters().filter(c =>
+      c.id !== character.id &&
+      c.currentMapId === character.currentMapId &&
+      c.pendingAction?.facilityId === facilityId &&
+      c.pendingAction.queuedAt !== undefined &&
+      (queuedAt === undefined || c.pendingAction.queuedAt < queuedAt)
+    ).length
+    const occupancy = this.actionExecutor.getFacilityOccupancy(character.currentMapId, facilityId)
+    if (occupancy + waitingAhead < capacity) {
+      if (queuedAt !== undefined) {
+        logger.info(`[SimulationEngine] ${character.name} finished waiting for ${facilityId}`)
+      }
+      return false
+    }
+
+    const now = this.clock.now()
+    if (queuedAt === undefined) {
+      this.worldState.updateCharacter(character.id, {
+        pendingAction: { ...pendingAction, queuedAt: now },
+        displayEmoji: FACILITY_QUEUE_EMOJI,
+      })
+      logger.info(`[SimulationEngine] ${character.name} is waiting for ${facilityId} (${occupancy}/${capacity} in use)`)
+      return true
+    }
+
+    if (now - queuedAt >= FACILITY_QUEUE_MAX_WAIT_MS) {
+      logger.info(`[SimulationEngine] ${character.name} gave up waiting for ${facilityId}`)
+      this.worldState.updateCharacter(character.id, { pendingAction: null, displayEmoji: undefined })
+      this.clearPlan(character.id, `gave up waiting for ${facilityId}`)
+      // Decide from the current state, not the one captured when queueing started
+      const current = this.worldState.getCharacter(character.id)
+      if (current) {
+        this.makeBehaviorDecision(current, this.worldState.getTime())
+      }
+    }
+    return true
+  }
+
   // Handle action decision: execute immediately or move to facility/NPC first
   private handleActionDecision(character: SimCharacter, decision: BehaviorDecision): void {
-    const { actionId, targetFacilityId, targetNpcId, reason, durationMinutes } = decision
+    const { actionId, targetFacilityId, targetNpcId, reason, durationMinutes, itemId, orderId } = decision
     if (!actionId) return
 
     // Handle talk action with NPC target
@@ -974,28 +1605,28 @@ export class SimulationEngine {
     }
 
     // Handle facility-based actions
-    this.handleFacilityAction(character, actionId, targetFacilityId, reason, durationMinutes)
+    this.handleFacilityAction(character, actionId, targetFacilityId, reason, durationMinutes, itemId, orderId)
   }
 
   // Handle talk action: move to NPC if not adjacent, then start talk
   private handleTalkAction(character: SimCharacter, targetNpcId: string, reason?: string, conversationGoal?: ConversationGoal): void {
     const npc = this.worldState.getNPC(targetNpcId)
     if (!npc) {
-      console.log(`[SimulationEngine] ${character.name} target NPC ${targetNpcId} not found`)
+      logger.info(`[SimulationEngine] ${character.name} target NPC ${targetNpcId} not found`)
       this.triggerActionDecision(character)
       return
     }
 
     // Check if NPC is on the same map
     if (npc.mapId !== character.currentMapId) {
-      console.log(`[SimulationEngine] ${character.name} target NPC ${npc.name} is on different map`)
+      logger.info(`[SimulationEngine] ${character.name} target NPC ${npc.name} is on different map`)
       this.triggerActionDecision(character)
       return
     }
 
     const currentMap = this.worldState.getMap(character.currentMapId)
     if (!currentMap) {
-      console.log(`[SimulationEngine] ${character.name} cannot find current map`)
+      logger.info(`[SimulationEngine] ${character.name} cannot find current map`)
       this.triggerActionDecision(character)
       return
     }
@@ -1003,7 +1634,7 @@ export class SimulationEngine {
     // Check if character is already adjacent to NPC (on a connected node)
     const npcNode = currentMap.nodes.find(n => n.id === npc.currentNodeId)
     if (!npcNode) {
-      console.log(`[SimulationEngine] ${character.name} cannot find NPC node ${npc.currentNodeId}`)
+      logger.info(`[SimulationEngine] ${character.name} cannot find NPC node ${npc.currentNodeId}`)
       this.triggerActionDecision(character)
       return
     }
@@ -1018,9 +1649,9 @@ export class SimulationEngine {
         this.faceEachOtherForTalk(character.id, targetNpcId)
         const goal = conversationGoal ?? { goal: reason ?? '会話する', successCriteria: '' }
         this.startConversationWithExecutor(character.id, targetNpcId, goal)
-        console.log(`[SimulationEngine] ${character.name} started talk with ${npc.name} (${reason})`)
+        logger.info(`[SimulationEngine] ${character.name} started talk with ${npc.name} (${reason})`)
       } else {
-        console.log(`[SimulationEngine] ${character.name} failed to start talk with ${npc.name}`)
+        logger.info(`[SimulationEngine] ${character.name} failed to start talk with ${npc.name}`)
         this.triggerActionDecision(character)
       }
       return
@@ -1034,7 +1665,7 @@ export class SimulationEngine {
     })
 
     if (!adjacentNodeId) {
-      console.log(`[SimulationEngine] ${character.name} cannot find adjacent node to NPC ${npc.name}`)
+      logger.info(`[SimulationEngine] ${character.name} cannot find adjacent node to NPC ${npc.name}`)
       this.triggerActionDecision(character)
       return
     }
@@ -1053,10 +1684,10 @@ export class SimulationEngine {
     // Start navigation to adjacent node
     const startResult = this.characterSimulator.navigateToNode(character.id, adjacentNodeId)
     if (startResult) {
-      console.log(`[SimulationEngine] ${character.name} moving to talk with ${npc.name} (${reason})`)
+      logger.info(`[SimulationEngine] ${character.name} moving to talk with ${npc.name} (${reason})`)
     } else {
       this.worldState.updateCharacter(character.id, { pendingAction: null })
-      console.log(`[SimulationEngine] ${character.name} failed to start navigation to NPC ${npc.name}`)
+      logger.info(`[SimulationEngine] ${character.name} failed to start navigation to NPC ${npc.name}`)
       this.triggerActionDecision(character)
     }
   }
@@ -1078,9 +1709,9 @@ export class SimulationEngine {
   private startConversationWithExecutor(characterId: string, npcId: string, goal: ConversationGoal): void {
     const session = this.conversationManager.startConversation(characterId, npcId, goal)
     if (!session) {
-      console.log(`[SimulationEngine] Failed to start conversation for ${characterId}`)
-      // Force complete the talk action since conversation couldn't start
-      this.actionExecutor.forceCompleteAction(characterId)
+      logger.info(`[SimulationEngine] Failed to start conversation for ${characterId}`)
+      // Cancel the talk action since conversation couldn't start
+      this.actionExecutor.cancelAction(characterId, 'conversation')
       this.onActionComplete(characterId)
       return
     }
@@ -1088,27 +1719,32 @@ export class SimulationEngine {
     const character = this.worldState.getCharacter(characterId)
     const npc = this.fullNPCs.get(npcId)
     if (!character || !npc) {
-      console.log(`[SimulationEngine] Character or NPC not found for conversation`)
+      logger.info(`[SimulationEngine] Character or NPC not found for conversation`)
       this.conversationManager.endConversation(characterId, false)
-      this.actionExecutor.forceCompleteAction(characterId)
+      this.actionExecutor.cancelAction(characterId, 'conversation')
       this.onActionComplete(characterId)
       return
     }
 
     // Build conversation context
+    const currentTime = this.worldState.getTime()
+    const generation = this.decisionGeneration
     const context: ConversationContext = {
       recentConversations: this.recentConversationsCache.get(characterId) ?? [],
       midTermMemories: this.midTermMemoriesCache.get(characterId) ?? [],
       todayActions: this.getActionHistoryForCharacter(characterId),
       schedule: this.getScheduleForCharacter(characterId),
-      currentTime: this.worldState.getTime(),
+      currentTime,
       nearbyMaps: this.buildNearbyMaps(character.currentMapId),
+      calendar: this.calendar.getDay(currentTime.day),
+      townEvents: this.calendar.getEvents(currentTime),
+      isStale: () => generation !== this.decisionGeneration,
     }
 
     // Start async conversation loop (fire and forget)
     this.conversationExecutor.executeConversation(character, npc, session, context)
       .catch(error => {
-        console.error(`[SimulationEngine] Conversation execution error:`, error)
+        logger.error(`[SimulationEngine] Conversation execution error:`, error)
       })
   }
 
@@ -1118,7 +1754,9 @@ export class SimulationEngine {
     actionId: ActionId,
     targetFacilityId?: string,
     reason?: string,
-    durationMinutes?: number
+    durationMinutes?: number,
+    itemId?: string,
+    orderId?: string
   ): void {
     const currentMap = this.worldState.getMap(character.currentMapId)
 
@@ -1152,14 +1790,22 @@ export class SimulationEngine {
       isInsideTargetFacility = isNodeAtFacility(character.currentNodeId, obstacle, gridPrefix)
     }
 
+    // Already inside a full target facility: wait in line (handled by checkPendingActions)
+    if (targetFacilityId && isInsideTargetFacility && obstacle && this.actionExecutor.isFacilityFull(obstacle, facilityMapId, character.id)) {
+      this.worldState.updateCharacter(character.id, {
+        pendingAction: { actionId, facilityId: targetFacilityId, facilityMapId, reason, durationMinutes, itemId, orderId },
+      })
+      return
+    }
+
     // Execute immediately if: no specific facility OR already inside target facility
     if (!targetFacilityId || isInsideTargetFacility) {
-      const success = this.actionExecutor.startAction(character.id, actionId, targetFacilityId, undefined, durationMinutes, reason)
+      const success = this.actionExecutor.startAction(character.id, actionId, targetFacilityId, undefined, durationMinutes, reason, itemId, orderId)
       if (success) {
         const durationStr = durationMinutes !== undefined ? ` (${durationMinutes}min)` : ''
-        console.log(`[SimulationEngine] ${character.name} started action: ${actionId}${durationStr} (${reason})${targetFacilityId ? ` at facility: ${targetFacilityId}` : ''}`)
+        logger.info(`[SimulationEngine] ${character.name} started action: ${actionId}${durationStr} (${reason})${targetFacilityId ? ` at facility: ${targetFacilityId}` : ''}`)
       } else {
-        console.log(`[SimulationEngine] ${character.name} failed to start action: ${actionId}, triggering re-decision`)
+        logger.info(`[SimulationEngine] ${character.name} failed to start action: ${actionId}, triggering re-decision`)
         this.triggerActionDecision(character)
       }
       return
@@ -1167,14 +1813,14 @@ export class SimulationEngine {
 
     // Not inside target facility - need to navigate first
     if (!obstacle) {
-      console.log(`[SimulationEngine] ${character.name} target facility ${targetFacilityId} not found`)
+      logger.info(`[SimulationEngine] ${character.name} target facility ${targetFacilityId} not found`)
       this.triggerActionDecision(character)
       return
     }
 
     const facilityMap = this.worldState.getMap(facilityMapId)
     if (!facilityMap) {
-      console.log(`[SimulationEngine] ${character.name} cannot find map ${facilityMapId} for facility ${targetFacilityId}`)
+      logger.info(`[SimulationEngine] ${character.name} cannot find map ${facilityMapId} for facility ${targetFacilityId}`)
       this.triggerActionDecision(character)
       return
     }
@@ -1183,7 +1829,7 @@ export class SimulationEngine {
     const gridPrefix = facilityMap.nodes[0]?.id.split('-')[0] || facilityMapId
     const targetNodeId = getFacilityTargetNode(obstacle, facilityMap.nodes, gridPrefix)
     if (!targetNodeId) {
-      console.log(`[SimulationEngine] ${character.name} cannot find target node for facility ${targetFacilityId}`)
+      logger.info(`[SimulationEngine] ${character.name} cannot find target node for facility ${targetFacilityId}`)
       this.triggerActionDecision(character)
       return
     }
@@ -1195,6 +1841,8 @@ export class SimulationEngine {
       facilityMapId,
       reason,
       durationMinutes,
+      itemId,
+      orderId,
     }
 
     this.worldState.updateCharacter(character.id, { pendingAction })
@@ -1204,10 +1852,10 @@ export class SimulationEngine {
       // Same map: start local navigation
       const startResult = this.characterSimulator.navigateToNode(character.id, targetNodeId)
       if (startResult) {
-        console.log(`[SimulationEngine] ${character.name} moving to facility ${targetFacilityId} (${reason})`)
+        logger.info(`[SimulationEngine] ${character.name} moving to facility ${targetFacilityId} (${reason})`)
       } else {
         this.worldState.updateCharacter(character.id, { pendingAction: null })
-        console.log(`[SimulationEngine] ${character.name} failed to start navigation to facility ${targetFacilityId}`)
+        logger.info(`[SimulationEngine] ${character.name} failed to start navigation to facility ${targetFacilityId}`)
         this.triggerActionDecision(character)
       }
     } else {
@@ -1218,10 +1866,10 @@ export class SimulationEngine {
         targetNodeId
       )
       if (crossMapResult) {
-        console.log(`[SimulationEngine] ${character.name} moving to facility ${targetFacilityId} on map ${facilityMapId} (${reason})`)
+        logger.info(`[SimulationEngine] ${character.name} moving to facility ${targetFacilityId} on map ${facilityMapId} (${reason})`)
       } else {
         this.worldState.updateCharacter(character.id, { pendingAction: null })
-        console.log(`[SimulationEngine] ${character.name} failed to start cross-map navigation to facility ${targetFacilityId}`)
+        logger.info(`[SimulationEngine] ${character.name} failed to start cross-map navigation to facility ${targetFacilityId}`)
         this.triggerActionDecision(character)
       }
     }
@@ -1229,15 +1877,102 @@ export class SimulationEngine {
 
   // Trigger a new action decision for a character (used after action/navigation failure)
   private triggerActionDecision(character: SimCharacter): void {
+    // A failed step invalidates the rest of the plan
+    this.clearPlan(character.id, 'step failed')
     // Schedule for next event loop tick to ensure pendingDecisions is cleared.
     // This is called from within makeBehaviorDecision's .then() block,
     // where pendingDecisions is still set until .finally() runs.
     this.scheduleNextDecision(character.id, 0)
   }
 
+  /**
+   * Build a plan from the follow-up steps of a decision (idle decisions never plan)
+   */
+  private createPlan(decision: BehaviorDecision): ActionPlan | null {
+    if (decision.type === 'idle' || !decision.plan?.length) return null
+    return { goal: decision.reason ?? '', steps: decision.plan }
+  }
+
+  /**
+   * Start the next step of the character's plan
+   * Returns false when there is no step to run; a failed precondition abandons the plan
+   * so that the caller re-plans with a new decision.
+   */
+  private startNextPlanStep(characterId: string): boolean {
+    const character = this.worldState.getCharacter(characterId)
+    const plan = character?.plan
+    if (!character || !plan) return false
+
+    const [step, ...rest] = plan.steps
+    if (!step) {
+      this.worldState.updateCharacter(characterId, { plan: null })
+      return false
+    }
+
+    const failure = this.checkPlanPrecondition(character, step)
+    if (failure) {
+      this.clearPlan(characterId, failure)
+      return false
+    }
+
+    this.worldState.updateCharacter(characterId, { plan: rest.length > 0 ? { ...plan, steps: rest } : null })
+
+    // Already on the target map: go straight to the following step
+    if (step.type === 'move' && step.targetMapId === character.currentMapId) {
+      return this.startNextPlanStep(characterId)
+    }
+
+    logger.info(`[SimulationEngine] ${character.name} continuing plan: ${step.type} ${step.actionId ?? step.targetMapId ?? ''} (${plan.goal})`)
+    const current = this.worldState.getCharacter(characterId) ?? character
+    this.applyBehaviorDecision(current, this.planStepToDecision(step), 'plan')
+    return true
+  }
+
+  // Check the preconditions of a plan step (returns the failure reason, or null when satisfied)
+  private checkPlanPrecondition(character: SimCharacter, step: PlanStep): string | null {
+    const { minMoney, notAfter } = step.precondition ?? {}
+    if (minMoney !== undefined && character.money < minMoney) {
+      return `not enough money (${character.money} < ${minMoney})`
+    }
+    const limit = notAfter ? parseTimeString(notAfter) : null
+    if (limit && timeToMinutes(this.worldState.getTime()) > limit.hour * 60 + limit.minute) {
+      return `too late to start (after ${notAfter})`
+    }
+    return null
+  }
+
+  // Convert a plan step into a behavior decision
+  private planStepToDecision(step: PlanStep): BehaviorDecision {
+    switch (step.type) {
+      case 'move':
+        return { type: 'move', targetMapId: step.targetMapId, reason: step.reason }
+      case 'talk':
+        return { type: 'action', actionId: 'talk', targetNpcId: step.targetNpcId, reason: step.reason }
+      case 'action':
+        return {
+          type: 'action',
+          actionId: step.actionId,
+          targetFacilityId: step.targetFacilityId,
+          reason: step.reason,
+          durationMinutes: step.durationMinutes,
+          itemId: step.itemId,
+          orderId: step.orderId,
+        }
+    }
+  }
+
+  // Abandon the character's plan (the next decision re-plans)
+  private clearPlan(characterId: string, reason: string): void {
+    const character = this.worldState.getCharacter(characterId)
+    if (!character?.plan) return
+    logger.info(`[SimulationEngine] ${character.name} abandoned plan (${character.plan.goal}): ${reason}`)
+    this.worldState.updateCharacter(characterId, { plan: null })
+  }
+
   // Schedule next behavior decision after a delay (used for idle state and re-trigger)
+  // delayMs is real time at the current time scale, so a manual clock waits the same world time
   private scheduleNextDecision(characterId: string, delayMs: number): void {
-    setTimeout(() => {
+    this.clock.schedule(() => {
       if (this.pendingDecisions.has(characterId)) return
 
       const character = this.worldState.getCharacter(characterId)
@@ -1246,7 +1981,7 @@ export class SimulationEngine {
 
       const currentTime = this.worldState.getTime()
       this.makeBehaviorDecision(character, currentTime)
-    }, delayMs)
+    }, this.clock.toWorldMs(delayMs))
   }
 
   // Generate cache key for character-day based data
@@ -1274,8 +2009,10 @@ export class SimulationEngine {
 
     for (const obstacle of map.obstacles) {
       if (!obstacle.facility) continue
+      // 営業時間外の施設は除外
+      if (!this.actionExecutor.isFacilityOpenNow(obstacle.facility)) continue
 
-      const availableActions = getActionsForTags(obstacle.facility.tags)
+      const availableActions = getActionsForTags(obstacle.facility.tags, this.actionExecutor.getActionConfigs())
       if (availableActions.length === 0) continue
 
       facilities.push({
@@ -1284,12 +2021,41 @@ export class SimulationEngine {
         tags: obstacle.facility.tags,
         cost: obstacle.facility.cost,
         availableActions,
+        weatherModifier: this.getFacilityWeatherModifier(obstacle.facility),
+        catalog: obstacle.facility.catalog,
+        capacity: obstacle.facility.capacity,
+        occupancy: this.getFacilityOccupancyForPrompt(obstacle, mapId),
+        closingTime: this.getFacilityClosingTime(obstacle.facility),
       })
     }
 
     return facilities
   }
 
+  /**
+   * 施設の利用人数（定員がない施設は undefined）
+   */
+  private getFacilityOccupancyForPrompt(obstacle: Obstacle, mapId: string): number | undefined {
+    if (obstacle.facility?.capacity === undefined) return undefined
+    return this.actionExecutor.getFacilityOccupancy(mapId, obstacle.id)
+  }
+
+  /**
+   * 営業中の施設の本日の閉店時刻（24時間・終日営業は undefined）
+   */
+  private getFacilityClosingTime(facility: FacilityInfo): string | undefined {
+    const minutes = timeToMinutes(this.worldState.getTime())
+    return getClosingTime(facility, this.actionExecutor.getCurrentWeekday(), minutes) ?? undefined
+  }
+
+  /**
+   * 天候による施設の魅力補正（補正なしは undefined）
+   */
+  private getFacilityWeatherModifier(facility: FacilityInfo): number | undefined {
+    const modifier = this.weatherSystem.getFacilityModifier(this.getWeather(), facility)
+    return modifier !== 0 ? modifier : undefined
+  }
+
   /**
    * BFSで3ホップ以内のマップを探索し、各マップに対してコールバックを呼び出す
    */
@@ -1337,9 +2103,11 @@ export class SimulationEngine {
       const facilities: NearbyFacility[] = []
       for (const obstacle of map.obstacles) {
         if (!obstacle.facility) continue
+        // 営業時間外の施設は除外
+        if (!this.actionExecutor.isFacilityOpenNow(obstacle.facility)) continue
 
         // Calculate available actions from facility tags
-        const availableActions = getActionsForTags(obstacle.facility.tags)
+        const availableActions = getActionsForTags(obstacle.facility.tags, this.actionExecutor.getActionConfigs())
 
         facilities.push({
           id: obstacle.id,
@@ -1350,6 +2118,11 @@ export class SimulationEngine {
           distance,
           mapId,
           availableActions: availableActions.length > 0 ? availableActions : undefined,
+          weatherModifier: this.getFacilityWeatherModifier(obstacle.facility),
+          catalog: obstacle.facility.catalog,
+          capacity: obstacle.facility.capacity,
+          occupancy: this.getFacilityOccupancyForPrompt(obstacle, mapId),
+          closingTime: this.getFacilityClosingTime(obstacle.facility),
         })
       }
       return facilities
@@ -1382,7 +2155,7 @@ export class SimulationEngine {
         // Add new entry and sort by time
         entries.push(entry)
         entries.sort((a, b) => a.time.localeCompare(b.time))
-        console.log(`[SimulationEngine] Schedule add: ${entry.time} ${entry.activity}`)
+        logger.info(`[SimulationEngine] Schedule add: ${entry.time} ${entry.activity}`)
         break
 
       case 'remove':
@@ -1392,9 +2165,9 @@ export class SimulationEngine {
         )
         if (removeIndex >= 0) {
           entries.splice(removeIndex, 1)
-          console.log(`[SimulationEngine] Schedule remove: ${entry.time} ${entry.activity}`)
+          logger.info(`[SimulationEngine] Schedule remove: ${entry.time} ${entry.activity}`)
         } else {
-          console.log(`[SimulationEngine] Schedule remove: entry not found (${entry.time} ${entry.activity})`)
+          logger.info(`[SimulationEngine] Schedule remove: entry not found (${entry.time} ${entry.activity})`)
         }
         break
 
@@ -1403,18 +2176,19 @@ export class SimulationEngine {
         const modifyIndex = entries.findIndex(e => e.time === entry.time)
         if (modifyIndex >= 0) {
           entries[modifyIndex] = entry
-          console.log(`[SimulationEngine] Schedule modify: ${entry.time} -> ${entry.activity}`)
+          logger.info(`[SimulationEngine] Schedule modify: ${entry.time} -> ${entry.activity}`)
         } else {
           // If not found, add as new entry
           entries.push(entry)
           entries.sort((a, b) => a.time.localeCompare(b.time))
-          console.log(`[SimulationEngine] Schedule modify (not found, added): ${entry.time} ${entry.activity}`)
+          logger.info(`[SimulationEngine] Schedule modify (not found, added): ${entry.time} ${entry.activity}`)
         }
         break
     }
 
     // Update cache
     this.scheduleCache.set(cacheKey, entries)
+    this.recordJournalEvent({ type: 'schedule_updated', characterId, day: currentDay, entries: [...entries] })
 
     // Persist to DB (async, non-blocking)
     if (this.stateStore) {
@@ -1424,7 +2198,7 @@ export class SimulationEngine {
         entries,
       }
       this.stateStore.saveSchedule(schedule).catch(error => {
-        console.error(`[SimulationEngine] Error saving schedule update:`, error)
+        logger.error(`[SimulationEngine] Error saving schedule update:`, error)
       })
     }
   }
@@ -1442,10 +2216,10 @@ export class SimulationEngine {
         if (!existing) {
           // Seed from default schedules
           await this.stateStore.saveSchedule({ characterId, day: currentDay, entries })
-          console.log(`[SimulationEngine] Seeded default schedule for ${characterId} (day ${currentDay})`)
+          logger.info(`[SimulationEngine] Seeded default schedule for ${characterId} (day ${currentDay})`)
         }
       } catch (error) {
-        console.error(`[SimulationEngine] Error seeding schedule for ${characterId}:`, error)
+        logger.error(`[SimulationEngine] Error seeding schedule for ${characterId}:`, error)
       }
     }
   }
@@ -1463,10 +2237,10 @@ export class SimulationEngine {
         if (schedule) {
           const cacheKey = this.characterDayCacheKey(char.id, currentDay)
           this.scheduleCache.set(cacheKey, schedule.entries)
-          console.log(`[SimulationEngine] Loaded schedule for ${char.name} (day ${currentDay}) from DB`)
+          logger.info(`[SimulationEngine] Loaded schedule for ${char.name} (day ${currentDay}) from DB`)
         }
       } catch (error) {
-        console.error(`[SimulationEngine] Error loading schedule for ${char.id}:`, error)
+        logger.error(`[SimulationEngine] Error loading schedule for ${char.id}:`, error)
       }
     }
   }
@@ -1528,8 +2302,15 @@ export class SimulationEngine {
     })
     this.actionHistoryCache.set(cacheKey, cached)
 
-    // Persist to DB (async, non-blocking) - these are instant actions, use legacy API
-    if (this.stateStore) {
+    // Persist to DB (async, non-blocking)
+    // talk is started as a timed action, so close its in-progress row; other entries are instant actions (legacy API)
+    const rowId = entry.actionId === 'talk' ? this.activeActionRowIds.get(entry.characterId) : undefined
+    if (rowId && this.stateStore) {
+      this.activeActionRowIds.delete(entry.characterId)
+      this.stateStore.completeActionHistory(rowId, timeStr).catch(error => {
+        logger.error(`[SimulationEngine] Error completing action history:`, error)
+      })
+    } else if (this.stateStore) {
       this.stateStore.addActionHistory({
         characterId: entry.characterId,
         day: currentDay,
@@ -1539,11 +2320,20 @@ export class SimulationEngine {
         durationMinutes: entry.durationMinutes,
         reason: entry.reason,
       }).catch(error => {
-        console.error(`[SimulationEngine] Error saving action history:`, error)
+        logger.error(`[SimulationEngine] Error saving action history:`, error)
       })
     }
 
-    console.log(`[SimulationEngine] Recorded action history: ${entry.characterId} ${timeStr} ${entry.actionId}${target ? ` → ${target}` : ''}`)
+    logger.info(`[SimulationEngine] Recorded action history: ${entry.characterId} ${timeStr} ${entry.actionId}${target ? ` → ${target}` : ''}`)
+
+    this.recordJournalEvent({
+      type: 'action_completed',
+      characterId: entry.characterId,
+      actionId: entry.actionId,
+      target,
+      durationMinutes: entry.durationMinutes,
+      reason: entry.reason,
+    })
 
     // Notify log subscribers (completed status for instant actions)
     this.notifyLogSubscribersAction({
@@ -1565,6 +2355,7 @@ export class SimulationEngine {
     targetNpcId?: string
     durationMinutes?: number
     reason?: string
+    receipt?: Receipt
     startTimeReal: number
   }): void {
     const currentTime = this.worldState.getTime()
@@ -1586,12 +2377,22 @@ export class SimulationEngine {
       }).then(rowId => {
         // Store rowId for later completion
         this.activeActionRowIds.set(entry.characterId, rowId)
-        console.log(`[SimulationEngine] Action started (rowId=${rowId}): ${entry.characterId} ${timeStr} ${entry.actionId}`)
+        logger.info(`[SimulationEngine] Action started (rowId=${rowId}): ${entry.characterId} ${timeStr} ${entry.actionId}`)
       }).catch(error => {
-        console.error(`[SimulationEngine] Error starting action history:`, error)
+        logger.error(`[SimulationEngine] Error starting action history:`, error)
       })
     }
 
+    this.recordJournalEvent({
+      type: 'action_started',
+      characterId: entry.characterId,
+      actionId: entry.actionId,
+      target,
+      durationMinutes: entry.durationMinutes,
+      reason: entry.reason,
+      targetEndTime: this.worldState.getCharacter(entry.characterId)?.currentAction?.targetEndTime,
+    })
+
     // Notify log subscribers (started status)
     this.notifyLogSubscribersAction({
       characterId: entry.characterId,
@@ -1599,6 +2400,7 @@ export class SimulationEngine {
       target,
       durationMinutes: entry.durationMinutes,
       reason: entry.reason,
+      receipt: entry.receipt,
       time: timeStr,
       status: 'started',
     })
@@ -1612,6 +2414,7 @@ export class SimulationEngine {
     targetNpcId?: string
     durationMinutes?: number
     reason?: string
+    receipt?: Receipt
   }): void {
     const currentTime = this.worldState.getTime()
     const currentDay = currentTime.day
@@ -1627,6 +2430,7 @@ export class SimulationEngine {
       target,
       durationMinutes: entry.durationMinutes,
       reason: entry.reason,
+      receipt: entry.receipt,
     })
     this.actionHistoryCache.set(cacheKey, cached)
 
@@ -1636,10 +2440,10 @@ export class SimulationEngine {
       this.stateStore.completeActionHistory(rowId, timeStr)
         .then(() => {
           this.activeActionRowIds.delete(entry.characterId)
-          console.log(`[SimulationEngine] Action completed (rowId=${rowId}): ${entry.characterId} ${timeStr} ${entry.actionId}`)
+          logger.info(`[SimulationEngine] Action completed (rowId=${rowId}): ${entry.characterId} ${timeStr} ${entry.actionId}`)
         })
         .catch(error => {
-          console.error(`[SimulationEngine] Error completing action history:`, error)
+          logger.error(`[SimulationEngine] Error completing action history:`, error)
         })
     } else {
       // Fallback: if no rowId (e.g., restored action), use legacy API
@@ -1653,11 +2457,20 @@ export class SimulationEngine {
           durationMinutes: entry.durationMinutes,
           reason: entry.reason,
         }).catch(error => {
-          console.error(`[SimulationEngine] Error saving action history (fallback):`, error)
+          logger.error(`[SimulationEngine] Error saving action history (fallback):`, error)
         })
       }
     }
 
+    this.recordJournalEvent({
+      type: 'action_completed',
+      characterId: entry.characterId,
+      actionId: entry.actionId,
+      target,
+      durationMinutes: entry.durationMinutes,
+      reason: entry.reason,
+    })
+
     // Notify log subscribers (completed status)
     this.notifyLogSubscribersAction({
       characterId: entry.characterId,
@@ -1673,10 +2486,96 @@ export class SimulationEngine {
     const facility = this.actionExecutor.getCurrentFacility(entry.characterId)
     this.generateMiniEpisode(entry.characterId, entry.actionId as ActionId, facility, timeStr, currentDay)
       .catch(error => {
-        console.error('[SimulationEngine] Error in generateMiniEpisode:', error)
+        logger.error('[SimulationEngine] Error in generateMiniEpisode:', error)
       })
   }
 
+  // Cancel action history record (records elapsed time, applied effects and the cancel reason)
+  private cancelActionHistoryRecord(entry: {
+    characterId: string
+    actionId: string
+    facilityId?: string
+    targetNpcId?: string
+    reason?: string
+    receipt?: Receipt
+    cancelReason: ActionCancelReason
+    elapsedMinutes: number
+    appliedEffects: AppliedEffects
+  }): void {
+    const currentTime = this.worldState.getTime()
+    const currentDay = currentTime.day
+    const timeStr = this.formatTimeString(currentTime)
+    const target = entry.facilityId ?? entry.targetNpcId
+
+    // Update cache (cancelled action, duration = elapsed time)
+    const cacheKey = this.characterDayCacheKey(entry.characterId, currentDay)
+    const cached = this.actionHistoryCache.get(cacheKey) ?? []
+    cached.push({
+      time: timeStr,
+      actionId: entry.actionId,
+      target,
+      durationMinutes: entry.elapsedMinutes,
+      reason: entry.reason,
+      receipt: entry.receipt,
+      cancelReason: entry.cancelReason,
+      appliedEffects: entry.appliedEffects,
+    })
+    this.actionHistoryCache.set(cacheKey, cached)
+
+    // Cancel in DB using stored rowId
+    const rowId = this.activeActionRowIds.get(entry.characterId)
+    if (rowId && this.stateStore) {
+      this.activeActionRowIds.delete(entry.characterId)
+      this.stateStore.cancelActionHistory(rowId, {
+        endTime: timeStr,
+        cancelReason: entry.cancelReason,
+        elapsedMinutes: entry.elapsedMinutes,
+        appliedEffects: entry.appliedEffects,
+      }).then(() => {
+        logger.info(`[SimulationEngine] Action cancelled (rowId=${rowId}): ${entry.characterId} ${timeStr} ${entry.actionId} (${entry.cancelReason})`)
+      }).catch(error => {
+        logger.error(`[SimulationEngine] Error cancelling action history:`, error)
+      })
+    } else if (this.stateStore) {
+      // Fallback: if no rowId (e.g., restored action), use legacy API
+      this.stateStore.addActionHistory({
+        characterId: entry.characterId,
+        day: currentDay,
+        time: timeStr,
+        actionId: entry.actionId,
+        target,
+        durationMinutes: entry.elapsedMinutes,
+        reason: entry.reason,
+        cancelReason: entry.cancelReason,
+        appliedEffects: entry.appliedEffects,
+      }).catch(error => {
+        logger.error(`[SimulationEngine] Error saving action history (fallback):`, error)
+      })
+    }
+
+    this.recordJournalEvent({
+      type: 'action_cancelled',
+      characterId: entry.characterId,
+      actionId: entry.actionId,
+      target,
+      cancelReason: entry.cancelReason,
+      elapsedMinutes: entry.elapsedMinutes,
+      appliedEffects: entry.appliedEffects,
+    })
+
+    // Notify log subscribers (cancelled status)
+    this.notifyLogSubscribersAction({
+      characterId: entry.characterId,
+      actionId: entry.actionId,
+      target,
+      durationMinutes: entry.elapsedMinutes,
+      reason: entry.reason,
+      cancelReason: entry.cancelReason,
+      time: timeStr,
+      status: 'cancelled',
+    })
+  }
+
   // Generate mini episode after action completion (async)
   private async generateMiniEpisode(
     characterId: string,
@@ -1688,8 +2587,13 @@ export class SimulationEngine {
     const character = this.worldState.getCharacter(characterId)
     if (!character) return
 
-    const result = await this.miniEpisodeGenerator.generate(character, actionId, facility)
+    const generation = this.decisionGeneration
+    const result = await this.miniEpisodeGenerator.generate(character, actionId, facility, { weather: this.getWeather() })
     if (!result) return
+    if (generation !== this.decisionGeneration) {
+      logger.info(`[SimulationEngine] Dropping stale mini episode for ${character.name} (generated before snapshot restore)`)
+      return
+    }
 
     // Apply stat changes (clamp each to 0-100)
     if (Object.keys(result.statChanges).length > 0) {
@@ -1720,7 +2624,7 @@ export class SimulationEngine {
     if (this.stateStore) {
       this.stateStore.updateActionHistoryEpisode(characterId, day, time, result.episode)
         .catch(error => {
-          console.error('[SimulationEngine] Error updating episode in DB:', error)
+          logger.error('[SimulationEngine] Error updating episode in DB:', error)
         })
     }
 
@@ -1768,14 +2672,116 @@ export class SimulationEngine {
         if (history.length > 0) {
           const cacheKey = this.characterDayCacheKey(char.id, currentDay)
           this.actionHistoryCache.set(cacheKey, history)
-          console.log(`[SimulationEngine] Loaded ${history.length} action history entries for ${char.name} (day ${currentDay})`)
+          logger.info(`[SimulationEngine] Loaded ${history.length} action history entries for ${char.name} (day ${currentDay})`)
+        }
+      } catch (error) {
+        logger.error(`[SimulationEngine] Error loading action history for ${char.id}:`, error)
+      }
+    }
+  }
+
+  // Record a money transaction (ledger) and update the daily summary cache
+  private recordTransaction(entry: {
+    characterId: string
+    amount: number
+    balanceAfter: number
+    category: TransactionCategory
+    reason: string
+    facilityId?: string
+    jobId?: string
+  }): void {
+    const currentTime = this.worldState.getTime()
+    const transaction: Transaction = {
+      ...entry,
+      day: currentTime.day,
+      time: this.formatTimeString(currentTime),
+    }
+
+    const summaries = (this.moneySummaryCache.get(entry.characterId) ?? [])
+      .filter(s => s.day > transaction.day - SimulationEngine.MONEY_SUMMARY_DAYS)
+    let summary = summaries.find(s => s.day === transaction.day)
+    if (!summary) {
+      summary = { day: transaction.day, income: 0, expense: 0 }
+      summaries.push(summary)
+    }
+    if (entry.amount > 0) summary.income += entry.amount
+    else summary.expense -= entry.amount
+    this.moneySummaryCache.set(entry.characterId, summaries)
+
+    if (this.stateStore) {
+      this.stateStore.addTransaction(transaction).catch(error => {
+        logger.error(`[SimulationEngine] Error saving transaction:`, error)
+      })
+    }
+
+    logger.info(`[SimulationEngine] Recorded transaction: ${entry.characterId} ${transaction.time} ${entry.amount > 0 ? '+' : ''}${entry.amount} (${entry.reason})`)
+  }
+
+  // Get recent daily money summaries for a character (newest first, days without transactions are zero)
+  private getMoneySummaryForCharacter(characterId: string): DailyMoneySummary[] {
+    const currentDay = this.worldState.getTime().day
+    const cached = this.moneySummaryCache.get(characterId) ?? []
+    const summaries: DailyMoneySummary[] = []
+    for (let day = currentDay; day > currentDay - SimulationEngine.MONEY_SUMMARY_DAYS && day >= 1; day--) {
+      summaries.push(cached.find(s => s.day === day) ?? { day, income: 0, expense: 0 })
+    }
+    return summaries
+  }
+
+  // Load recent daily money summaries from DB into cache for all characters
+  async loadMoneySummaryCache(): Promise<void> {
+    if (!this.stateStore) return
+
+    const fromDay = this.worldState.getTime().day - SimulationEngine.MONEY_SUMMARY_DAYS + 1
+    for (const char of this.worldState.getAllCharacters()) {
+      try {
+        const summaries = await this.stateStore.loadDailyMoneySummaries(char.id, fromDay)
+        if (summaries.length > 0) {
+          this.moneySummaryCache.set(char.id, summaries)
         }
       } catch (error) {
-        console.error(`[SimulationEngine] Error loading action history for ${char.id}:`, error)
+        logger.error(`[SimulationEngine] Error loading money summaries for ${char.id}:`, error)
       }
     }
   }
 
+  /**
+   * Get a character's pending wages and attendance records (for API)
+   * @returns null if the character does not exist
+   */
+  async getCharacterPayroll(
+    characterId: string,
+    fromDay: number = 1
+  ): Promise<{ payroll: PayrollSummary[]; attendance: AttendanceRecord[] } | null> {
+    const character = this.worldState.getCharacter(characterId)
+    if (!character) return null
+    const payroll = getPayrollSummaries(character, this.jobMarket.getPostingsById(), this.worldState.getTime().day)
+    const attendance = this.stateStore ? await this.stateStore.loadAttendance(characterId, fromDay) : []
+    return { payroll, attendance }
+  }
+
+  /**
+   * Get a character's transaction ledger and recurring expenses (for API)
+   * @returns null if the character does not exist
+   */
+  async getCharacterLedger(
+    characterId: string,
+    query: { day?: number; limit?: number } = {}
+  ): Promise<{ transactions: Transaction[]; dailySummaries: DailyMoneySummary[]; recurringExpenses: RecurringExpenseStatus[] } | null> {
+    const character = this.worldState.getCharacter(characterId)
+    if (!character) return null
+    const recurringExpenses = getExpenseStatuses(character, this.worldState.getMaps(), this.worldState.getTime().day)
+    if (!this.stateStore) return { transactions: [], dailySummaries: [], recurringExpenses }
+
+    const transactions = await this.stateStore.loadTransactions(characterId, query)
+    const dailySummaries = await this.stateStore.loadDailyMoneySummaries(characterId, query.day ?? 1)
+    return {
+      transactions,
+      dailySummaries: query.day !== undefined ? dailySummaries.filter(s => s.day === query.day) : dailySummaries,
+      recurringExpenses,
+    }
+  }
+
   // Load mid-term memories from DB into cache for all characters
   async loadMidTermMemoriesCache(): Promise<void> {
     if (!this.stateStore) return
@@ -1790,10 +2796,10 @@ export class SimulationEngine {
         const memories = await this.stateStore.loadActiveMidTermMemories(char.id, currentDay)
         if (memories.length > 0) {
           this.midTermMemoriesCache.set(char.id, memories)
-          console.log(`[SimulationEngine] Loaded ${memories.length} mid-term memories for ${char.name}`)
+          logger.info(`[SimulationEngine] Loaded ${memories.length} mid-term memories for ${char.name}`)
         }
       } catch (error) {
-        console.error(`[SimulationEngine] Error loading mid-term memories for ${char.id}:`, error)
+        logger.error(`[SimulationEngine] Error loading mid-term memories for ${char.id}:`, error)
       }
     }
   }
@@ -1818,7 +2824,7 @@ export class SimulationEngine {
       try {
         await this.stateStore.updateActiveActionProgress(rowId, statsSnapshot)
       } catch (error) {
-        console.error(`[SimulationEngine] Error updating active action progress for ${characterId}:`, error)
+        logger.error(`[SimulationEngine] Error updating active action progress for ${characterId}:`, error)
       }
     }
   }
@@ -1829,7 +2835,7 @@ export class SimulationEngine {
 
     const deleted = await this.stateStore.deleteExpiredMidTermMemories(currentDay)
     if (deleted > 0) {
-      console.log(`[SimulationEngine] Deleted ${deleted} expired mid-term memories`)
+      logger.info(`[SimulationEngine] Deleted ${deleted} expired mid-term memories`)
     }
 
     // Reload cache from DB (reflects deletions)
@@ -1841,14 +2847,14 @@ export class SimulationEngine {
     if (!this.stateStore) return
 
     const activeActions = await this.stateStore.loadActiveActions()
-    const now = Date.now()
+    const now = this.clock.now()
 
     for (const entry of activeActions) {
       const character = this.worldState.getCharacter(entry.characterId)
       if (!character) {
         // Character doesn't exist anymore, complete the action
         await this.stateStore.completeActionHistory(entry.rowId, entry.time, undefined)
-        console.log(`[SimulationEngine] Orphan active action completed: rowId=${entry.rowId}`)
+        logger.info(`[SimulationEngine] Orphan active action completed: rowId=${entry.rowId}`)
         continue
       }
 
@@ -1861,7 +2867,7 @@ export class SimulationEngine {
         const currentTime = this.worldState.getTime()
         const endTimeStr = this.formatTimeString(currentTime)
         await this.stateStore.completeActionHistory(entry.rowId, endTimeStr, undefined)
-        console.log(`[SimulationEngine] Expired active action completed: ${character.name} ${entry.actionId} (rowId=${entry.rowId})`)
+        logger.info(`[SimulationEngine] Expired active action completed: ${character.name} ${entry.actionId} (rowId=${entry.rowId})`)
 
         // Notify log subscribers (completed status)
         this.notifyLogSubscribersAction({
@@ -1891,7 +2897,7 @@ export class SimulationEngine {
 
         const remainingMs = targetEndTime - now
         const remainingMin = Math.ceil(remainingMs / 60000)
-        console.log(`[SimulationEngine] Restored active action: ${character.name} ${entry.actionId} (${remainingMin}min remaining, rowId=${entry.rowId})`)
+        logger.info(`[SimulationEngine] Restored active action: ${character.name} ${entry.actionId} (${remainingMin}min remaining, rowId=${entry.rowId})`)
       }
     }
   }
@@ -1920,7 +2926,7 @@ export class SimulationEngine {
       totalEntries += arr.length
     }
     if (totalEntries > 0) {
-      console.log(`[SimulationEngine] Loaded ${totalEntries} recent conversations for day ${currentDay}`)
+      logger.info(`[SimulationEngine] Loaded ${totalEntries} recent conversations for day ${currentDay}`)
     }
   }
 
@@ -1944,6 +2950,9 @@ export class SimulationEngine {
           target: entry.target,
           durationMinutes: entry.durationMinutes,
           reason: entry.reason,
+          receipt: entry.receipt,
+          cancelReason: entry.cancelReason,
+          status: entry.cancelReason ? 'cancelled' : undefined,
         })
       }
     }
@@ -1969,7 +2978,7 @@ export class SimulationEngine {
           })
         }
       } catch (error) {
-        console.error('[SimulationEngine] Error loading NPC summaries for today:', error)
+        logger.error('[SimulationEngine] Error loading NPC summaries for today:', error)
       }
     }
 
@@ -1986,7 +2995,7 @@ export class SimulationEngine {
   // Initialize lastDay from current time (called after engine start)
   initializeLastDay(): void {
     this.lastDay = this.worldState.getTime().day
-    console.log(`[SimulationEngine] Initialized lastDay: ${this.lastDay}`)
+    logger.info(`[SimulationEngine] Initialized lastDay: ${this.lastDay}`)
   }
 
   // Subscribe to state changes
@@ -2005,6 +3014,14 @@ export class SimulationEngine {
     }
   }
 
+  // Subscribe to status interrupt events (for monitoring / headless reports)
+  subscribeToInterrupts(callback: StatusInterruptCallback): () => void {
+    this.interruptSubscribers.add(callback)
+    return () => {
+      this.interruptSubscribers.delete(callback)
+    }
+  }
+
   // Dispatch a log entry to all log subscribers
   private emitLogEntry(logEntry: ActivityLogEntry): void {
     if (this.logSubscribers.size === 0) return
@@ -2020,8 +3037,10 @@ export class SimulationEngine {
     target?: string
     durationMinutes?: number
     reason?: string
+    receipt?: Receipt
+    cancelReason?: ActionCancelReason
     time: string
-    status?: 'started' | 'completed'
+    status?: 'started' | 'completed' | 'cancelled'
   }): void {
     const character = this.worldState.getCharacter(entry.characterId)
     this.emitLogEntry({
@@ -2033,6 +3052,8 @@ export class SimulationEngine {
       target: entry.target,
       durationMinutes: entry.durationMinutes,
       reason: entry.reason,
+      receipt: entry.receipt,
+      cancelReason: entry.cancelReason,
       status: entry.status,
     })
   }
@@ -2065,6 +3086,7 @@ export class SimulationEngine {
   ): void {
     const character = this.worldState.getCharacter(characterId)
     const npc = this.fullNPCs.get(npcId)
+    this.recordJournalEvent({ type: 'conversation_message', characterId, npcId, speaker, speakerName, utterance })
     this.emitLogEntry({
       type: 'conversation_message',
       characterId,
@@ -2085,7 +3107,7 @@ export class SimulationEngine {
       try {
         callback(state)
       } catch (error) {
-        console.error('[SimulationEngine] Error in subscriber callback:', error)
+        logger.error('[SimulationEngine] Error in subscriber callback:', error)
       }
     }
   }
@@ -2100,18 +3122,30 @@ export class SimulationEngine {
     return this.worldState.getCharacter(id)
   }
 
+  // Cancel a character's current action (e.g. user command) and trigger the next decision.
+  // thinking and talk cannot be cancelled (decision / conversation in flight). Returns false if nothing was cancelled.
+  cancelCharacterAction(characterId: string, reason: ActionCancelReason): boolean {
+    const action = this.worldState.getCharacter(characterId)?.currentAction
+    if (!action || action.actionId === 'thinking' || action.actionId === 'talk') return false
+
+    this.actionExecutor.cancelAction(characterId, reason)
+    this.onActionComplete(characterId)
+    return true
+  }
+
   // Pause/unpause
   pause(): void {
     this.worldState.setPaused(true)
-    console.log('[SimulationEngine] Paused')
+    this.clock.pause()
+    logger.info('[SimulationEngine] Paused')
   }
 
   unpause(): void {
     this.worldState.setPaused(false)
-    // Reset decay time to avoid applying accumulated decay during pause
-    this.lastDecayTime = Date.now()
+    // World clock was stopped during pause, so no decay accumulates
+    this.clock.resume()
     this.lastTickTime = Date.now() // Reset tick time to avoid large delta
-    console.log('[SimulationEngine] Unpaused')
+    logger.info('[SimulationEngine] Unpaused')
   }
 
   togglePause(): void {
@@ -2135,6 +3169,75 @@ export class SimulationEngine {
     return this.config.tickRate
   }
 
+  // Get world clock time scale (1 = real time)
+  getTimeScale(): number {
+    return this.clock.getTimeScale()
+  }
+
+  // Change world clock time scale at runtime (e.g. 1x, 10x, 60x)
+  setTimeScale(timeScale: number): void {
+    this.clock.setTimeScale(timeScale)
+    logger.info(`[SimulationEngine] Time scale set to ${this.clock.getTimeScale()}x`)
+  }
+
+  // Get random seed (for persistence)
+  getRandomSeed(): number {
+    return this.rng.getSeed()
+  }
+
+  // Set random seed (for restoration from persistence / fixed random sequence)
+  setRandomSeed(seed: number): void {
+    this.rng.setSeed(seed)
+    // Weather is derived from the seed
+    this.worldState.setWeather(null)
+    logger.info(`[SimulationEngine] Random seed: ${this.rng.getSeed()}`)
+  }
+
+  // Get today's weather (computed on first access of the day)
+  getWeather(): WorldWeather {
+    return this.weatherSystem.update(this.worldState, this.rng.getSeed())
+  }
+
+  // Get calendar info for the current world day
+  getCalendarDay(): CalendarDay {
+    return this.calendar.getDay(this.worldState.getTime().day)
+  }
+
+  // Get active and upcoming town events
+  getTownEvents(): TownEventInfo[] {
+    return this.calendar.getEvents(this.worldState.getTime())
+  }
+
+  // Set calendar (world-config.json calendar section)
+  setCalendarConfig(config: CalendarConfig): void {
+    this.calendar.setConfig(config)
+    logger.info(`[SimulationEngine] Calendar config set (${config.holidays?.length ?? 0} holidays, ${config.events?.length ?? 0} events)`)
+  }
+
+  // Set needs model (world-config.json needs section)
+  setNeedsConfig(config: NeedsConfig): void {
+    this.needsModel.setConfig(config)
+    logger.info(`[SimulationEngine] Needs config set (${Object.keys(config.needs).join(', ')})`)
+  }
+
+  // Set facility tag registry (world-config.json facilityTags section)
+  setFacilityTagsConfig(tags: Record<string, FacilityTagConfig>): void {
+    setFacilityTagRegistry(tags)
+    logger.info(`[SimulationEngine] Facility tags config set (${Object.keys(tags).join(', ')})`)
+  }
+
+  // Set climate table (world-config.json climate section)
+  setClimateConfig(climate: ClimateConfig): void {
+    this.weatherSystem.setClimate(climate)
+    this.worldState.setWeather(null)
+    logger.info(`[SimulationEngine] Climate config set (weather: ${this.getWeather().weather})`)
+  }
+
+  // Get world clock (for components that need world time)
+  getWorldClock(): WorldClock {
+    return this.clock
+  }
+
   // Get subscriber count (for monitoring)
   getSubscriberCount(): number {
     return this.subscribers.size
@@ -2161,7 +3264,7 @@ export class SimulationEngine {
     return this.characterSimulator
   }
 
-  // Supplement character profiles with personality, tendencies, customPrompt from config
+  // Supplement character profiles with personality, tendencies, customPrompt (and recurring expenses) from config
   // Called after restoring from persistence where these fields are not saved
   supplementCharacterProfiles(characterConfigs: CharacterConfig[]): void {
     const configMap = new Map(characterConfigs.map(c => [c.id, c]))
@@ -2173,11 +3276,12 @@ export class SimulationEngine {
           personality: config.personality,
           tendencies: config.tendencies,
           customPrompt: config.customPrompt,
+          recurringExpenses: config.recurringExpenses,
         })
       }
     }
 
-    console.log(`[SimulationEngine] Supplemented character profiles for ${characterConfigs.length} characters`)
+    logger.info(`[SimulationEngine] Supplemented character profiles for ${characterConfigs.length} characters`)
   }
 
   // Set action configs for ActionExecutor and LLMBehaviorDecider
@@ -2192,20 +3296,54 @@ export class SimulationEngine {
     if (talkConfig?.turnIntervalMs !== undefined) {
       this.conversationExecutor.setTurnIntervalMs(talkConfig.turnIntervalMs)
     }
-    console.log(`[SimulationEngine] Action configs set`)
+    logger.info(`[SimulationEngine] Action configs set`)
+  }
+
+  // Set item configs for ActionExecutor and LLMBehaviorDecider (world-config.json items section)
+  setItemConfigs(items: Record<string, ItemConfig>): void {
+    this.actionExecutor.setItemConfigs(items)
+    if ('setItemConfigs' in this.behaviorDecider) {
+      (this.behaviorDecider as LLMBehaviorDecider).setItemConfigs(items)
+    }
+    logger.info(`[SimulationEngine] Item configs set (${Object.keys(items).join(', ')})`)
+  }
+
+  // Set facility quality/price effect modifiers (world-config.json facilityModifiers section)
+  setFacilityModifiers(config: FacilityModifiersConfig): void {
+    this.actionExecutor.setFacilityModifiers(config)
+    logger.info(`[SimulationEngine] Facility modifiers set (${Object.keys(config).join(', ')})`)
+  }
+
+  // Set habituation for repeated actions (world-config.json habituation section)
+  setHabituationConfig(config: HabituationConfig): void {
+    this.actionExecutor.setHabituation(config)
+    logger.info(`[SimulationEngine] Habituation config set (window: ${config.windowMinutes}min, decay: ${config.decayPerRepeat})`)
+  }
+
+  // Set overdue handling for recurring expenses (world-config.json expenses section)
+  setExpensesConfig(config: ExpensesConfig): void {
+    this.expensesConfig = config
+    logger.info(`[SimulationEngine] Expenses config set (mood penalty: ${config.overdueMoodPenalty}, eviction after: ${config.evictionOverdueDays} days)`)
+  }
+
+  // Set skill definitions and level bonuses (world-config.json skills section)
+  setSkillsConfig(config: SkillsConfig): void {
+    this.actionExecutor.setSkills(config)
+    this.jobMarket.setSkills(config)
+    logger.info(`[SimulationEngine] Skills config set (${Object.keys(config.definitions).join(', ')})`)
   }
 
   // Set mini episode config (creates LLMMiniEpisodeGenerator if LLM is available)
   async setMiniEpisodeConfig(config: MiniEpisodeConfig): Promise<void> {
     const { isLLMAvailable } = await import('../llm')
     if (!isLLMAvailable()) {
-      console.log(`[SimulationEngine] LLM not available, using StubMiniEpisodeGenerator`)
+      logger.info(`[SimulationEngine] LLM not available, using StubMiniEpisodeGenerator`)
       return
     }
 
     const { LLMMiniEpisodeGenerator } = await import('../episode/LLMMiniEpisodeGenerator')
-    this.miniEpisodeGenerator = new LLMMiniEpisodeGenerator(config.probability)
-    console.log(`[SimulationEngine] MiniEpisodeGenerator set (probability: ${config.probability})`)
+    this.miniEpisodeGenerator = new LLMMiniEpisodeGenerator(config.probability, this.rng)
+    logger.info(`[SimulationEngine] MiniEpisodeGenerator set (probability: ${config.probability})`)
   }
 }
 
@@ -2242,6 +3380,8 @@ const lazyImports = {
   SqliteStore: null as typeof import('../persistence/SqliteStore').SqliteStore | null,
   initializeLLMClient: null as typeof import('../llm').initializeLLMClient | null,
   initializeLLMErrorHandler: null as typeof import('../llm').initializeLLMErrorHandler | null,
+  initializeLLMScheduler: null as typeof import('../llm').initializeLLMScheduler | null,
+  initializeLLMTranscript: null as typeof import('../llm').initializeLLMTranscript | null,
 }
 
 async function getWorldDataLoader(): Promise<typeof import('./dataLoader').loadWorldDataServer> {
@@ -2276,6 +3416,92 @@ async function getInitializeLLMErrorHandler(): Promise<typeof import('../llm').i
   return lazyImports.initializeLLMErrorHandler
 }
 
+async function getInitializeLLMScheduler(): Promise<typeof import('../llm').initializeLLMScheduler> {
+  if (!lazyImports.initializeLLMScheduler) {
+    const imported = await import('../llm')
+    lazyImports.initializeLLMScheduler = imported.initializeLLMScheduler
+  }
+  return lazyImports.initializeLLMScheduler
+}
+
+async function getInitializeLLMTranscript(): Promise<typeof import('../llm').initializeLLMTranscript> {
+  if (!lazyImports.initializeLLMTranscript) {
+    const imported = await import('../llm')
+    lazyImports.initializeLLMTranscript = imported.initializeLLMTranscript
+  }
+  return lazyImports.initializeLLMTranscript
+}
+
+/**
+ * Applies world-config.json sections to the engine and loads its caches.
+ * Shared by the server (ensureEngineInitialized) and the headless runner (scripts/simulate.ts)
+ * so that both run the same wiring. Call after initialize() / restoreFromStore().
+ */
+export async function configureEngine(engine: SimulationEngine, config: WorldConfig): Promise<void> {
+  // Set action configs for ActionExecutor and LLMBehaviorDecider
+  if (config.actions) {
+    engine.setActionConfigs(config.actions)
+  }
+
+  // Set facility tag registry (tag labels, enabled actions, access)
+  // Always set so a registry from a previously configured engine doesn't carry over
+  engine.setFacilityTagsConfig(config.facilityTags ?? {})
+
+  // Set item definitions (buy / carried food)
+  if (config.items) {
+    engine.setItemConfigs(config.items)
+  }
+
+  // Set facility quality/price modifiers on action effects
+  if (config.facilityModifiers) {
+    engine.setFacilityModifiers(config.facilityModifiers)
+  }
+
+  // Set habituation (diminishing mood gain for repeated actions)
+  if (config.habituation) {
+    engine.setHabituationConfig(config.habituation)
+  }
+
+  // Set skills (experience from actions, wage and effect bonuses)
+  if (config.skills) {
+    engine.setSkillsConfig(config.skills)
+  }
+
+  // Set recurring expense overdue handling (mood penalty, eviction)
+  if (config.expenses) {
+    engine.setExpensesConfig(config.expenses)
+  }
+
+  // Set mini episode config
+  if (config.miniEpisode) {
+    await engine.setMiniEpisodeConfig(config.miniEpisode)
+  }
+
+  // Set climate table for weather/season
+  if (config.climate) {
+    engine.setClimateConfig(config.climate)
+  }
+
+  // Set calendar (holidays, town events)
+  if (config.calendar) {
+    engine.setCalendarConfig(config.calendar)
+  }
+
+  // Set needs model (interrupt thresholds, urgency curves)
+  if (config.needs) {
+    engine.setNeedsConfig(config.needs)
+  }
+
+  // Load schedules, action history, money summaries and mid-term memories
+  await engine.seedDefaultSchedules()
+  await engine.loadScheduleCache()
+  await engine.loadActionHistoryCache()
+  await engine.loadMoneySummaryCache()
+  await engine.loadMidTermMemoriesCache()
+  await engine.loadRecentConversationsCache()
+  engine.initializeLastDay()
+}
+
 // Shared promise to prevent parallel initialization race condition
 let initializingPromise: Promise<SimulationEngine> | null = null
 
@@ -2301,7 +3527,7 @@ export async function ensureEngineInitialized(logPrefix: string = '[Engine]'): P
   // Start initialization with shared promise
   initializingPromise = (async () => {
     try {
-      console.log(`${logPrefix} Initializing simulation engine...`)
+      logger.info(`${logPrefix} Initializing simulation engine...`)
 
       // Load world data (maps, characters, config)
       const loadWorldData = await getWorldDataLoader()
@@ -2311,10 +3537,22 @@ export async function ensureEngineInitialized(logPrefix: string = '[Engine]'): P
       const initializeLLMClient = await getInitializeLLMClient()
       initializeLLMClient()
 
+      // Record or replay LLM responses if requested (used together with SIMULATION_SEED)
+      const transcriptRecord = process.env.LLM_TRANSCRIPT_RECORD
+      const transcriptReplay = process.env.LLM_TRANSCRIPT_REPLAY
+      if (transcriptRecord || transcriptReplay) {
+        const initializeLLMTranscript = await getInitializeLLMTranscript()
+        initializeLLMTranscript({ record: transcriptRecord || undefined, replay: transcriptReplay || undefined })
+      }
+
       // Initialize LLM error handler with config
       const initializeLLMErrorHandler = await getInitializeLLMErrorHandler()
       initializeLLMErrorHandler(config.error)
 
+      // Initialize LLM request scheduler with config
+      const initializeLLMScheduler = await getInitializeLLMScheduler()
+      initializeLLMScheduler(config.llmScheduler)
+
       // Create SQLite store for persistence
       const SqliteStore = await getSqliteStore()
       const stateStore = new SqliteStore('data/state.db')
@@ -2324,7 +3562,7 @@ export async function ensureEngineInitialized(logPrefix: string = '[Engine]'): P
       const restored = await engine.restoreFromStore(maps)
 
       if (restored) {
-        console.log(`${logPrefix} Restored state from persistent storage`)
+        logger.info(`${logPrefix} Restored state from persistent storage`)
 
         // Restore server start time if available
         const savedStartTime = await stateStore.loadServerStartTime()
@@ -2333,11 +3571,19 @@ export async function ensureEngineInitialized(logPrefix: string = '[Engine]'): P
         } else {
           // serverStartTime not found in DB (legacy data) - save current time
           // This ensures day counting works correctly from this point forward
-          console.log(`${logPrefix} serverStartTime not found in DB, saving current time`)
+          logger.info(`${logPrefix} serverStartTime not found in DB, saving current time`)
           await stateStore.saveServerStartTime(engine.getServerStartTime())
         }
 
-        // Supplement character profiles (personality, tendencies, customPrompt)
+        // Restore random seed if available (legacy data: record current seed)
+        const savedSeed = await stateStore.loadRandomSeed()
+        if (savedSeed !== null) {
+          engine.setRandomSeed(savedSeed)
+        } else {
+          await stateStore.saveRandomSeed(engine.getRandomSeed())
+        }
+
+        // Supplement character profiles (personality, tendencies, customPrompt, recurring expenses)
         // These fields are not persisted in DB, so we need to load them from config
         engine.supplementCharacterProfiles(characterConfigs)
 
@@ -2347,9 +3593,17 @@ export async function ensureEngineInitialized(logPrefix: string = '[Engine]'): P
         // Fresh initialization
         await engine.initialize(maps, characters, config.initialState.mapId, npcBlockedNodes, npcs, config.time, defaultSchedules)
 
-        // Save server start time on fresh start
+        // Use seed from environment if specified (fixed random sequence)
+        const envSeed = process.env.SIMULATION_SEED
+        if (envSeed !== undefined && envSeed !== '' && Number.isFinite(Number(envSeed))) {
+          engine.setRandomSeed(Number(envSeed))
+        }
+
+        // Save server start time and random seed on fresh start
         await stateStore.saveServerStartTime(engine.getServerStartTime())
-        console.log(`${logPrefix} Initialized with fresh state`)
+        await stateStore.saveRandomSeed(engine.getRandomSeed())
+        logger.info(`${logPrefix} Random seed: ${engine.getRandomSeed()}`)
+        logger.info(`${logPrefix} Initialized with fresh state`)
       }
 
       // Restore NPC dynamic states from DB
@@ -2358,33 +3612,21 @@ export async function ensureEngineInitialized(logPrefix: string = '[Engine]'): P
         for (const [npcId, state] of npcStates) {
           engine.restoreNPCState(npcId, state)
         }
-        console.log(`${logPrefix} Restored ${npcStates.size} NPC dynamic states`)
-      }
-
-      // Set action configs for ActionExecutor and LLMBehaviorDecider
-      if (config.actions) {
-        engine.setActionConfigs(config.actions)
+        logger.info(`${logPrefix} Restored ${npcStates.size} NPC dynamic states`)
       }
 
-      // Set mini episode config
-      if (config.miniEpisode) {
-        await engine.setMiniEpisodeConfig(config.miniEpisode)
-      }
-
-      // Load schedules, action history, and mid-term memories BEFORE starting engine
+      // Apply world-config.json sections and load caches BEFORE starting engine
       // This prevents race condition where ticks fire before data is loaded
-      await engine.seedDefaultSchedules()
-      await engine.loadScheduleCache()
-      await engine.loadActionHistoryCache()
-      await engine.loadMidTermMemoriesCache()
-      await engine.loadRecentConversationsCache()
-      engine.initializeLastDay()
+      await configureEngine(engine, config)
 
       // Restore active actions from DB (actions in progress when server stopped)
       await engine.restoreActiveActions()
 
+      // Journal checkpoint (replay starting point)
+      await engine.recordCheckpoint(restored ? 'restore' : 'init')
+
       engine.start()
-      console.log(`${logPrefix} Simulation engine started`)
+      logger.info(`${logPrefix} Simulation engine started`)
 
       // Trigger initial behavior decisions for all idle characters
       engine.triggerInitialBehaviorDecisions()
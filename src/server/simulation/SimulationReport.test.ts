@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { SimulationReportCollector, formatSimulationReport } from './SimulationReport'
+import type { SerializedWorldState, SimCharacter } from './types'
+import type { WorldTime } from '@/types'
+
+function createState(time: WorldTime, stats: Partial<SimCharacter> = {}): SerializedWorldState {
+  return {
+    characters: {
+      c1: {
+        id: 'c1',
+        name: 'Kanon',
+        money: 1000,
+        satiety: 80,
+        energy: 70,
+        hygiene: 90,
+        mood: 75,
+        bladder: 60,
+        ...stats,
+      } as SimCharacter,
+    },
+    npcs: {},
+    currentMapId: 'town',
+    time,
+    isPaused: false,
+    transition: { isTransitioning: false, characterId: null, fromMapId: null, toMapId: null, progress: 0 },
+    tick: 0,
+  }
+}
+
+describe('SimulationReportCollector', () => {
+  let collector: SimulationReportCollector
+
+  beforeEach(() => {
+    collector = new SimulationReportCollector({ days: 2, stepSeconds: 1, store: 'memory' })
+  })
+
+  it('should track stat minima with time of occurrence', () => {
+    collector.recordState(createState({ day: 1, hour: 8, minute: 0 }, { satiety: 50 }))
+    collector.recordState(createState({ day: 1, hour: 12, minute: 30 }, { satiety: 12 }))
+    collector.recordState(createState({ day: 2, hour: 9, minute: 0 }, { satiety: 40 }))
+
+    const report = collector.build(1000)
+    expect(report.characters.c1.statMinima.satiety).toEqual({ value: 12, day: 1, time: '12:30' })
+    expect(report.characters.c1.finalStats.satiety).toBe(40)
+  })
+
+  it('should sample money once per world hour', () => {
+    collector.recordState(createState({ day: 1, hour: 8, minute: 0 }, { money: 1000 }))
+    collector.recordState(createState({ day: 1, hour: 8, minute: 30 }, { money: 900 }))
+    collector.recordState(createState({ day: 1, hour: 9, minute: 0 }, { money: 800 }))
+
+    const report = collector.build(1000)
+    expect(report.characters.c1.moneyCurve).toEqual([
+      { day: 1, time: '08:00', money: 1000 },
+      { day: 1, time: '09:00', money: 800 },
+    ])
+    expect(report.characters.c1.finalStats.money).toBe(800)
+  })
+
+  it('should count completed actions only', () => {
+    const base = { type: 'action' as const, characterId: 'c1', characterName: 'Kanon', time: '08:00' }
+    collector.recordLog({ ...base, actionId: 'eat', status: 'started' })
+    collector.recordLog({ ...base, actionId: 'eat', status: 'completed' })
+    collector.recordLog({ ...base, actionId: 'move' })
+
+    const report = collector.build(1000)
+    expect(report.characters.c1.actionCounts).toEqual({ eat: 1, move: 1 })
+    expect(report.totals.actions).toEqual({ eat: 1, move: 1 })
+  })
+
+  it('should record conversations and interrupts', () => {
+    collector.recordState(createState({ day: 2, hour: 10, minute: 0 }))
+    collector.recordLog({
+      type: 'conversation',
+      characterId: 'c1',
+      characterName: 'Kanon',
+      time: '10:00',
+      npcId: 'npc1',
+      npcName: 'Misaki',
+      summary: '',
+      topics: [],
+      goalAchieved: true,
+    })
+    collector.recordInterrupt('c1', 'bladder')
+    collector.recordInterrupt('c1', 'bladder')
+    collector.recordInterrupt('c1', 'satiety')
+
+    const report = collector.build(1000)
+    expect(report.characters.c1.conversations).toEqual([
+      { day: 2, time: '10:00', npcName: 'Misaki', goalAchieved: true },
+    ])
+    expect(report.characters.c1.interrupts).toEqual({ bladder: 2, satiety: 1 })
+    expect(report.totals.interrupts).toBe(3)
+    expect(report.totals.conversations).toBe(1)
+  })
+
+  it('should include run metadata and world time range', () => {
+    collector.recordState(createState({ day: 1, hour: 8, minute: 0 }))
+    collector.recordState(createState({ day: 3, hour: 8, minute: 0 }))
+
+    const report = collector.build(12345)
+    expect(report.days).toBe(2)
+    expect(report.stepSeconds).toBe(1)
+    expect(report.store).toBe('memory')
+    expect(report.startTime).toEqual({ day: 1, hour: 8, minute: 0 })
+    expect(report.endTime).toEqual({ day: 3, hour: 8, minute: 0 })
+    expect(report.realDurationMs).toBe(12345)
+  })
+})
+
+describe('formatSimulationReport', () => {
+  it('should format summary text', () => {
+    const collector = new SimulationReportCollector({ days: 1, stepSeconds: 10, store: 'sqlite' })
+    collector.recordState(createState({ day: 1, hour: 8, minute: 0 }))
+    collector.recordLog({ type: 'action', characterId: 'c1', characterName: 'Kanon', time: '08:10', actionId: 'eat' })
+    collector.recordInterrupt('c1', 'energy')
+
+    const text = formatSimulationReport(collector.build(60000))
+    expect(text).toContain('1 days, 10s steps, store=sqlite')
+    expect(text).not.toContain('start=')
+    expect(text).toContain('[Kanon (c1)]')
+    expect(text).toContain('eat=1')
+    expect(text).toContain('energy=1')
+  })
+
+  it('should include the seed and clock start needed to replay the run', () => {
+    const collector = new SimulationReportCollector({
+      days: 1, stepSeconds: 1, store: 'memory', seed: 42, clockStart: '2026-01-01T00:00:00.000Z',
+    })
+    collector.recordState(createState({ day: 1, hour: 8, minute: 0 }))
+
+    const report = collector.build(0)
+    expect(report.clockStart).toBe('2026-01-01T00:00:00.000Z')
+    expect(formatSimulationReport(report)).toContain('seed=42, start=2026-01-01T00:00:00.000Z')
+  })
+})
@@ -0,0 +1,223 @@
+import type { ActivityLogEntry, WorldTime } from '@/types'
+import type { SerializedWorldState } from './types'
+import { formatTime } from '@/lib/timeUtils'
+
+/** レポートで最小値を追跡するステータス */
+const TRACKED_STATS = ['satiety', 'energy', 'hygiene', 'mood', 'bladder'] as const
+export type TrackedStat = typeof TRACKED_STATS[number]
+
+export interface StatMinimum {
+  value: number
+  day: number
+  time: string
+}
+
+export interface MoneySample {
+  day: number
+  time: string
+  money: number
+}
+
+export interface ConversationRecord {
+  day: number
+  time: string
+  npcName: string
+  goalAchieved: boolean
+}
+
+export interface CharacterReport {
+  name: string
+  actionCounts: Record<string, number>
+  moneyCurve: MoneySample[]
+  statMinima: Record<TrackedStat, StatMinimum>
+  finalStats: Record<TrackedStat | 'money', number>
+  interrupts: Record<string, number>
+  conversations: ConversationRecord[]
+}
+
+export interface SimulationReport {
+  days: number
+  stepSeconds: number
+  store: string
+  seed?: number
+  clockStart?: string
+  startTime: WorldTime
+  endTime: WorldTime
+  realDurationMs: number
+  characters: Record<string, CharacterReport>
+  totals: {
+    actions: Record<string, number>
+    interrupts: number
+    conversations: number
+  }
+}
+
+export interface SimulationReportMeta {
+  days: number
+  /** 1ティックで進めるワールド時間（秒） */
+  stepSeconds: number
+  store: string
+  /** 乱数シード（同じシードなら乱数列が同じになる。LLM応答はトランスクリプトの再生で再現する） */
+  seed?: number
+  /** ワールド時計の開始時刻（ISO。再生時は --start-time に同じ値を渡す） */
+  clockStart?: string
+}
+
+/**
+ * ヘッドレス実行用のレポート収集クラス
+ *
+ * SimulationEngine の subscribe / subscribeToLogs / subscribeToInterrupts に接続し、
+ * アクション回数・所持金推移（ワールド1時間ごと）・ステータス最小値・割り込み回数・会話を集計する。
+ */
+export class SimulationReportCollector {
+  private meta: SimulationReportMeta
+  private characters: Map<string, CharacterReport> = new Map()
+  private startTime: WorldTime | null = null
+  private currentTime: WorldTime | null = null
+  // 所持金サンプリング用: 最後に記録した `${day}-${hour}`
+  private lastMoneySampleKey: string | null = null
+
+  constructor(meta: SimulationReportMeta) {
+    this.meta = meta
+  }
+
+  /** 状態更新ごとに呼ぶ（ステータス最小値・所持金推移） */
+  recordState(state: SerializedWorldState): void {
+    const time = state.time
+    if (!this.startTime) this.startTime = { ...time }
+    this.currentTime = { ...time }
+    const timeStr = formatTime(time)
+
+    const sampleKey = `${time.day}-${time.hour}`
+    const sampleMoney = sampleKey !== this.lastMoneySampleKey
+    this.lastMoneySampleKey = sampleKey
+
+    for (const char of Object.values(state.characters)) {
+      const report = this.getOrCreate(char.id, char.name)
+
+      for (const stat of TRACKED_STATS) {
+        const value = char[stat]
+        const min = report.statMinima[stat]
+        // day 0 = 未記録
+        if (min.day === 0 || value < min.value) {
+          report.statMinima[stat] = { value, day: time.day, time: timeStr }
+        }
+        report.finalStats[stat] = value
+      }
+      report.finalStats.money = char.money
+
+      if (sampleMoney) {
+        report.moneyCurve.push({ day: time.day, time: timeStr, money: char.money })
+      }
+    }
+  }
+
+  /** ログイベントごとに呼ぶ（アクション回数・会話） */
+  recordLog(entry: ActivityLogEntry): void {
+    const report = this.getOrCreate(entry.characterId, entry.characterName)
+    const day = this.currentTime?.day ?? 1
+
+    if (entry.type === 'action') {
+      // 開始・中断ログは数えない（完了 or ステータスなし = 完了扱い）
+      if (entry.status === 'started' || entry.status === 'cancelled') return
+      report.actionCounts[entry.actionId] = (report.actionCounts[entry.actionId] ?? 0) + 1
+    } else if (entry.type === 'conversation') {
+      report.conversations.push({
+        day,
+        time: entry.time,
+        npcName: entry.npcName,
+        goalAchieved: entry.goalAchieved,
+      })
+    }
+  }
+
+  /** ステータス割り込み発火ごとに呼ぶ */
+  recordInterrupt(characterId: string, statusType: string): void {
+    const report = this.getOrCreate(characterId, characterId)
+    report.interrupts[statusType] = (report.interrupts[statusType] ?? 0) + 1
+  }
+
+  build(realDurationMs: number): SimulationReport {
+    const actions: Record<string, number> = {}
+    let interrupts = 0
+    let conversations = 0
+
+    for (const report of this.characters.values()) {
+      for (const [actionId, count] of Object.entries(report.actionCounts)) {
+        actions[actionId] = (actions[actionId] ?? 0) + count
+      }
+      interrupts += Object.values(report.interrupts).reduce((sum, n) => sum + n, 0)
+      conversations += report.conversations.length
+    }
+
+    const fallbackTime: WorldTime = { hour: 0, minute: 0, day: 1 }
+    return {
+      ...this.meta,
+      startTime: this.startTime ?? fallbackTime,
+      endTime: this.currentTime ?? this.startTime ?? fallbackTime,
+      realDurationMs,
+      characters: Object.fromEntries(this.characters),
+      totals: { actions, interrupts, conversations },
+    }
+  }
+
+  private getOrCreate(characterId: string, name: string): CharacterReport {
+    let report = this.characters.get(characterId)
+    if (!report) {
+      const initialMin = (): StatMinimum => ({ value: 0, day: 0, time: '' })
+      report = {
+        name,
+        actionCounts: {},
+        moneyCurve: [],
+        statMinima: {
+          satiety: initialMin(),
+          energy: initialMin(),
+          hygiene: initialMin(),
+          mood: initialMin(),
+          bladder: initialMin(),
+        },
+        finalStats: { satiety: 0, energy: 0, hygiene: 0, mood: 0, bladder: 0, money: 0 },
+        interrupts: {},
+        conversations: [],
+      }
+      this.characters.set(characterId, report)
+    } else if (report.name === characterId && name !== characterId) {
+      report.name = name
+    }
+    return report
+  }
+}
+
+/**
+ * レポートをコンソール表示用のテキストに整形
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+  const lines: string[] = []
+  lines.push(`=== Simulation report (${report.days} days, ${report.stepSeconds}s steps, store=${report.store}${report.seed !== undefined ? `, seed=${report.seed}` : ''}${report.clockStart ? `, start=${report.clockStart}` : ''}) ===`)
+  lines.push(`World time: Day ${report.startTime.day} ${formatTime(report.startTime)} -> Day ${report.endTime.day} ${formatTime(report.endTime)}`)
+  lines.push(`Real duration: ${(report.realDurationMs / 1000).toFixed(1)}s`)
+
+  for (const [id, char] of Object.entries(report.characters)) {
+    lines.push('')
+    lines.push(`[${char.name} (${id})]`)
+    const actions = Object.entries(char.actionCounts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([actionId, count]) => `${actionId}=${count}`)
+    lines.push(`  actions: ${actions.join(', ') || '(none)'}`)
+    const first = char.moneyCurve[0]?.money ?? char.finalStats.money
+    lines.push(`  money: ${first} -> ${char.finalStats.money} (samples: ${char.moneyCurve.length})`)
+    const minima = TRACKED_STATS
+      .map(stat => {
+        const min = char.statMinima[stat]
+        return min.day > 0 ? `${stat}=${min.value.toFixed(1)} (Day ${min.day} ${min.time})` : `${stat}=-`
+      })
+    lines.push(`  stat minima: ${minima.join(', ')}`)
+    const interrupts = Object.entries(char.interrupts).map(([stat, count]) => `${stat}=${count}`)
+    lines.push(`  interrupts: ${interrupts.join(', ') || '(none)'}`)
+    lines.push(`  conversations: ${char.conversations.length}`)
+  }
+
+  lines.push('')
+  lines.push(`Totals: interrupts=${report.totals.interrupts}, conversations=${report.totals.conversations}`)
+  return lines.join('\n')
+}
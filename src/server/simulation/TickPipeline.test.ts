@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { TickPipeline } from './TickPipeline'
+import type { TickContext } from './TickPipeline'
+
+const context = { tick: 1 } as TickContext
+
+describe('TickPipeline', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    consoleSpy.mockRestore()
+  })
+
+  it('should run phases in order, keeping registration order for ties', () => {
+    const pipeline = new TickPipeline()
+    const calls: string[] = []
+    pipeline.addPhase({ name: 'b', order: 200, run: () => { calls.push('b') } })
+    pipeline.addPhase({ name: 'a', order: 100, run: () => { calls.push('a') } })
+    pipeline.addPhase({ name: 'b2', order: 200, run: () => { calls.push('b2') } })
+
+    pipeline.run(context)
+
+    expect(calls).toEqual(['a', 'b', 'b2'])
+    expect(pipeline.getPhaseNames()).toEqual(['a', 'b', 'b2'])
+  })
+
+  it('should pass the tick context to phases', () => {
+    const pipeline = new TickPipeline()
+    const run = vi.fn()
+    pipeline.addPhase({ name: 'a', order: 0, run })
+    pipeline.run(context)
+    expect(run).toHaveBeenCalledWith(context)
+  })
+
+  it('should reject duplicate phase names', () => {
+    const pipeline = new TickPipeline()
+    pipeline.addPhase({ name: 'a', order: 0, run: () => {} })
+    expect(() => pipeline.addPhase({ name: 'a', order: 1, run: () => {} })).toThrow('Tick phase "a" is already registered')
+  })
+
+  it('should remove phases by name and by owner', () => {
+    const pipeline = new TickPipeline()
+    pipeline.addPhase({ name: 'core', order: 0, run: () => {} })
+    pipeline.addPhase({ name: 'weather', order: 1, run: () => {} }, 'weather-plugin')
+    pipeline.addPhase({ name: 'season', order: 2, run: () => {} }, 'weather-plugin')
+
+    expect(pipeline.removePhase('season')).toBe(true)
+    expect(pipeline.removePhase('season')).toBe(false)
+    pipeline.removePhasesByOwner('weather-plugin')
+    expect(pipeline.getPhaseNames()).toEqual(['core'])
+  })
+
+  it('should keep running later phases when a phase throws', async () => {
+    const pipeline = new TickPipeline()
+    const after = vi.fn()
+    pipeline.addPhase({ name: 'broken', order: 0, run: () => { throw new Error('boom') } })
+    pipeline.addPhase({ name: 'async-broken', order: 1, run: async () => { throw new Error('async boom') } })
+    pipeline.addPhase({ name: 'after', order: 2, run: after })
+
+    pipeline.run(context)
+    await Promise.resolve()
+
+    expect(after).toHaveBeenCalled()
+    expect(consoleSpy).toHaveBeenCalledWith('[TickPipeline] Error in phase "broken":', expect.any(Error))
+    expect(consoleSpy).toHaveBeenCalledWith('[TickPipeline] Error in phase "async-broken":', expect.any(Error))
+  })
+})
@@ -0,0 +1,123 @@
+import type { WorldTime, ActivityLogEntry } from '@/types'
+import type { StateStore } from '../persistence/StateStore'
+import type { WorldStateManager } from './WorldState'
+import type { WorldClock } from './WorldClock'
+import type { SeededRandom } from './SeededRandom'
+import { logger } from '@/lib/logger'
+
+/**
+ * 組み込みフェーズの実行順序
+ *
+ * プラグインのフェーズは order の昇順で組み込みフェーズの間に挿入される。
+ * 例: アクション完了判定の直後に実行したい場合は `TICK_PHASE_ORDER.actions + 1`
+ */
+export const TICK_PHASE_ORDER = {
+  dayChange: 100,
+  statusDecay: 200,
+  actions: 300,
+  movement: 400,
+  pendingActions: 500,
+  journal: 600,
+  persistence: 700,
+} as const
+
+/** プラグイン・フェーズから利用できるエンジンの機能 */
+export interface SimulationPluginContext {
+  worldState: WorldStateManager
+  clock: WorldClock
+  rng: SeededRandom
+  stateStore: StateStore | null
+  /** アクティビティログに出力する（SSE購読者へ配信） */
+  emitLog: (entry: ActivityLogEntry) => void
+}
+
+/** tick ごとにフェーズへ渡されるコンテキスト */
+export interface TickContext extends SimulationPluginContext {
+  tick: number
+  /** ワールド時刻（epoch ms） */
+  now: number
+  /** 実時刻（epoch ms） */
+  realNow: number
+  /** 前回 tick からの経過ワールド秒（移動計算用） */
+  deltaTime: number
+  worldTime: WorldTime
+}
+
+export interface TickPhase {
+  name: string
+  order: number
+  /** 非同期の場合は完了を待たない（エラーはログ出力のみ） */
+  run: (context: TickContext) => void | Promise<void>
+}
+
+/**
+ * シミュレーションプラグイン
+ *
+ * 天候・経済・NPCルーチンなどのシステムをエンジンを変更せずに追加する。
+ */
+export interface SimulationPlugin {
+  name: string
+  phases?: TickPhase[]
+  /** 登録時に呼ばれる */
+  onRegister?: (context: SimulationPluginContext) => void
+  /** ワールドの日付が変わったときに呼ばれる */
+  onDayChange?: (previousDay: number, currentDay: number, context: SimulationPluginContext) => void | Promise<void>
+  /** エンジン停止時（状態保存の前）に呼ばれる */
+  onShutdown?: (context: SimulationPluginContext) => void | Promise<void>
+}
+
+interface RegisteredPhase extends TickPhase {
+  owner: string | null
+}
+
+/**
+ * tick フェーズのパイプライン
+ *
+ * フェーズを order の昇順（同順位は登録順）で実行する。
+ * 1つのフェーズで例外が発生しても後続フェーズは実行される。
+ */
+export class TickPipeline {
+  private phases: RegisteredPhase[] = []
+
+  /**
+   * フェーズを追加する（owner はプラグイン名、組み込みフェーズは null）
+   */
+  addPhase(phase: TickPhase, owner: string | null = null): void {
+    if (this.phases.some(p => p.name === phase.name)) {
+      throw new Error(`Tick phase "${phase.name}" is already registered`)
+    }
+    this.phases.push({ ...phase, owner })
+    // Array.prototype.sort is stable, so equal orders keep registration order
+    this.phases.sort((a, b) => a.order - b.order)
+  }
+
+  removePhase(name: string): boolean {
+    const index = this.phases.findIndex(p => p.name === name)
+    if (index === -1) return false
+    this.phases.splice(index, 1)
+    return true
+  }
+
+  removePhasesByOwner(owner: string): void {
+    this.phases = this.phases.filter(p => p.owner !== owner)
+  }
+
+  getPhaseNames(): string[] {
+    return this.phases.map(p => p.name)
+  }
+
+  run(context: TickContext): void {
+    for (const phase of this.phases) {
+      try {
+        const result = phase.run(context)
+        if (result instanceof Promise) {
+          result.catch(err => {
+            logger.error(`[TickPipeline] Error in phase "${phase.name}":`, err)
+          })
+        }
+      } catch (err) {
+        logger.error(`[TickPipeline] Error in phase "${phase.name}":`, err)
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { WeatherSystem, DEFAULT_CLIMATE_CONFIG } from './WeatherSystem'
+import { WorldStateManager } from './WorldState'
+import type { ClimateConfig, WorldWeather } from '@/types'
+
+const climate: ClimateConfig = {
+  seasonLengthDays: 2,
+  startSeason: 'summer',
+  hotThreshold: 28,
+  coldThreshold: 8,
+  seasons: {
+    spring: { weatherWeights: { sunny: 1 }, temperature: { min: 15, max: 15 } },
+    summer: { weatherWeights: { sunny: 1 }, temperature: { min: 30, max: 30 } },
+    autumn: { weatherWeights: { rainy: 1 }, temperature: { min: 15, max: 15 } },
+    winter: { weatherWeights: { snowy: 1 }, temperature: { min: 0, max: 0 } },
+  },
+  effects: {
+    hot: { decayMultipliers: { bladder: 1.5, hygiene: 2 } },
+    cold: { facilityModifiers: { hotspring: 20 } },
+    rainy: { facilityModifiers: { outdoor: -40 } },
+    snowy: { facilityModifiers: { outdoor: -30, hotspring: 10 } },
+  },
+}
+
+const weatherOf = (overrides: Partial<WorldWeather>): WorldWeather => ({
+  day: 1, season: 'spring', weather: 'sunny', temperature: 15, ...overrides,
+})
+
+describe('WeatherSystem', () => {
+  let system: WeatherSystem
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    system = new WeatherSystem(climate)
+  })
+
+  it('should advance seasons every seasonLengthDays from startSeason', () => {
+    expect([1, 2, 3, 4, 5, 6, 7, 8, 9].map(day => system.getSeason(day))).toEqual([
+      'summer', 'summer', 'autumn', 'autumn', 'winter', 'winter', 'spring', 'spring', 'summer',
+    ])
+  })
+
+  it('should pick weather and temperature from the season table', () => {
+    expect(system.generate(1, 42)).toEqual({ day: 1, season: 'summer', weather: 'sunny', temperature: 30 })
+    expect(system.generate(3, 42)).toMatchObject({ season: 'autumn', weather: 'rainy' })
+  })
+
+  it('should be deterministic for the same seed and day', () => {
+    const defaults = new WeatherSystem(DEFAULT_CLIMATE_CONFIG)
+    const days = Array.from({ length: 20 }, (_, i) => i + 1)
+    expect(days.map(d => defaults.generate(d, 7))).toEqual(days.map(d => defaults.generate(d, 7)))
+    // Weather varies across days
+    expect(new Set(days.map(d => defaults.generate(d, 7).weather)).size).toBeGreaterThan(1)
+  })
+
+  it('should derive hot and cold conditions from temperature', () => {
+    expect(system.getConditions(weatherOf({ temperature: 30 }))).toEqual(['sunny', 'hot'])
+    expect(system.getConditions(weatherOf({ weather: 'snowy', temperature: 0 }))).toEqual(['snowy', 'cold'])
+    expect(system.getConditions(weatherOf({}))).toEqual(['sunny'])
+  })
+
+  it('should raise bladder and hygiene decay on hot days', () => {
+    const hot = weatherOf({ temperature: 30 })
+    expect(system.getDecayMultiplier(hot, 'bladder')).toBe(1.5)
+    expect(system.getDecayMultiplier(hot, 'hygiene')).toBe(2)
+    expect(system.getDecayMultiplier(hot, 'satiety')).toBe(1)
+    expect(system.getDecayMultiplier(weatherOf({}), 'bladder')).toBe(1)
+  })
+
+  it('should lower outdoor facilities in rain and favor the hotspring in the cold', () => {
+    const rainy = weatherOf({ weather: 'rainy' })
+    expect(system.getFacilityModifier(rainy, { tags: ['public'], outdoor: true })).toBe(-40)
+    expect(system.getFacilityModifier(rainy, { tags: ['public'] })).toBe(0)
+
+    const snowy = weatherOf({ weather: 'snowy', temperature: 0 })
+    expect(system.getFacilityModifier(snowy, { tags: ['hotspring', 'public'] })).toBe(30)
+  })
+
+  it('should update world state only when the day changes', () => {
+    const worldState = new WorldStateManager()
+    worldState.setTime({ day: 1, hour: 8, minute: 0 })
+    const first = system.update(worldState, 1)
+    expect(worldState.getWeather()).toEqual(first)
+
+    worldState.setWeather({ ...first, weather: 'cloudy' })
+    expect(system.update(worldState, 1).weather).toBe('cloudy')
+
+    worldState.setTime({ day: 3, hour: 0, minute: 0 })
+    expect(system.update(worldState, 1)).toMatchObject({ day: 3, season: 'autumn' })
+  })
+
+  it('should register a weather phase right after day-change', () => {
+    expect(system.phases.map(p => p.name)).toEqual(['weather'])
+    expect(system.phases[0].order).toBe(101)
+  })
+})
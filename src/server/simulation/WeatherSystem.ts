@@ -0,0 +1,149 @@
+import type { ClimateConfig, FacilityInfo, Season, WeatherCondition, WeatherType, WorldWeather, EffectPerMinute } from '@/types'
+import type { WorldStateManager } from './WorldState'
+import type { SimulationPlugin, TickPhase } from './TickPipeline'
+import { TICK_PHASE_ORDER } from './TickPipeline'
+import { SeededRandom } from './SeededRandom'
+import { formatWeather } from '@/lib/weatherUtils'
+import { logger } from '@/lib/logger'
+
+const SEASON_ORDER: readonly Season[] = ['spring', 'summer', 'autumn', 'winter']
+
+// world-config.json に climate セクションがない場合の気候
+export const DEFAULT_CLIMATE_CONFIG: ClimateConfig = {
+  seasonLengthDays: 7,
+  startSeason: 'spring',
+  hotThreshold: 28,
+  coldThreshold: 8,
+  seasons: {
+    spring: { weatherWeights: { sunny: 5, cloudy: 3, rainy: 2 }, temperature: { min: 10, max: 22 } },
+    summer: { weatherWeights: { sunny: 6, cloudy: 2, rainy: 2 }, temperature: { min: 24, max: 35 } },
+    autumn: { weatherWeights: { sunny: 5, cloudy: 3, rainy: 2 }, temperature: { min: 10, max: 24 } },
+    winter: { weatherWeights: { sunny: 4, cloudy: 3, rainy: 1, snowy: 2 }, temperature: { min: -2, max: 10 } },
+  },
+  effects: {
+    hot: { decayMultipliers: { bladder: 1.3, hygiene: 1.5 } },
+    cold: { facilityModifiers: { hotspring: 20 } },
+    rainy: { facilityModifiers: { outdoor: -40 } },
+    snowy: { facilityModifiers: { outdoor: -30, hotspring: 10 } },
+  },
+}
+
+/**
+ * 天候・季節システム
+ *
+ * 日付ごとの天候を気候テーブルから決定する。乱数はシードと日付から導出するため、
+ * 同じシードなら再起動やスナップショット復元後も同じ天候になる（永続化不要）。
+ * tick パイプラインのプラグインとして登録され、日付が変わるとワールド状態の天候を更新する。
+ */
+export class WeatherSystem implements SimulationPlugin {
+  readonly name = 'weather'
+  readonly phases: TickPhase[]
+  private climate: ClimateConfig
+
+  constructor(climate: ClimateConfig = DEFAULT_CLIMATE_CONFIG) {
+    this.climate = climate
+    this.phases = [{
+      name: 'weather',
+      order: TICK_PHASE_ORDER.dayChange + 1,
+      run: ({ worldState, rng }) => {
+        this.update(worldState, rng.getSeed())
+      },
+    }]
+  }
+
+  setClimate(climate: ClimateConfig): void {
+    this.climate = climate
+  }
+
+  getClimate(): ClimateConfig {
+    return this.climate
+  }
+
+  /**
+   * 指定日の天候を決定する（同じシード・日付なら同じ結果）
+   */
+  generate(day: number, seed: number): WorldWeather {
+    const season = this.getSeason(day)
+    const seasonClimate = this.climate.seasons[season]
+    const rng = new SeededRandom((seed ^ Math.imul(day, 0x9e3779b1)) >>> 0)
+
+    const weather = this.pickWeather(seasonClimate.weatherWeights, rng)
+    const { min, max } = seasonClimate.temperature
+    const temperature = Math.round(min + rng.next() * (max - min))
+
+    return { day, season, weather, temperature }
+  }
+
+  /**
+   * 現在日の天候をワールド状態に反映する（未設定または日付が変わった場合のみ再計算）
+   */
+  update(worldState: WorldStateManager, seed: number): WorldWeather {
+    const day = worldState.getTime().day
+    const current = worldState.getWeather()
+    if (current && current.day === day) return current
+
+    const weather = this.generate(day, seed)
+    worldState.setWeather(weather)
+    logger.info(`[WeatherSystem] Day ${day}: ${formatWeather(weather)}`)
+    return weather
+  }
+
+  getSeason(day: number): Season {
+    const start = SEASON_ORDER.indexOf(this.climate.startSeason ?? 'spring')
+    const length = Math.max(1, this.climate.seasonLengthDays)
+    const elapsedSeasons = Math.floor((Math.max(1, day) - 1) / length)
+    return SEASON_ORDER[(start + elapsedSeasons) % SEASON_ORDER.length]
+  }
+
+  /**
+   * 天候に該当する条件（天気 + 暑い/寒い）
+   */
+  getConditions(weather: WorldWeather): WeatherCondition[] {
+    const conditions: WeatherCondition[] = [weather.weather]
+    if (weather.temperature >= this.climate.hotThreshold) conditions.push('hot')
+    if (weather.temperature <= this.climate.coldThreshold) conditions.push('cold')
+    return conditions
+  }
+
+  /**
+   * ステータス減少速度の倍率（該当する全条件の積）
+   */
+  getDecayMultiplier(weather: WorldWeather, stat: keyof EffectPerMinute): number {
+    let multiplier = 1
+    for (const condition of this.getConditions(weather)) {
+      multiplier *= this.climate.effects?.[condition]?.decayMultipliers?.[stat] ?? 1
+    }
+    return multiplier
+  }
+
+  /**
+   * 施設の魅力補正（該当する全条件・タグの合計、屋外施設は 'outdoor' も対象）
+   */
+  getFacilityModifier(weather: WorldWeather, facility: FacilityInfo): number {
+    const keys: string[] = [...facility.tags]
+    if (facility.outdoor) keys.push('outdoor')
+
+    let modifier = 0
+    for (const condition of this.getConditions(weather)) {
+      const modifiers = this.climate.effects?.[condition]?.facilityModifiers as Record<string, number> | undefined
+      if (!modifiers) continue
+      for (const key of keys) {
+        modifier += modifiers[key] ?? 0
+      }
+    }
+    return modifier
+  }
+
+  private pickWeather(weights: Partial<Record<WeatherType, number>>, rng: SeededRandom): WeatherType {
+    const entries = (Object.entries(weights) as [WeatherType, number][]).filter(([, w]) => w > 0)
+    if (entries.length === 0) return 'sunny'
+
+    const total = entries.reduce((sum, [, w]) => sum + w, 0)
+    let roll = rng.next() * total
+    for (const [weather, weight] of entries) {
+      roll -= weight
+      if (roll < 0) return weather
+    }
+    return entries[entries.length - 1][0]
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest'
+import { WorldCalendar } from './WorldCalendar'
+import type { CalendarConfig } from '@/types'
+
+const config: CalendarConfig = {
+  startWeekday: 'thu',
+  restDays: ['sun'],
+  holidays: [{ day: 2, name: '桜木町の日' }],
+  upcomingDays: 2,
+  events: [
+    { id: 'festival', name: '夏祭り', day: 3, mapId: 'park', startTime: '14:00', endTime: '18:00' },
+    { id: 'market', name: '朝市', day: 1, mapId: 'park', startTime: '08:00', endTime: '11:00' },
+    { id: 'tasting', name: '試飲会', day: 1, mapId: 'cafe', startTime: '15:00', endTime: '16:00' },
+    { id: 'far', name: '花火大会', day: 10, mapId: 'park', startTime: '19:00', endTime: '21:00' },
+  ],
+}
+
+describe('WorldCalendar', () => {
+  it('should assign weekdays starting from startWeekday', () => {
+    const calendar = new WorldCalendar(config)
+    expect([1, 2, 3, 4, 5, 8].map(day => calendar.getDay(day).weekday)).toEqual([
+      'thu', 'fri', 'sat', 'sun', 'mon', 'thu',
+    ])
+  })
+
+  it('should default to monday with no holidays', () => {
+    const calendar = new WorldCalendar()
+    expect(calendar.getDay(1)).toEqual({ day: 1, weekday: 'mon', isHoliday: false, holidayName: undefined })
+    expect(calendar.isHoliday(7)).toBe(false)
+  })
+
+  it('should treat rest days and configured holidays as holidays', () => {
+    const calendar = new WorldCalendar(config)
+    expect(calendar.getDay(2)).toMatchObject({ isHoliday: true, holidayName: '桜木町の日' })
+    expect(calendar.isHoliday(4)).toBe(true)
+    expect(calendar.isHoliday(1)).toBe(false)
+    expect(calendar.isHoliday(3)).toBe(false)
+  })
+
+  it('should return active and upcoming events within the lookahead in order', () => {
+    const calendar = new WorldCalendar(config)
+    const events = calendar.getEvents({ hour: 9, minute: 0, day: 1 })
+
+    expect(events.map(e => [e.id, e.status])).toEqual([
+      ['market', 'active'],
+      ['tasting', 'upcoming'],
+      ['festival', 'upcoming'],
+    ])
+  })
+
+  it('should drop events that have already ended today', () => {
+    const calendar = new WorldCalendar(config)
+    const events = calendar.getEvents({ hour: 15, minute: 30, day: 1 })
+
+    expect(events.map(e => [e.id, e.status])).toEqual([
+      ['tasting', 'active'],
+      ['festival', 'upcoming'],
+    ])
+    expect(calendar.getEvents({ hour: 18, minute: 0, day: 3 })).toEqual([])
+  })
+
+  it('should skip events with an invalid time window', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const calendar = new WorldCalendar({
+      events: [
+        { id: 'broken', name: '逆転', day: 1, mapId: 'park', startTime: '18:00', endTime: '14:00' },
+        { id: 'typo', name: '不正', day: 1, mapId: 'park', startTime: '25:00', endTime: '26:00' },
+      ],
+    })
+
+    expect(calendar.getEvents({ hour: 0, minute: 0, day: 1 })).toEqual([])
+    expect(warn).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
+  })
+})
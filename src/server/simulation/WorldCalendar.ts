@@ -0,0 +1,81 @@
+import type { CalendarConfig, CalendarDay, TownEventConfig, TownEventInfo, WorldTime } from '@/types'
+import { WEEKDAYS } from '@/lib/calendarUtils'
+import { parseTimeString, timeToMinutes } from '@/lib/timeUtils'
+import { logger } from '@/lib/logger'
+
+const DEFAULT_UPCOMING_DAYS = 3
+
+/**
+ * ワールドカレンダー（曜日・祝日・町のイベント）
+ *
+ * ワールド日付（1日目〜）に曜日を割り当て、祝日・休日と単発イベントを管理する。
+ * イベントの時間帯は当日内（startTime < endTime）のみ対応。
+ */
+export class WorldCalendar {
+  private config: CalendarConfig = {}
+  private events: TownEventConfig[] = []
+
+  constructor(config: CalendarConfig = {}) {
+    this.setConfig(config)
+  }
+
+  setConfig(config: CalendarConfig): void {
+    this.config = config
+    this.events = (config.events ?? []).filter(event => {
+      const start = parseTimeString(event.startTime)
+      const end = parseTimeString(event.endTime)
+      if (!start || !end || start.hour * 60 + start.minute >= end.hour * 60 + end.minute) {
+        logger.warn(`[WorldCalendar] Invalid time window for event "${event.id}": ${event.startTime}-${event.endTime}`)
+        return false
+      }
+      return true
+    })
+  }
+
+  getDay(day: number): CalendarDay {
+    const start = WEEKDAYS.indexOf(this.config.startWeekday ?? 'mon')
+    const weekday = WEEKDAYS[(((start + day - 1) % 7) + 7) % 7]
+    const holiday = this.config.holidays?.find(h => h.day === day)
+    const isRestDay = this.config.restDays?.includes(weekday) ?? false
+
+    return {
+      day,
+      weekday,
+      isHoliday: holiday !== undefined || isRestDay,
+      holidayName: holiday?.name,
+    }
+  }
+
+  isHoliday(day: number): boolean {
+    return this.getDay(day).isHoliday
+  }
+
+  /**
+   * 開催中・今後のイベント（upcomingDays 日先まで）を開催順に取得
+   */
+  getEvents(time: WorldTime): TownEventInfo[] {
+    const now = timeToMinutes(time)
+    const lastDay = time.day + (this.config.upcomingDays ?? DEFAULT_UPCOMING_DAYS)
+    const results: TownEventInfo[] = []
+
+    for (const event of this.events) {
+      if (event.day < time.day || event.day > lastDay) continue
+
+      if (event.day === time.day) {
+        const start = this.toMinutes(event.startTime)
+        const end = this.toMinutes(event.endTime)
+        if (now >= end) continue
+        results.push({ ...event, status: now >= start ? 'active' : 'upcoming' })
+      } else {
+        results.push({ ...event, status: 'upcoming' })
+      }
+    }
+
+    return results.sort((a, b) => a.day - b.day || a.startTime.localeCompare(b.startTime))
+  }
+
+  private toMinutes(time: string): number {
+    const parsed = parseTimeString(time)!
+    return parsed.hour * 60 + parsed.minute
+  }
+}
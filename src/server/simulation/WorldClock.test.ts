@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { WorldClock } from './WorldClock'
+
+describe('WorldClock', () => {
+  let realTime: number
+  const realNow = () => realTime
+
+  beforeEach(() => {
+    realTime = 1_000_000
+  })
+
+  describe('now', () => {
+    it('should start at real time by default', () => {
+      const clock = new WorldClock({ realNow })
+      expect(clock.now()).toBe(1_000_000)
+    })
+
+    it('should start at given startTime', () => {
+      const clock = new WorldClock({ realNow, startTime: 5000 })
+      expect(clock.now()).toBe(5000)
+    })
+
+    it('should advance at real speed with timeScale 1', () => {
+      const clock = new WorldClock({ realNow })
+      realTime += 1000
+      expect(clock.now()).toBe(1_001_000)
+    })
+
+    it('should advance timeScale times faster', () => {
+      const clock = new WorldClock({ realNow, timeScale: 60 })
+      realTime += 1000
+      expect(clock.now()).toBe(1_000_000 + 60_000)
+    })
+  })
+
+  describe('setTimeScale', () => {
+    it('should keep elapsed world time when scale changes', () => {
+      const clock = new WorldClock({ realNow, startTime: 0 })
+      realTime += 1000
+      clock.setTimeScale(10)
+      expect(clock.now()).toBe(1000)
+      realTime += 1000
+      expect(clock.now()).toBe(11_000)
+      expect(clock.getTimeScale()).toBe(10)
+    })
+
+    it('should fall back to 1 for invalid scale', () => {
+      const clock = new WorldClock({ realNow, timeScale: 10 })
+      clock.setTimeScale(0)
+      expect(clock.getTimeScale()).toBe(1)
+      clock.setTimeScale(-5)
+      expect(clock.getTimeScale()).toBe(1)
+      clock.setTimeScale(NaN)
+      expect(clock.getTimeScale()).toBe(1)
+    })
+  })
+
+  describe('pause / resume', () => {
+    it('should stop while paused and continue from the same point', () => {
+      const clock = new WorldClock({ realNow, startTime: 0, timeScale: 10 })
+      realTime += 1000
+      clock.pause()
+      expect(clock.isPaused()).toBe(true)
+      realTime += 60_000
+      expect(clock.now()).toBe(10_000)
+
+      clock.resume()
+      expect(clock.isPaused()).toBe(false)
+      realTime += 1000
+      expect(clock.now()).toBe(20_000)
+    })
+
+    it('should ignore repeated pause/resume calls', () => {
+      const clock = new WorldClock({ realNow, startTime: 0 })
+      clock.pause()
+      realTime += 1000
+      clock.pause()
+      expect(clock.now()).toBe(0)
+      clock.resume()
+      clock.resume()
+      realTime += 500
+      expect(clock.now()).toBe(500)
+    })
+
+    it('should allow scale change while paused', () => {
+      const clock = new WorldClock({ realNow, startTime: 0 })
+      clock.pause()
+      clock.setTimeScale(60)
+      realTime += 1000
+      expect(clock.now()).toBe(0)
+      clock.resume()
+      realTime += 1000
+      expect(clock.now()).toBe(60_000)
+    })
+  })
+
+  describe('setNow', () => {
+    it('should jump to given world time', () => {
+      const clock = new WorldClock({ realNow, timeScale: 2 })
+      clock.setNow(100)
+      realTime += 50
+      expect(clock.now()).toBe(200)
+    })
+  })
+
+  describe('toRealMs / toWorldMs', () => {
+    it('should convert world duration to real duration', () => {
+      const clock = new WorldClock({ realNow, timeScale: 60 })
+      expect(clock.toRealMs(60_000)).toBe(1000)
+    })
+
+    it('should convert real duration to world duration', () => {
+      const clock = new WorldClock({ realNow, timeScale: 60 })
+      expect(clock.toWorldMs(1000)).toBe(60_000)
+    })
+  })
+
+  describe('manual mode', () => {
+    it('should not follow real time and move only on advance', () => {
+      const clock = new WorldClock({ realNow, startTime: 0, timeScale: 60, manual: true })
+      realTime += 1000
+      expect(clock.now()).toBe(0)
+      clock.advance(5000)
+      expect(clock.now()).toBe(5000)
+    })
+
+    it('should not advance while paused', () => {
+      const clock = new WorldClock({ startTime: 0, manual: true })
+      clock.pause()
+      clock.advance(5000)
+      expect(clock.now()).toBe(0)
+    })
+
+    it('should fire timers in world time order at their due time', () => {
+      const clock = new WorldClock({ startTime: 0, manual: true })
+      const fired: Array<[string, number]> = []
+      clock.schedule(() => fired.push(['b', clock.now()]), 2000)
+      clock.schedule(() => fired.push(['a', clock.now()]), 1000)
+      clock.schedule(() => fired.push(['c', clock.now()]), 2000)
+
+      clock.advance(1500)
+      expect(fired).toEqual([['a', 1000]])
+      clock.advance(1500)
+      expect(fired).toEqual([['a', 1000], ['b', 2000], ['c', 2000]])
+      expect(clock.now()).toBe(3000)
+    })
+
+    it('should fire timers scheduled by a timer within the same advance', () => {
+      const clock = new WorldClock({ startTime: 0, manual: true })
+      const fired: number[] = []
+      clock.schedule(() => {
+        fired.push(clock.now())
+        clock.schedule(() => fired.push(clock.now()), 500)
+      }, 1000)
+
+      clock.advance(2000)
+      expect(fired).toEqual([1000, 1500])
+    })
+
+    it('should resolve sleep on advance', async () => {
+      const clock = new WorldClock({ startTime: 0, manual: true })
+      let resolved = false
+      clock.sleep(60_000).then(() => { resolved = true })
+
+      const flush = () => new Promise(resolve => setImmediate(resolve))
+
+      clock.advance(30_000)
+      await flush()
+      expect(resolved).toBe(false)
+      clock.advance(30_000)
+      await flush()
+      expect(resolved).toBe(true)
+    })
+
+    it('should reject advance on a real-time clock', () => {
+      const clock = new WorldClock({ realNow })
+      expect(() => clock.advance(1000)).toThrow('manual clock')
+    })
+  })
+
+  describe('sleep', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should resolve after scaled real time', async () => {
+      const clock = new WorldClock({ timeScale: 60 })
+      let resolved = false
+      clock.sleep(60_000).then(() => { resolved = true })
+
+      await vi.advanceTimersByTimeAsync(500)
+      expect(resolved).toBe(false)
+      await vi.advanceTimersByTimeAsync(600)
+      expect(resolved).toBe(true)
+    })
+
+    it('should not resolve while paused', async () => {
+      const clock = new WorldClock()
+      let resolved = false
+      clock.sleep(1000).then(() => { resolved = true })
+      clock.pause()
+
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(resolved).toBe(false)
+
+      clock.resume()
+      await vi.advanceTimersByTimeAsync(1100)
+      expect(resolved).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/** 一時停止中に sleep() が再開を確認する間隔（実時間ms） */
+const PAUSED_POLL_INTERVAL_MS = 100
+
+export interface WorldClockOptions {
+  /** 時間倍率（1 = 実時間、60 = 実時間1分でワールド1時間） */
+  timeScale?: number
+  /** ワールド時刻の初期値（epoch ms）。省略時は現在の実時刻 */
+  startTime?: number
+  /** 実時刻の取得関数（テスト用） */
+  realNow?: () => number
+  /** true なら実時刻では進まず advance() でのみ進む（ヘッドレスランナー用） */
+  manual?: boolean
+}
+
+interface ClockTimer {
+  at: number       // 発火するワールド時刻
+  seq: number      // 同時刻のタイマーの登録順
+  callback: () => void
+}
+
+/**
+ * ワールド時計
+ *
+ * 実時刻から切り離されたシミュレーション時刻（epoch ms）を管理する。
+ * - timeScale 倍の速さで進む（例: 1x, 10x, 60x）
+ * - 一時停止中は進まない
+ *
+ * 倍率変更・一時停止・再開のたびに「基準点（実時刻, ワールド時刻）」を取り直し、
+ * 基準点からの実経過時間 × timeScale でワールド時刻を算出する。
+ *
+ * 手動モード（manual: true）では実時刻を見ずに advance() の分だけ進み、
+ * schedule() / sleep() のタイマーも advance() の中でワールド時刻順に発火する。
+ */
+export class WorldClock {
+  private timeScale: number
+  private paused: boolean = false
+  private anchorReal: number
+  private anchorWorld: number
+  private realNow: () => number
+  private manual: boolean
+  private timers: ClockTimer[] = []
+  private timerSeq = 0
+
+  constructor(options: WorldClockOptions = {}) {
+    this.realNow = options.realNow ?? (() => Date.now())
+    this.manual = options.manual ?? false
+    this.timeScale = WorldClock.normalizeScale(options.timeScale)
+    this.anchorReal = this.realNow()
+    this.anchorWorld = options.startTime ?? this.anchorReal
+  }
+
+  /** 現在のワールド時刻（epoch ms） */
+  now(): number {
+    if (this.paused || this.manual) return this.anchorWorld
+    return this.anchorWorld + (this.realNow() - this.anchorReal) * this.timeScale
+  }
+
+  /** ワールド時刻を指定値に合わせる（永続化からの復元用） */
+  setNow(worldTime: number): void {
+    this.anchorReal = this.realNow()
+    this.anchorWorld = worldTime
+  }
+
+  isManual(): boolean {
+    return this.manual
+  }
+
+  /**
+   * 手動モードでワールド時刻を worldMs 進める
+   * 途中で期限を迎えたタイマーは、その時刻まで進めてから登録順に発火する（一時停止中は進まない）
+   */
+  advance(worldMs: number): void {
+    if (!this.manual) {
+      throw new Error('advance() is only available on a manual clock')
+    }
+    if (this.paused) return
+
+    const target = this.anchorWorld + worldMs
+    for (let timer = this.nextDueTimer(target); timer; timer = this.nextDueTimer(target)) {
+      this.anchorWorld = Math.max(this.anchorWorld, timer.at)
+      timer.callback()
+    }
+    this.anchorWorld = target
+  }
+
+  /**
+   * ワールド時間で worldMs 後にコールバックを呼ぶ
+   * 通常モードは現在の倍率での実時間タイマー、手動モードは advance() で発火する
+   */
+  schedule(callback: () => void, worldMs: number): void {
+    if (!this.manual) {
+      setTimeout(callback, this.toRealMs(worldMs))
+      return
+    }
+    this.timers.push({ at: this.anchorWorld + worldMs, seq: this.timerSeq++, callback })
+  }
+
+  getTimeScale(): number {
+    return this.timeScale
+  }
+
+  setTimeScale(timeScale: number): void {
+    const scale = WorldClock.normalizeScale(timeScale)
+    if (scale === this.timeScale) return
+    this.reanchor()
+    this.timeScale = scale
+  }
+
+  isPaused(): boolean {
+    return this.paused
+  }
+
+  pause(): void {
+    if (this.paused) return
+    this.reanchor()
+    this.paused = true
+  }
+
+  resume(): void {
+    if (!this.paused) return
+    this.anchorReal = this.realNow()
+    this.paused = false
+  }
+
+  /** ワールド時間の長さ（ms）を現在の倍率での実時間（ms）に換算 */
+  toRealMs(worldMs: number): number {
+    return worldMs / this.timeScale
+  }
+
+  /** 実時間の長さ（ms）を現在の倍率でのワールド時間（ms）に換算 */
+  toWorldMs(realMs: number): number {
+    return realMs * this.timeScale
+  }
+
+  /**
+   * ワールド時間で指定ms待機する
+   * 待機中の倍率変更・一時停止にも追従する（一時停止中は再開まで待つ）
+   */
+  async sleep(worldMs: number): Promise<void> {
+    if (this.manual) {
+      return new Promise(resolve => this.schedule(resolve, worldMs))
+    }
+    const target = this.now() + worldMs
+    while (this.now() < target) {
+      const delay = this.paused
+        ? PAUSED_POLL_INTERVAL_MS
+        : Math.max(1, Math.ceil(this.toRealMs(target - this.now())))
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+
+  // Remove and return the earliest timer due by the given world time
+  private nextDueTimer(target: number): ClockTimer | null {
+    let next: ClockTimer | null = null
+    for (const timer of this.timers) {
+      if (timer.at > target) continue
+      if (!next || timer.at < next.at || (timer.at === next.at && timer.seq < next.seq)) next = timer
+    }
+    if (next) this.timers.splice(this.timers.indexOf(next), 1)
+    return next
+  }
+
+  private reanchor(): void {
+    this.anchorWorld = this.now()
+    this.anchorReal = this.realNow()
+  }
+
+  private static normalizeScale(timeScale: number | undefined): number {
+    if (timeScale === undefined || !Number.isFinite(timeScale) || timeScale <= 0) {
+      return 1
+    }
+    return timeScale
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { WorldJournal } from './WorldJournal'
+import { createSimCharacter } from './types'
+import type { SimCharacter, WorldEventMeta } from './types'
+import type { Character } from '@/types'
+
+function createCharacter(overrides: Partial<Character> = {}): SimCharacter {
+  return createSimCharacter({
+    id: 'c1',
+    name: 'Kanon',
+    sprite: { sheetUrl: 'test.png', frameWidth: 96, frameHeight: 96, cols: 3, rows: 4, rowMapping: { down: 0, left: 1, right: 2, up: 3 } },
+    money: 1000,
+    satiety: 80,
+    energy: 70,
+    hygiene: 90,
+    mood: 75,
+    bladder: 60,
+    currentMapId: 'town',
+    currentNodeId: 'town-0-0',
+    position: { x: 100, y: 100 },
+    direction: 'down',
+    ...overrides,
+  })
+}
+
+const meta: WorldEventMeta = { tick: 5, worldTime: 1700000000000, day: 1, time: '08:00' }
+
+describe('WorldJournal', () => {
+  let journal: WorldJournal
+  let appendJournalEvents: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    journal = new WorldJournal()
+    appendJournalEvents = vi.fn().mockResolvedValue(undefined)
+    journal.setStore({ appendJournalEvents } as never)
+  })
+
+  it('should record events with meta and flush them to the store', async () => {
+    journal.record(meta, { type: 'action_started', characterId: 'c1', actionId: 'eat' })
+    expect(journal.getPendingCount()).toBe(1)
+
+    await journal.flush()
+    expect(appendJournalEvents).toHaveBeenCalledWith([
+      { ...meta, type: 'action_started', characterId: 'c1', actionId: 'eat' },
+    ])
+    expect(journal.getPendingCount()).toBe(0)
+  })
+
+  it('should not call the store when nothing is pending', async () => {
+    await journal.flush()
+    expect(appendJournalEvents).not.toHaveBeenCalled()
+  })
+
+  it('should record stat deltas against the tracked baseline', () => {
+    journal.resetTracking([createCharacter()])
+    journal.trackCharacters(meta, [createCharacter({ money: 700, satiety: 79.5 })])
+    journal.trackCharacters(meta, [createCharacter({ money: 700, satiety: 79.5 })])
+
+    expect(journal.getPendingCount()).toBe(1)
+    return journal.flush().then(() => {
+      const [events] = appendJournalEvents.mock.calls[0]
+      expect(events[0]).toMatchObject({
+        type: 'stat_delta',
+        characterId: 'c1',
+        deltas: { money: -300, satiety: -0.5 },
+        values: { money: 700, satiety: 79.5 },
+      })
+    })
+  })
+
+  it('should record node changes as moves', async () => {
+    journal.resetTracking([createCharacter()])
+    journal.trackCharacters(meta, [createCharacter({ currentNodeId: 'town-0-1', position: { x: 200, y: 100 } })])
+
+    await journal.flush()
+    const [events] = appendJournalEvents.mock.calls[0]
+    expect(events).toEqual([
+      { ...meta, type: 'character_moved', characterId: 'c1', mapId: 'town', nodeId: 'town-0-1', position: { x: 200, y: 100 } },
+    ])
+  })
+
+  it('should record inventory changes with the full inventory', async () => {
+    journal.resetTracking([createCharacter({ inventory: [{ itemId: 'onigiri', quantity: 1 }] })])
+    journal.trackCharacters(meta, [createCharacter({ inventory: [{ itemId: 'onigiri', quantity: 1 }] })])
+    journal.trackCharacters(meta, [createCharacter({ inventory: [{ itemId: 'onigiri', quantity: 2 }] })])
+
+    await journal.flush()
+    const [events] = appendJournalEvents.mock.calls[0]
+    expect(events).toEqual([
+      { ...meta, type: 'inventory_changed', characterId: 'c1', inventory: [{ itemId: 'onigiri', quantity: 2 }] },
+    ])
+  })
+
+  it('should record skill, plan and payroll changes with the full values', async () => {
+    const payroll = { 'cafe-staff': { pendingWage: 1000, day: 1, hoursWorked: 1, consecutiveAbsences: 0 } }
+    const plan = { goal: '働く', steps: [{ type: 'action' as const, actionId: 'work' as const }] }
+    const changed = { ...createCharacter({ skills: { cooking: 1.5 }, payroll }), plan }
+    journal.resetTracking([createCharacter()])
+    journal.trackCharacters(meta, [changed])
+    journal.trackCharacters(meta, [changed])
+
+    await journal.flush()
+    const [events] = appendJournalEvents.mock.calls[0]
+    expect(events).toEqual([
+      { ...meta, type: 'skills_changed', characterId: 'c1', skills: { cooking: 1.5 } },
+      { ...meta, type: 'plan_changed', characterId: 'c1', plan },
+      { ...meta, type: 'payroll_changed', characterId: 'c1', payroll },
+    ])
+  })
+
+  it('should only set the baseline for untracked characters', () => {
+    journal.trackCharacters(meta, [createCharacter()])
+    expect(journal.getPendingCount()).toBe(0)
+  })
+
+  it('should drop events when no store is set', async () => {
+    const memoryOnly = new WorldJournal()
+    memoryOnly.record(meta, { type: 'npc_updated', npcId: 'npc1', updates: { affinity: 5 } })
+    await memoryOnly.flush()
+    expect(memoryOnly.getPendingCount()).toBe(0)
+  })
+})
@@ -0,0 +1,147 @@
+import type { StateStore } from '../persistence/StateStore'
+import type { SimCharacter, WorldEvent, WorldEventMeta, WorldEventPayload, JournalStat } from './types'
+
+const JOURNAL_STATS: readonly JournalStat[] = ['money', 'satiety', 'energy', 'hygiene', 'mood', 'bladder']
+
+// Character fields journaled as full values whenever their JSON changes
+const TRACKED_FIELDS = ['inventory', 'skills', 'plan', 'payroll'] as const
+type TrackedField = typeof TRACKED_FIELDS[number]
+
+interface TrackedLocation {
+  mapId: string
+  nodeId: string
+}
+
+/**
+ * ワールドジャーナル（追記専用のイベントログ）
+ *
+ * アクション開始/完了・会話メッセージ・NPC更新・スケジュール編集は record() で明示的に記録する。
+ * ステータス変化・移動・所持品・スキル・行動計画・給与の変化は trackCharacters() で前回記録時との差分から検出するため、
+ * 減少・アクション効果・支払いなど変更元を問わず漏れなく記録される。
+ * イベントはバッファに溜め、flush() でまとめて StateStore に書き込む。
+ */
+export class WorldJournal {
+  private store: StateStore | null = null
+  private pending: WorldEvent[] = []
+  private lastStats: Map<string, Record<JournalStat, number>> = new Map()
+  private lastLocations: Map<string, TrackedLocation> = new Map()
+  // JSON of the tracked fields at the previous record (key: `${characterId}:${field}`)
+  private lastValues: Map<string, string> = new Map()
+
+  setStore(store: StateStore | null): void {
+    this.store = store
+  }
+
+  record(meta: WorldEventMeta, payload: WorldEventPayload): void {
+    this.pending.push({ ...meta, ...payload } as WorldEvent)
+  }
+
+  /**
+   * 全キャラクターの状態をジャーナルの基準値として記録する（checkpoint 直後に呼ぶ）
+   */
+  resetTracking(characters: SimCharacter[]): void {
+    this.lastStats.clear()
+    this.lastLocations.clear()
+    this.lastValues.clear()
+    for (const char of characters) {
+      this.lastStats.set(char.id, this.pickStats(char))
+      this.lastLocations.set(char.id, { mapId: char.currentMapId, nodeId: char.currentNodeId })
+      for (const field of TRACKED_FIELDS) {
+        this.lastValues.set(`${char.id}:${field}`, this.serializeField(char, field))
+      }
+    }
+  }
+
+  /**
+   * 前回記録時からのステータス変化・ノード移動・所持品などの変化を検出して記録する（tick ごとに呼ぶ）
+   */
+  trackCharacters(meta: WorldEventMeta, characters: SimCharacter[]): void {
+    for (const char of characters) {
+      const previous = this.lastStats.get(char.id)
+      const current = this.pickStats(char)
+      if (previous) {
+        const deltas: Partial<Record<JournalStat, number>> = {}
+        const values: Partial<Record<JournalStat, number>> = {}
+        for (const stat of JOURNAL_STATS) {
+          if (current[stat] !== previous[stat]) {
+            deltas[stat] = current[stat] - previous[stat]
+            values[stat] = current[stat]
+          }
+        }
+        if (Object.keys(deltas).length > 0) {
+          this.record(meta, { type: 'stat_delta', characterId: char.id, deltas, values })
+        }
+      }
+      this.lastStats.set(char.id, current)
+
+      const location = this.lastLocations.get(char.id)
+      if (location && (location.mapId !== char.currentMapId || location.nodeId !== char.currentNodeId)) {
+        this.record(meta, {
+          type: 'character_moved',
+          characterId: char.id,
+          mapId: char.currentMapId,
+          nodeId: char.currentNodeId,
+          position: { ...char.position },
+        })
+      }
+      this.lastLocations.set(char.id, { mapId: char.currentMapId, nodeId: char.currentNodeId })
+
+      for (const field of TRACKED_FIELDS) {
+        const key = `${char.id}:${field}`
+        const json = this.serializeField(char, field)
+        const previousJson = this.lastValues.get(key)
+        if (previousJson !== undefined && previousJson !== json) {
+          this.record(meta, this.createFieldEvent(char.id, field, json))
+        }
+        this.lastValues.set(key, json)
+      }
+    }
+  }
+
+  getPendingCount(): number {
+    return this.pending.length
+  }
+
+  /**
+   * バッファのイベントを StateStore に書き込む（ストア未設定時は破棄）
+   */
+  async flush(): Promise<void> {
+    if (this.pending.length === 0) return
+
+    const events = this.pending
+    this.pending = []
+    if (!this.store) return
+
+    await this.store.appendJournalEvents(events)
+  }
+
+  private serializeField(char: SimCharacter, field: TrackedField): string {
+    switch (field) {
+      case 'inventory': return JSON.stringify(char.inventory ?? [])
+      case 'skills': return JSON.stringify(char.skills ?? {})
+      case 'plan': return JSON.stringify(char.plan ?? null)
+      case 'payroll': return JSON.stringify(char.payroll ?? {})
+    }
+  }
+
+  // The event carries a copy parsed from the JSON (later mutations don't leak into the buffer)
+  private createFieldEvent(characterId: string, field: TrackedField, json: string): WorldEventPayload {
+    switch (field) {
+      case 'inventory': return { type: 'inventory_changed', characterId, inventory: JSON.parse(json) }
+      case 'skills': return { type: 'skills_changed', characterId, skills: JSON.parse(json) }
+      case 'plan': return { type: 'plan_changed', characterId, plan: JSON.parse(json) }
+      case 'payroll': return { type: 'payroll_changed', characterId, payroll: JSON.parse(json) }
+    }
+  }
+
+  private pickStats(char: SimCharacter): Record<JournalStat, number> {
+    return {
+      money: char.money,
+      satiety: char.satiety,
+      energy: char.energy,
+      hygiene: char.hygiene,
+      mood: char.mood,
+      bladder: char.bladder,
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { replayWorldEvents } from './WorldReplayer'
+import { createSimCharacter } from './types'
+import type { SerializedWorldState, WorldEvent } from './types'
+
+function createState(): SerializedWorldState {
+  const char = createSimCharacter({
+    id: 'c1',
+    name: 'Kanon',
+    sprite: { sheetUrl: 'test.png', frameWidth: 96, frameHeight: 96, cols: 3, rows: 4, rowMapping: { down: 0, left: 1, right: 2, up: 3 } },
+    money: 1000,
+    satiety: 80,
+    energy: 70,
+    hygiene: 90,
+    mood: 75,
+    bladder: 60,
+    currentMapId: 'town',
+    currentNodeId: 'town-0-0',
+    position: { x: 100, y: 100 },
+    direction: 'down',
+  })
+  return {
+    characters: { c1: char },
+    npcs: {},
+    currentMapId: 'town',
+    time: { day: 1, hour: 8, minute: 0 },
+    isPaused: false,
+    transition: { isTransitioning: false, characterId: null, fromMapId: null, toMapId: null, progress: 0 },
+    tick: 0,
+  }
+}
+
+const at = (tick: number, time: string) => ({ tick, worldTime: tick * 60000, day: 1, time })
+
+const events: WorldEvent[] = [
+  { ...at(0, '08:00'), type: 'checkpoint', reason: 'init', state: createState() },
+  { ...at(1, '08:01'), type: 'action_started', characterId: 'c1', actionId: 'eat', target: 'kitchen', durationMinutes: 30, targetEndTime: 1800000 },
+  { ...at(1, '08:01'), type: 'stat_delta', characterId: 'c1', deltas: { money: -500 }, values: { money: 500 } },
+  { ...at(2, '08:31'), type: 'action_completed', characterId: 'c1', actionId: 'eat', target: 'kitchen' },
+  { ...at(2, '08:31'), type: 'stat_delta', characterId: 'c1', deltas: { satiety: 20 }, values: { satiety: 100 } },
+  { ...at(3, '08:40'), type: 'character_moved', characterId: 'c1', mapId: 'cafe', nodeId: 'cafe-0-0', position: { x: 10, y: 20 } },
+  { ...at(3, '08:40'), type: 'inventory_changed', characterId: 'c1', inventory: [{ itemId: 'onigiri', quantity: 1 }] },
+  { ...at(3, '08:40'), type: 'schedule_updated', characterId: 'c1', day: 1, entries: [{ time: '09:00', activity: '散歩' }] },
+  { ...at(3, '08:40'), type: 'employment_changed', characterId: 'c1', employments: [{ jobId: 'cafe-staff', workplaces: [{ workplaceLabel: 'カウンター', mapId: 'cafe' }] }] },
+  { ...at(3, '08:40'), type: 'expense_state_changed', characterId: 'c1', expenseState: { arrears: { rent: { amount: 3000, sinceDay: 1 } } } },
+  { ...at(3, '08:40'), type: 'skills_changed', characterId: 'c1', skills: { cooking: 1.5 } },
+  { ...at(3, '08:40'), type: 'plan_changed', characterId: 'c1', plan: { goal: '働く', steps: [{ type: 'action', actionId: 'work' }] } },
+  { ...at(3, '08:40'), type: 'payroll_changed', characterId: 'c1', payroll: { 'cafe-staff': { pendingWage: 1000, day: 1, hoursWorked: 1, consecutiveAbsences: 0 } } },
+  { ...at(3, '08:40'), type: 'attendance_recorded', record: { characterId: 'c1', jobId: 'cafe-staff', day: 1, hoursWorked: 1, expectedHours: null, docked: 0, absent: false } },
+  { ...at(4, '08:45'), type: 'npc_updated', npcId: 'npc1', updates: { affinity: 10 } },
+  { ...at(4, '08:45'), type: 'npc_updated', npcId: 'npc1', updates: { mood: 'happy' } },
+]
+
+describe('replayWorldEvents', () => {
+  it('should return null without a checkpoint', () => {
+    expect(replayWorldEvents(events.slice(1))).toBeNull()
+  })
+
+  it('should rebuild state at an intermediate tick', () => {
+    const result = replayWorldEvents(events, 1)!
+    const char = result.state.characters.c1
+    expect(char.money).toBe(500)
+    expect(char.currentAction).toMatchObject({ actionId: 'eat', facilityId: 'kitchen', targetEndTime: 1800000 })
+    expect(result.state.tick).toBe(1)
+    expect(result.state.time).toEqual({ day: 1, hour: 8, minute: 1 })
+  })
+
+  it('should apply all events up to the latest tick', () => {
+    const result = replayWorldEvents(events)!
+    const char = result.state.characters.c1
+    expect(char.currentAction).toBeNull()
+    expect(char.satiety).toBe(100)
+    expect(char.currentMapId).toBe('cafe')
+    expect(char.position).toEqual({ x: 10, y: 20 })
+    expect(char.inventory).toEqual([{ itemId: 'onigiri', quantity: 1 }])
+    expect(result.schedules['c1-1']).toEqual([{ time: '09:00', activity: '散歩' }])
+    expect(char.employments?.map(e => e.jobId)).toEqual(['cafe-staff'])
+    expect(char.expenseState?.arrears).toEqual({ rent: { amount: 3000, sinceDay: 1 } })
+    expect(char.skills).toEqual({ cooking: 1.5 })
+    expect(char.plan?.steps).toEqual([{ type: 'action', actionId: 'work' }])
+    expect(char.payroll?.['cafe-staff'].pendingWage).toBe(1000)
+    expect(result.attendance).toMatchObject([{ jobId: 'cafe-staff', day: 1, hoursWorked: 1 }])
+    expect(result.npcStates.npc1).toEqual({ affinity: 10, mood: 'happy' })
+    expect(result.appliedEvents).toBe(events.length)
+  })
+
+  it('should restart from a later checkpoint', () => {
+    const reset = createState()
+    reset.characters.c1.money = 42
+    const result = replayWorldEvents([
+      ...events,
+      { ...at(5, '09:00'), type: 'checkpoint', reason: 'snapshot', state: reset },
+    ])!
+    expect(result.state.characters.c1.money).toBe(42)
+    expect(result.state.characters.c1.currentMapId).toBe('town')
+    expect(result.appliedEvents).toBe(1)
+  })
+
+  it('should not mutate the checkpoint state', () => {
+    replayWorldEvents(events)
+    expect((events[0] as { state: SerializedWorldState }).state.characters.c1.money).toBe(1000)
+  })
+})
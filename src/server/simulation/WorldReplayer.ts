@@ -0,0 +1,169 @@
+import type { AttendanceRecord, NPCDynamicState, ScheduleEntry } from '@/types'
+import type { ActionId } from './actions/definitions'
+import type { SerializedWorldState, WorldEvent, JournalEntry } from './types'
+
+export interface ReplayResult {
+  state: SerializedWorldState
+  // key: `${characterId}-${day}`
+  schedules: Record<string, ScheduleEntry[]>
+  // NPC dynamic state changes since the checkpoint
+  npcStates: Record<string, Partial<NPCDynamicState>>
+  // Attendance records closed since the checkpoint
+  attendance: AttendanceRecord[]
+  appliedEvents: number
+  lastSeq: number | null
+}
+
+/**
+ * ジャーナルイベントを順に適用してワールド状態を再構築する
+ *
+ * 最新の checkpoint を起点に、untilTick 以下のイベントを適用する。
+ * checkpoint が含まれない場合は null を返す。
+ * conversation_message は監査用のため状態には影響しない。
+ */
+export function replayWorldEvents(
+  events: Array<WorldEvent | JournalEntry>,
+  untilTick: number = Number.POSITIVE_INFINITY
+): ReplayResult | null {
+  let result: ReplayResult | null = null
+
+  for (const event of events) {
+    if (event.tick > untilTick) break
+
+    if (event.type === 'checkpoint') {
+      result = {
+        state: JSON.parse(JSON.stringify(event.state)) as SerializedWorldState,
+        schedules: {},
+        npcStates: {},
+        attendance: [],
+        appliedEvents: 0,
+        lastSeq: null,
+      }
+    }
+    if (!result) continue
+
+    applyEvent(result, event)
+    result.state.tick = event.tick
+    result.state.time = { ...result.state.time, day: event.day, ...parseTime(event.time) }
+    result.appliedEvents++
+    if ('seq' in event) {
+      result.lastSeq = event.seq
+    }
+  }
+
+  return result
+}
+
+function applyEvent(result: ReplayResult, event: WorldEvent): void {
+  const { state } = result
+
+  switch (event.type) {
+    case 'checkpoint':
+      break
+
+    case 'action_started': {
+      const char = state.characters[event.characterId]
+      if (!char) break
+      char.currentAction = {
+        actionId: event.actionId as ActionId,
+        startTime: event.worldTime,
+        targetEndTime: event.targetEndTime ?? event.worldTime + (event.durationMinutes ?? 0) * 60 * 1000,
+        facilityId: event.target,
+        durationMinutes: event.durationMinutes,
+        reason: event.reason,
+      }
+      break
+    }
+
+    case 'action_completed':
+    case 'action_cancelled': {
+      const char = state.characters[event.characterId]
+      // 即時アクション（move/idle等）は currentAction を持たないため一致時のみクリア
+      if (char?.currentAction?.actionId === event.actionId) {
+        char.currentAction = null
+      }
+      break
+    }
+
+    case 'stat_delta': {
+      const char = state.characters[event.characterId]
+      if (!char) break
+      Object.assign(char, event.values)
+      break
+    }
+
+    case 'character_moved': {
+      const char = state.characters[event.characterId]
+      if (!char) break
+      char.currentMapId = event.mapId
+      char.currentNodeId = event.nodeId
+      char.position = { ...event.position }
+      break
+    }
+
+    case 'inventory_changed': {
+      const char = state.characters[event.characterId]
+      if (!char) break
+      char.inventory = event.inventory.map(item => ({ ...item }))
+      break
+    }
+
+    case 'npc_updated':
+      result.npcStates[event.npcId] = { ...result.npcStates[event.npcId], ...event.updates }
+      break
+
+    case 'employment_changed': {
+      const char = state.characters[event.characterId]
+      if (!char) break
+      char.employments = event.employments.map(e => ({ ...e }))
+      break
+    }
+
+    case 'expense_state_changed': {
+      const char = state.characters[event.characterId]
+      if (!char) break
+      char.expenseState = {
+        arrears: { ...event.expenseState.arrears },
+        evictedMapIds: event.expenseState.evictedMapIds ? [...event.expenseState.evictedMapIds] : undefined,
+      }
+      break
+    }
+
+    case 'skills_changed': {
+      const char = state.characters[event.characterId]
+      if (!char) break
+      char.skills = { ...event.skills }
+      break
+    }
+
+    case 'plan_changed': {
+      const char = state.characters[event.characterId]
+      if (!char) break
+      char.plan = event.plan ? { ...event.plan, steps: event.plan.steps.map(s => ({ ...s })) } : null
+      break
+    }
+
+    case 'payroll_changed': {
+      const char = state.characters[event.characterId]
+      if (!char) break
+      char.payroll = Object.fromEntries(Object.entries(event.payroll).map(([jobId, p]) => [jobId, { ...p }]))
+      break
+    }
+
+    case 'attendance_recorded':
+      result.attendance.push({ ...event.record })
+      break
+
+    case 'schedule_updated':
+      result.schedules[`${event.characterId}-${event.day}`] = event.entries.map(e => ({ ...e }))
+      break
+
+    case 'conversation_message':
+      break
+  }
+}
+
+function parseTime(time: string): { hour: number; minute: number } {
+  const [hour, minute] = time.split(':').map(Number)
+  return { hour: hour ?? 0, minute: minute ?? 0 }
+}
@@ -1,4 +1,4 @@
-import type { WorldMap, WorldTime, Position, Direction, CrossMapRoute, NPC } from '@/types'
+import type { WorldMap, WorldTime, WorldWeather, Position, Direction, CrossMapRoute, NPC, RecurringExpense } from '@/types'
 import type {
   WorldState,
   SimCharacter,
@@ -124,11 +124,21 @@ export class WorldStateManager {
     return this.state.tick
   }
 
+  // Set tick counter (continue numbering after restart)
+  setTick(tick: number): void {
+    this.state.tick = tick
+  }
+
   // Character management
   addCharacter(character: SimCharacter): void {
     this.state.characters.set(character.id, character)
   }
 
+  // Remove all characters (used when restoring a snapshot)
+  clearCharacters(): void {
+    this.state.characters.clear()
+  }
+
   getCharacter(id: string): SimCharacter | undefined {
     return this.state.characters.get(id)
   }
@@ -150,12 +160,14 @@ export class WorldStateManager {
     personality?: string
     tendencies?: string[]
     customPrompt?: string
+    recurringExpenses?: RecurringExpense[]
   }): void {
     const char = this.state.characters.get(characterId)
     if (char) {
       char.personality = profile.personality
       char.tendencies = profile.tendencies ? [...profile.tendencies] : undefined
       char.customPrompt = profile.customPrompt
+      char.recurringExpenses = profile.recurringExpenses ? profile.recurringExpenses.map(e => ({ ...e })) : undefined
     }
   }
 
@@ -328,6 +340,14 @@ export class WorldStateManager {
     this.state.time = { ...time }
   }
 
+  getWeather(): WorldWeather | null {
+    return this.state.weather ?? null
+  }
+
+  setWeather(weather: WorldWeather | null): void {
+    this.state.weather = weather ? { ...weather } : null
+  }
+
   advanceTime(minutes: number): void {
     let newMinute = this.state.time.minute + minutes
     let newHour = this.state.time.hour
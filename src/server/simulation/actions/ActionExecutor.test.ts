@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { ActionExecutor } from './ActionExecutor'
 import { WorldStateManager } from '../WorldState'
+import { WorldCalendar } from '../WorldCalendar'
+import { WorldClock } from '../WorldClock'
+import { closePayrollDay } from '../Payroll'
+import { setFacilityTagRegistry, resetFacilityTagRegistry } from '@/lib/facilityMapping'
 import type { SimCharacter } from '../types'
 import type { WorldMap, ActionConfig, FacilityInfo, Obstacle } from '@/types'
 
@@ -230,7 +234,7 @@ describe('ActionExecutor', () => {
 
     it('should cancel active action', () => {
       executor.startAction('char-1', 'eat')
-      executor.cancelAction('char-1')
+      executor.cancelAction('char-1', 'user')
 
       const char = worldState.getCharacter('char-1')
       expect(char?.currentAction).toBeNull()
@@ -238,11 +242,57 @@ describe('ActionExecutor', () => {
     })
 
     it('should do nothing when no action active', () => {
-      executor.cancelAction('char-1')
+      executor.cancelAction('char-1', 'user')
 
       const char = worldState.getCharacter('char-1')
       expect(char?.currentAction).toBeNull()
     })
+
+    it('should apply fixed effects in proportion to the elapsed time', () => {
+      worldState.initialize({
+        'test-map': createTestMap('test-map', [createZoneWithFacility('park', 0, 0, { tags: ['public'] })]),
+      })
+      worldState.addCharacter(createTestCharacter('char-1'))
+      executor.startAction('char-1', 'rest')
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      executor.cancelAction('char-1', 'user', action.startTime + 7.5 * 60 * 1000)
+
+      const char = worldState.getCharacter('char-1')
+      expect(char?.energy).toBe(55)
+      expect(char?.mood).toBe(52.5)
+    })
+
+    it('should notify the cancel reason, elapsed time and applied effects', () => {
+      const onCancel = vi.fn()
+      const onHistory = vi.fn()
+      executor.setOnActionCancel(onCancel)
+      executor.setOnRecordHistory(onHistory)
+      executor.startAction('char-1', 'eat', undefined, undefined, 30)
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      executor.cancelAction('char-1', 'conversation', action.startTime + 10 * 60 * 1000)
+
+      expect(onHistory).not.toHaveBeenCalled()
+      expect(onCancel).toHaveBeenCalledWith(expect.objectContaining({
+        characterId: 'char-1',
+        actionId: 'eat',
+        cancelReason: 'conversation',
+        elapsedMinutes: 10,
+        appliedEffects: expect.objectContaining({ satiety: 20, mood: 5 }),
+      }))
+    })
+
+    it('should not notify when cancelling thinking', () => {
+      const onCancel = vi.fn()
+      executor.setOnActionCancel(onCancel)
+      executor.startAction('char-1', 'thinking')
+
+      executor.cancelAction('char-1', 'interrupt')
+
+      expect(worldState.getCharacter('char-1')?.currentAction).toBeNull()
+      expect(onCancel).not.toHaveBeenCalled()
+    })
   })
 
   describe('isExecutingAction', () => {
@@ -436,6 +486,21 @@ describe('ActionExecutor', () => {
       expect(result.reason).toContain('No accessible facility')
     })
 
+    it('should fail when evicted from the owned facility map', () => {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('kitchen', 0, 0, { tags: ['kitchen'], owner: 'char-1' }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', {
+        currentNodeId: 'test-2-2',
+        expenseState: { arrears: {}, evictedMapIds: ['test-map'] },
+      }))
+
+      const result = executor.canExecuteAction('char-1', 'eat')
+      expect(result.canExecute).toBe(false)
+      expect(result.reason).toContain('No accessible facility')
+    })
+
     it('should fail when not enough money for facility cost', () => {
       const map = createTestMap('test-map', [
         createZoneWithFacility('restaurant', 0, 0, {
@@ -493,6 +558,684 @@ describe('ActionExecutor', () => {
     })
   })
 
+  describe('custom actions', () => {
+    beforeEach(() => {
+      executor.setActionConfigs({
+        ...executor.getActionConfigs(),
+        read: {
+          label: '読書',
+          emoji: '📖',
+          requirements: { facilityTags: ['public'] },
+          durationRange: { min: 15, max: 120, default: 30 },
+          perMinute: { mood: 0.25 },
+        },
+      })
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('park', 0, 0, { tags: ['public'] }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', {
+        currentNodeId: 'test-2-2',
+      }))
+    })
+
+    it('should include custom action when facility tags match', () => {
+      const actions = executor.getAvailableActions('char-1')
+
+      expect(actions).toContain('rest')
+      expect(actions).toContain('read')
+    })
+
+    it('should start custom action with configured emoji and duration', () => {
+      const result = executor.startAction('char-1', 'read', undefined, undefined, 60)
+
+      expect(result).toBe(true)
+      const character = worldState.getCharacter('char-1')!
+      expect(character.displayEmoji).toBe('📖')
+      expect(character.currentAction?.durationMinutes).toBe(60)
+      expect(executor.getActivePerMinuteEffects('char-1')).toEqual({ mood: 0.25 })
+    })
+
+    it('should reject custom action without matching facility', () => {
+      worldState.initialize({ 'test-map': createTestMap('test-map') })
+      worldState.addCharacter(createTestCharacter('char-2'))
+
+      expect(executor.canExecuteAction('char-2', 'read').canExecute).toBe(false)
+      expect(executor.getAvailableActions('char-2')).not.toContain('read')
+    })
+
+    it('should not treat unknown action IDs as custom actions', () => {
+      expect(executor.canExecuteAction('char-1', 'unknown').reason).toContain('Action not found')
+    })
+  })
+
+  describe('facility tag registry', () => {
+    beforeEach(() => {
+      setFacilityTagRegistry({
+        gym: { label: 'ジム', actions: ['exercise'], access: 'public' },
+        bar: { label: 'バー', actions: ['eat', 'rest'], access: 'public' },
+      })
+      executor.setActionConfigs({
+        ...executor.getActionConfigs(),
+        exercise: {
+          label: '運動',
+          emoji: '🏋️',
+          durationRange: { min: 20, max: 90, default: 45 },
+          perMinute: { energy: -0.4, mood: 0.3 },
+        },
+      })
+    })
+
+    afterEach(() => {
+      resetFacilityTagRegistry()
+    })
+
+    it('should enable built-in actions at facilities with registered tags', () => {
+      worldState.initialize({
+        'test-map': createTestMap('test-map', [createZoneWithFacility('bar', 0, 0, { tags: ['bar'] })]),
+      })
+      worldState.addCharacter(createTestCharacter('char-1'))
+
+      const actions = executor.getAvailableActions('char-1')
+
+      expect(actions).toContain('eat')
+      expect(actions).toContain('rest')
+      expect(actions).not.toContain('sleep')
+    })
+
+    it('should enable custom actions declared only in the registry', () => {
+      worldState.initialize({
+        'test-map': createTestMap('test-map', [createZoneWithFacility('gym', 0, 0, { tags: ['gym'] })]),
+      })
+      worldState.addCharacter(createTestCharacter('char-1'))
+
+      expect(executor.getAvailableActions('char-1')).toContain('exercise')
+      expect(executor.startAction('char-1', 'exercise')).toBe(true)
+      expect(worldState.getCharacter('char-1')?.displayEmoji).toBe('🏋️')
+    })
+  })
+
+  describe('items', () => {
+    beforeEach(() => {
+      executor.setActionConfigs({
+        ...executor.getActionConfigs(),
+        buy: { fixed: true, duration: 5, effects: {} },
+      })
+      executor.setItemConfigs({
+        onigiri: { name: 'おにぎり', category: 'food', price: 150, effects: { satiety: 25 }, consumeMinutes: 5 },
+        flowers: { name: '花束', category: 'gift', price: 800, maxStack: 1 },
+      })
+    })
+
+    function setupShop(characterOverrides: Partial<SimCharacter> = {}): void {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('store', 0, 0, {
+          tags: ['restaurant', 'shop'],
+          cost: 400,
+          catalog: [
+            { id: 'onigiri', name: 'おにぎり', price: 150, itemId: 'onigiri' },
+            { id: 'flowers', name: '花束', price: 800, itemId: 'flowers' },
+          ],
+        }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', characterOverrides))
+    }
+
+    it('should buy the ordered item and pay its price instead of the facility cost', () => {
+      setupShop()
+
+      expect(executor.startAction('char-1', 'buy', undefined, undefined, undefined, undefined, undefined, 'onigiri')).toBe(true)
+
+      const character = worldState.getCharacter('char-1')!
+      expect(character.money).toBe(850)
+      expect(character.inventory).toEqual([{ itemId: 'onigiri', quantity: 1 }])
+      expect(character.currentAction).toMatchObject({ itemId: 'onigiri', orderId: 'onigiri', receipt: { label: 'おにぎり', price: 150 } })
+    })
+
+    it('should notify a payment transaction with the receipt label', () => {
+      setupShop()
+      const onTransaction = vi.fn()
+      executor.setOnTransaction(onTransaction)
+
+      executor.startAction('char-1', 'buy', undefined, undefined, undefined, undefined, undefined, 'onigiri')
+
+      expect(onTransaction).toHaveBeenCalledWith({
+        characterId: 'char-1',
+        amount: -150,
+        balanceAfter: 850,
+        category: 'payment',
+        reason: 'おにぎり',
+        facilityId: 'store',
+      })
+    })
+
+    it('should accept an item ID instead of an order ID for buy', () => {
+      setupShop()
+
+      expect(executor.startAction('char-1', 'buy', undefined, undefined, undefined, undefined, 'onigiri')).toBe(true)
+      expect(worldState.getCharacter('char-1')?.money).toBe(850)
+    })
+
+    it('should fall back to the first purchasable item when no item is given', () => {
+      setupShop({ money: 500 })
+
+      expect(executor.startAction('char-1', 'buy')).toBe(true)
+      expect(worldState.getCharacter('char-1')?.inventory).toEqual([{ itemId: 'onigiri', quantity: 1 }])
+    })
+
+    it('should not buy items that are unaffordable, not sold here, or beyond maxStack', () => {
+      setupShop({ money: 500, inventory: [{ itemId: 'flowers', quantity: 1 }] })
+
+      expect(executor.startAction('char-1', 'buy', undefined, undefined, undefined, undefined, 'flowers')).toBe(false)
+      expect(executor.startAction('char-1', 'buy', undefined, undefined, undefined, undefined, 'bento')).toBe(false)
+      expect(worldState.getCharacter('char-1')?.money).toBe(500)
+    })
+
+    it('should not offer buy when nothing is affordable', () => {
+      setupShop({ money: 100 })
+
+      expect(executor.canExecuteAction('char-1', 'buy').canExecute).toBe(false)
+      expect(executor.getAvailableActions('char-1')).not.toContain('buy')
+    })
+
+    it('should allow eat without a facility when carrying food', () => {
+      worldState.initialize({ 'test-map': createTestMap('test-map') })
+      worldState.addCharacter(createTestCharacter('char-1', { inventory: [{ itemId: 'onigiri', quantity: 2 }] }))
+
+      expect(executor.canExecuteAction('char-1', 'eat').canExecute).toBe(true)
+      expect(executor.startAction('char-1', 'eat')).toBe(true)
+
+      const character = worldState.getCharacter('char-1')!
+      expect(character.inventory).toEqual([{ itemId: 'onigiri', quantity: 1 }])
+      expect(character.currentAction).toMatchObject({ actionId: 'eat', itemId: 'onigiri', durationMinutes: 5 })
+      expect(executor.getActivePerMinuteEffects('char-1')).toBeNull()
+    })
+
+    it('should apply item effects when eating carried food completes', () => {
+      worldState.initialize({ 'test-map': createTestMap('test-map') })
+      worldState.addCharacter(createTestCharacter('char-1', { inventory: [{ itemId: 'onigiri', quantity: 1 }] }))
+
+      executor.startAction('char-1', 'eat')
+      executor.tick(worldState.getCharacter('char-1')!.currentAction!.targetEndTime)
+
+      const character = worldState.getCharacter('char-1')!
+      expect(character.currentAction).toBeNull()
+      expect(character.satiety).toBe(75)
+      expect(character.inventory).toEqual([])
+    })
+
+    it('should use the facility when at an eat facility and no item is given', () => {
+      setupShop({ inventory: [{ itemId: 'onigiri', quantity: 1 }] })
+
+      executor.startAction('char-1', 'eat')
+
+      const character = worldState.getCharacter('char-1')!
+      expect(character.money).toBe(600)
+      expect(character.inventory).toEqual([{ itemId: 'onigiri', quantity: 1 }])
+      expect(character.currentAction?.itemId).toBeUndefined()
+    })
+
+    it('should eat the requested carried item even at an eat facility', () => {
+      setupShop({ inventory: [{ itemId: 'onigiri', quantity: 1 }] })
+
+      executor.startAction('char-1', 'eat', undefined, undefined, undefined, undefined, 'onigiri')
+
+      const character = worldState.getCharacter('char-1')!
+      expect(character.money).toBe(1000)
+      expect(character.currentAction?.itemId).toBe('onigiri')
+    })
+
+    it('should not eat gifts', () => {
+      worldState.initialize({ 'test-map': createTestMap('test-map') })
+      worldState.addCharacter(createTestCharacter('char-1', { inventory: [{ itemId: 'flowers', quantity: 1 }] }))
+
+      expect(executor.canExecuteAction('char-1', 'eat').canExecute).toBe(false)
+    })
+  })
+
+  describe('catalog', () => {
+    function setupRestaurant(characterOverrides: Partial<SimCharacter> = {}): void {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('restaurant', 0, 0, {
+          tags: ['restaurant'],
+          cost: 400,
+          catalog: [
+            { id: 'lunch', name: '日替わり定食', price: 800, quality: 70, effects: { mood: 10 } },
+            { id: 'soba', name: 'かけそば', price: 500 },
+          ],
+        }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', characterOverrides))
+    }
+
+    it('should charge the ordered menu entry instead of the facility cost', () => {
+      setupRestaurant()
+
+      expect(executor.startAction('char-1', 'eat', undefined, undefined, undefined, undefined, undefined, 'lunch')).toBe(true)
+
+      const character = worldState.getCharacter('char-1')!
+      expect(character.money).toBe(200)
+      expect(character.currentAction).toMatchObject({ orderId: 'lunch', receipt: { label: '日替わり定食', price: 800 } })
+    })
+
+    it('should fall back to the cheapest affordable entry', () => {
+      setupRestaurant({ money: 600 })
+
+      expect(executor.startAction('char-1', 'eat', undefined, undefined, undefined, undefined, undefined, 'lunch')).toBe(true)
+      expect(worldState.getCharacter('char-1')?.money).toBe(100)
+      expect(worldState.getCharacter('char-1')?.currentAction?.orderId).toBe('soba')
+    })
+
+    it('should not allow the action when no entry is affordable', () => {
+      setupRestaurant({ money: 450 })
+
+      expect(executor.canExecuteAction('char-1', 'eat').canExecute).toBe(false)
+      expect(executor.startAction('char-1', 'eat')).toBe(false)
+      expect(worldState.getCharacter('char-1')?.money).toBe(450)
+    })
+
+    it('should apply menu entry effects on completion', () => {
+      setupRestaurant({ mood: 50 })
+
+      executor.startAction('char-1', 'eat', undefined, undefined, undefined, undefined, undefined, 'lunch')
+      executor.tick(worldState.getCharacter('char-1')!.currentAction!.targetEndTime)
+
+      expect(worldState.getCharacter('char-1')?.mood).toBe(60)
+    })
+
+    it('should pass the receipt to start and history callbacks', () => {
+      setupRestaurant()
+      const onStart = vi.fn()
+      const onHistory = vi.fn()
+      executor.setOnActionStart(onStart)
+      executor.setOnRecordHistory(onHistory)
+
+      executor.startAction('char-1', 'eat', undefined, undefined, undefined, undefined, undefined, 'soba')
+      executor.tick(worldState.getCharacter('char-1')!.currentAction!.targetEndTime)
+
+      expect(onStart).toHaveBeenCalledWith(expect.objectContaining({ receipt: { label: 'かけそば', price: 500 } }))
+      expect(onHistory).toHaveBeenCalledWith(expect.objectContaining({ receipt: { label: 'かけそば', price: 500 } }))
+    })
+
+    it('should record the flat facility cost as a receipt without a catalog', () => {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('restaurant', 0, 0, { tags: ['restaurant'], cost: 400 }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1'))
+
+      executor.startAction('char-1', 'eat')
+
+      const character = worldState.getCharacter('char-1')!
+      expect(character.money).toBe(600)
+      expect(character.currentAction?.receipt).toEqual({ label: '利用料', price: 400 })
+    })
+  })
+
+  describe('capacity', () => {
+    function setupToilet(characterIds: string[], extra: Partial<FacilityInfo> = {}): void {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('toilet', 0, 0, { tags: ['toilet'], capacity: 1, ...extra }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      for (const id of characterIds) {
+        worldState.addCharacter(createTestCharacter(id))
+      }
+    }
+
+    it('should record the occupied facility and count occupancy', () => {
+      setupToilet(['char-1'])
+
+      expect(executor.startAction('char-1', 'toilet')).toBe(true)
+      expect(worldState.getCharacter('char-1')?.currentAction?.occupiedFacilityId).toBe('toilet')
+      expect(executor.getFacilityOccupants('test-map', 'toilet')).toEqual(['char-1'])
+      expect(executor.getFacilityOccupancy('test-map', 'toilet')).toBe(1)
+    })
+
+    it('should not start an action at a full facility', () => {
+      setupToilet(['char-1', 'char-2'])
+      executor.startAction('char-1', 'toilet')
+
+      expect(executor.canExecuteAction('char-2', 'toilet').canExecute).toBe(false)
+      expect(executor.startAction('char-2', 'toilet')).toBe(false)
+      expect(worldState.getCharacter('char-2')?.currentAction).toBeNull()
+    })
+
+    it('should free the slot when the action completes', () => {
+      setupToilet(['char-1', 'char-2'])
+      executor.startAction('char-1', 'toilet')
+      executor.tick(worldState.getCharacter('char-1')!.currentAction!.targetEndTime)
+
+      expect(executor.getFacilityOccupancy('test-map', 'toilet')).toBe(0)
+      expect(executor.startAction('char-2', 'toilet')).toBe(true)
+    })
+
+    it('should not limit facilities without capacity', () => {
+      setupToilet(['char-1', 'char-2'], { capacity: undefined })
+      executor.startAction('char-1', 'toilet')
+
+      expect(executor.startAction('char-2', 'toilet')).toBe(true)
+    })
+
+    it('should not occupy a facility when eating carried food', () => {
+      executor.setItemConfigs({ onigiri: { name: 'おにぎり', category: 'food', price: 150, effects: { satiety: 25 } } })
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('diner', 0, 0, { tags: ['restaurant'], capacity: 1 }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1'))
+      worldState.addCharacter(createTestCharacter('char-2', { inventory: [{ itemId: 'onigiri', quantity: 1 }] }))
+      executor.startAction('char-1', 'eat')
+
+      expect(executor.startAction('char-2', 'eat', undefined, undefined, undefined, undefined, 'onigiri')).toBe(true)
+      expect(worldState.getCharacter('char-2')?.currentAction?.occupiedFacilityId).toBeUndefined()
+    })
+  })
+
+  describe('open hours', () => {
+    // 1日目=月曜
+    function setupDiner(extra: Partial<FacilityInfo> = {}): void {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('diner', 0, 0, {
+          tags: ['restaurant'],
+          openHours: { start: '08:00', end: '21:00', days: { tue: null } },
+          ...extra,
+        }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1'))
+    }
+
+    it('should allow actions during open hours', () => {
+      setupDiner()
+      worldState.setTime({ hour: 12, minute: 0, day: 1 })
+
+      expect(executor.canExecuteAction('char-1', 'eat').canExecute).toBe(true)
+      expect(executor.startAction('char-1', 'eat')).toBe(true)
+    })
+
+    it('should not allow actions outside open hours or on closed days', () => {
+      setupDiner()
+      worldState.setTime({ hour: 3, minute: 0, day: 1 })
+      expect(executor.canExecuteAction('char-1', 'eat').canExecute).toBe(false)
+      expect(executor.startAction('char-1', 'eat')).toBe(false)
+
+      worldState.setTime({ hour: 12, minute: 0, day: 2 })
+      expect(executor.canExecuteAction('char-1', 'eat').canExecute).toBe(false)
+    })
+
+    it('should use the calendar weekday for day overrides', () => {
+      setupDiner()
+      executor.setCalendar(new WorldCalendar({ startWeekday: 'tue' }))
+      worldState.setTime({ hour: 12, minute: 0, day: 1 })
+
+      expect(executor.canExecuteAction('char-1', 'eat').canExecute).toBe(false)
+    })
+
+    it('should end the action early when the facility closes', () => {
+      setupDiner()
+      worldState.setTime({ hour: 20, minute: 50, day: 1 })
+      executor.startAction('char-1', 'eat', undefined, undefined, 60)
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      const onComplete = vi.fn()
+      executor.setOnActionComplete(onComplete)
+      worldState.setTime({ hour: 21, minute: 0, day: 1 })
+      executor.tick(action.startTime + 10 * 60 * 1000)
+
+      expect(worldState.getCharacter('char-1')?.currentAction).toBeNull()
+      expect(onComplete).toHaveBeenCalledWith('char-1', 'eat')
+    })
+
+    it('should pay wages only for the hours worked before closing', () => {
+      setupDiner({
+        tags: ['workspace'],
+        job: { jobId: 'cook', title: 'コック', hourlyWage: 1200, workHours: { start: 8, end: 22 } },
+      })
+      worldState.updateCharacter('char-1', {
+        employments: [{ jobId: 'cook', workplaces: [{ workplaceLabel: 'diner', mapId: 'test-map' }] }],
+      })
+      worldState.setTime({ hour: 19, minute: 0, day: 1 })
+      executor.startAction('char-1', 'work', undefined, undefined, 240)
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      worldState.setTime({ hour: 21, minute: 0, day: 1 })
+      executor.tick(action.startTime + 2 * 60 * 60 * 1000)
+
+      expect(worldState.getCharacter('char-1')?.currentAction).toBeNull()
+      expect(worldState.getCharacter('char-1')?.money).toBe(1000 + 2400)
+      expect(worldState.getCharacter('char-1')?.payroll?.cook).toMatchObject({ pendingWage: 0, day: 1, hoursWorked: 2 })
+    })
+
+    it('should accrue wages until payday for jobs paid daily', () => {
+      setupDiner({
+        tags: ['workspace'],
+        job: { jobId: 'cook', title: 'コック', hourlyWage: 1200, workHours: { start: 8, end: 22 }, payday: 'daily' },
+      })
+      worldState.updateCharacter('char-1', {
+        employments: [{ jobId: 'cook', workplaces: [{ workplaceLabel: 'diner', mapId: 'test-map' }] }],
+      })
+      worldState.setTime({ hour: 19, minute: 0, day: 1 })
+      executor.startAction('char-1', 'work', undefined, undefined, 60)
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      worldState.setTime({ hour: 20, minute: 0, day: 1 })
+      executor.tick(action.startTime + 60 * 60 * 1000)
+
+      expect(worldState.getCharacter('char-1')?.money).toBe(1000)
+      expect(worldState.getCharacter('char-1')?.payroll?.cook).toEqual({ pendingWage: 1200, day: 1, hoursWorked: 1, consecutiveAbsences: 0 })
+    })
+
+    it('should credit a shift crossing midnight to the day it was worked', () => {
+      setupDiner({
+        tags: ['workspace'],
+        openHours: undefined,
+        job: { jobId: 'cook', title: 'コック', hourlyWage: 1200, workHours: { start: 22, end: 6 }, payday: 'daily' },
+      })
+      worldState.updateCharacter('char-1', {
+        employments: [{ jobId: 'cook', workplaces: [{ workplaceLabel: 'diner', mapId: 'test-map' }] }],
+      })
+      worldState.setTime({ hour: 23, minute: 0, day: 1 })
+      executor.startAction('char-1', 'work', undefined, undefined, 120)
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      // Day close at midnight
+      executor.creditWorkInProgress('char-1', 1, action.startTime + 60 * 60 * 1000)
+      expect(worldState.getCharacter('char-1')?.payroll?.cook).toMatchObject({ pendingWage: 0, day: 1, hoursWorked: 1 })
+      const closed = closePayrollDay(worldState.getCharacter('char-1')!, new Map([['cook', {
+        jobId: 'cook', title: 'コック', hourlyWage: 1200, workHours: { start: 22, end: 6 }, attendance: { expectedHours: 1, fireAfterAbsences: 1 },
+      }]]), 1, 2, () => true)
+      expect(closed.records[0]).toMatchObject({ day: 1, hoursWorked: 1, absent: false })
+      expect(closed.firedJobIds).toEqual([])
+      worldState.updateCharacter('char-1', { payroll: closed.payroll })
+
+      worldState.setTime({ hour: 1, minute: 0, day: 2 })
+      executor.tick(action.startTime + 2 * 60 * 60 * 1000)
+
+      expect(worldState.getCharacter('char-1')?.currentAction).toBeNull()
+      expect(worldState.getCharacter('char-1')?.payroll?.cook).toEqual({ pendingWage: 2400, day: 2, hoursWorked: 1, consecutiveAbsences: 0 })
+    })
+
+    it('should keep actions running at facilities without open hours', () => {
+      setupDiner({ openHours: undefined })
+      worldState.setTime({ hour: 20, minute: 50, day: 1 })
+      executor.startAction('char-1', 'eat', undefined, undefined, 60)
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      worldState.setTime({ hour: 21, minute: 0, day: 1 })
+      executor.tick(action.startTime + 10 * 60 * 1000)
+
+      expect(worldState.getCharacter('char-1')?.currentAction?.actionId).toBe('eat')
+    })
+  })
+
+  describe('facility effect modifiers', () => {
+    function setupFacility(facility: Partial<FacilityInfo>): void {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('facility', 0, 0, { tags: ['public'], ...facility }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', { money: 10000 }))
+    }
+
+    beforeEach(() => {
+      executor.setFacilityModifiers({
+        quality: { baseline: 50, perUnit: 0.01, min: 0.5, max: 1.5 },
+        price: { baseline: 1000, perUnit: 0.0001 },
+      })
+    })
+
+    it('should scale fixed effects by facility quality', () => {
+      setupFacility({ quality: 80 })
+      executor.startAction('char-1', 'rest')
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      executor.tick(action.targetEndTime)
+
+      const char = worldState.getCharacter('char-1')
+      expect(char?.energy).toBe(50 + 13)
+      expect(char?.mood).toBe(50 + 6.5)
+    })
+
+    it('should scale per-minute effects by quality and price paid', () => {
+      setupFacility({ tags: ['restaurant'], quality: 30, cost: 2000 })
+      executor.startAction('char-1', 'eat')
+
+      // 0.8 (quality) x 1.1 (price)
+      expect(executor.getActivePerMinuteEffects('char-1')).toEqual({ satiety: 1.76, mood: 0.44 })
+    })
+
+    it('should apply per-facility effect overrides before the modifiers', () => {
+      setupFacility({ actionEffects: { rest: { effects: { energy: 20 } } } })
+      executor.startAction('char-1', 'rest')
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      executor.tick(action.targetEndTime)
+
+      const char = worldState.getCharacter('char-1')
+      expect(char?.energy).toBe(50 + 20)
+      expect(char?.mood).toBe(50 + 5)
+    })
+
+    it('should keep action effects when the action does not use a facility', () => {
+      setupFacility({ tags: ['restaurant'], quality: 100 })
+      worldState.updateCharacter('char-1', { inventory: [{ itemId: 'onigiri', quantity: 1 }] })
+      executor.setItemConfigs({ onigiri: { name: 'おにぎり', category: 'food', price: 150 } })
+      executor.startAction('char-1', 'eat', undefined, undefined, undefined, undefined, 'onigiri')
+
+      expect(worldState.getCharacter('char-1')?.currentAction?.itemId).toBe('onigiri')
+      expect(executor.getActivePerMinuteEffects('char-1')).toBeNull()
+    })
+  })
+
+  describe('habituation', () => {
+    let now: number
+
+    beforeEach(() => {
+      now = 0
+      const configs = executor.getActionConfigs()
+      executor = new ActionExecutor(worldState, new WorldClock({ startTime: 0, realNow: () => now }))
+      executor.setActionConfigs(configs)
+      executor.setHabituation({ windowMinutes: 240, decayPerRepeat: 0.3, minMultiplier: 0.3 })
+
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('bench', 0, 0, { tags: ['public', 'restaurant', 'toilet'] }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1'))
+    })
+
+    function restOnce(): void {
+      executor.startAction('char-1', 'rest')
+      now = worldState.getCharacter('char-1')!.currentAction!.targetEndTime
+      executor.tick(now)
+    }
+
+    it('should reduce the mood gain of a repeated action', () => {
+      restOnce()
+      expect(worldState.getCharacter('char-1')?.mood).toBe(55)
+
+      restOnce()
+      const char = worldState.getCharacter('char-1')
+      // 0.3 decay after 15 minutes: 1 - 0.3 x (1 - 15/240)
+      expect(char?.mood).toBeCloseTo(55 + 5 * 0.72)
+      // energy is not affected
+      expect(char?.energy).toBe(70)
+    })
+
+    it('should reduce per-minute mood for a facility used by another action', () => {
+      restOnce()
+      executor.startAction('char-1', 'eat')
+
+      expect(worldState.getCharacter('char-1')?.currentAction?.moodMultiplier).toBe(0.72)
+      expect(executor.getActivePerMinuteEffects('char-1')).toEqual({ satiety: 2, mood: 0.36 })
+    })
+
+    it('should recover after the window', () => {
+      restOnce()
+      now += 240 * 60 * 1000
+      expect(executor.getHabituations('char-1')).toEqual([])
+
+      executor.startAction('char-1', 'rest')
+      expect(worldState.getCharacter('char-1')?.currentAction?.moodMultiplier).toBeUndefined()
+    })
+
+    it('should decay talk mood per conversation partner', () => {
+      executor.startAction('char-1', 'talk', undefined, 'npc-1')
+      expect(executor.completeTalkAction('char-1')).toEqual({ mood: 10 })
+
+      executor.startAction('char-1', 'talk', undefined, 'npc-1')
+      expect(executor.completeTalkAction('char-1')).toEqual({ mood: 7 })
+
+      executor.startAction('char-1', 'talk', undefined, 'npc-2')
+      expect(executor.completeTalkAction('char-1')).toEqual({ mood: 10 })
+
+      const char = worldState.getCharacter('char-1')
+      expect(char?.mood).toBe(77)
+      expect(char?.currentAction).toBeNull()
+      expect(executor.getHabituations('char-1')).toEqual([
+        { kind: 'npc', id: 'npc-1', multiplier: 0.4 },
+        { kind: 'npc', id: 'npc-2', multiplier: 0.7 },
+      ])
+    })
+
+    it('should not track actions without mood gain', () => {
+      expect(executor.startAction('char-1', 'toilet')).toBe(true)
+
+      expect(executor.getHabituations('char-1')).toEqual([])
+    })
+
+    it('should track mood gained from catalog effects', () => {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('spa-toilet', 0, 0, {
+          tags: ['toilet'],
+          catalog: [{ id: 'aroma', name: 'アロマ', price: 0, effects: { mood: 4 } }],
+        }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1'))
+
+      executor.startAction('char-1', 'toilet')
+      executor.tick(worldState.getCharacter('char-1')!.currentAction!.targetEndTime)
+      executor.startAction('char-1', 'toilet')
+
+      expect(worldState.getCharacter('char-1')?.currentAction?.moodMultiplier).toBeLessThan(1)
+      expect(executor.getHabituations('char-1').map(h => h.id)).toEqual(['toilet', 'spa-toilet'])
+    })
+
+    it('should track mood gained from carried items', () => {
+      executor.setActionConfigs({ ...executor.getActionConfigs(), eat: { durationRange: { min: 15, max: 60, default: 30 }, perMinute: { satiety: 2 } } })
+      executor.setItemConfigs({ chocolate: { name: 'チョコ', category: 'food', price: 200, effects: { mood: 5 } } })
+      worldState.updateCharacter('char-1', { inventory: [{ itemId: 'chocolate', quantity: 1 }] })
+
+      executor.startAction('char-1', 'eat', undefined, undefined, undefined, undefined, 'chocolate')
+
+      expect(executor.getHabituations('char-1')).toEqual([{ kind: 'action', id: 'eat', multiplier: 0.7 }])
+    })
+  })
+
   describe('getCurrentFacility', () => {
     it('should return facility for current position', () => {
       const map = createTestMap('test-map', [
@@ -543,7 +1286,7 @@ describe('ActionExecutor', () => {
       worldState.initialize({ 'test-map': map })
       worldState.addCharacter(createTestCharacter('char-1', {
         currentNodeId: 'test-2-2',
-        employment: undefined, // 雇用なし
+        employments: undefined, // 雇用なし
       }))
 
       const result = executor.canExecuteAction('char-1', 'work')
@@ -566,16 +1309,42 @@ describe('ActionExecutor', () => {
       worldState.initialize({ 'test-map': map })
       worldState.addCharacter(createTestCharacter('char-1', {
         currentNodeId: 'test-2-2',
-        employment: {
+        employments: [{
           jobId: 'writer', // 異なるjobId
           workplaces: [{ workplaceLabel: 'オフィス', mapId: 'test-map' }],
-        },
+        }],
       }))
 
       const result = executor.canExecuteAction('char-1', 'work')
       expect(result.canExecute).toBe(false)
       expect(result.reason).toContain('mismatch')
     })
+
+    it('should succeed when any of multiple employments matches and follow runtime changes', () => {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('workspace', 0, 0, {
+          tags: ['workspace'],
+          job: { jobId: 'chef', title: 'シェフ', hourlyWage: 1200, workHours: { start: 9, end: 18 } },
+        }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', {
+        currentNodeId: 'test-2-2',
+        employments: [
+          { jobId: 'writer', workplaces: [{ workplaceLabel: 'オフィス', mapId: 'office' }] },
+          { jobId: 'chef', workplaces: [{ workplaceLabel: 'workspace', mapId: 'test-map' }] },
+        ],
+      }))
+      worldState.setTime({ hour: 10, minute: 0, day: 1 })
+
+      expect(executor.canExecuteAction('char-1', 'work').canExecute).toBe(true)
+
+      // 退職後は働けない
+      worldState.updateCharacter('char-1', {
+        employments: [{ jobId: 'writer', workplaces: [{ workplaceLabel: 'オフィス', mapId: 'office' }] }],
+      })
+      expect(executor.canExecuteAction('char-1', 'work').reason).toContain('mismatch')
+    })
   })
 
   describe('work action - work hours check (docs/action-system.md:232-236)', () => {
@@ -594,10 +1363,10 @@ describe('ActionExecutor', () => {
       worldState.initialize({ 'test-map': map })
       worldState.addCharacter(createTestCharacter('char-1', {
         currentNodeId: 'test-2-2',
-        employment: {
+        employments: [{
           jobId: 'writer',
           workplaces: [{ workplaceLabel: 'workspace', mapId: 'test-map' }],
-        },
+        }],
       }))
 
       // 現在時刻を営業時間内に設定
@@ -622,10 +1391,10 @@ describe('ActionExecutor', () => {
       worldState.initialize({ 'test-map': map })
       worldState.addCharacter(createTestCharacter('char-1', {
         currentNodeId: 'test-2-2',
-        employment: {
+        employments: [{
           jobId: 'writer',
           workplaces: [{ workplaceLabel: 'workspace', mapId: 'test-map' }],
-        },
+        }],
       }))
 
       // 現在時刻を営業時間外に設定
@@ -651,10 +1420,10 @@ describe('ActionExecutor', () => {
       worldState.initialize({ 'test-map': map })
       worldState.addCharacter(createTestCharacter('char-1', {
         currentNodeId: 'test-2-2',
-        employment: {
+        employments: [{
           jobId: 'nightworker',
           workplaces: [{ workplaceLabel: 'workspace', mapId: 'test-map' }],
-        },
+        }],
       }))
 
       // 23時は営業時間内
@@ -671,6 +1440,61 @@ describe('ActionExecutor', () => {
     })
   })
 
+  describe('work action - holidays', () => {
+    const setupJob = (skipHolidays?: boolean) => {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('workspace', 0, 0, {
+          tags: ['workspace'],
+          job: {
+            jobId: 'writer',
+            title: 'ライター',
+            hourlyWage: 1500,
+            workHours: { start: 9, end: 18 },
+            skipHolidays,
+          },
+        }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', {
+        currentNodeId: 'test-2-2',
+        employments: [{
+          jobId: 'writer',
+          workplaces: [{ workplaceLabel: 'workspace', mapId: 'test-map' }],
+        }],
+      }))
+      // 1日目=土曜、日曜は休日、3日目は祝日
+      executor.setCalendar(new WorldCalendar({
+        startWeekday: 'sat',
+        restDays: ['sun'],
+        holidays: [{ day: 3, name: '創立記念日' }],
+      }))
+    }
+
+    it('should fail on rest days and holidays when skipHolidays is set', () => {
+      setupJob(true)
+
+      worldState.setTime({ hour: 10, minute: 0, day: 2 })
+      const result = executor.canExecuteAction('char-1', 'work')
+      expect(result.canExecute).toBe(false)
+      expect(result.reason).toContain('Holiday')
+
+      worldState.setTime({ hour: 10, minute: 0, day: 3 })
+      expect(executor.canExecuteAction('char-1', 'work').canExecute).toBe(false)
+    })
+
+    it('should succeed on regular days when skipHolidays is set', () => {
+      setupJob(true)
+      worldState.setTime({ hour: 10, minute: 0, day: 1 })
+      expect(executor.canExecuteAction('char-1', 'work').canExecute).toBe(true)
+    })
+
+    it('should ignore holidays when skipHolidays is not set', () => {
+      setupJob()
+      worldState.setTime({ hour: 10, minute: 0, day: 2 })
+      expect(executor.canExecuteAction('char-1', 'work').canExecute).toBe(true)
+    })
+  })
+
   describe('work action - salary calculation (docs/action-system.md:293-298)', () => {
     it('should add hourly wage to money after work completion', () => {
       const map = createTestMap('test-map', [
@@ -688,10 +1512,10 @@ describe('ActionExecutor', () => {
       worldState.addCharacter(createTestCharacter('char-1', {
         currentNodeId: 'test-2-2',
         money: 1000,
-        employment: {
+        employments: [{
           jobId: 'writer',
           workplaces: [{ workplaceLabel: 'workspace', mapId: 'test-map' }],
-        },
+        }],
       }))
 
       worldState.setTime({ hour: 10, minute: 0, day: 1 })
@@ -709,6 +1533,131 @@ describe('ActionExecutor', () => {
       // 1500円/時 × 1時間 = 1500円増加
       expect(updatedChar?.money).toBe(2500)
     })
+
+    it('should notify a wage transaction with the job', () => {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('workspace', 0, 0, {
+          tags: ['workspace'],
+          job: { jobId: 'writer', title: 'ライター', hourlyWage: 1500, workHours: { start: 9, end: 18 } },
+        }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', {
+        employments: [{ jobId: 'writer', workplaces: [{ workplaceLabel: 'workspace', mapId: 'test-map' }] }],
+      }))
+      worldState.setTime({ hour: 10, minute: 0, day: 1 })
+      const onTransaction = vi.fn()
+      executor.setOnTransaction(onTransaction)
+
+      executor.startAction('char-1', 'work', undefined, undefined, 60)
+      executor.tick(worldState.getCharacter('char-1')!.currentAction!.targetEndTime + 1000)
+
+      expect(onTransaction).toHaveBeenCalledTimes(1)
+      expect(onTransaction).toHaveBeenCalledWith({
+        characterId: 'char-1',
+        amount: 1500,
+        balanceAfter: 2500,
+        category: 'wage',
+        reason: '給与（ライター）',
+        facilityId: 'workspace',
+        jobId: 'writer',
+      })
+    })
+  })
+
+  describe('skills', () => {
+    const writerJob = {
+      jobId: 'writer',
+      title: 'ライター',
+      hourlyWage: 1500,
+      workHours: { start: 9, end: 18 },
+      skill: 'writing',
+    }
+
+    beforeEach(() => {
+      executor.setSkills({
+        experiencePerLevel: 600,
+        maxLevel: 10,
+        wageBonusPerLevel: 0.1,
+        effectBonusPerLevel: 0.5,
+        definitions: {
+          writing: { label: '文章', actions: [] },
+          cooking: { label: '料理', actions: ['eat'], facilityTags: ['kitchen'] },
+        },
+      })
+      worldState.setTime({ hour: 10, minute: 0, day: 1 })
+    })
+
+    function setupWorkspace(job: FacilityInfo['job'], skills?: Record<string, number>): void {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('workspace', 0, 0, { tags: ['workspace'], job }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', {
+        skills,
+        employments: [{ jobId: 'writer', workplaces: [{ workplaceLabel: 'workspace', mapId: 'test-map' }] }],
+      }))
+    }
+
+    it('should gain job skill experience and raise the wage with level', () => {
+      setupWorkspace(writerJob, { writing: 1250 })
+      executor.startAction('char-1', 'work', undefined, undefined, 60)
+      executor.tick(worldState.getCharacter('char-1')!.currentAction!.targetEndTime)
+
+      const char = worldState.getCharacter('char-1')
+      // Lv2: 1500 x 1.2 = 1800円/時
+      expect(char?.money).toBe(1000 + 1800)
+      expect(char?.skills).toEqual({ writing: 1310 })
+      expect(executor.getSkills('char-1')).toEqual([
+        { id: 'writing', label: '文章', level: 2, experience: 1310, nextLevelExperience: 1800 },
+      ])
+    })
+
+    it('should gain experience for elapsed time when cancelled', () => {
+      setupWorkspace(writerJob)
+      executor.startAction('char-1', 'work', undefined, undefined, 60)
+      const action = worldState.getCharacter('char-1')!.currentAction!
+
+      executor.cancelAction('char-1', 'user', action.startTime + 20 * 60 * 1000)
+
+      expect(worldState.getCharacter('char-1')?.skills).toEqual({ writing: 20 })
+    })
+
+    it('should not allow work below the required skill level', () => {
+      setupWorkspace({ ...writerJob, requiredSkill: { skill: 'writing', level: 2 } }, { writing: 700 })
+
+      expect(executor.canExecuteAction('char-1', 'work')).toEqual({ canExecute: false, reason: 'Skill required: 文章 Lv2' })
+
+      worldState.updateCharacter('char-1', { skills: { writing: 1200 } })
+      expect(executor.canExecuteAction('char-1', 'work').canExecute).toBe(true)
+    })
+
+    it('should boost effects of matching actions at matching facilities', () => {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('kitchen', 0, 0, { tags: ['kitchen'], owner: 'char-1' }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', { skills: { cooking: 600 } }))
+
+      executor.startAction('char-1', 'eat', undefined, undefined, 30)
+
+      // Lv1: x1.5
+      expect(executor.getActivePerMinuteEffects('char-1')).toEqual({ satiety: 3, mood: 0.75 })
+    })
+
+    it('should not gain experience from carried food', () => {
+      const map = createTestMap('test-map', [
+        createZoneWithFacility('kitchen', 0, 0, { tags: ['kitchen'], owner: 'char-1' }),
+      ])
+      worldState.initialize({ 'test-map': map })
+      worldState.addCharacter(createTestCharacter('char-1', { inventory: [{ itemId: 'onigiri', quantity: 1 }] }))
+      executor.setItemConfigs({ onigiri: { name: 'おにぎり', category: 'food', price: 150 } })
+
+      executor.startAction('char-1', 'eat', undefined, undefined, undefined, undefined, 'onigiri')
+      executor.tick(worldState.getCharacter('char-1')!.currentAction!.targetEndTime)
+
+      expect(worldState.getCharacter('char-1')?.skills).toBeUndefined()
+    })
   })
 
   describe('getActivePerMinuteEffects', () => {
@@ -935,7 +1884,7 @@ describe('ActionExecutor', () => {
       worldState.addCharacter(createTestCharacter('char-1', {
         currentNodeId: 'test-2-2',
         money: 500,
-        employment: { jobId: 'barista', workplaces: [{ workplaceLabel: 'ワークスペース', mapId: 'test-map' }] },
+        employments: [{ jobId: 'barista', workplaces: [{ workplaceLabel: 'ワークスペース', mapId: 'test-map' }] }],
       }))
       executor.setActionConfigs({
         work: { durationRange: { min: 60, max: 480, default: 120 }, perMinute: {} },
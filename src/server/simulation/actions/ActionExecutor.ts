@@ -1,10 +1,39 @@
-import type { ActionState, EffectPerMinute } from '@/types/action'
-import type { FacilityInfo, JobInfo, ActionConfig } from '@/types'
+import type { ActionState, EffectPerMinute, ActionCancelReason, AppliedEffects } from '@/types/action'
+import type { FacilityInfo, JobInfo, ActionConfig, ItemConfig, CatalogEntry, Receipt, Obstacle, Weekday, FacilityActionEffects, FacilityModifiersConfig, HabituationConfig, HabituationInfo, SkillsConfig, SkillSummary, TransactionCategory } from '@/types'
 import type { SimCharacter } from '../types'
 import type { WorldStateManager } from '../WorldState'
-import { ACTIONS, type ActionId } from './definitions'
-import { findZoneFacilityForNode, findBuildingFacilityNearNode } from '@/lib/facilityUtils'
+import { HabituationModel, getHabituationTargets } from '../HabituationModel'
+import { isEvictedFrom } from '../RecurringExpenses'
+import { recordWork } from '../Payroll'
+import { WorldCalendar } from '../WorldCalendar'
+import { WorldClock } from '../WorldClock'
+import { ACTIONS, getActionDefinition, type ActionId } from './definitions'
+import { getCustomActionIds } from '@/lib/facilityMapping'
+import { findZoneObstacleForNode, findBuildingObstacleNearNode, getCatalogEntries } from '@/lib/facilityUtils'
 import { parseNodeIdToGridCoord } from '@/lib/gridUtils'
+import { isFacilityOpen } from '@/lib/openHoursUtils'
+import { applyFacilityEffects, getFacilityEffectMultiplier } from '@/lib/facilityModifiers'
+import {
+  addSkillExperience,
+  formatSkillRequirement,
+  getActionSkills,
+  getCharacterSkillLevel,
+  getSkillLevel,
+  getSkillMultiplier,
+  getSkillSummaries,
+  meetsSkillRequirement,
+} from '@/lib/skillUtils'
+import { timeToMinutes } from '@/lib/timeUtils'
+import {
+  addItem,
+  removeItem,
+  canAddItem,
+  isConsumable,
+  getItemCount,
+  findConsumableItem,
+  DEFAULT_CONSUME_MINUTES,
+} from '@/lib/inventoryUtils'
+import { logger } from '@/lib/logger'
 
 /** Callback type for action completion events */
 export type ActionCompleteCallback = (characterId: string, actionId: ActionId) => void
@@ -17,7 +46,8 @@ export type ActionStartCallback = (entry: {
   targetNpcId?: string
   durationMinutes?: number
   reason?: string
-  startTimeReal: number  // Date.now() at action start
+  receipt?: Receipt
+  startTimeReal: number  // World clock time at action start
 }) => void
 
 /** Callback type for recording action history (legacy: completion only) */
@@ -28,6 +58,31 @@ export type ActionHistoryCallback = (entry: {
   targetNpcId?: string
   durationMinutes?: number
   reason?: string
+  receipt?: Receipt
+}) => void
+
+/** Callback type for action cancellation events */
+export type ActionCancelCallback = (entry: {
+  characterId: string
+  actionId: ActionId
+  facilityId?: string
+  targetNpcId?: string
+  reason?: string
+  receipt?: Receipt
+  cancelReason: ActionCancelReason
+  elapsedMinutes: number
+  appliedEffects: AppliedEffects
+}) => void
+
+/** Callback type for money transactions (payments, wages, money effects) */
+export type ActionTransactionCallback = (entry: {
+  characterId: string
+  amount: number          // income: positive, expense: negative
+  balanceAfter: number
+  category: TransactionCategory
+  reason: string
+  facilityId?: string
+  jobId?: string
 }) => void
 
 /**
@@ -35,16 +90,34 @@ export type ActionHistoryCallback = (entry: {
  *
  * アクションの時間と効果は world-config.json の actions セクションから読み込む。
  * LLMが可変時間アクションの実行時間を指定できる（durationMinutes）。
+ * 施設に catalog がある場合は注文した項目（orderId）の価格を支払い、ない場合は一律の cost を支払う。
+ * buy は catalog の商品を購入し、eat は所持している食べ物・飲み物を消費できる（itemId）。
+ * 定員（capacity）のある施設は、実行中アクションの occupiedFacilityId で利用人数を数え、満員なら開始できない。
+ * 営業時間（openHours）外の施設は利用できず、閉店時刻に利用中のアクションはその時点で中断する。
+ * 中断（cancelAction）したアクションは経過時間分の効果のみ適用し、中断理由とともに通知する。
+ * 施設を使うアクションの効果は、施設の actionEffects による上書きと品質・支払額の補正（facilityModifiers）を反映する。
+ * 気分の回復効果は、同じアクション・施設・会話相手の繰り返しによる慣れ（habituation）で下がる。
+ * スキル（skills）は対応するアクションの実行時間で経験値が入り、レベルに応じて回復効果と時給が上がる。
+ * 所持金の増減（支払い・給与・お金の効果）は onTransaction で通知する（取引履歴の記録用）。
  */
 export class ActionExecutor {
   private worldState: WorldStateManager
+  private clock: WorldClock
   private onActionComplete?: ActionCompleteCallback
   private onActionStart?: ActionStartCallback
   private onRecordHistory?: ActionHistoryCallback
+  private onActionCancel?: ActionCancelCallback
+  private onTransaction?: ActionTransactionCallback
   private actionConfigs: Record<string, ActionConfig> = {}
+  private itemConfigs: Record<string, ItemConfig> = {}
+  private calendar: WorldCalendar = new WorldCalendar()
+  private facilityModifiers: FacilityModifiersConfig = {}
+  private habituation: HabituationModel = new HabituationModel()
+  private skills: SkillsConfig | null = null
 
-  constructor(worldState: WorldStateManager) {
+  constructor(worldState: WorldStateManager, clock: WorldClock = new WorldClock()) {
     this.worldState = worldState
+    this.clock = clock
   }
 
   /**
@@ -52,7 +125,79 @@ export class ActionExecutor {
    */
   setActionConfigs(configs: Record<string, ActionConfig>): void {
     this.actionConfigs = configs
-    console.log(`[ActionExecutor] Loaded action configs for: ${Object.keys(configs).join(', ')}`)
+    logger.info(`[ActionExecutor] Loaded action configs for: ${Object.keys(configs).join(', ')}`)
+  }
+
+  /**
+   * アイテム設定を設定（world-config.json の items セクション）
+   */
+  setItemConfigs(configs: Record<string, ItemConfig>): void {
+    this.itemConfigs = configs
+    logger.info(`[ActionExecutor] Loaded item configs for: ${Object.keys(configs).join(', ')}`)
+  }
+
+  getItemConfigs(): Record<string, ItemConfig> {
+    return this.itemConfigs
+  }
+
+  /**
+   * 施設の品質・支払額による効果補正を設定（world-config.json の facilityModifiers セクション）
+   */
+  setFacilityModifiers(config: FacilityModifiersConfig): void {
+    this.facilityModifiers = config
+    logger.info(`[ActionExecutor] Loaded facility modifiers for: ${Object.keys(config).join(', ')}`)
+  }
+
+  /**
+   * 慣れの設定を設定（world-config.json の habituation セクション）
+   */
+  setHabituation(config: HabituationConfig): void {
+    this.habituation.setConfig(config)
+    logger.info(`[ActionExecutor] Loaded habituation config (window: ${config.windowMinutes}min)`)
+  }
+
+  /**
+   * 慣れの利用記録を消去（スナップショットの復元時）
+   */
+  clearHabituation(): void {
+    this.habituation.clear()
+  }
+
+  /**
+   * 慣れで気分の回復効果が下がっている対象を取得（倍率の低い順）
+   */
+  getHabituations(characterId: string): HabituationInfo[] {
+    return this.habituation.getHabituations(characterId, this.clock.now())
+  }
+
+  /**
+   * スキル設定を設定（world-config.json の skills セクション）
+   */
+  setSkills(config: SkillsConfig): void {
+    this.skills = config
+    logger.info(`[ActionExecutor] Loaded skills: ${Object.keys(config.definitions).join(', ')}`)
+  }
+
+  getSkillsConfig(): SkillsConfig | null {
+    return this.skills
+  }
+
+  /**
+   * キャラクターのスキルの状態を取得（スキル設定がなければ空）
+   */
+  getSkills(characterId: string): SkillSummary[] {
+    const character = this.worldState.getCharacter(characterId)
+    if (!character || !this.skills) return []
+    return getSkillSummaries(character.skills, this.skills)
+  }
+
+  /**
+   * スキルレベルを反映した時給を取得（仕事のスキルがなければ基本の時給）
+   */
+  getHourlyWage(character: SimCharacter, job: JobInfo): number {
+    if (!job.skill || !this.skills) return job.hourlyWage
+    const level = getCharacterSkillLevel(character.skills, job.skill, this.skills)
+    return Math.round(job.hourlyWage * getSkillMultiplier(level, this.skills.wageBonusPerLevel))
   }
 
   /**
@@ -62,6 +207,13 @@ export class ActionExecutor {
     return this.actionConfigs[actionType]
   }
 
+  /**
+   * アクション設定一覧を取得（カスタムアクションの判定用）
+   */
+  getActionConfigs(): Record<string, ActionConfig> {
+    return this.actionConfigs
+  }
+
   /**
    * キャラクターが実行中のアクションの perMinute 効果を取得
    * @returns perMinute 効果、またはアクション実行中でない/固定時間アクションの場合は null
@@ -71,17 +223,125 @@ export class ActionExecutor {
     if (!character?.currentAction) return null
 
     const actionId = character.currentAction.actionId
-    const actionDef = ACTIONS[actionId]
+    const actionDef = getActionDefinition(actionId, this.actionConfigs)
     if (!actionDef) return null
 
+    // 所持品を食べている場合は完了時にアイテムの効果を適用する
+    if (actionId === 'eat' && character.currentAction.itemId) return null
+
     const actionConfig = this.actionConfigs[actionId]
     if (!actionConfig) return null
 
     // 固定時間アクションには perMinute がないので null を返す
     if (actionConfig.fixed) return null
 
-    // 可変時間アクションの perMinute を返す
-    return actionConfig.perMinute ?? null
+    // 可変時間アクションの perMinute を返す（施設の上書き・補正、スキル、慣れを反映）
+    const perMinute = this.applySkillBonus(this.getFacilityAdjustedEffects(character, 'perMinute', actionConfig.perMinute), character)
+    return this.applyHabituation(perMinute, character.currentAction)
+  }
+
+  /**
+   * 実行中のアクションで経験値が入るスキルを取得（work は仕事のスキル）
+   */
+  private getCurrentActionSkills(character: SimCharacter): string[] {
+    const action = character.currentAction
+    if (!action || !this.skills) return []
+    const facility = this.getCurrentFacility(character.id)
+    const skillIds = getActionSkills(this.skills, action.actionId, action.occupiedFacilityId ? facility?.tags : [])
+    if (action.actionId === 'work' && facility?.job?.skill && !skillIds.includes(facility.job.skill)) {
+      skillIds.push(facility.job.skill)
+    }
+    return skillIds
+  }
+
+  /**
+   * スキルレベルによる倍率を回復（正の値）の効果に掛ける（複数のスキルが対応する場合は最も高いレベル）
+   */
+  private applySkillBonus(effects: EffectPerMinute | null, character: SimCharacter): EffectPerMinute | null {
+    if (!effects || !this.skills) return effects
+    const skills = this.skills
+    const level = Math.max(0, ...this.getCurrentActionSkills(character).map(id => getCharacterSkillLevel(character.skills, id, skills)))
+    if (level === 0) return effects
+
+    const multiplier = getSkillMultiplier(level, skills.effectBonusPerLevel)
+    const result: EffectPerMinute = {}
+    for (const [stat, value] of Object.entries(effects) as Array<[keyof EffectPerMinute, number]>) {
+      result[stat] = value > 0 ? Math.round(value * multiplier * 100) / 100 : value
+    }
+    return result
+  }
+
+  /**
+   * 実行時間（分）をスキルの経験値として加算
+   */
+  private gainSkillExperience(character: SimCharacter, minutes: number): void {
+    const skillIds = this.getCurrentActionSkills(character)
+    if (skillIds.length === 0 || minutes <= 0 || !this.skills) return
+
+    const before = this.worldState.getCharacter(character.id)?.skills ?? character.skills
+    const skills = addSkillExperience(before, skillIds, minutes)
+    this.worldState.updateCharacter(character.id, { skills })
+
+    for (const skillId of skillIds) {
+      const level = getSkillLevel(skills[skillId], this.skills)
+      if (level > getCharacterSkillLevel(before, skillId, this.skills)) {
+        logger.info(`[ActionExecutor] ${character.name} reached ${this.skills.definitions[skillId]?.label ?? skillId} Lv${level}`)
+      }
+    }
+  }
+
+  /**
+   * 慣れによる倍率を気分の回復（正の値）の効果に掛ける
+   */
+  private applyHabituation(effects: EffectPerMinute | null, action: ActionState): EffectPerMinute | null {
+    const multiplier = action.moodMultiplier
+    if (!effects || multiplier === undefined || effects.mood === undefined || effects.mood <= 0) return effects
+    return { ...effects, mood: Math.round(effects.mood * multiplier * 100) / 100 }
+  }
+
+  /**
+   * 施設による効果の上書きと品質・支払額の補正を反映した効果を取得
+   * 施設を使わないアクション（所持品を食べる、会話など）はアクション設定の効果のまま。
+   */
+  private getFacilityAdjustedEffects(
+    character: SimCharacter,
+    kind: keyof FacilityActionEffects,
+    base: EffectPerMinute | undefined
+  ): EffectPerMinute | null {
+    const action = character.currentAction
+    const facility = action?.occupiedFacilityId ? this.getCurrentFacility(character.id) : null
+    if (!action || !facility) return base ?? null
+
+    const override = facility.actionEffects?.[action.actionId]?.[kind]
+    const order = action.orderId ? getCatalogEntries(facility, action.actionId).find(e => e.id === action.orderId) : undefined
+    const quality = order?.quality ?? facility.quality
+    const multiplier = getFacilityEffectMultiplier(this.facilityModifiers, quality, action.receipt?.price)
+    return applyFacilityEffects(base, override, multiplier)
+  }
+
+  /**
+   * 実行中のアクションで適用する効果（applyActionEffects と同じ効果の元）に気分の回復があるか
+   */
+  private givesMood(character: SimCharacter): boolean {
+    const action = character.currentAction
+    if (!action) return false
+    const actionConfig = this.actionConfigs[action.actionId]
+    const eatsItem = action.actionId === 'eat' && !!action.itemId
+
+    const sources: Array<EffectPerMinute | null | undefined> = []
+    if (actionConfig?.fixed) {
+      sources.push(this.getFacilityAdjustedEffects(character, 'effects', actionConfig.effects))
+    } else if (actionConfig && !eatsItem) {
+      sources.push(this.getFacilityAdjustedEffects(character, 'perMinute', actionConfig.perMinute))
+    }
+    if (eatsItem) {
+      sources.push(this.itemConfigs[action.itemId!]?.effects)
+    }
+    if (action.orderId && action.actionId !== 'buy') {
+      const facility = this.getCurrentFacility(character.id)
+      sources.push(getCatalogEntries(facility, action.actionId).find(e => e.id === action.orderId)?.effects)
+    }
+    return sources.some(effects => (effects?.mood ?? 0) > 0)
   }
 
   /** Set callback for action completion events */
@@ -99,6 +359,21 @@ export class ActionExecutor {
     this.onRecordHistory = callback
   }
 
+  /** Set callback for action cancellation events */
+  setOnActionCancel(callback: ActionCancelCallback): void {
+    this.onActionCancel = callback
+  }
+
+  /** Set callback for money transactions */
+  setOnTransaction(callback: ActionTransactionCallback): void {
+    this.onTransaction = callback
+  }
+
+  /** Set world calendar (for jobs that skip holidays and facility open hours) */
+  setCalendar(calendar: WorldCalendar): void {
+    this.calendar = calendar
+  }
+
   /** 毎tick呼び出し - アクション完了チェック */
   tick(currentTime: number): void {
     const characters = this.worldState.getAllCharacters()
@@ -118,6 +393,8 @@ export class ActionExecutor {
    * @param targetNpcId 対象NPC ID（talkアクション用）
    * @param durationMinutes 実行時間（分）- 可変時間アクションの場合にLLMが指定
    * @param reason 行動理由（LLMが出力したもの）
+   * @param itemId アイテムID（buy: 購入するアイテム、eat: 消費する所持品）
+   * @param orderId 施設カタログの注文項目ID（指定がない場合は購入可能な最安の項目）
    */
   startAction(
     characterId: string,
@@ -125,34 +402,102 @@ export class ActionExecutor {
     facilityId?: string,
     targetNpcId?: string,
     durationMinutes?: number,
-    reason?: string
+    reason?: string,
+    itemId?: string,
+    orderId?: string
   ): boolean {
     // 前提条件チェック (6-2)
     const checkResult = this.canExecuteAction(characterId, actionId)
     if (!checkResult.canExecute) {
-      console.log(`[ActionExecutor] Cannot start action ${actionId}: ${checkResult.reason}`)
+      logger.info(`[ActionExecutor] Cannot start action ${actionId}: ${checkResult.reason}`)
       return false
     }
 
     const character = this.worldState.getCharacter(characterId)!
-    const actionDef = ACTIONS[actionId]!
+    const actionDef = getActionDefinition(actionId, this.actionConfigs)!
     const actionConfig = this.actionConfigs[actionId]
+    const facilityObstacle = this.getCurrentFacilityObstacle(characterId)
+    const facility = facilityObstacle?.facility ?? null
 
-    // コストの支払い（施設を必要とするアクションで、施設にcostが設定されていれば支払う）
-    const facility = this.getCurrentFacility(characterId)
+    // 所持品を食べる場合は施設を使わない
+    const carriedFood = actionId === 'eat' ? this.resolveCarriedFood(character, facility, itemId) : null
     const requiresFacility = actionDef.requirements.facilityTags && actionDef.requirements.facilityTags.length > 0
-    if (requiresFacility && facility?.cost !== undefined && facility.cost > 0) {
+    const occupiedFacilityId = requiresFacility && !carriedFood ? facilityObstacle?.id : undefined
+
+    // 定員チェック
+    if (facilityObstacle && occupiedFacilityId && this.isFacilityFull(facilityObstacle, character.currentMapId, characterId)) {
+      logger.info(`[ActionExecutor] Cannot start action ${actionId}: facility ${facilityObstacle.id} is full`)
+      return false
+    }
+
+    // 営業時間チェック
+    if (facilityObstacle?.facility && occupiedFacilityId && !this.isFacilityOpenNow(facilityObstacle.facility)) {
+      logger.info(`[ActionExecutor] Cannot start action ${actionId}: facility ${facilityObstacle.id} is closed`)
+      return false
+    }
+
+    // アイテムの購入・消費
+    let usedItemId: string | undefined
+    let order: CatalogEntry | undefined
+    if (actionId === 'buy') {
+      order = this.resolvePurchaseEntry(character, facility, orderId, itemId) ?? undefined
+      if (!order) {
+        const requested = orderId ?? itemId
+        logger.info(`[ActionExecutor] Cannot start action buy: no purchasable item${requested ? ` (${requested})` : ''}`)
+        return false
+      }
+      usedItemId = order.itemId
+      this.worldState.updateCharacter(characterId, {
+        inventory: addItem(character.inventory, order.itemId!),
+      })
+    } else if (carriedFood) {
+      usedItemId = carriedFood
       this.worldState.updateCharacter(characterId, {
-        money: character.money - facility.cost,
+        inventory: removeItem(character.inventory, usedItemId) ?? [],
       })
-      console.log(`[ActionExecutor] ${character.name} paid ${facility.cost} for ${actionId}`)
+      logger.info(`[ActionExecutor] ${character.name} is eating carried item: ${usedItemId}`)
     }
 
-    // 時間計算
-    const { durationMs, actualDurationMinutes } = this.calculateDuration(actionConfig, durationMinutes)
+    // 施設のメニューを注文（施設を必要とするアクションで、施設に catalog がある場合）
+    // 所持品の消費は施設を使わないため注文しない
+    if (requiresFacility && actionId !== 'buy' && !usedItemId && getCatalogEntries(facility, actionId).length > 0) {
+      order = this.resolveMenuEntry(character, facility, actionId, orderId) ?? undefined
+      if (!order) {
+        logger.info(`[ActionExecutor] Cannot start action ${actionId}: no affordable catalog entry`)
+        return false
+      }
+    }
+
+    // 支払い: 注文した項目の価格、catalog がなければ施設の cost
+    let receipt: Receipt | undefined
+    if (order) {
+      receipt = { label: order.name, price: order.price }
+    } else if (requiresFacility && !usedItemId && facility?.cost !== undefined && facility.cost > 0) {
+      receipt = { label: '利用料', price: facility.cost }
+    }
+    if (receipt) {
+      this.worldState.updateCharacter(characterId, {
+        money: character.money - receipt.price,
+      })
+      logger.info(`[ActionExecutor] ${character.name} paid ${receipt.price} for ${actionId} (${receipt.label})`)
+      this.onTransaction?.({
+        characterId,
+        amount: -receipt.price,
+        balanceAfter: character.money - receipt.price,
+        category: 'payment',
+        reason: receipt.label,
+        facilityId: facilityObstacle?.id,
+      })
+    }
+
+    // 時間計算（所持品の消費はアイテムの consumeMinutes）
+    const { durationMs, actualDurationMinutes } = actionId === 'eat' && usedItemId
+      ? this.calculateConsumeDuration(usedItemId)
+      : this.calculateDuration(actionConfig, durationMinutes)
+
+    // ActionState作成（開始・終了時刻はワールド時計基準）
+    const now = this.clock.now()
 
-    // ActionState作成
-    const now = Date.now()
     const actionState: ActionState = {
       actionId,
       startTime: now,
@@ -161,6 +506,20 @@ export class ActionExecutor {
       targetNpcId,  // talk アクション用
       durationMinutes: actualDurationMinutes,  // 選択された時間を記録
       reason,  // 行動理由を記録
+      itemId: usedItemId,
+      orderId: order?.id,
+      receipt,
+      occupiedFacilityId,
+    }
+
+    // 慣れ: これまでの繰り返しで気分の回復効果の倍率を決めてから、今回の利用を記録
+    // 気分が回復するか（アクション・施設の上書き・所持品・メニューの効果）は実際に適用する効果で判定する
+    const givesMood = this.givesMood({ ...character, currentAction: actionState })
+    const habituationTargets = givesMood ? getHabituationTargets(actionId, occupiedFacilityId, targetNpcId) : []
+    const moodMultiplier = this.habituation.getMultiplier(characterId, habituationTargets, now)
+    this.habituation.record(characterId, habituationTargets, now)
+    if (moodMultiplier < 1) {
+      actionState.moodMultiplier = moodMultiplier
     }
 
     // キャラクター状態更新（displayEmoji設定含む）
@@ -172,7 +531,7 @@ export class ActionExecutor {
     const durationStr = actualDurationMinutes !== undefined
       ? `${actualDurationMinutes}min`
       : `${durationMs / 1000}s`
-    console.log(`[ActionExecutor] ${character.name} started action: ${actionId} (duration: ${durationStr}, emoji: ${actionDef.emoji ?? 'none'})`)
+    logger.info(`[ActionExecutor] ${character.name} started action: ${actionId} (duration: ${durationStr}, emoji: ${actionDef.emoji ?? 'none'})`)
 
     // Notify action start callback (skip thinking action - it's internal)
     if (this.onActionStart && actionId !== 'thinking') {
@@ -183,6 +542,7 @@ export class ActionExecutor {
         targetNpcId,
         durationMinutes: actualDurationMinutes,
         reason,
+        receipt,
         startTimeReal: now,
       })
     }
@@ -190,6 +550,74 @@ export class ActionExecutor {
     return true
   }
 
+  /**
+   * 購入する商品を決定
+   * orderId（または itemId）の指定があればその商品、なければ catalog から購入可能な最初の商品
+   */
+  private resolvePurchaseEntry(
+    character: SimCharacter,
+    facility: FacilityInfo | null,
+    orderId?: string,
+    itemId?: string
+  ): CatalogEntry | null {
+    const goods = getCatalogEntries(facility, 'buy')
+    const candidates = orderId
+      ? goods.filter(entry => entry.id === orderId)
+      : itemId ? goods.filter(entry => entry.itemId === itemId) : goods
+    return candidates.find(entry => this.canBuyEntry(character, entry)) ?? null
+  }
+
+  private canBuyEntry(character: SimCharacter, entry: CatalogEntry): boolean {
+    const item = entry.itemId ? this.itemConfigs[entry.itemId] : undefined
+    if (!item) return false
+    return character.money >= entry.price && canAddItem(character.inventory, entry.itemId!, item)
+  }
+
+  /**
+   * 注文するメニューを決定
+   * orderId の指定があり支払えればその項目、なければ支払える最安の項目
+   */
+  private resolveMenuEntry(
+    character: SimCharacter,
+    facility: FacilityInfo | null,
+    actionId: ActionId,
+    orderId?: string
+  ): CatalogEntry | null {
+    const affordable = getCatalogEntries(facility, actionId).filter(entry => character.money >= entry.price)
+    const ordered = orderId ? affordable.find(entry => entry.id === orderId) : undefined
+    if (ordered) return ordered
+    if (orderId) {
+      logger.info(`[ActionExecutor] Order ${orderId} is not available, choosing the cheapest entry`)
+    }
+    return [...affordable].sort((a, b) => a.price - b.price)[0] ?? null
+  }
+
+  /**
+   * eat で消費する所持品を決定
+   * 指定があればそのアイテム、指定がなく食事施設にいない場合は所持品から自動選択
+   */
+  private resolveCarriedFood(
+    character: SimCharacter,
+    facility: FacilityInfo | null,
+    itemId?: string
+  ): string | null {
+    if (itemId) {
+      const held = getItemCount(character.inventory, itemId) > 0 && isConsumable(this.itemConfigs[itemId])
+      if (held) return itemId
+    }
+
+    const eatTags = getActionDefinition('eat', this.actionConfigs)?.requirements.facilityTags ?? []
+    const atEatFacility = facility?.tags.some(tag => eatTags.includes(tag)) ?? false
+    if (atEatFacility) return null
+
+    return findConsumableItem(character.inventory, this.itemConfigs)
+  }
+
+  private calculateConsumeDuration(itemId: string): { durationMs: number; actualDurationMinutes: number } {
+    const minutes = this.itemConfigs[itemId]?.consumeMinutes ?? DEFAULT_CONSUME_MINUTES
+    return { durationMs: minutes * 60 * 1000, actualDurationMinutes: minutes }
+  }
+
   /**
    * アクションの実行時間を計算
    * @returns durationMs（ミリ秒）と actualDurationMinutes（分、可変時間の場合のみ）
@@ -233,18 +661,71 @@ export class ActionExecutor {
     return { durationMs: 0 }
   }
 
-  /** アクションキャンセル */
-  cancelAction(characterId: string): void {
+  /**
+   * アクションを中断（経過時間分の効果のみ適用する）
+   * 可変時間アクションの perMinute 効果は実行中に適用済み。固定効果・所持品・メニューの効果と時給は経過割合で適用する。
+   * thinking は履歴に残さず状態のみクリアする。
+   * @param now 中断時刻（省略時はワールド時計の現在時刻）
+   */
+  cancelAction(characterId: string, cancelReason: ActionCancelReason, now: number = this.clock.now()): void {
     const character = this.worldState.getCharacter(characterId)
     if (!character?.currentAction) return
 
-    const actionId = character.currentAction.actionId
+    const action = character.currentAction
+    const actionId = action.actionId
+    if (actionId === 'thinking') {
+      this.forceCompleteAction(characterId)
+      return
+    }
+
+    const elapsedMs = Math.max(0, Math.min(now, action.targetEndTime) - action.startTime)
+    const totalMs = action.targetEndTime - action.startTime
+    const progress = totalMs > 0 ? elapsedMs / totalMs : 0
+    const elapsedMinutes = Math.round(elapsedMs / (60 * 1000))
+    const appliedEffects = this.applyActionEffects(character, progress, elapsedMinutes)
+
     this.worldState.updateCharacter(characterId, {
       currentAction: null,
       displayEmoji: undefined,  // 絵文字もクリア (6-4)
     })
 
-    console.log(`[ActionExecutor] ${character.name} cancelled action: ${actionId}`)
+    logger.info(`[ActionExecutor] ${character.name} cancelled action: ${actionId} (${cancelReason}, ${elapsedMinutes}min)`)
+
+    if (this.onActionCancel) {
+      this.onActionCancel({
+        characterId,
+        actionId,
+        facilityId: action.facilityId,
+        targetNpcId: action.targetNpcId,
+        reason: action.reason,
+        receipt: action.receipt,
+        cancelReason,
+        elapsedMinutes,
+        appliedEffects,
+      })
+    }
+  }
+
+  /**
+   * 実行中の勤務（時給のアクション）の経過時間を勤怠に計上（日替わりの締めの前に呼ぶ）
+   * 日をまたぐ勤務は締める日までの時間をその日の勤務時間にし、残りは完了時に新しい日に計上する。給与は完了時に支払う。
+   * @param now 計上する時刻（省略時はワールド時計の現在時刻）
+   */
+  creditWorkInProgress(characterId: string, day: number, now: number = this.clock.now()): void {
+    const character = this.worldState.getCharacter(characterId)
+    const action = character?.currentAction
+    if (!character || !action) return
+    if (getActionDefinition(action.actionId, this.actionConfigs)?.effects.money !== 'hourlyWage') return
+    const job = this.getCurrentFacilityObstacle(characterId)?.facility?.job
+    if (!job) return
+
+    const workedMs = Math.max(0, Math.min(now, action.targetEndTime) - action.startTime)
+    const hours = (workedMs - (action.workCreditedMs ?? 0)) / (60 * 60 * 1000)
+    if (hours <= 0) return
+    this.worldState.updateCharacter(characterId, {
+      payroll: recordWork(character.payroll, job.jobId, day, hours, 0),
+      currentAction: { ...action, workCreditedMs: workedMs },
+    })
   }
 
   /** アクション実行中かどうか */
@@ -262,7 +743,7 @@ export class ActionExecutor {
     if (!character?.currentAction) return
 
     const actionId = character.currentAction.actionId
-    console.log(`[ActionExecutor] ${character.name} force-completed action: ${actionId}`)
+    logger.info(`[ActionExecutor] ${character.name} force-completed action: ${actionId}`)
 
     // 状態クリアのみ（効果は適用しない）
     this.worldState.updateCharacter(characterId, {
@@ -273,6 +754,24 @@ export class ActionExecutor {
     // Note: forceComplete ではコールバックを呼ばない（thinking 完了後に別の判断をするため）
   }
 
+  /**
+   * 会話（talk）を完了（会話の終了時に ConversationExecutor 経由で呼ばれる）
+   * 固定効果（気分）を慣れを反映して適用し、状態をクリアする。
+   */
+  completeTalkAction(characterId: string): AppliedEffects {
+    const character = this.worldState.getCharacter(characterId)
+    if (character?.currentAction?.actionId !== 'talk') return {}
+
+    const appliedEffects = this.applyActionEffects(character, 1, 0)
+    logger.info(`[ActionExecutor] ${character.name} completed talk`, appliedEffects)
+
+    this.worldState.updateCharacter(characterId, {
+      currentAction: null,
+      displayEmoji: undefined,
+    })
+    return appliedEffects
+  }
+
   private updateAction(character: SimCharacter, currentTime: number): void {
     const action = character.currentAction
     if (!action) return
@@ -280,19 +779,38 @@ export class ActionExecutor {
     // thinking, talk アクションは手動完了のみ（duration: 0 だが自動完了しない）
     if (action.actionId === 'thinking' || action.actionId === 'talk') return
 
+    // 利用中の施設が閉店したら、その時点で中断して次の行動へ
+    if (currentTime < action.targetEndTime && this.isOccupiedFacilityClosed(character)) {
+      logger.info(`[ActionExecutor] ${character.name} is leaving: facility ${action.occupiedFacilityId} closed`)
+      this.cancelAction(character.id, 'closing', currentTime)
+      this.onActionComplete?.(character.id, action.actionId)
+      return
+    }
+
     // 終了時刻に達したら完了
     if (currentTime >= action.targetEndTime) {
       this.completeAction(character.id)
     }
   }
 
+  /**
+   * 利用中の施設（occupiedFacilityId）が営業時間外になったかどうか
+   */
+  private isOccupiedFacilityClosed(character: SimCharacter): boolean {
+    const facilityId = character.currentAction?.occupiedFacilityId
+    if (!facilityId) return false
+    const map = this.worldState.getMap(character.currentMapId)
+    const facility = map?.obstacles.find(obs => obs.id === facilityId)?.facility
+    return facility ? !this.isFacilityOpenNow(facility) : false
+  }
+
   private completeAction(characterId: string): void {
     const character = this.worldState.getCharacter(characterId)
     if (!character?.currentAction) return
 
     const actionId = character.currentAction.actionId
     const durationMinutes = character.currentAction.durationMinutes
-    const actionDef = ACTIONS[actionId]
+    const actionDef = getActionDefinition(actionId, this.actionConfigs)
     if (!actionDef) {
       // 定義がない場合はクリアのみ（displayEmojiもクリア）
       this.worldState.updateCharacter(characterId, {
@@ -302,11 +820,8 @@ export class ActionExecutor {
       return
     }
 
-    // world-config.json からアクション設定を取得
-    const actionConfig = this.actionConfigs[actionId]
-
     // 適用前ステータスをログ
-    console.log(`[ActionExecutor] ${character.name} before ${actionId}:`, {
+    logger.info(`[ActionExecutor] ${character.name} before ${actionId}:`, {
       satiety: character.satiety,
       energy: character.energy,
       hygiene: character.hygiene,
@@ -314,17 +829,12 @@ export class ActionExecutor {
       bladder: character.bladder,
     })
 
-    // ステータス効果を適用
-    // 可変時間アクション: perMinute 効果は SimulationEngine.applyStatusDecay でリアルタイム適用済み
-    // 固定時間アクション: 完了時に固定の効果を適用
-    if (actionConfig?.fixed && actionConfig.effects) {
-      this.applyStatEffectsInternal(characterId, actionConfig.effects)
-    }
+    this.applyActionEffects(character, 1, durationMinutes ?? 0)
 
     // 適用後ステータスをログ
     const updatedChar = this.worldState.getCharacter(characterId)
     if (updatedChar) {
-      console.log(`[ActionExecutor] ${character.name} after ${actionId}:`, {
+      logger.info(`[ActionExecutor] ${character.name} after ${actionId}:`, {
         satiety: updatedChar.satiety,
         energy: updatedChar.energy,
         hygiene: updatedChar.hygiene,
@@ -333,29 +843,8 @@ export class ActionExecutor {
       })
     }
 
-    // お金の効果を適用
-    if (actionDef.effects.money === 'hourlyWage') {
-      // 時給計算
-      const facility = this.getCurrentFacility(characterId)
-      if (facility?.job) {
-        const durationMs = character.currentAction!.targetEndTime - character.currentAction!.startTime
-        const hoursWorked = durationMs / (60 * 60 * 1000)
-        const earnings = Math.floor(facility.job.hourlyWage * hoursWorked)
-        const newMoney = character.money + earnings
-        this.worldState.updateCharacter(characterId, {
-          money: newMoney,
-        })
-        console.log(`[ActionExecutor] ${character.name} earned ${earnings} yen (${hoursWorked.toFixed(2)} hours at ${facility.job.hourlyWage}/hour)`)
-      }
-    } else if (typeof actionDef.effects.money === 'number') {
-      const newMoney = character.money + actionDef.effects.money
-      this.worldState.updateCharacter(characterId, {
-        money: Math.max(0, newMoney),
-      })
-    }
-
     const durationStr = durationMinutes !== undefined ? `(${durationMinutes}min)` : ''
-    console.log(`[ActionExecutor] ${character.name} completed action: ${actionId} ${durationStr}`)
+    logger.info(`[ActionExecutor] ${character.name} completed action: ${actionId} ${durationStr}`)
 
     // Record action history (before clearing action state)
     if (this.onRecordHistory) {
@@ -366,6 +855,7 @@ export class ActionExecutor {
         targetNpcId: character.currentAction.targetNpcId,
         durationMinutes,
         reason: character.currentAction.reason,
+        receipt: character.currentAction.receipt,
       })
     }
 
@@ -381,6 +871,129 @@ export class ActionExecutor {
     }
   }
 
+  /**
+   * アクションの効果を適用し、適用した効果を返す（完了時は progress = 1）
+   * 固定効果・所持品・メニューの効果と時給は progress の割合で適用する。数値の所持金効果は完了時のみ。
+   * 可変時間アクションの perMinute 効果は SimulationEngine.applyStatusDecay でリアルタイム適用済みのため、
+   * 経過時間分を記録のみ行う。
+   */
+  private applyActionEffects(character: SimCharacter, progress: number, elapsedMinutes: number): AppliedEffects {
+    const action = character.currentAction!
+    const actionId = action.actionId
+    const characterId = character.id
+    const applied: AppliedEffects = {}
+    const record = (effects: EffectPerMinute, multiplier: number) => {
+      for (const [stat, value] of Object.entries(effects) as Array<[keyof EffectPerMinute, number]>) {
+        applied[stat] = Math.round(((applied[stat] ?? 0) + value * multiplier) * 10) / 10
+      }
+    }
+
+    const actionDef = getActionDefinition(actionId, this.actionConfigs)
+    if (!actionDef) return applied
+
+    // world-config.json からアクション設定を取得
+    const actionConfig = this.actionConfigs[actionId]
+
+    // ステータス効果を適用
+    // 可変時間アクション: perMinute 効果は SimulationEngine.applyStatusDecay でリアルタイム適用済み
+    // 固定時間アクション: 完了時に固定の効果を適用
+    const perMinute = this.getActivePerMinuteEffects(characterId)
+    if (perMinute) {
+      record(perMinute, elapsedMinutes)
+    }
+    const fixedEffects = actionConfig?.fixed
+      ? this.applyHabituation(this.applySkillBonus(this.getFacilityAdjustedEffects(character, 'effects', actionConfig.effects), character), action)
+      : null
+    if (fixedEffects) {
+      this.applyStatEffectsInternal(characterId, fixedEffects, progress)
+      record(fixedEffects, progress)
+    }
+
+    // 所持品の消費: アイテムの効果を適用
+    const itemId = action.itemId
+    if (actionId === 'eat' && itemId) {
+      const effects = this.applyHabituation(this.itemConfigs[itemId]?.effects ?? null, action)
+      if (effects) {
+        this.applyStatEffectsInternal(characterId, effects, progress, `item effects (${itemId})`)
+        record(effects, progress)
+      }
+    }
+
+    // 注文したメニューの追加効果を適用
+    const orderId = action.orderId
+    if (orderId && actionId !== 'buy') {
+      const facility = this.getCurrentFacility(characterId)
+      const entry = getCatalogEntries(facility, actionId).find(e => e.id === orderId)
+      const effects = this.applyHabituation(entry?.effects ?? null, action)
+      if (effects) {
+        this.applyStatEffectsInternal(characterId, effects, progress, `catalog effects (${orderId})`)
+        record(effects, progress)
+      }
+    }
+
+    // お金の効果を適用
+    const money = this.worldState.getCharacter(characterId)?.money ?? character.money
+    if (actionDef.effects.money === 'hourlyWage') {
+      // 時給計算（中断時は経過時間分）
+      const facilityObstacle = this.getCurrentFacilityObstacle(characterId)
+      const facility = facilityObstacle?.facility
+      if (facility?.job) {
+        const durationMs = (action.targetEndTime - action.startTime) * progress
+        const hoursWorked = durationMs / (60 * 60 * 1000)
+        const hourlyWage = this.getHourlyWage(character, facility.job)
+        const earnings = Math.floor(hourlyWage * hoursWorked)
+        const paidNow = (facility.job.payday ?? 'shift') === 'shift'
+        // 勤務時間は給料日に関係なく勤怠として記録し、shift 以外の給与は給料日まで未払いにする
+        // 日替わりの締めで計上済みの時間（日をまたぐ勤務）は前の日の勤務時間になっている
+        const currentPayroll = this.worldState.getCharacter(characterId)?.payroll ?? character.payroll
+        const uncreditedHours = Math.max(0, durationMs - (action.workCreditedMs ?? 0)) / (60 * 60 * 1000)
+        const payroll = recordWork(currentPayroll, facility.job.jobId, this.worldState.getTime().day, uncreditedHours, paidNow ? 0 : earnings)
+        if (!paidNow) {
+          this.worldState.updateCharacter(characterId, { payroll })
+          logger.info(`[ActionExecutor] ${character.name} accrued ${earnings} yen until payday (${hoursWorked.toFixed(2)} hours at ${hourlyWage}/hour)`)
+        } else {
+          this.worldState.updateCharacter(characterId, {
+            money: money + earnings,
+            payroll,
+          })
+          applied.money = earnings
+          logger.info(`[ActionExecutor] ${character.name} earned ${earnings} yen (${hoursWorked.toFixed(2)} hours at ${hourlyWage}/hour)`)
+          if (earnings > 0) {
+            this.onTransaction?.({
+              characterId,
+              amount: earnings,
+              balanceAfter: money + earnings,
+              category: 'wage',
+              reason: `給与（${facility.job.title}）`,
+              facilityId: facilityObstacle?.id,
+              jobId: facility.job.jobId,
+            })
+          }
+        }
+      }
+    } else if (typeof actionDef.effects.money === 'number' && progress >= 1) {
+      const newMoney = Math.max(0, money + actionDef.effects.money)
+      this.worldState.updateCharacter(characterId, {
+        money: newMoney,
+      })
+      applied.money = newMoney - money
+      if (applied.money !== 0) {
+        this.onTransaction?.({
+          characterId,
+          amount: applied.money,
+          balanceAfter: newMoney,
+          category: 'other',
+          reason: actionId,
+        })
+      }
+    }
+
+    // スキルの経験値（実行した時間分）
+    this.gainSkillExperience(character, (action.targetEndTime - action.startTime) * progress / (60 * 1000))
+
+    return applied
+  }
+
   /**
    * ステータス効果の適用（共通処理）
    * All stats: 100 = good, 0 = bad
@@ -410,7 +1023,7 @@ export class ActionExecutor {
     if (Object.keys(updates).length > 0) {
       this.worldState.updateCharacter(characterId, updates)
       if (logLabel) {
-        console.log(`[ActionExecutor] Applied ${logLabel}:`, updates)
+        logger.info(`[ActionExecutor] Applied ${logLabel}:`, updates)
       }
     }
   }
@@ -428,6 +1041,13 @@ export class ActionExecutor {
    * Checks both zone facilities and building facilities (with proximity).
    */
   getCurrentFacility(characterId: string): FacilityInfo | null {
+    return this.getCurrentFacilityObstacle(characterId)?.facility ?? null
+  }
+
+  /**
+   * Get the obstacle of the facility at a character's current position.
+   */
+  getCurrentFacilityObstacle(characterId: string): Obstacle | null {
     const character = this.worldState.getCharacter(characterId)
     if (!character) return null
 
@@ -438,12 +1058,53 @@ export class ActionExecutor {
     if (!coord) return null
 
     // First check if inside a zone with facility
-    const zoneFacility = findZoneFacilityForNode(coord.row, coord.col, map.obstacles)
-    if (zoneFacility) return zoneFacility
+    const zoneObstacle = findZoneObstacleForNode(coord.row, coord.col, map.obstacles)
+    if (zoneObstacle) return zoneObstacle
 
     // Check if near a building with facility (proximity = 1)
-    const buildingFacility = findBuildingFacilityNearNode(coord.row, coord.col, map.obstacles, 1)
-    return buildingFacility
+    return findBuildingObstacleNearNode(coord.row, coord.col, map.obstacles, 1)
+  }
+
+  // =====================
+  // 定員・利用状況
+  // =====================
+
+  /**
+   * 施設を利用中のキャラクターID一覧（実行中アクションの occupiedFacilityId で判定）
+   */
+  getFacilityOccupants(mapId: string, facilityId: string): string[] {
+    return this.worldState.getAllCharacters()
+      .filter(c => c.currentMapId === mapId && c.currentAction?.occupiedFacilityId === facilityId)
+      .map(c => c.id)
+  }
+
+  getFacilityOccupancy(mapId: string, facilityId: string): number {
+    return this.getFacilityOccupants(mapId, facilityId).length
+  }
+
+  /**
+   * 施設が満員かどうか（定員なしは常に false、excludeCharacterId 自身は数えない）
+   */
+  isFacilityFull(obstacle: Obstacle, mapId: string, excludeCharacterId?: string): boolean {
+    const capacity = obstacle.facility?.capacity
+    if (capacity === undefined) return false
+    const occupants = this.getFacilityOccupants(mapId, obstacle.id).filter(id => id !== excludeCharacterId)
+    return occupants.length >= capacity
+  }
+
+  // =====================
+  // 営業時間
+  // =====================
+
+  /**
+   * 現在のワールド時刻に施設が営業中かどうか（営業時間の指定がない施設は常に営業中）
+   */
+  isFacilityOpenNow(facility: Pick<FacilityInfo, 'openHours'>): boolean {
+    return isFacilityOpen(facility, this.getCurrentWeekday(), timeToMinutes(this.worldState.getTime()))
+  }
+
+  getCurrentWeekday(): Weekday {
+    return this.calendar.getDay(this.worldState.getTime().day).weekday
   }
 
   // =====================
@@ -473,7 +1134,7 @@ export class ActionExecutor {
       return { canExecute: false, reason: `Already executing action: ${character.currentAction.actionId}` }
     }
 
-    const actionDef = ACTIONS[actionId]
+    const actionDef = getActionDefinition(actionId, this.actionConfigs)
     if (!actionDef) {
       return { canExecute: false, reason: `Action not found: ${actionId}` }
     }
@@ -489,19 +1150,33 @@ export class ActionExecutor {
       }
 
       // Check if map has an accessible facility with any of the required tags
-      // Accessible = no owner (public) OR owned by this character, AND affordable
+      // Accessible = no owner (public) OR owned by this character (not evicted), AND affordable
       const hasAccessibleFacility = map.obstacles.some(obs => {
         if (!obs.facility) return false
         const hasTag = requirements.facilityTags!.some(tag => obs.facility!.tags.includes(tag))
         if (!hasTag) return false
-        // Owner check: if facility has owner, only owner can use
-        if (obs.facility.owner && obs.facility.owner !== characterId) return false
+        // Owner check: if facility has owner, only owner can use (until evicted for unpaid rent)
+        if (obs.facility.owner && (obs.facility.owner !== characterId || isEvictedFrom(character, map.id))) return false
+        // Capacity check: a full facility cannot be used until someone leaves
+        if (this.isFacilityFull(obs, map.id, characterId)) return false
+        // Open hours check: a closed facility cannot be used
+        if (!this.isFacilityOpenNow(obs.facility)) return false
+        // buy: the facility must sell an item the character can afford
+        if (actionId === 'buy') {
+          return getCatalogEntries(obs.facility, 'buy').some(entry => this.canBuyEntry(character, entry))
+        }
+        // Catalog check: character needs enough money for at least one menu entry
+        const menu = getCatalogEntries(obs.facility, actionId)
+        if (menu.length > 0) return menu.some(entry => character.money >= entry.price)
         // Cost check: if facility has cost, character needs enough money
         if (obs.facility.cost !== undefined && character.money < obs.facility.cost) return false
         return true
       })
 
-      if (!hasAccessibleFacility) {
+      // eat は食べ物・飲み物を持っていれば施設なしで実行できる
+      const hasCarriedFood = actionId === 'eat' && findConsumableItem(character.inventory, this.itemConfigs) !== null
+
+      if (!hasAccessibleFacility && !hasCarriedFood) {
         return { canExecute: false, reason: `No accessible facility with tags: ${requirements.facilityTags.join(', ')}` }
       }
     }
@@ -529,7 +1204,8 @@ export class ActionExecutor {
 
     const availableActions: ActionId[] = []
 
-    for (const actionId of Object.keys(ACTIONS) as ActionId[]) {
+    const actionIds: ActionId[] = [...Object.keys(ACTIONS), ...getCustomActionIds(this.actionConfigs)]
+    for (const actionId of actionIds) {
       // thinkingは選択肢に含めない（LLMが選ぶものではない）
       if (actionId === 'thinking') continue
 
@@ -547,12 +1223,14 @@ export class ActionExecutor {
 
   /**
    * Check if character meets employment requirements for work action.
+   * Any of the character's current employments (changed at runtime via the job market) may match.
    */
   private checkEmploymentRequirements(
     character: SimCharacter,
     facility: FacilityInfo | null
   ): { canExecute: boolean; reason?: string } {
-    if (!character.employment) {
+    const employments = character.employments ?? []
+    if (employments.length === 0) {
       return { canExecute: false, reason: 'No employment (work requires employment)' }
     }
 
@@ -560,14 +1238,24 @@ export class ActionExecutor {
       return { canExecute: false, reason: 'Current facility has no job' }
     }
 
-    if (facility.job.jobId !== character.employment.jobId) {
+    if (!employments.some(e => e.jobId === facility.job!.jobId)) {
       return {
         canExecute: false,
-        reason: `Job mismatch: facility has ${facility.job.jobId}, character has ${character.employment.jobId}`,
+        reason: `Job mismatch: facility has ${facility.job.jobId}, character has ${employments.map(e => e.jobId).join(', ')}`,
+      }
+    }
+
+    if (!meetsSkillRequirement(character.skills, facility.job.requiredSkill, this.skills)) {
+      return {
+        canExecute: false,
+        reason: `Skill required: ${formatSkillRequirement(facility.job.requiredSkill!, this.skills)}`,
       }
     }
 
     if (!this.isWithinWorkHours(facility.job)) {
+      if (this.isJobHoliday(facility.job)) {
+        return { canExecute: false, reason: `Holiday: ${facility.job.title} is closed today` }
+      }
       const { start, end } = facility.job.workHours
       const currentHour = this.worldState.getCurrentHour()
       return {
@@ -582,8 +1270,11 @@ export class ActionExecutor {
   /**
    * Check if current time is within job's work hours.
    * Handles overnight shifts (e.g., 22:00-06:00).
+   * Jobs with skipHolidays are closed all day on holidays.
    */
   private isWithinWorkHours(job: JobInfo): boolean {
+    if (this.isJobHoliday(job)) return false
+
     const currentHour = this.worldState.getCurrentHour()
     const { start, end } = job.workHours
 
@@ -594,4 +1285,12 @@ export class ActionExecutor {
     // Overnight shift (e.g., 22-6)
     return currentHour >= start || currentHour < end
   }
+
+  /**
+   * Check if the job is closed today (skipHolidays + calendar holiday).
+   */
+  private isJobHoliday(job: JobInfo): boolean {
+    if (!job.skipHolidays) return false
+    return this.calendar.isHoliday(this.worldState.getTime().day)
+  }
 }
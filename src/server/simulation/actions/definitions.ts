@@ -1,13 +1,16 @@
-import type { ActionDefinition, ActionId } from '@/types/action'
+import type { ActionDefinition, ActionId, BuiltinActionId } from '@/types/action'
+import type { ActionConfig } from '@/types'
+import { getCustomActionIds, getFacilityTagsForAction } from '@/lib/facilityMapping'
 
 /**
  * アクション定義一覧
  *
  * 注意: duration と effects.stats は world-config.json の actions セクションから読み込む。
  * ここでは requirements と emoji のみを定義する。
+ * requirements.facilityTags は組み込みの既定値で、実行時は施設タグレジストリから解決する。
  * ActionExecutor が world-config.json から時間と効果を取得し、適用する。
  */
-export const ACTIONS: Record<ActionId, ActionDefinition> = {
+export const ACTIONS: Record<BuiltinActionId, ActionDefinition> = {
   eat: {
     requirements: { facilityTags: ['kitchen', 'restaurant'] },
     effects: {},
@@ -51,6 +54,13 @@ export const ACTIONS: Record<ActionId, ActionDefinition> = {
     emoji: '💼',
   },
 
+  // 購入するアイテムは施設の catalog の商品から選ぶ（代金は開始時に支払う）
+  buy: {
+    requirements: { facilityTags: ['shop'] },
+    effects: {},
+    emoji: '🛍️',
+  },
+
   // fixed: true, duration: 0 なので手動で completeAction() を呼ぶ必要がある
   thinking: {
     requirements: {},
@@ -59,5 +69,38 @@ export const ACTIONS: Record<ActionId, ActionDefinition> = {
   },
 }
 
+/**
+ * アクション定義を取得（組み込み + world-config.json のカスタムアクション）
+ * 要求施設タグは施設タグレジストリ（facilityTags セクション）を反映する
+ */
+export function getActionDefinition(
+  actionId: ActionId,
+  actionConfigs: Record<string, ActionConfig>
+): ActionDefinition | undefined {
+  if (Object.hasOwn(ACTIONS, actionId)) {
+    const definition = ACTIONS[actionId as BuiltinActionId]
+    // 施設を必要としないアクション（talk, thinking）はそのまま
+    if (!definition.requirements.facilityTags) return definition
+    return {
+      ...definition,
+      requirements: {
+        ...definition.requirements,
+        facilityTags: getFacilityTagsForAction(actionId, actionConfigs) ?? definition.requirements.facilityTags,
+      },
+    }
+  }
+  if (!getCustomActionIds(actionConfigs).includes(actionId)) {
+    return undefined
+  }
+
+  const config = actionConfigs[actionId]
+  const facilityTags = getFacilityTagsForAction(actionId, actionConfigs)
+  return {
+    requirements: { ...config.requirements, ...(facilityTags && { facilityTags }) },
+    effects: {},
+    emoji: config.emoji,
+  }
+}
+
 // ActionId は @/types/action からエクスポート（循環依存回避のため）
 export type { ActionId } from '@/types/action'
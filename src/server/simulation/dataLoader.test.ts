@@ -94,6 +94,12 @@ describe('dataLoader', () => {
       expect(config.initialState.mapId).toBe('town')
       expect(config.grid.defaultCols).toBe(12)
     })
+
+    it('should load world config from alternate path', async () => {
+      vi.mocked(fs.promises.readFile).mockResolvedValue(JSON.stringify(mockWorldConfig))
+      await dataLoader.loadWorldConfigServer('/tmp/alt/world-config.json')
+      expect(vi.mocked(fs.promises.readFile).mock.calls[0][0]).toBe('/tmp/alt/world-config.json')
+    })
   })
 
   describe('loadMapsServer', () => {
@@ -159,6 +165,16 @@ describe('dataLoader', () => {
       expect(characters[0].money).toBe(100)
       expect(characters[0].currentMapId).toBe('town')
     })
+
+    it('should wrap a legacy single employment into employments', async () => {
+      const employment = { jobId: 'barista', workplaces: [{ workplaceLabel: 'カウンター', mapId: 'cafe' }] }
+      vi.mocked(fs.promises.readFile)
+        .mockResolvedValueOnce(JSON.stringify(mockWorldConfig))
+        .mockResolvedValueOnce(JSON.stringify({ characters: [{ ...mockCharactersData.characters[0], employment }] }))
+        .mockResolvedValueOnce(JSON.stringify(mockMapsData))
+      const characters = await dataLoader.loadCharactersServer()
+      expect(characters[0].employments).toEqual([employment])
+    })
   })
 
   describe('loadNPCBlockedNodesServer', () => {
@@ -402,6 +418,27 @@ describe('dataLoader', () => {
       expect(data.defaultSchedules).toBeInstanceOf(Map)
       expect(data.characterConfigs).toHaveLength(1)
     })
+
+    it('should read maps and characters from alternate paths', async () => {
+      vi.mocked(fs.promises.readFile)
+        .mockResolvedValueOnce(JSON.stringify(mockWorldConfig))
+        .mockImplementation(async (filePath) =>
+          String(filePath).endsWith('alt-maps.json')
+            ? JSON.stringify(mockMapsData)
+            : JSON.stringify(mockCharactersData)
+        )
+
+      const data = await dataLoader.loadWorldDataServer({
+        maps: '/tmp/alt/alt-maps.json',
+        characters: '/tmp/alt/alt-characters.json',
+      })
+
+      const readPaths = vi.mocked(fs.promises.readFile).mock.calls.map(call => String(call[0]))
+      expect(readPaths).toContain('/tmp/alt/alt-maps.json')
+      expect(readPaths).toContain('/tmp/alt/alt-characters.json')
+      expect(data.maps['town']).toBeDefined()
+      expect(data.characters).toHaveLength(1)
+    })
   })
 
   describe('loadDefaultSchedulesServer', () => {
@@ -14,8 +14,12 @@ import type {
   ScheduleEntry,
 } from '@/types'
 import { createNPCFromConfig } from '@/lib/npcLoader'
+import { getConfigEmployments } from '@/lib/characterLoader'
+import { createFacilityTagRegistry } from '@/lib/facilityMapping'
+import { validateObstacleFacilities } from '@/lib/mapLoader'
 import type { TileToPixelConfig, NodeLabel, EntranceConfig } from '@/data/maps/grid'
 import { tileToPixelObstacle, tileToPixelEntrance } from '@/data/maps/grid'
+import { logger } from '@/lib/logger'
 
 // Get the path to public directory
 function getPublicPath(): string {
@@ -31,10 +35,12 @@ function parseColor(colorStr: string): number {
   return parseInt(colorStr.replace('#', ''), 16)
 }
 
-// Load world config
-export async function loadWorldConfigServer(): Promise<WorldConfig> {
-  const configPath = path.join(getPublicPath(), 'data', 'world-config.json')
-  const content = await fs.readFile(configPath, 'utf-8')
+// Load world config (configPath: filesystem path, defaults to public/data/world-config.json)
+export async function loadWorldConfigServer(configPath?: string): Promise<WorldConfig> {
+  const resolvedPath = configPath
+    ? path.resolve(configPath)
+    : path.join(getPublicPath(), 'data', 'world-config.json')
+  const content = await fs.readFile(resolvedPath, 'utf-8')
   return JSON.parse(content)
 }
 
@@ -246,6 +252,9 @@ function buildMapFromConfigServer(mapConfig: MapConfigJson, config: WorldConfig)
   const cols = mapConfig.grid.cols ?? gridDefaults.defaultCols
   const rows = mapConfig.grid.rows ?? gridDefaults.defaultRows
 
+  // Validate facility tags against the facility tag registry
+  validateObstacleFacilities(mapConfig.id, mapConfig.obstacles ?? [], createFacilityTagRegistry(config.facilityTags))
+
   const gridConfigForConversion: TileToPixelConfig = {
     cols,
     rows,
@@ -334,7 +343,10 @@ export async function loadCharactersServer(config?: WorldConfig): Promise<Charac
       ? { x: spawnNode.x, y: spawnNode.y }
       : { x: 0, y: 0 },
     direction: 'down' as const,
-    employment: charConfig.employment,
+    employments: getConfigEmployments(charConfig),
+    inventory: charConfig.inventory,
+    skills: charConfig.skills,
+    recurringExpenses: charConfig.recurringExpenses,
     // LLM行動決定用のプロファイル情報
     personality: charConfig.personality,
     tendencies: charConfig.tendencies,
@@ -390,7 +402,7 @@ export async function loadNPCsServer(config?: WorldConfig): Promise<NPC[]> {
     for (const npcConfig of mapConfig.npcs) {
       const node = map.nodes.find((n) => n.id === npcConfig.spawnNodeId)
       if (!node) {
-        console.warn(`[NPC] Node ${npcConfig.spawnNodeId} not found for NPC ${npcConfig.id}`)
+        logger.warn(`[NPC] Node ${npcConfig.spawnNodeId} not found for NPC ${npcConfig.id}`)
         continue
       }
 
@@ -440,8 +452,28 @@ export async function loadCharacterConfigsServer(config?: WorldConfig): Promise<
   return charactersData.characters
 }
 
-export async function loadWorldDataServer(): Promise<WorldData> {
-  const config = await loadWorldConfigServer()
+// Alternate data file paths (filesystem paths, e.g. for headless simulation runs)
+export interface WorldDataPaths {
+  worldConfig?: string
+  maps?: string
+  characters?: string
+}
+
+// Convert a filesystem path to a config.paths value (resolved relative to public/)
+function toPublicRelativePath(filePath: string): string {
+  return path.relative(getPublicPath(), path.resolve(filePath))
+}
+
+export async function loadWorldDataServer(paths: WorldDataPaths = {}): Promise<WorldData> {
+  const loadedConfig = await loadWorldConfigServer(paths.worldConfig)
+  const config: WorldConfig = {
+    ...loadedConfig,
+    paths: {
+      ...loadedConfig.paths,
+      ...(paths.maps && { mapsJson: toPublicRelativePath(paths.maps) }),
+      ...(paths.characters && { charactersJson: toPublicRelativePath(paths.characters) }),
+    },
+  }
   const maps = await loadMapsServer(config)
   const characters = await loadCharactersServer(config)
   const npcs = await loadNPCsServer(config)
@@ -6,6 +6,8 @@ const mockStoreInstance = {
   saveState: vi.fn().mockResolvedValue(undefined),
   loadServerStartTime: vi.fn().mockResolvedValue(null),
   saveServerStartTime: vi.fn().mockResolvedValue(undefined),
+  loadRandomSeed: vi.fn().mockResolvedValue(null),
+  saveRandomSeed: vi.fn().mockResolvedValue(undefined),
   loadSchedule: vi.fn().mockResolvedValue(null),
   loadSchedulesForCharacter: vi.fn().mockResolvedValue([]),
   loadActionHistoryForDay: vi.fn().mockResolvedValue([]),
@@ -21,6 +23,10 @@ const mockStoreInstance = {
   loadTime: vi.fn().mockResolvedValue(null),
   saveCurrentMapId: vi.fn().mockResolvedValue(undefined),
   loadCurrentMapId: vi.fn().mockResolvedValue(null),
+  saveWorldClockTime: vi.fn().mockResolvedValue(undefined),
+  loadWorldClockTime: vi.fn().mockResolvedValue(null),
+  loadLatestJournalTick: vi.fn().mockResolvedValue(null),
+  appendJournalEvents: vi.fn().mockResolvedValue(undefined),
   deleteSchedule: vi.fn().mockResolvedValue(undefined),
   deleteAllSchedulesForCharacter: vi.fn().mockResolvedValue(undefined),
   addActionHistory: vi.fn().mockResolvedValue(undefined),
@@ -44,6 +50,8 @@ const mockStoreInstance = {
 const mockLoadWorldDataServer = vi.fn()
 const mockInitializeLLMClient = vi.fn()
 const mockInitializeLLMErrorHandler = vi.fn()
+const mockInitializeLLMScheduler = vi.fn()
+const mockInitializeLLMTranscript = vi.fn()
 
 vi.mock('./dataLoader', () => ({
   loadWorldDataServer: (...args: unknown[]) => mockLoadWorldDataServer(...args),
@@ -60,6 +68,8 @@ vi.mock('../persistence/SqliteStore', () => ({
 vi.mock('../llm', () => ({
   initializeLLMClient: (...args: unknown[]) => mockInitializeLLMClient(...args),
   initializeLLMErrorHandler: (...args: unknown[]) => mockInitializeLLMErrorHandler(...args),
+  initializeLLMScheduler: (...args: unknown[]) => mockInitializeLLMScheduler(...args),
+  initializeLLMTranscript: (...args: unknown[]) => mockInitializeLLMTranscript(...args),
   resetLLMErrorHandler: vi.fn(),
   llmGenerateObject: vi.fn(),
 }))
@@ -166,6 +176,17 @@ describe('ensureEngineInitialized', () => {
     expect(mockStoreInstance.saveServerStartTime).toHaveBeenCalled()
   })
 
+  it('should initialize LLM scheduler with config', async () => {
+    const llmScheduler = { maxConcurrent: 3 }
+    mockLoadWorldDataServer.mockResolvedValueOnce({
+      ...defaultWorldData,
+      config: { ...defaultWorldData.config, llmScheduler },
+    })
+
+    await ensureEngineInitialized('[Test]')
+    expect(mockInitializeLLMScheduler).toHaveBeenCalledWith(llmScheduler)
+  })
+
   it('should return immediately if already initialized', async () => {
     const engine1 = await ensureEngineInitialized()
     mockLoadWorldDataServer.mockClear()
@@ -213,6 +234,53 @@ describe('ensureEngineInitialized', () => {
     expect(mockStoreInstance.saveServerStartTime).toHaveBeenCalledWith(engine.getServerStartTime())
   })
 
+  it('should record random seed on fresh start', async () => {
+    const engine = await ensureEngineInitialized()
+    expect(mockStoreInstance.saveRandomSeed).toHaveBeenCalledWith(engine.getRandomSeed())
+  })
+
+  it('should use SIMULATION_SEED env on fresh start', async () => {
+    vi.stubEnv('SIMULATION_SEED', '12345')
+    try {
+      const engine = await ensureEngineInitialized()
+      expect(engine.getRandomSeed()).toBe(12345)
+      expect(mockStoreInstance.saveRandomSeed).toHaveBeenCalledWith(12345)
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+
+  it('should record the LLM transcript when LLM_TRANSCRIPT_RECORD is set', async () => {
+    vi.stubEnv('LLM_TRANSCRIPT_RECORD', 'data/transcripts/run.jsonl')
+    try {
+      await ensureEngineInitialized()
+      expect(mockInitializeLLMTranscript).toHaveBeenCalledWith({ record: 'data/transcripts/run.jsonl', replay: undefined })
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+
+  it('should leave the LLM transcript off by default', async () => {
+    await ensureEngineInitialized()
+    expect(mockInitializeLLMTranscript).not.toHaveBeenCalled()
+  })
+
+  it('should restore random seed from persistent storage', async () => {
+    const serializedState = {
+      characters: {},
+      npcs: {},
+      time: { hour: 10, minute: 0, day: 1 },
+      currentMapId: 'town',
+    }
+    mockStoreInstance.hasData.mockResolvedValue(true)
+    mockStoreInstance.loadState.mockResolvedValue(serializedState)
+    mockStoreInstance.loadRandomSeed.mockResolvedValueOnce(777)
+
+    const engine = await ensureEngineInitialized()
+    expect(engine.getRandomSeed()).toBe(777)
+    expect(mockStoreInstance.saveRandomSeed).not.toHaveBeenCalled()
+  })
+
   it('should set action configs when available in config', async () => {
     const engine = await ensureEngineInitialized()
     expect(engine.isInitialized()).toBe(true)
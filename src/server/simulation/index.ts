@@ -1,5 +1,17 @@
 export * from './types'
 export * from './WorldState'
+export * from './WorldClock'
 export * from './CharacterSimulator'
 export * from './SimulationEngine'
-export { loadWorldDataServer, loadWorldConfigServer, type WorldData } from './dataLoader'
+export * from './SimulationReport'
+export * from './WorldJournal'
+export * from './WorldReplayer'
+export * from './TickPipeline'
+export * from './WeatherSystem'
+export * from './WorldCalendar'
+export * from './NeedsModel'
+export * from './HabituationModel'
+export * from './JobMarket'
+export * from './RecurringExpenses'
+export * from './Payroll'
+export { loadWorldDataServer, loadWorldConfigServer, type WorldData, type WorldDataPaths } from './dataLoader'
@@ -108,10 +108,10 @@ describe('simulation types', () => {
         currentNodeId: 'node-0-0',
         position: { x: 100, y: 200 },
         direction: 'down',
-        employment: {
+        employments: [{
           jobId: 'barista',
           workplaces: [{ workplaceLabel: 'カフェカウンター', mapId: 'cafe' }],
-        },
+        }],
         personality: 'friendly',
         tendencies: ['social', 'curious'],
         customPrompt: 'Custom prompt',
@@ -129,7 +129,7 @@ describe('simulation types', () => {
       expect(simChar.currentAction).toBeNull()
       expect(simChar.pendingAction).toBeNull()
       expect(simChar.actionCounter).toBe(0)
-      expect(simChar.employment?.jobId).toBe('barista')
+      expect(simChar.employments?.[0].jobId).toBe('barista')
       expect(simChar.personality).toBe('friendly')
       expect(simChar.tendencies).toEqual(['social', 'curious'])
     })
@@ -176,7 +176,7 @@ describe('simulation types', () => {
 
       const simChar = createSimCharacter(char)
 
-      expect(simChar.employment).toBeUndefined()
+      expect(simChar.employments).toBeUndefined()
       expect(simChar.personality).toBeUndefined()
       expect(simChar.tendencies).toBeUndefined()
     })
@@ -1,5 +1,6 @@
 import type {
   WorldTime,
+  WorldWeather,
   Character,
   CrossMapRoute,
   NPC,
@@ -8,6 +9,17 @@ import type {
   Direction,
   ConversationSession,
   ConversationGoal,
+  NPCDynamicState,
+  ScheduleEntry,
+  InventoryItem,
+  ActionCancelReason,
+  AppliedEffects,
+  ActionPlan,
+  Employment,
+  ExpenseState,
+  CharacterSkills,
+  PayrollState,
+  AttendanceRecord,
 } from '@/types'
 import type { ActionId } from './actions/definitions'
 
@@ -19,6 +31,9 @@ export interface PendingAction {
   facilityMapId: string
   reason?: string
   durationMinutes?: number  // 可変時間アクション用
+  itemId?: string           // buy / eat アクション用
+  orderId?: string          // 施設カタログの注文項目
+  queuedAt?: number         // 満員の施設で順番待ちを始めた時刻（ワールド時計）
   conversationGoal?: ConversationGoal  // talk アクション用会話目的
 }
 
@@ -36,6 +51,8 @@ export interface SimCharacter extends Character {
   displayEmoji?: string
   // Pending action to execute after movement completes
   pendingAction: PendingAction | null
+  // Remaining steps of a multi-step action plan
+  plan?: ActionPlan | null
   // System auto-move counter (resets after 5 actions)
   actionCounter: number
 }
@@ -77,6 +94,7 @@ export interface WorldState {
   isPaused: boolean
   transition: SimTransitionState
   tick: number // For client reconciliation
+  weather?: WorldWeather | null
 }
 
 export interface SimTransitionState {
@@ -96,6 +114,7 @@ export interface SerializedWorldState {
   isPaused: boolean
   transition: SimTransitionState
   tick: number
+  weather?: WorldWeather | null
 }
 
 // Convert Map-based state to serializable object
@@ -108,6 +127,7 @@ export function serializeWorldState(state: WorldState): SerializedWorldState {
     isPaused: state.isPaused,
     transition: { ...state.transition },
     tick: state.tick,
+    weather: state.weather ? { ...state.weather } : null,
   }
 }
 
@@ -121,6 +141,7 @@ export function deserializeWorldState(state: SerializedWorldState): WorldState {
     isPaused: state.isPaused,
     transition: { ...state.transition },
     tick: state.tick,
+    weather: state.weather ? { ...state.weather } : null,
   }
 }
 
@@ -140,7 +161,17 @@ export function createSimCharacter(char: Character): SimCharacter {
     currentNodeId: char.currentNodeId,
     position: { ...char.position },
     direction: char.direction,
-    employment: char.employment ? { ...char.employment } : undefined,
+    employments: char.employments ? char.employments.map(e => ({ ...e, workplaces: e.workplaces.map(w => ({ ...w })) })) : undefined,
+    inventory: char.inventory ? char.inventory.map(item => ({ ...item })) : undefined,
+    skills: char.skills ? { ...char.skills } : undefined,
+    expenseState: char.expenseState
+      ? {
+          arrears: Object.fromEntries(Object.entries(char.expenseState.arrears).map(([id, arrears]) => [id, { ...arrears }])),
+          evictedMapIds: char.expenseState.evictedMapIds ? [...char.expenseState.evictedMapIds] : undefined,
+        }
+      : undefined,
+    recurringExpenses: char.recurringExpenses ? char.recurringExpenses.map(e => ({ ...e })) : undefined,
+    payroll: char.payroll ? Object.fromEntries(Object.entries(char.payroll).map(([jobId, p]) => [jobId, { ...p }])) : undefined,
     personality: char.personality,
     tendencies: char.tendencies ? [...char.tendencies] : undefined,
     customPrompt: char.customPrompt,
@@ -181,6 +212,8 @@ export interface SimulationConfig {
   idleTimeMax: number // ms
   entranceProbability: number // 0-1
   crossMapProbability: number // 0-1
+  seed?: number // Random seed (omitted = random)
+  manualClock?: boolean // World clock moves only on advance() (headless runner; start() is not used)
 }
 
 export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
@@ -192,3 +225,61 @@ export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
   crossMapProbability: 0.5,
 }
 
+
+// --- World journal (append-only event log) ---
+
+// Character values tracked by stat_delta events
+export type JournalStat = 'money' | 'satiety' | 'energy' | 'hygiene' | 'mood' | 'bladder'
+
+export type CheckpointReason = 'init' | 'restore' | 'snapshot'
+
+// Common fields of every journal event
+export interface WorldEventMeta {
+  tick: number       // Engine tick (continues across restarts)
+  worldTime: number  // World clock epoch ms
+  day: number
+  time: string       // "HH:MM"
+}
+
+export type WorldEventPayload =
+  // Full world state (replay starts from the latest checkpoint)
+  | { type: 'checkpoint'; reason: CheckpointReason; state: SerializedWorldState }
+  | { type: 'action_started'; characterId: string; actionId: string; target?: string; durationMinutes?: number; reason?: string; targetEndTime?: number }
+  | { type: 'action_completed'; characterId: string; actionId: string; target?: string; durationMinutes?: number; reason?: string }
+  | { type: 'action_cancelled'; characterId: string; actionId: string; target?: string; cancelReason: ActionCancelReason; elapsedMinutes: number; appliedEffects: AppliedEffects }
+  // deltas = change since previous stat_delta, values = values after the change
+  | { type: 'stat_delta'; characterId: string; deltas: Partial<Record<JournalStat, number>>; values: Partial<Record<JournalStat, number>> }
+  | { type: 'character_moved'; characterId: string; mapId: string; nodeId: string; position: Position }
+  // inventory = full inventory after the change
+  | { type: 'inventory_changed'; characterId: string; inventory: InventoryItem[] }
+  | { type: 'conversation_message'; characterId: string; npcId: string; speaker: 'character' | 'npc'; speakerName: string; utterance: string }
+  | { type: 'npc_updated'; npcId: string; updates: Partial<NPCDynamicState> }
+  | { type: 'schedule_updated'; characterId: string; day: number; entries: ScheduleEntry[] }
+  // employments = full employments after the change
+  | { type: 'employment_changed'; characterId: string; employments: Employment[] }
+  // expenseState = full expense state after recurring expenses were settled
+  | { type: 'expense_state_changed'; characterId: string; expenseState: ExpenseState }
+  // Full values after the change (detected by WorldJournal.trackCharacters)
+  | { type: 'skills_changed'; characterId: string; skills: CharacterSkills }
+  | { type: 'plan_changed'; characterId: string; plan: ActionPlan | null }
+  | { type: 'payroll_changed'; characterId: string; payroll: PayrollState }
+  // Attendance closed at day change (also saved to the attendance table)
+  | { type: 'attendance_recorded'; record: AttendanceRecord }
+
+export type WorldEventType = WorldEventPayload['type']
+
+export type WorldEvent = WorldEventMeta & WorldEventPayload
+
+// Journal event as stored (seq = append order)
+export type JournalEntry = WorldEvent & { seq: number }
+
+// Filter for loading journal events
+export interface JournalQuery {
+  fromTick?: number
+  toTick?: number
+  afterSeq?: number
+  characterId?: string
+  types?: WorldEventType[]
+  limit?: number
+  order?: 'asc' | 'desc'  // by seq (default: asc)
+}
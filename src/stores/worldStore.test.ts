@@ -6,6 +6,7 @@ describe('worldStore', () => {
     useWorldStore.setState({
       currentMapId: 'town',
       time: { hour: 8, minute: 0, day: 1 },
+      weather: null,
       isPaused: false,
       transition: {
         isTransitioning: false,
@@ -32,6 +33,16 @@ describe('worldStore', () => {
     })
   })
 
+  describe('setWeather', () => {
+    it('should set and clear weather', () => {
+      const weather = { day: 1, season: 'spring' as const, weather: 'sunny' as const, temperature: 18 }
+      useWorldStore.getState().setWeather(weather)
+      expect(useWorldStore.getState().weather).toEqual(weather)
+      useWorldStore.getState().setWeather(null)
+      expect(useWorldStore.getState().weather).toBeNull()
+    })
+  })
+
   describe('advanceTime', () => {
     it('should add minutes within same hour', () => {
       useWorldStore.getState().setTime({ hour: 8, minute: 0, day: 1 })
@@ -1,5 +1,5 @@
 import { create } from 'zustand'
-import type { WorldTime, TransitionState } from '@/types'
+import type { WorldTime, WorldWeather, TransitionState } from '@/types'
 import type { SimCharacter } from '@/server/simulation/types'
 
 // Initial state defaults (will be overridden when config loads in PixiAppSync)
@@ -9,6 +9,7 @@ const INITIAL_TIME: WorldTime = { hour: 8, minute: 0, day: 1 }
 interface WorldStore {
   currentMapId: string
   time: WorldTime
+  weather: WorldWeather | null
   isPaused: boolean
   transition: TransitionState
   mapsLoaded: boolean
@@ -16,6 +17,7 @@ interface WorldStore {
 
   setCurrentMap: (mapId: string) => void
   setTime: (time: WorldTime) => void
+  setWeather: (weather: WorldWeather | null) => void
   advanceTime: (minutes: number) => void
   togglePause: () => void
   startTransition: (fromMapId: string, toMapId: string) => void
@@ -28,6 +30,7 @@ interface WorldStore {
 export const useWorldStore = create<WorldStore>((set, get) => ({
   currentMapId: INITIAL_MAP_ID,
   time: INITIAL_TIME,
+  weather: null,
   isPaused: false,
   transition: {
     isTransitioning: false,
@@ -43,6 +46,7 @@ export const useWorldStore = create<WorldStore>((set, get) => ({
   setServerCharacters: (characters) => set({ serverCharacters: characters }),
 
   setTime: (time) => set({ time }),
+  setWeather: (weather) => set({ weather }),
 
   advanceTime: (minutes) => {
     const { time } = get()
@@ -1,8 +1,9 @@
 import type { Character } from './character'
 import type { FacilityTag } from './map'
+import type { Receipt } from './item'
 
-// アクションIDの型（循環依存を避けるため明示的に定義）
-export type ActionId =
+// 組み込みアクションIDの型（循環依存を避けるため明示的に定義）
+export type BuiltinActionId =
   | 'eat'
   | 'sleep'
   | 'toilet'
@@ -11,6 +12,10 @@ export type ActionId =
   | 'talk'
   | 'work'
   | 'thinking'
+  | 'buy'
+
+// アクションIDの型（world-config.json の actions セクションで定義したカスタムアクションを含む）
+export type ActionId = BuiltinActionId | (string & {})
 
 // キャラクターステータスの部分型（effects用）
 // Character型から数値ステータスを抽出
@@ -57,6 +62,15 @@ export interface ActionDefinition {
   emoji?: string // 頭上表示用絵文字
 }
 
+// アクションの中断理由
+// interrupt: 欲求の割り込み、closing: 施設の閉店、user: ユーザー操作、conversation: 会話の都合
+export type ActionCancelReason = 'interrupt' | 'closing' | 'user' | 'conversation'
+
+// アクションで適用した効果（ステータスの変化量と所持金の増減）
+export interface AppliedEffects extends EffectPerMinute {
+  money?: number
+}
+
 // アクション実行状態
 export interface ActionState {
   actionId: ActionId // 実行中のアクションID
@@ -66,4 +80,10 @@ export interface ActionState {
   targetNpcId?: string // talk アクション用：対象NPC ID
   durationMinutes?: number // 選択された時間（分）- 可変時間アクション用
   reason?: string // 行動理由（LLMが出力したもの）
+  itemId?: string // buy: 購入したアイテム / eat: 消費する所持品
+  orderId?: string // 注文した施設カタログの項目ID
+  receipt?: Receipt // 開始時の支払い
+  occupiedFacilityId?: string // 占有している施設ID（定員管理用）
+  moodMultiplier?: number // 慣れによる気分の回復効果の倍率（開始時に決定、未指定は 1）
+  workCreditedMs?: number // 勤怠に計上済みの勤務時間（ミリ秒）- 日をまたぐ work 用
 }
@@ -1,3 +1,6 @@
+import type { Receipt } from './item'
+import type { ActionCancelReason } from './action'
+
 export interface ActionLogEntry {
   type: 'action'
   characterId: string
@@ -7,11 +10,13 @@ export interface ActionLogEntry {
   target?: string
   durationMinutes?: number
   reason?: string
+  receipt?: Receipt         // 支払い（レシート表示用）
+  cancelReason?: ActionCancelReason  // 中断理由（status: 'cancelled' のみ）
   /**
-   * Action status: 'started' or 'completed'.
+   * Action status: 'started', 'completed' or 'cancelled'.
    * When undefined, treated as 'completed' (backward compatibility).
    */
-  status?: 'started' | 'completed'
+  status?: 'started' | 'completed' | 'cancelled'
 }
 
 export interface ConversationLogEntry {
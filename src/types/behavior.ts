@@ -1,4 +1,4 @@
-import type { FacilityInfo, FacilityTag, WorldTime, ScheduleEntry, ActionId, ConversationGoal } from '@/types'
+import type { FacilityInfo, FacilityTag, WorldTime, WorldWeather, ScheduleEntry, ActionId, ConversationGoal, CalendarDay, TownEventInfo, NeedStat, CatalogEntry, Receipt, ActionCancelReason, AppliedEffects, SkillSummary, DailyMoneySummary, JobBoardEntry, RecurringExpenseStatus, PayrollSummary } from '@/types'
 import type { SimCharacter, SimNPC } from '@/server/simulation/types'
 
 /**
@@ -14,6 +14,11 @@ export interface NearbyFacility {
   distance: number           // 距離（マップホップ数）、0=現在マップ、1以上=他マップ
   mapId: string              // 施設があるマップID
   availableActions?: string[] // この施設で実行可能なアクション（例: ['sleep'], ['eat']）
+  weatherModifier?: number    // 天候による魅力補正（例: 雨の屋外施設は負）
+  catalog?: CatalogEntry[]    // 商品・メニュー
+  capacity?: number           // 定員
+  occupancy?: number          // 現在の利用人数（定員がある場合のみ）
+  closingTime?: string        // 本日の閉店時刻（営業時間がある場合のみ、"HH:MM"）
 }
 
 /**
@@ -26,6 +31,9 @@ export interface ActionHistoryEntry {
   durationMinutes?: number  // 実行時間（分）
   reason?: string           // 行動理由（LLMが出力したもの）
   episode?: string          // ミニエピソード（アクション後に生成された出来事）
+  receipt?: Receipt         // 支払い（カタログ項目・利用料）
+  cancelReason?: ActionCancelReason  // 中断理由（中断したアクションのみ、durationMinutes は経過時間）
+  appliedEffects?: AppliedEffects    // 中断までに適用した効果
 }
 
 /**
@@ -84,6 +92,37 @@ export interface CurrentMapFacility {
   tags: FacilityTag[]
   cost?: number
   availableActions: string[]  // この施設で実行可能なアクション
+  weatherModifier?: number    // 天候による魅力補正
+  catalog?: CatalogEntry[]    // 商品・メニュー
+  capacity?: number           // 定員
+  occupancy?: number          // 現在の利用人数（定員がある場合のみ）
+  closingTime?: string        // 本日の閉店時刻（営業時間がある場合のみ、"HH:MM"）
+}
+
+/**
+ * 欲求の緊急度（LLMに提示用）
+ * 緊急割り込みより前に対処させるため、緊急度 > 0 の欲求を高い順に渡す
+ */
+export interface NeedUrgency {
+  stat: NeedStat
+  value: number        // 現在のステータス値
+  urgency: number      // 緊急度（0〜100、100=割り込み水準）
+  actions: string[]    // 欲求を満たす候補アクション
+}
+
+/**
+ * 慣れの対象（同じアクション・施設・会話相手）
+ */
+export type HabituationKind = 'action' | 'facility' | 'npc'
+
+/**
+ * 慣れの状態（LLMに提示用）
+ * 繰り返しで気分の回復効果が下がっている対象のみ渡す
+ */
+export interface HabituationInfo {
+  kind: HabituationKind
+  id: string           // アクションID / 施設ID / NPC ID
+  multiplier: number   // 気分の回復効果の倍率（0〜1）
 }
 
 /**
@@ -103,13 +142,28 @@ export interface BehaviorContext {
   recentConversations?: RecentConversation[]  // 直近の会話（sleep+日付変更でクリア）
   midTermMemories?: MidTermMemory[]           // 中期記憶
   todayActions?: ActionHistoryEntry[]         // 当日の行動履歴
+  weather?: WorldWeather                      // 当日の天候
+  calendar?: CalendarDay                      // 当日の曜日・祝日
+  townEvents?: TownEventInfo[]                // 開催中・今後の町のイベント
+  needs?: NeedUrgency[]                       // 欲求の緊急度（高い順）
+  habituations?: HabituationInfo[]            // 慣れで気分の回復効果が下がっている対象（倍率の低い順）
+  skills?: SkillSummary[]                     // スキルのレベル（経験値のあるスキルのみ）
+  moneySummary?: DailyMoneySummary[]          // 直近数日の収支（新しい日から順）
+  jobBoard?: JobBoardEntry[]                  // 求人掲示板（求人がなければ空）
+  recurringExpenses?: RecurringExpenseStatus[]  // 定期支出（家賃・光熱費・会費など）と滞納
+  payroll?: PayrollSummary[]                  // 雇用中の仕事の未払い給与・勤怠
 }
 
 /**
  * 行動決定の結果
  */
+/**
+ * 求人に関する決定（応募・入社・退職）
+ */
+export type JobDecisionType = 'apply_job' | 'accept_job' | 'quit_job'
+
 export interface BehaviorDecision {
-  type: 'action' | 'move' | 'idle'
+  type: 'action' | 'move' | 'idle' | JobDecisionType
   actionId?: ActionId               // type='action'の場合
   targetNodeId?: string             // type='move'の場合
   targetMapId?: string              // マップ間移動の場合
@@ -123,4 +177,49 @@ export interface BehaviorDecision {
   scheduleUpdate?: ScheduleUpdate
   // 可変時間アクションの場合
   durationMinutes?: number          // 実行時間（分）
+  // buy / eat アクション用
+  itemId?: string                   // 購入するアイテム / 消費する所持品
+  orderId?: string                  // 注文する施設カタログの項目ID
+  // 複数ステップの行動計画（この行動の後に続けるステップ）
+  plan?: PlanStep[]
+  // 求人の応募・入社・退職用
+  jobId?: string
+}
+
+/**
+ * 行動計画のステップ種別
+ */
+export type PlanStepType = 'move' | 'action' | 'talk'
+
+/**
+ * 行動計画のステップの前提条件（満たさない場合はステップ失敗として再計画する）
+ */
+export interface PlanPrecondition {
+  minMoney?: number                 // 必要な所持金
+  notAfter?: string                 // この時刻（HH:MM）までに開始できること
+}
+
+/**
+ * 行動計画のステップ
+ */
+export interface PlanStep {
+  type: PlanStepType
+  actionId?: ActionId               // type='action'の場合
+  targetMapId?: string              // type='move'の場合の移動先マップ
+  targetFacilityId?: string         // type='action'の場合の施設ID
+  targetNpcId?: string              // type='talk'の場合の会話相手
+  reason?: string
+  durationMinutes?: number          // 可変時間アクションの場合
+  itemId?: string                   // buy / eat アクション用
+  orderId?: string                  // 施設カタログの注文項目
+  precondition?: PlanPrecondition
+}
+
+/**
+ * キャラクターの行動計画
+ * 1回の行動決定で複数ステップを計画し、ステップの失敗か緊急割り込みがあるまでLLMを呼ばずに順に実行する。
+ */
+export interface ActionPlan {
+  goal: string                      // 計画の目的（最初の行動の決定理由）
+  steps: PlanStep[]                 // 残りのステップ（先頭が次に実行するステップ）
 }
@@ -0,0 +1,41 @@
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'
+
+// 祝日（ワールド日付で指定）
+export interface HolidayConfig {
+  day: number
+  name: string            // "桜まつりの日"
+}
+
+// 町のイベント（単発）
+export interface TownEventConfig {
+  id: string
+  name: string            // "公園フェスティバル"
+  day: number             // 開催日（ワールド日付）
+  mapId: string           // 開催マップ
+  startTime: string       // "14:00"（HH:MM形式）
+  endTime: string         // "18:00"（HH:MM形式）
+  facilityId?: string     // 会場の施設ID（任意）
+  description?: string
+}
+
+// カレンダー設定（world-config.json calendar セクション）
+export interface CalendarConfig {
+  startWeekday?: Weekday         // 1日目の曜日（デフォルト: mon）
+  restDays?: Weekday[]           // 休日扱いの曜日（例: ["sat", "sun"]）
+  holidays?: HolidayConfig[]
+  events?: TownEventConfig[]
+  upcomingDays?: number          // 何日先までのイベントを「予定」として提示するか（デフォルト: 3）
+}
+
+// ワールド日付のカレンダー情報
+export interface CalendarDay {
+  day: number
+  weekday: Weekday
+  isHoliday: boolean      // 祝日または休日扱いの曜日
+  holidayName?: string    // 祝日名（曜日による休日の場合はなし）
+}
+
+// 行動決定・会話に提示するイベント
+export interface TownEventInfo extends TownEventConfig {
+  status: 'active' | 'upcoming'
+}
@@ -1,5 +1,8 @@
-import type { Employment } from './job'
+import type { Employment, PayrollState } from './job'
 import type { ScheduleEntry } from './schedule'
+import type { InventoryItem } from './item'
+import type { CharacterSkills } from './skill'
+import type { ExpenseState, RecurringExpense } from './expense'
 
 export type Direction = 'up' | 'down' | 'left' | 'right'
 
@@ -29,7 +32,11 @@ export interface CharacterConfig {
     mood: number
     bladder: number
   }
-  employment?: Employment
+  employments?: Employment[]  // 初期の雇用（複数の勤務先で働ける）
+  employment?: Employment     // 旧形式の単一の雇用（employments がなければ1件の配列として読み込む）
+  inventory?: InventoryItem[]  // 初期所持品
+  skills?: CharacterSkills     // 初期スキル（スキルID → 経験値）
+  recurringExpenses?: RecurringExpense[]  // 定期支出（サブスクリプション・会費など）
   defaultSchedule?: ScheduleEntry[]
   // LLM行動決定用のプロファイル情報
   personality?: string        // 性格
@@ -60,7 +67,12 @@ export interface Character {
   currentNodeId: string
   position: Position
   direction: Direction
-  employment?: Employment
+  employments?: Employment[]  // 雇用（求人への応募・退職で変わる）
+  inventory?: InventoryItem[]  // 所持品
+  skills?: CharacterSkills     // スキルの経験値
+  expenseState?: ExpenseState  // 定期支出の滞納・退去
+  payroll?: PayrollState       // 仕事ごとの未払い給与・勤怠
+  recurringExpenses?: RecurringExpense[]  // 定期支出（設定から読み込み、永続化しない）
   // LLM行動決定用のプロファイル情報
   personality?: string
   tendencies?: string[]
@@ -1,4 +1,10 @@
-import type { DurationRange, EffectPerMinute } from './action'
+import type { DurationRange, EffectPerMinute, ActionRequirements } from './action'
+import type { FacilityTag } from './map'
+import type { Season, WeatherType } from './world'
+import type { CalendarConfig } from './calendar'
+import type { ItemConfig } from './item'
+import type { SkillsConfig } from './skill'
+import type { ExpensesConfig } from './expense'
 
 export interface TimingConfig {
   idleTimeMin: number
@@ -19,6 +25,7 @@ export interface TimeConfig {
   timezone: string
   statusDecayIntervalMs: number
   decayRates: StatusDecayConfig
+  timeScale?: number  // ワールド時計の倍率（1 = 実時間、デフォルト1）
 }
 
 export interface MovementConfig {
@@ -118,6 +125,20 @@ export interface ErrorConfig {
   webhookTimeoutMs?: number
 }
 
+// LLMリクエストの優先度（高い順: interrupt > conversation > behavior > postProcessing > miniEpisode）
+export type LLMPriority = 'interrupt' | 'conversation' | 'behavior' | 'postProcessing' | 'miniEpisode'
+
+export interface LLMSchedulerConfig {
+  /** 同時実行数の上限（デフォルト: 2） */
+  maxConcurrent?: number
+  /** 待機キューの上限。超えた場合は最も優先度の低いリクエストを破棄（デフォルト: 50） */
+  maxQueueSize?: number
+  /** この待機数以上のとき dropPriorities のリクエストを即座に破棄（デフォルト: 5） */
+  loadSheddingThreshold?: number
+  /** 高負荷時に破棄してよい優先度（デフォルト: ['miniEpisode']） */
+  dropPriorities?: LLMPriority[]
+}
+
 // アクション設定（world-config.json actions セクション）
 export interface ActionConfig {
   // 可変時間アクション用
@@ -135,12 +156,99 @@ export interface ActionConfig {
   }
   // talk アクション用: 各ターン間のインターバル（ms）
   turnIntervalMs?: number
+  // カスタムアクション用（組み込みアクション以外のキーで定義）
+  label?: string                      // 表示名（例: '読書'）
+  emoji?: string                      // 頭上表示用絵文字
+  description?: string                // LLM向けの説明
+  requirements?: ActionRequirements   // 前提条件（施設タグ等）
+}
+
+// 施設タグの利用区分（public: 誰でも利用可、owned: 所有者がいる施設向け）
+export type FacilityTagAccess = 'public' | 'owned'
+
+// 施設タグ定義（world-config.json の facilityTags セクション）
+export interface FacilityTagConfig {
+  label: string              // 表示名（例: 'キッチン'）
+  actions: string[]          // このタグで実行可能になるアクションID
+  access: FacilityTagAccess
 }
 
 export interface MiniEpisodeConfig {
   probability: number  // ミニエピソード生成確率（0-1）
 }
 
+// 天候条件（天気 + 気温しきい値による hot/cold）
+export type WeatherCondition = WeatherType | 'hot' | 'cold'
+
+// 季節ごとの気候
+export interface SeasonClimateConfig {
+  weatherWeights: Partial<Record<WeatherType, number>>  // 天気の出現比率
+  temperature: { min: number; max: number }             // 気温範囲（℃）
+}
+
+// 天候条件ごとの効果
+export interface WeatherEffectConfig {
+  // ステータス減少速度の倍率（例: { bladder: 1.3 } で30%速く減少）
+  decayMultipliers?: Partial<Record<keyof EffectPerMinute, number>>
+  // 施設の魅力補正（品質に加算）。キーは施設タグ、または屋外施設を表す 'outdoor'
+  facilityModifiers?: Partial<Record<FacilityTag | 'outdoor', number>>
+}
+
+// 気候テーブル（world-config.json climate セクション）
+export interface ClimateConfig {
+  seasonLengthDays: number   // 1季節の日数
+  startSeason?: Season       // 1日目の季節（デフォルト: spring）
+  hotThreshold: number       // この気温以上で 'hot'
+  coldThreshold: number      // この気温以下で 'cold'
+  seasons: Record<Season, SeasonClimateConfig>
+  effects?: Partial<Record<WeatherCondition, WeatherEffectConfig>>
+}
+
+// 欲求の対象ステータス
+export type NeedStat = keyof EffectPerMinute
+
+// 緊急度カーブ（linear: 一定、quadratic: 限界付近で急上昇、sqrt: 早めに上昇）
+export type UrgencyCurve = 'linear' | 'quadratic' | 'sqrt'
+
+// 欲求ごとの設定
+export interface NeedConfig {
+  urgencyThreshold: number      // この値を下回ると緊急度が上がり始める
+  interruptThreshold?: number   // この値を下回ると緊急割り込み（省略時は割り込みなし）
+  curve?: UrgencyCurve          // デフォルト: linear
+  priority: number              // 同時に割り込み条件を満たした場合の優先順位（小さいほど優先）
+  actions: string[]             // 欲求を満たす候補アクション（先頭が割り込み時の強制アクション）
+  cancelsAction?: boolean       // 割り込み時に実行中のアクションを中断する（デフォルト: false）
+}
+
+// 欲求モデル（world-config.json needs セクション）
+export interface NeedsConfig {
+  needs: Partial<Record<NeedStat, NeedConfig>>
+  // キャラクターID → 欲求ごとの上書き設定
+  characterOverrides?: Record<string, Partial<Record<NeedStat, Partial<NeedConfig>>>>
+}
+
+// 施設の効果補正（倍率 = 1 + (値 - baseline) × perUnit、min〜max に制限）
+export interface FacilityModifierConfig {
+  baseline: number              // 補正なし（×1.0）になる値
+  perUnit: number               // 値 1 あたりの倍率の増減
+  min?: number                  // 倍率の下限
+  max?: number                  // 倍率の上限
+}
+
+// 施設の品質・支払額による効果補正（world-config.json facilityModifiers セクション）
+export interface FacilityModifiersConfig {
+  quality?: FacilityModifierConfig  // 品質（0-100、メニューを注文した場合はメニューの品質）
+  price?: FacilityModifierConfig    // 支払った金額（円）
+}
+
+// 慣れ（world-config.json habituation セクション）
+// 倍率 = 1 - decayPerRepeat × Σ(1 - 経過時間 / windowMinutes)、minMultiplier 以上
+export interface HabituationConfig {
+  windowMinutes: number         // 慣れが残る時間（分、この時間で完全に回復）
+  decayPerRepeat: number        // 直前の繰り返し1回あたりの気分効果の減少率
+  minMultiplier: number         // 倍率の下限
+}
+
 export interface WorldConfig {
   timing: TimingConfig
   movement: MovementConfig
@@ -153,6 +261,16 @@ export interface WorldConfig {
   paths: PathsConfig
   time: TimeConfig
   error?: ErrorConfig
+  llmScheduler?: LLMSchedulerConfig
   actions?: Record<string, ActionConfig>
+  facilityTags?: Record<string, FacilityTagConfig>
+  items?: Record<string, ItemConfig>
   miniEpisode?: MiniEpisodeConfig
+  climate?: ClimateConfig
+  calendar?: CalendarConfig
+  needs?: NeedsConfig
+  facilityModifiers?: FacilityModifiersConfig
+  habituation?: HabituationConfig
+  skills?: SkillsConfig
+  expenses?: ExpensesConfig
 }
@@ -0,0 +1,39 @@
+// 定期支出（characters.json recurringExpenses / maps.json facility.expenses）
+// 施設の定期支出は施設の所有者が支払う
+export interface RecurringExpense {
+  id: string                                // 支出ID（キャラクターごとに一意）
+  label: string                             // "家賃", "光熱費", "ジム会費"
+  amount: number                            // 1回の支払額
+  intervalDays?: number                     // 支払い間隔（日）。日数が intervalDays で割り切れる日に支払う（省略時は毎日）
+}
+
+// 定期支出の滞納
+export interface ExpenseArrears {
+  amount: number                            // 未払いの合計額
+  sinceDay: number                          // 最初に支払えなかった日
+}
+
+// キャラクターの定期支出の状態（滞納・退去）
+export interface ExpenseState {
+  arrears: Record<string, ExpenseArrears>   // 支出ID → 滞納
+  evictedMapIds?: string[]                  // 退去したマップ（所有施設を使えない）
+  cancelledExpenseIds?: string[]            // 滞納で解約されたキャラクター自身の支出（以後請求しない）
+}
+
+// 定期支出の設定（world-config.json expenses セクション）
+export interface ExpensesConfig {
+  overdueMoodPenalty: number                // 滞納がある日の日替わりごとの気分の低下
+  evictionOverdueDays: number               // この日数滞納すると施設の支出は退去、キャラクターの支出は解約
+}
+
+// 定期支出の状態（表示・LLMに提示用）
+export interface RecurringExpenseStatus {
+  id: string
+  label: string
+  amount: number
+  intervalDays: number
+  nextDueDay: number                        // 次の支払日
+  overdueAmount: number                     // 滞納額（なければ 0）
+  overdueDays: number                       // 滞納日数（なければ 0）
+  mapId?: string                            // 施設の支出の場合は施設のマップ（滞納が続くと退去）
+}
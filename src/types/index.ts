@@ -9,3 +9,8 @@ export * from './schedule'
 export * from './behavior'
 export * from './conversation'
 export * from './activityLog'
+export * from './calendar'
+export * from './item'
+export * from './skill'
+export * from './transaction'
+export * from './expense'
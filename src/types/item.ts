@@ -0,0 +1,38 @@
+import type { CharacterStats } from './action'
+
+// アイテムの種類
+export type ItemCategory = 'food' | 'drink' | 'gift'
+
+// アイテム定義（world-config.json items セクション）
+export interface ItemConfig {
+  name: string                              // "おにぎり"
+  category: ItemCategory
+  price: number                             // 基準価格（販売価格は施設の catalog で設定）
+  emoji?: string
+  effects?: Partial<Omit<CharacterStats, 'money'>>  // 消費時の効果（食べ物・飲み物）
+  consumeMinutes?: number                   // 消費にかかる時間（分、デフォルト: 10）
+  maxStack?: number                         // 最大所持数（デフォルト: 99）
+}
+
+// 所持品（アイテムIDごとのスタック）
+export interface InventoryItem {
+  itemId: string
+  quantity: number
+}
+
+// 施設のカタログ（商品・メニュー）の項目
+// itemId がある項目は buy で購入する商品、ない項目は施設のアクション（eat等）で注文するメニュー
+export interface CatalogEntry {
+  id: string                                // 施設内で一意のID（注文時に指定）
+  name: string                              // "日替わり定食"
+  price: number                             // 価格
+  quality?: number                          // 品質（0-100）
+  itemId?: string                           // 購入すると所持品に追加されるアイテムID
+  effects?: Partial<Omit<CharacterStats, 'money'>>  // メニューの追加効果（アクション完了時に適用）
+}
+
+// 支払いの記録（アクティビティログに表示）
+export interface Receipt {
+  label: string                             // 支払い内容（カタログ項目名、または "利用料"）
+  price: number
+}
@@ -1,3 +1,5 @@
+import type { SkillRequirement } from './skill'
+
 // 施設に紐づく仕事情報
 export interface JobInfo {
   jobId: string
@@ -7,6 +9,23 @@ export interface JobInfo {
     start: number          // 0-23
     end: number            // 0-23
   }
+  skipHolidays?: boolean   // 休日（祝日・休日扱いの曜日）は働けない
+  skill?: string           // 仕事で経験値が入るスキル（レベルに応じて時給が上がる）
+  requiredSkill?: SkillRequirement  // 働くのに必要なスキルレベル
+  openings?: number        // 雇用できる人数（省略時は無制限）
+  payday?: PaydaySchedule  // 給料日（省略時は shift）
+  attendance?: AttendancePolicy  // 勤怠の条件（省略時は減給・解雇なし）
+}
+
+// 給料日
+// shift: 勤務終了時に支払い, daily: 毎日の日替わりに支払い, weekly: 日数が7で割り切れる日の日替わりに支払い
+export type PaydaySchedule = 'shift' | 'daily' | 'weekly'
+
+// 勤怠の条件（休日以外の日が勤務日）
+export interface AttendancePolicy {
+  expectedHours: number        // 勤務日の所定労働時間
+  dockPerMissingHour?: number  // 不足1時間あたりの減給（未払い給与から、足りなければ所持金から差し引く）
+  fireAfterAbsences?: number   // この日数連続で欠勤（勤務0時間）すると解雇
 }
 
 // 仕事場の位置情報
@@ -20,3 +39,56 @@ export interface Employment {
   jobId: string
   workplaces: Workplace[]  // 勤務可能な場所（複数対応）
 }
+
+// 求人（maps.json の施設の JobInfo を jobId ごとにまとめたもの）
+export interface JobPosting extends JobInfo {
+  workplaces: Workplace[]  // この仕事ができる施設
+}
+
+// 求人の状態（キャラクターから見た）
+// employed: 雇用中, offered: 内定あり（入社できる）, open: 募集中, full: 募集人数に達している
+export type JobStatus = 'employed' | 'offered' | 'open' | 'full'
+
+// 求人掲示板の項目（行動決定用）
+export interface JobBoardEntry extends JobPosting {
+  status: JobStatus
+  remainingOpenings: number | null  // 残りの募集人数（無制限は null）
+  requiredSkillLabel?: string       // 必要スキルの表示（"料理 Lv1"）
+  meetsRequirement: boolean         // 必要スキルを満たしているか
+}
+
+// 仕事ごとの給与・勤怠の状態
+export interface JobPayroll {
+  pendingWage: number          // 給料日前の未払い給与
+  day: number                  // hoursWorked を数えている日
+  hoursWorked: number          // その日の勤務時間
+  consecutiveAbsences: number  // 連続欠勤日数
+  startDay?: number            // 勤怠を数え始める日（入社の翌日、省略時は雇用の初日から）
+}
+
+// キャラクターの給与・勤怠（jobId → 状態）
+export type PayrollState = Record<string, JobPayroll>
+
+// 勤怠記録（attendance テーブルの1行、勤務日の終わりに記録）
+export interface AttendanceRecord {
+  characterId: string
+  jobId: string
+  day: number
+  hoursWorked: number
+  expectedHours: number | null  // 所定労働時間（勤怠の条件がなければ null）
+  docked: number                // 減給額
+  absent: boolean               // 欠勤（勤務0時間）
+}
+
+// 給与・勤怠の状態（表示・LLMに提示用）
+export interface PayrollSummary {
+  jobId: string
+  title: string
+  payday: PaydaySchedule
+  nextPayday: number | null     // 次の給料日（shift は null）
+  pendingWage: number
+  hoursWorkedToday: number
+  expectedHours: number | null
+  consecutiveAbsences: number
+  fireAfterAbsences: number | null
+}
@@ -1,5 +1,9 @@
 import type { NPCConfigJson } from './npc'
 import type { JobInfo } from './job'
+import type { CatalogEntry } from './item'
+import type { Weekday } from './calendar'
+import type { EffectPerMinute } from './action'
+import type { RecurringExpense } from './expense'
 
 export type NodeType = 'waypoint' | 'entrance' | 'spawn'
 
@@ -19,8 +23,8 @@ export interface PathNode {
 export type ObstacleType = 'building' | 'zone'
 export type WallSide = 'top' | 'bottom' | 'left' | 'right'
 
-// Facility types for action locations
-export type FacilityTag =
+// Built-in facility types for action locations
+export type BuiltinFacilityTag =
   | 'bathroom'
   | 'kitchen'
   | 'bedroom'
@@ -30,13 +34,40 @@ export type FacilityTag =
   | 'hotspring'
   | 'hotel'
   | 'public'
+  | 'shop'
+
+// Facility tag (built-in or registered in world-config.json facilityTags section)
+export type FacilityTag = BuiltinFacilityTag | (string & {})
+
+// 時間帯（"HH:MM" 形式、end <= start は日付をまたぐ）
+export interface TimeRange {
+  start: string
+  end: string
+}
+
+// 営業時間（start/end が基本、days で曜日ごとに上書き。null は定休日）
+export interface OpenHours extends TimeRange {
+  days?: Partial<Record<Weekday, TimeRange | null>>
+}
 
 export interface FacilityInfo {
   tags: FacilityTag[]
   owner?: string      // 所有者ID
-  cost?: number       // 利用料金
+  cost?: number       // 利用料金（catalog がない場合の一律料金）
   quality?: number    // 品質（0-100）
   job?: JobInfo       // 仕事情報（workspace施設用）
+  outdoor?: boolean   // 屋外施設（天候の影響を受ける）
+  catalog?: CatalogEntry[]  // 商品・メニュー（項目ごとの価格・品質・効果）
+  capacity?: number   // 定員（同時に利用できる人数、未指定は無制限）
+  openHours?: OpenHours  // 営業時間（未指定は24時間営業）
+  actionEffects?: Record<string, FacilityActionEffects>  // アクションID → この施設での効果の上書き
+  expenses?: RecurringExpense[]  // 所有者が支払う定期支出（家賃・光熱費など）
+}
+
+// 施設ごとのアクション効果の上書き（アクション設定の値をステータス単位で上書きする）
+export interface FacilityActionEffects {
+  perMinute?: EffectPerMinute  // 可変時間アクションの分あたりの効果
+  effects?: EffectPerMinute    // 固定時間アクションの完了時の効果
 }
 
 export interface DoorConfig {
@@ -0,0 +1,35 @@
+import type { FacilityTag } from './map'
+
+// スキル定義（world-config.json skills セクションの definitions）
+export interface SkillDefinition {
+  label: string                             // "料理"
+  actions?: string[]                        // 経験値が入るアクション（work は JobInfo.skill で指定）
+  facilityTags?: FacilityTag[]              // 指定時はこのタグの施設で実行した場合のみ経験値が入る
+}
+
+// スキル設定（world-config.json skills セクション）
+export interface SkillsConfig {
+  definitions: Record<string, SkillDefinition>
+  experiencePerLevel: number                // 1レベル上がるのに必要な経験値（実行時間の分数）
+  maxLevel: number
+  wageBonusPerLevel: number                 // 仕事のスキル1レベルあたりの時給の増加率（0.05 = +5%）
+  effectBonusPerLevel: number               // スキル1レベルあたりの回復効果の増加率
+}
+
+// キャラクターのスキル（スキルID → 経験値）
+export type CharacterSkills = Record<string, number>
+
+// スキルの必要レベル（仕事の応募・就業条件）
+export interface SkillRequirement {
+  skill: string
+  level: number
+}
+
+// スキルの状態（表示・LLMに提示用）
+export interface SkillSummary {
+  id: string
+  label: string
+  level: number
+  experience: number
+  nextLevelExperience: number | null        // 次のレベルに必要な経験値（最大レベルなら null）
+}
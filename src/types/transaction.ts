@@ -0,0 +1,24 @@
+// 取引の種類
+// payment: 施設の利用料・メニュー・商品の支払い, wage: 仕事の給与, bill: 定期支出（家賃・光熱費など）, other: アクションの所持金効果など
+export type TransactionCategory = 'payment' | 'wage' | 'bill' | 'other'
+
+// 所持金の取引（transactions テーブルの1行）
+export interface Transaction {
+  id?: number
+  characterId: string
+  day: number
+  time: string                              // "HH:MM"
+  amount: number                            // 収入は正、支出は負
+  balanceAfter: number                      // 取引後の所持金
+  category: TransactionCategory
+  reason: string                            // "ランチセット", "利用料", "給与（フリーライター）", "家賃"
+  facilityId?: string
+  jobId?: string
+}
+
+// 1日の収支
+export interface DailyMoneySummary {
+  day: number
+  income: number                            // 収入の合計
+  expense: number                           // 支出の合計（正の値）
+}
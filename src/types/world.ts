@@ -10,3 +10,15 @@ export interface TransitionState {
   toMapId: string | null
   progress: number
 }
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter'
+
+export type WeatherType = 'sunny' | 'cloudy' | 'rainy' | 'snowy'
+
+// その日の天候（日付ごとに決定）
+export interface WorldWeather {
+  day: number
+  season: Season
+  weather: WeatherType
+  temperature: number  // 気温（℃）
+}